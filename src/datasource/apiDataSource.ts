@@ -1,4 +1,13 @@
-import type { Caption, CreateVideoInput, DataSource, Video, VideoId } from './types'
+import type {
+  Caption,
+  CaptionStyleProfile,
+  CaptionTimecodeSettings,
+  CreateVideoInput,
+  DataSource,
+  Video,
+  VideoId,
+  WaveformPeakPyramid,
+} from './types'
 import type { VideoMetadataPatch } from './types';
 
 
@@ -34,6 +43,28 @@ export function createApiDataSource(): DataSource {
       throw new Error('API datasource not implemented yet')
     },
 
+    async getCaptionStyleProfile(_videoId: VideoId): Promise<CaptionStyleProfile | null> {
+      void _videoId
+      throw new Error('API datasource not implemented yet')
+    },
+
+    async saveCaptionStyleProfile(_videoId: VideoId, _profile: CaptionStyleProfile): Promise<void> {
+      void _videoId
+      void _profile
+      throw new Error('API datasource not implemented yet')
+    },
+
+    async getCaptionTimecodeSettings(_videoId: VideoId): Promise<CaptionTimecodeSettings | null> {
+      void _videoId
+      throw new Error('API datasource not implemented yet')
+    },
+
+    async saveCaptionTimecodeSettings(_videoId: VideoId, _settings: CaptionTimecodeSettings): Promise<void> {
+      void _videoId
+      void _settings
+      throw new Error('API datasource not implemented yet')
+    },
+
     async putVideoBlob(_videoId: VideoId, _blob: Blob): Promise<void> {
       void _videoId
       void _blob
@@ -56,6 +87,17 @@ export function createApiDataSource(): DataSource {
       throw new Error('API datasource not implemented yet')
     },
 
+    async getWaveformPeaks(_videoId: VideoId): Promise<WaveformPeakPyramid | null> {
+      void _videoId
+      throw new Error('API datasource not implemented yet')
+    },
+
+    async saveWaveformPeaks(_videoId: VideoId, _pyramid: WaveformPeakPyramid): Promise<void> {
+      void _videoId
+      void _pyramid
+      throw new Error('API datasource not implemented yet')
+    },
+
     async updateVideoMetadata(_id: string, _patch: VideoMetadataPatch): Promise<void> {
       void _id;
       void _patch;
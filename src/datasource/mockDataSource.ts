@@ -1,9 +1,18 @@
-import { getCaptions as loadCaptions, saveCaptions as persistCaptions } from '@/lib/captionStore'
+import {
+  getCaptionStyleProfile as loadCaptionStyleProfile,
+  getCaptionTimecodeSettings as loadCaptionTimecodeSettings,
+  getCaptions as loadCaptions,
+  saveCaptionStyleProfile as persistCaptionStyleProfile,
+  saveCaptionTimecodeSettings as persistCaptionTimecodeSettings,
+  saveCaptions as persistCaptions,
+} from '@/lib/captionStore'
 import {
   deleteVideoAssets,
   getThumbnailBlob as getStoredThumbnail,
+  getPeakPyramid,
   getVideoBlob as getStoredVideo,
   listVideoRecords,
+  savePeakPyramid,
   saveThumbnailBlob,
   saveVideoBlob,
   saveVideoRecord,
@@ -11,7 +20,16 @@ import {
 
 import { seededVideos } from './fixtures'
 
-import type { Caption, CreateVideoInput, DataSource, Video, VideoId } from './types'
+import type {
+  Caption,
+  CaptionStyleProfile,
+  CaptionTimecodeSettings,
+  CreateVideoInput,
+  DataSource,
+  Video,
+  VideoId,
+  WaveformPeakPyramid,
+} from './types'
 
 export function createMockDataSource(): DataSource {
   const videosById = new Map<VideoId, Video>()
@@ -112,6 +130,22 @@ export function createMockDataSource(): DataSource {
       await persistCaptions(videoId, captions)
     },
 
+    async getCaptionStyleProfile(videoId: VideoId): Promise<CaptionStyleProfile | null> {
+      return loadCaptionStyleProfile(videoId)
+    },
+
+    async saveCaptionStyleProfile(videoId: VideoId, profile: CaptionStyleProfile): Promise<void> {
+      await persistCaptionStyleProfile(videoId, profile)
+    },
+
+    async getCaptionTimecodeSettings(videoId: VideoId): Promise<CaptionTimecodeSettings | null> {
+      return loadCaptionTimecodeSettings(videoId)
+    },
+
+    async saveCaptionTimecodeSettings(videoId: VideoId, settings: CaptionTimecodeSettings): Promise<void> {
+      await persistCaptionTimecodeSettings(videoId, settings)
+    },
+
     async putVideoBlob(videoId: VideoId, blob: Blob): Promise<void> {
       await ensureHydrated()
       videoBlobKeyById.set(videoId, videoId)
@@ -140,5 +174,19 @@ export function createMockDataSource(): DataSource {
       const stored = await getStoredThumbnail(blobKey)
       return stored?.blob ?? null
     },
+
+    async getWaveformPeaks(videoId: VideoId): Promise<WaveformPeakPyramid | null> {
+      await ensureHydrated()
+      const blobKey = videoBlobKeyById.get(videoId) ?? videoId
+      const stored = await getPeakPyramid(blobKey)
+      if (!stored) return null
+      return { durationMs: stored.durationMs, sampleRate: stored.sampleRate, levels: stored.levels }
+    },
+
+    async saveWaveformPeaks(videoId: VideoId, pyramid: WaveformPeakPyramid): Promise<void> {
+      await ensureHydrated()
+      const blobKey = videoBlobKeyById.get(videoId) ?? videoId
+      await savePeakPyramid(blobKey, pyramid)
+    },
   }
 }
@@ -17,6 +17,48 @@ export type Caption = {
   text: string
 }
 
+export type CaptionRuleThreshold = {
+  warning: number | null
+  error: number | null
+}
+
+// 영상마다 자막과 함께 저장하는 스타일 가이드 프로필. 시간 간격(gapMs)은 자동 정렬에 쓰고,
+// 최소 간격 규칙은 프레임 단위라 영상의 타임코드 프레임레이트로 ms를 구한다.
+export type CaptionStyleProfile = {
+  id: string
+  name: string
+  gapMs: number
+  maxCps: CaptionRuleThreshold
+  // 분당 단어 수. 한국어는 띄어쓰기 단위(어절)로 센다.
+  maxWpm: CaptionRuleThreshold
+  maxCharsPerLine: CaptionRuleThreshold
+  maxLines: CaptionRuleThreshold
+  minDurationMs: CaptionRuleThreshold
+  maxDurationMs: CaptionRuleThreshold
+  minGapFrames: CaptionRuleThreshold
+  // 정규식 문자 클래스 안에 들어갈 허용 문자 목록. null이면 검사하지 않는다.
+  allowedChars: string | null
+}
+
+// 영상마다 저장하는 타임코드 설정. 자막 시간은 늘 ms로 저장하고, 화면에서만 타임코드로 보여준다.
+// frameRate는 영상 하나에 하나뿐인 프레임레이트로, 품질 규칙과 프레임레이트 변환도 이 값을 쓴다.
+export type CaptionTimecodeSettings = {
+  frameRate: number
+  // 29.97·59.94에서만 의미가 있다.
+  dropFrame: boolean
+  format: 'frames' | 'milliseconds'
+  // 켜면 입력한 시간을 가장 가까운 프레임 경계로 맞춰 저장한다.
+  snapToFrames: boolean
+}
+
+// 영상 blob마다 저장하는 파형 피크 피라미드. 다시 열 때 디코딩 없이 개요 파형을 바로 그린다.
+export type WaveformPeakPyramid = {
+  durationMs: number
+  sampleRate: number
+  // 해상도별 [min, max] 쌍(Int16)
+  levels: { bucketCount: number; peaks: Int16Array }[]
+}
+
 export type CreateVideoInput = {
   title: string
   id?: VideoId
@@ -36,11 +78,18 @@ export type DataSource = {
 
   listCaptions(videoId: VideoId): Promise<Caption[]>
   saveCaptions(videoId: VideoId, captions: Caption[]): Promise<void>
+  getCaptionStyleProfile(videoId: VideoId): Promise<CaptionStyleProfile | null>
+  saveCaptionStyleProfile(videoId: VideoId, profile: CaptionStyleProfile): Promise<void>
+  getCaptionTimecodeSettings(videoId: VideoId): Promise<CaptionTimecodeSettings | null>
+  saveCaptionTimecodeSettings(videoId: VideoId, settings: CaptionTimecodeSettings): Promise<void>
 
   putVideoBlob(videoId: VideoId, blob: Blob): Promise<void>
   getVideoBlob(videoId: VideoId): Promise<Blob | null>
   putThumbBlob(videoId: VideoId, blob: Blob): Promise<void>
   getThumbBlob(videoId: VideoId): Promise<Blob | null>
+  // 영상 blob이 바뀌면 저장된 피크는 버려지고 null을 돌려준다.
+  getWaveformPeaks(videoId: VideoId): Promise<WaveformPeakPyramid | null>
+  saveWaveformPeaks(videoId: VideoId, pyramid: WaveformPeakPyramid): Promise<void>
 
   updateVideoMetadata(id: VideoId, patch: VideoMetadataPatch): Promise<void>;
 }
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest'
+
+import { captionsToAss, createDefaultAssStyle, cssColorToAss, escapeAssText } from './captionAss'
+
+describe('ASS export', () => {
+  it('converts CSS colors to &HAABBGGRR with inverted alpha', () => {
+    expect(cssColorToAss('#FF8000')).toBe('&H000080FF')
+    expect(cssColorToAss('#00000080')).toBe('&H7F000000')
+    expect(cssColorToAss('12abef')).toBe('&H00EFAB12')
+    expect(() => cssColorToAss('red')).toThrow('ASS 색상')
+  })
+
+  it('keeps literal backslash sequences and braces as plain text', () => {
+    expect(escapeAssText('첫 줄  \r\n둘째 줄')).toBe('첫 줄\\N둘째 줄')
+    expect(escapeAssText('C:\\new\\Hello \\h')).toBe('C:\\\u2060new\\Hello \\\u2060h')
+    expect(escapeAssText('{\\i1}기울임{}')).toBe('\\{\\i1\\}기울임\\{\\}')
+    expect(escapeAssText('끝\\\n다음')).toBe('끝\\\\N다음')
+  })
+
+  it('writes script info, styles and one dialogue line per caption', () => {
+    const ass = captionsToAss(
+      [
+        { id: 'b', startMs: 61_234, endMs: 3_723_450, text: '둘째, 자막' },
+        { id: 'a', startMs: 0, endMs: 1500, text: '첫 자막' },
+        { id: 'c', startMs: 5000, endMs: 6000, text: '   ' },
+      ],
+      {
+        title: '제목\n두 줄',
+        playResX: 1920,
+        playResY: 1080,
+        styles: [createDefaultAssStyle(1080), { ...createDefaultAssStyle(1080), name: 'Top', alignment: 8 }],
+        getStyleName: (caption) => (caption.id === 'b' ? 'Top' : 'Missing'),
+      },
+    )
+    const [scriptInfo, styles, events] = ass.trimEnd().split('\r\n\r\n')
+
+    expect(ass.endsWith('\r\n')).toBe(true)
+    expect(scriptInfo).toContain('Title: 제목 두 줄')
+    expect(scriptInfo).toContain('PlayResX: 1920\r\nPlayResY: 1080')
+    expect(styles?.split('\r\n')[2]).toBe(
+      'Style: Default,Noto Sans KR,60,&H00FFFFFF,&H000000FF,&H22000000,&H22000000,0,0,0,0,100,100,0,0,1,4,0,2,38,38,120,1',
+    )
+    expect(styles?.split('\r\n')[3]).toContain('Style: Top,')
+    expect(events?.split('\r\n').slice(2)).toEqual([
+      'Dialogue: 0,0:00:00.00,0:00:01.50,Default,,0,0,0,,첫 자막',
+      'Dialogue: 0,0:01:01.23,1:02:03.45,Top,,0,0,0,,둘째, 자막',
+    ])
+  })
+})
@@ -0,0 +1,228 @@
+import type { Caption } from '@/datasource/types'
+
+import { getExportableCaptions } from './captionIO'
+
+export type AssStyle = {
+  name: string
+  fontName: string
+  fontSize: number
+  // '#RRGGBB' 또는 '#RRGGBBAA'(CSS 규칙, AA=FF가 불투명)
+  primaryColor: string
+  secondaryColor: string
+  outlineColor: string
+  backColor: string
+  bold: boolean
+  italic: boolean
+  underline: boolean
+  strikeOut: boolean
+  scaleX: number
+  scaleY: number
+  spacing: number
+  angle: number
+  borderStyle: 1 | 3
+  outline: number
+  shadow: number
+  // 키패드 배치(1~9). 2 = 하단 중앙
+  alignment: number
+  marginL: number
+  marginR: number
+  marginV: number
+  encoding: number
+}
+
+export type AssDocumentOptions = {
+  title?: string
+  playResX?: number
+  playResY?: number
+  styles?: AssStyle[]
+  getStyleName?: (caption: Caption) => string
+}
+
+// libass가 PlayRes 없이 SRT를 렌더링할 때 쓰는 기준 해상도
+const ASS_BASE_PLAY_RES_X = 384
+const ASS_BASE_PLAY_RES_Y = 288
+
+const ASS_STYLE_FORMAT = [
+  'Name',
+  'Fontname',
+  'Fontsize',
+  'PrimaryColour',
+  'SecondaryColour',
+  'OutlineColour',
+  'BackColour',
+  'Bold',
+  'Italic',
+  'Underline',
+  'StrikeOut',
+  'ScaleX',
+  'ScaleY',
+  'Spacing',
+  'Angle',
+  'BorderStyle',
+  'Outline',
+  'Shadow',
+  'Alignment',
+  'MarginL',
+  'MarginR',
+  'MarginV',
+  'Encoding',
+]
+
+const ASS_EVENT_FORMAT = ['Layer', 'Start', 'End', 'Style', 'Name', 'MarginL', 'MarginR', 'MarginV', 'Effect', 'Text']
+
+export function createDefaultAssStyle(playResY = ASS_BASE_PLAY_RES_Y): AssStyle {
+  const scale = playResY / ASS_BASE_PLAY_RES_Y
+
+  return {
+    name: 'Default',
+    fontName: 'Noto Sans KR',
+    fontSize: Math.round(16 * scale),
+    primaryColor: '#FFFFFF',
+    secondaryColor: '#FF0000',
+    outlineColor: '#000000DD',
+    backColor: '#000000DD',
+    bold: false,
+    italic: false,
+    underline: false,
+    strikeOut: false,
+    scaleX: 100,
+    scaleY: 100,
+    spacing: 0,
+    angle: 0,
+    borderStyle: 1,
+    outline: Math.max(1, Math.round(scale)),
+    shadow: 0,
+    alignment: 2,
+    marginL: Math.round(10 * scale),
+    marginR: Math.round(10 * scale),
+    marginV: Math.round(32 * scale),
+    encoding: 1,
+  }
+}
+
+export function cssColorToAss(color: string) {
+  const match = /^#?([0-9a-f]{6})([0-9a-f]{2})?$/i.exec(color.trim())
+  if (!match) throw new Error(`ASS 색상 형식이 올바르지 않아요. (${color})`)
+
+  const rgb = match[1] ?? '000000'
+  const cssAlpha = match[2] ? parseInt(match[2], 16) : 255
+  const assAlpha = (255 - cssAlpha).toString(16).padStart(2, '0')
+  const [r, g, b] = [rgb.slice(0, 2), rgb.slice(2, 4), rgb.slice(4, 6)]
+
+  return `&H${assAlpha}${b}${g}${r}`.toUpperCase()
+}
+
+function formatAssTimestamp(ms: number) {
+  const centis = Math.max(0, Math.round(ms / 10))
+  const hours = Math.floor(centis / 360_000)
+  const minutes = Math.floor((centis % 360_000) / 6000)
+  const seconds = Math.floor((centis % 6000) / 100)
+  const cs = centis % 100
+
+  return `${hours}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}.${String(cs).padStart(2, '0')}`
+}
+
+function sanitizeAssField(value: string) {
+  // 필드 구분자(,)와 줄바꿈이 들어가면 줄 전체가 깨진다.
+  return value.replace(/[\r\n,]/g, ' ').trim()
+}
+
+function formatAssNumber(value: number) {
+  return Number.isInteger(value) ? String(value) : value.toFixed(2).replace(/0+$/, '').replace(/\.$/, '')
+}
+
+function formatAssStyleLine(style: AssStyle) {
+  const flag = (value: boolean) => (value ? '-1' : '0')
+  const values = [
+    sanitizeAssField(style.name),
+    sanitizeAssField(style.fontName),
+    formatAssNumber(style.fontSize),
+    cssColorToAss(style.primaryColor),
+    cssColorToAss(style.secondaryColor),
+    cssColorToAss(style.outlineColor),
+    cssColorToAss(style.backColor),
+    flag(style.bold),
+    flag(style.italic),
+    flag(style.underline),
+    flag(style.strikeOut),
+    formatAssNumber(style.scaleX),
+    formatAssNumber(style.scaleY),
+    formatAssNumber(style.spacing),
+    formatAssNumber(style.angle),
+    String(style.borderStyle),
+    formatAssNumber(style.outline),
+    formatAssNumber(style.shadow),
+    String(Math.min(9, Math.max(1, Math.round(style.alignment)))),
+    String(Math.round(style.marginL)),
+    String(Math.round(style.marginR)),
+    String(Math.round(style.marginV)),
+    String(style.encoding),
+  ]
+
+  return `Style: ${values.join(',')}`
+}
+
+// 백슬래시 뒤에 이 문자가 오면 libass가 줄바꿈·공백·중괄호 이스케이프로 읽는다.
+const ASS_ESCAPE_TRIGGER = /\\(?=[Nnh{}])/g
+
+export function escapeAssText(text: string) {
+  // 글자 그대로의 \N, \h 등은 백슬래시 뒤에 WORD JOINER(U+2060)를 넣어 이스케이프로 읽히지 않게 하고,
+  // 중괄호는 override 태그로 해석되지 않도록 libass 이스케이프(\{, \})로 쓴다.
+  return text
+    .replace(/\r\n?|\n/g, '\n')
+    .split('\n')
+    .map((line) => line.replace(/\s+$/g, ''))
+    .join('\n')
+    .replace(ASS_ESCAPE_TRIGGER, '\\\u2060')
+    .replace(/[{}]/g, (brace) => `\\${brace}`)
+    .replace(/\n/g, '\\N')
+}
+
+export function captionsToAss(captions: Caption[], options: AssDocumentOptions = {}): string {
+  const playResX = Math.round(options.playResX ?? ASS_BASE_PLAY_RES_X)
+  const playResY = Math.round(options.playResY ?? ASS_BASE_PLAY_RES_Y)
+  const styles = options.styles?.length ? options.styles : [createDefaultAssStyle(playResY)]
+  const styleNames = new Set(styles.map((style) => sanitizeAssField(style.name)))
+  const fallbackStyleName = sanitizeAssField(styles[0]?.name ?? 'Default')
+
+  const validCaptions = getExportableCaptions(captions)
+
+  const scriptInfo = [
+    '[Script Info]',
+    `Title: ${(options.title ?? '').replace(/[\r\n]+/g, ' ').trim() || 'captions'}`,
+    'ScriptType: v4.00+',
+    'WrapStyle: 0',
+    'ScaledBorderAndShadow: yes',
+    'YCbCr Matrix: None',
+    `PlayResX: ${playResX}`,
+    `PlayResY: ${playResY}`,
+  ]
+
+  const styleSection = [
+    '[V4+ Styles]',
+    `Format: ${ASS_STYLE_FORMAT.join(', ')}`,
+    ...styles.map(formatAssStyleLine),
+  ]
+
+  const events = validCaptions.map((caption) => {
+    const requested = options.getStyleName ? sanitizeAssField(options.getStyleName(caption)) : fallbackStyleName
+    const styleName = styleNames.has(requested) ? requested : fallbackStyleName
+    const fields = [
+      '0',
+      formatAssTimestamp(caption.startMs),
+      formatAssTimestamp(caption.endMs),
+      styleName,
+      '',
+      '0',
+      '0',
+      '0',
+      '',
+      escapeAssText(caption.text),
+    ]
+    return `Dialogue: ${fields.join(',')}`
+  })
+
+  const eventSection = ['[Events]', `Format: ${ASS_EVENT_FORMAT.join(', ')}`, ...events]
+
+  return `${[scriptInfo, styleSection, eventSection].map((section) => section.join('\r\n')).join('\r\n\r\n')}\r\n`
+}
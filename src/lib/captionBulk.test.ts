@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest'
+
+import type { Caption } from '@/datasource/types'
+
+import { findCaptionOrderIssues, scaleCaptions, shiftCaptions, snapCaptionsToGap } from './captionBulk'
+
+const captions: Caption[] = [
+  { id: 'a', startMs: 0, endMs: 1000, text: 'A' },
+  { id: 'b', startMs: 1500, endMs: 2500, text: 'B' },
+  { id: 'c', startMs: 3000, endMs: 4000, text: 'C' },
+]
+
+describe('caption bulk timing', () => {
+  it('shifts and scales only the selected captions', () => {
+    const selected = new Set(['b', 'c'])
+    expect(shiftCaptions(captions, selected, 250).map((c) => [c.startMs, c.endMs])).toEqual([
+      [0, 1000],
+      [1750, 2750],
+      [3250, 4250],
+    ])
+    expect(scaleCaptions(captions, selected, 1.5, 1500).map((c) => [c.startMs, c.endMs])).toEqual([
+      [0, 1000],
+      [1500, 3000],
+      [3750, 5250],
+    ])
+  })
+
+  it('snaps selected captions to the gap rule without pushing neighbours', () => {
+    const tight: Caption[] = [
+      { id: 'a', startMs: 0, endMs: 1000, text: 'A' },
+      { id: 'b', startMs: 900, endMs: 2000, text: 'B' },
+      { id: 'c', startMs: 2050, endMs: 3000, text: 'C' },
+    ]
+    expect(snapCaptionsToGap(tight, new Set(['b']), 100)).toEqual([
+      tight[0],
+      { id: 'b', startMs: 1100, endMs: 1950, text: 'B' },
+      tight[2],
+    ])
+  })
+
+  it('reports overlaps, skipped neighbours and narrow gaps for the selection', () => {
+    const selected = new Set(['a'])
+    const shifted = shiftCaptions(captions, selected, 2200)
+    expect(findCaptionOrderIssues(shifted, selected, 100, captions)).toEqual([
+      { captionId: 'a', startMs: 2200, message: '다른 자막을 건너뛰어 순서가 바뀌어요.', blocking: true },
+      { captionId: 'a', startMs: 2200, message: '앞 자막과 300ms 겹쳐요.', blocking: true },
+      { captionId: 'c', startMs: 3000, message: '앞 자막과 200ms 겹쳐요.', blocking: true },
+    ])
+    expect(findCaptionOrderIssues(shiftCaptions(captions, selected, 450), selected, 100)).toEqual([
+      { captionId: 'b', startMs: 1500, message: '앞 자막과 간격이 100ms보다 좁아요.', blocking: false },
+    ])
+    expect(findCaptionOrderIssues(shiftCaptions(captions, selected, -10), selected, 0)[0]?.blocking).toBe(true)
+  })
+})
@@ -0,0 +1,112 @@
+import type { Caption } from '@/datasource/types'
+
+export type CaptionOrderIssue = {
+  captionId: string
+  startMs: number
+  message: string
+  // 겹침·음수 시간처럼 자동 정렬로 고칠 수 없는 문제
+  blocking: boolean
+}
+
+function sortByStart(captions: Caption[]) {
+  return [...captions].sort((a, b) => {
+    const aStart = Number.isFinite(a.startMs) ? a.startMs : Number.POSITIVE_INFINITY
+    const bStart = Number.isFinite(b.startMs) ? b.startMs : Number.POSITIVE_INFINITY
+    return aStart - bStart
+  })
+}
+
+function mapSelected(captions: Caption[], ids: ReadonlySet<string>, update: (caption: Caption) => Caption) {
+  return captions.map((caption) => (ids.has(caption.id) ? update(caption) : caption))
+}
+
+export function shiftCaptions(captions: Caption[], ids: ReadonlySet<string>, deltaMs: number) {
+  const delta = Math.round(deltaMs)
+  if (!Number.isFinite(delta) || delta === 0) return captions
+  return mapSelected(captions, ids, (caption) => ({
+    ...caption,
+    startMs: caption.startMs + delta,
+    endMs: caption.endMs + delta,
+  }))
+}
+
+// anchorMs는 그대로 두고, 나머지 시각은 anchor로부터의 거리를 factor배 한다.
+export function scaleCaptions(captions: Caption[], ids: ReadonlySet<string>, factor: number, anchorMs: number) {
+  if (!Number.isFinite(factor) || factor <= 0 || factor === 1 || !Number.isFinite(anchorMs)) return captions
+  const scale = (ms: number) => Math.round(anchorMs + (ms - anchorMs) * factor)
+  return mapSelected(captions, ids, (caption) => ({
+    ...caption,
+    startMs: scale(caption.startMs),
+    endMs: scale(caption.endMs),
+  }))
+}
+
+// autoAlignCaptions와 같은 최소 간격 규칙을 선택한 자막에만 적용한다.
+// 뒤 자막을 밀어내지 않도록 시작은 앞 자막 끝+간격 뒤로, 끝은 다음 자막 시작-간격 앞으로 맞춘다.
+export function snapCaptionsToGap(captions: Caption[], ids: ReadonlySet<string>, gapMs: number) {
+  const sorted = sortByStart(captions)
+  const snapped = new Map<string, Caption>()
+
+  sorted.forEach((caption, index) => {
+    if (!ids.has(caption.id)) return
+    if (!Number.isFinite(caption.startMs) || !Number.isFinite(caption.endMs)) return
+
+    const prev = index > 0 ? (snapped.get(sorted[index - 1]?.id ?? '') ?? sorted[index - 1]) : undefined
+    const next = sorted[index + 1]
+    let { startMs, endMs } = caption
+
+    if (prev && Number.isFinite(prev.endMs) && startMs < prev.endMs + gapMs) {
+      startMs = prev.endMs + gapMs
+    }
+    if (next && Number.isFinite(next.startMs) && endMs > next.startMs - gapMs) {
+      endMs = next.startMs - gapMs
+    }
+    if (endMs <= startMs) return
+
+    snapped.set(caption.id, { ...caption, startMs, endMs })
+  })
+
+  return captions.map((caption) => snapped.get(caption.id) ?? caption)
+}
+
+// 선택한 자막이 시간 순서에서 이웃 자막과 겹치거나 뒤섞이지 않는지 검사한다.
+// previous를 주면 일괄 편집 전과 비교해 다른 자막을 건너뛴 자막도 찾는다.
+export function findCaptionOrderIssues(
+  captions: Caption[],
+  ids: ReadonlySet<string>,
+  gapMs: number,
+  previous?: Caption[],
+): CaptionOrderIssue[] {
+  const issues: CaptionOrderIssue[] = []
+  const sorted = sortByStart(captions)
+  const previousRanks = new Map(sortByStart(previous ?? []).map((caption, index) => [caption.id, index]))
+
+  sorted.forEach((caption, index) => {
+    const isSelected = ids.has(caption.id)
+    const push = (message: string, blocking: boolean) =>
+      issues.push({ captionId: caption.id, startMs: caption.startMs, message, blocking })
+
+    if (!Number.isFinite(caption.startMs) || !Number.isFinite(caption.endMs)) {
+      if (isSelected) push('시작 또는 종료 시간이 비어 있어요.', true)
+      return
+    }
+    if (isSelected && caption.startMs < 0) push('시작 시간이 0초보다 앞이에요.', true)
+    if (isSelected && caption.endMs <= caption.startMs) push('종료 시간이 시작 시간보다 앞이에요.', true)
+    const previousRank = previousRanks.get(caption.id)
+    if (isSelected && previousRank !== undefined && previousRank !== index) {
+      push('다른 자막을 건너뛰어 순서가 바뀌어요.', true)
+    }
+
+    const prev = sorted[index - 1]
+    if (!prev || !Number.isFinite(prev.endMs)) return
+    if (!isSelected && !ids.has(prev.id)) return
+
+    if (caption.startMs < prev.endMs) {
+      push(`앞 자막과 ${prev.endMs - caption.startMs}ms 겹쳐요.`, true)
+    } else if (caption.startMs - prev.endMs < gapMs) {
+      push(`앞 자막과 간격이 ${gapMs}ms보다 좁아요.`, false)
+    }
+  })
+
+  return issues
+}
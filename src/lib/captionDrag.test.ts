@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest'
+
+import type { Caption } from '@/datasource/types'
+
+import { applyCaptionDrag, getCaptionSnapTargets, hitTestCaptionBlocks } from './captionDrag'
+
+const captions: Caption[] = [
+  { id: 'a', startMs: 0, endMs: 1000, text: '하나' },
+  { id: 'b', startMs: 2000, endMs: 3000, text: '둘' },
+  { id: 'c', startMs: 5000, endMs: 6000, text: '셋' },
+]
+
+const options = { snapThresholdMs: 100, minDurationMs: 100, maxMs: 10_000 }
+
+describe('caption drag', () => {
+  it('picks edges before the block body', () => {
+    expect(hitTestCaptionBlocks(captions, 2030, 50)).toEqual({ captionId: 'b', mode: 'start' })
+    expect(hitTestCaptionBlocks(captions, 2990, 50)).toEqual({ captionId: 'b', mode: 'end' })
+    expect(hitTestCaptionBlocks(captions, 2500, 50)).toEqual({ captionId: 'b', mode: 'move' })
+    expect(hitTestCaptionBlocks(captions, 4000, 50)).toBeNull()
+  })
+
+  it('snaps moved blocks to neighbours and the playhead', () => {
+    const snapTargets = getCaptionSnapTargets(captions, 'b', 4480, 10)
+    const b = { startMs: 2000, endMs: 3000 }
+
+    // 끝이 다음 자막 시작 - 간격에 붙는다.
+    expect(applyCaptionDrag(b, 'move', 1950, { ...options, snapTargets })).toEqual({
+      startMs: 3990,
+      endMs: 4990,
+      snappedMs: 4990,
+    })
+    // 시작이 재생 위치에 붙는다.
+    expect(applyCaptionDrag(b, 'move', 2450, { ...options, snapTargets })).toEqual({
+      startMs: 4480,
+      endMs: 5480,
+      snappedMs: 4480,
+    })
+    expect(applyCaptionDrag(b, 'move', 1500, { ...options, snapTargets: null })).toEqual({
+      startMs: 3500,
+      endMs: 4500,
+      snappedMs: null,
+    })
+  })
+
+  it('retimes one edge while keeping the minimum duration', () => {
+    const snapTargets = getCaptionSnapTargets(captions, 'b', null, 10)
+    const b = { startMs: 2000, endMs: 3000 }
+
+    expect(applyCaptionDrag(b, 'start', -960, { ...options, snapTargets })).toEqual({
+      startMs: 1010,
+      endMs: 3000,
+      snappedMs: 1010,
+    })
+    expect(applyCaptionDrag(b, 'start', 5000, { ...options, snapTargets })).toMatchObject({ startMs: 2900 })
+    expect(applyCaptionDrag(b, 'end', -2000, { ...options, snapTargets: null })).toMatchObject({ endMs: 2100 })
+  })
+})
@@ -0,0 +1,136 @@
+import type { Caption } from '@/datasource/types'
+
+// move: 블록 전체를 옮긴다. start/end: 한쪽 가장자리만 옮겨 시간을 다시 맞춘다.
+export type CaptionDragMode = 'move' | 'start' | 'end'
+
+export type CaptionDragHit = {
+  captionId: string
+  mode: CaptionDragMode
+}
+
+export type CaptionSnapTargets = {
+  // 시작 가장자리가 붙을 수 있는 시각
+  start: number[]
+  // 끝 가장자리가 붙을 수 있는 시각
+  end: number[]
+}
+
+export type CaptionDragOptions = {
+  snapTargets: CaptionSnapTargets | null
+  snapThresholdMs: number
+  minDurationMs: number
+  maxMs: number
+}
+
+export type CaptionDragResult = {
+  startMs: number
+  endMs: number
+  // 붙은 시각. 붙지 않았으면 null
+  snappedMs: number | null
+}
+
+function hasValidTimes(caption: Caption) {
+  return Number.isFinite(caption.startMs) && Number.isFinite(caption.endMs) && caption.endMs > caption.startMs
+}
+
+// 가장자리 근처(edgeToleranceMs 이내)를 먼저 잡고, 그다음 블록 안쪽을 잡는다.
+// 블록이 겹쳐 있으면 나중에 시작하는 자막이 위에 그려지므로 그쪽을 고른다.
+export function hitTestCaptionBlocks(captions: Caption[], ms: number, edgeToleranceMs: number): CaptionDragHit | null {
+  let best: (CaptionDragHit & { distance: number }) | null = null
+  let inside: Caption | null = null
+
+  for (const caption of captions) {
+    if (!hasValidTimes(caption)) continue
+    // 짧은 블록에서도 옮기기 영역이 남도록 허용 범위를 길이의 1/3로 줄인다.
+    const tolerance = Math.min(edgeToleranceMs, (caption.endMs - caption.startMs) / 3)
+    const startDistance = Math.abs(ms - caption.startMs)
+    const endDistance = Math.abs(ms - caption.endMs)
+    if (startDistance <= tolerance && (!best || startDistance < best.distance)) {
+      best = { captionId: caption.id, mode: 'start', distance: startDistance }
+    }
+    if (endDistance <= tolerance && (!best || endDistance < best.distance)) {
+      best = { captionId: caption.id, mode: 'end', distance: endDistance }
+    }
+    if (ms >= caption.startMs && ms <= caption.endMs && (!inside || caption.startMs >= inside.startMs)) {
+      inside = caption
+    }
+  }
+
+  if (best) return { captionId: best.captionId, mode: best.mode }
+  return inside ? { captionId: inside.id, mode: 'move' } : null
+}
+
+// 다른 자막의 가장자리(간격 gapMs를 둔 자리 포함)와 재생 위치를 붙을 자리로 쓴다.
+export function getCaptionSnapTargets(
+  captions: Caption[],
+  captionId: string,
+  playheadMs: number | null,
+  gapMs: number,
+): CaptionSnapTargets {
+  const start: number[] = []
+  const end: number[] = []
+  for (const caption of captions) {
+    if (caption.id === captionId || !hasValidTimes(caption)) continue
+    start.push(caption.endMs + gapMs, caption.startMs)
+    end.push(caption.startMs - gapMs, caption.endMs)
+  }
+  if (playheadMs !== null && Number.isFinite(playheadMs)) {
+    start.push(Math.round(playheadMs))
+    end.push(Math.round(playheadMs))
+  }
+  return { start, end }
+}
+
+function findSnap(ms: number, targets: number[], thresholdMs: number) {
+  let snapped: number | null = null
+  for (const target of targets) {
+    const distance = Math.abs(target - ms)
+    if (distance <= thresholdMs && (snapped === null || distance < Math.abs(snapped - ms))) snapped = target
+  }
+  return snapped
+}
+
+export function applyCaptionDrag(
+  original: Pick<Caption, 'startMs' | 'endMs'>,
+  mode: CaptionDragMode,
+  deltaMs: number,
+  { snapTargets, snapThresholdMs, minDurationMs, maxMs }: CaptionDragOptions,
+): CaptionDragResult {
+  const duration = original.endMs - original.startMs
+  const minDuration = Math.min(Math.max(1, minDurationMs), duration)
+
+  if (mode === 'move') {
+    let startMs = original.startMs + deltaMs
+    let snappedMs: number | null = null
+    if (snapTargets) {
+      const startSnap = findSnap(startMs, snapTargets.start, snapThresholdMs)
+      const endSnap = findSnap(startMs + duration, snapTargets.end, snapThresholdMs)
+      const useStart =
+        startSnap !== null && (endSnap === null || Math.abs(startSnap - startMs) <= Math.abs(endSnap - startMs - duration))
+      if (useStart) {
+        startMs = startSnap
+        snappedMs = startSnap
+      } else if (endSnap !== null) {
+        startMs = endSnap - duration
+        snappedMs = endSnap
+      }
+    }
+    const clamped = Math.round(Math.min(Math.max(0, startMs), Math.max(0, maxMs - duration)))
+    if (clamped !== Math.round(startMs)) snappedMs = null
+    return { startMs: clamped, endMs: clamped + duration, snappedMs }
+  }
+
+  if (mode === 'start') {
+    let startMs = original.startMs + deltaMs
+    const snap = snapTargets ? findSnap(startMs, snapTargets.start, snapThresholdMs) : null
+    if (snap !== null) startMs = snap
+    const clamped = Math.round(Math.min(Math.max(0, startMs), original.endMs - minDuration))
+    return { startMs: clamped, endMs: original.endMs, snappedMs: snap !== null && clamped === snap ? snap : null }
+  }
+
+  let endMs = original.endMs + deltaMs
+  const snap = snapTargets ? findSnap(endMs, snapTargets.end, snapThresholdMs) : null
+  if (snap !== null) endMs = snap
+  const clamped = Math.round(Math.max(Math.min(maxMs, endMs), original.startMs + minDuration))
+  return { startMs: original.startMs, endMs: clamped, snappedMs: snap !== null && clamped === snap ? snap : null }
+}
@@ -0,0 +1,362 @@
+import { describe, expect, it } from 'vitest'
+
+import type { Caption } from '@/datasource/types'
+
+import {
+  captionsToSbv,
+  captionsToSheet,
+  captionsToSrt,
+  captionsToTranscript,
+  captionsToVtt,
+  CAPTION_JSON_SCHEMA_VERSION,
+  decodeTextFileBytes,
+  mergeCaptionsFromSheet,
+  parseCaptionJsonDocument,
+  parseCaptionsFromSrt,
+  parseCaptionsFromVtt,
+  parseVtt,
+  serializeCaptionsToJson,
+  serializeVtt,
+} from './captionIO'
+
+function createIdFactory() {
+  let seq = 0
+  return () => `generated_${++seq}`
+}
+
+describe('WebVTT', () => {
+  it('serializes captions with header, identifiers and escaped text', () => {
+    const captions: Caption[] = [
+      { id: 'b', startMs: 3_723_004, endMs: 3_724_500, text: 'Tom & Jerry <3' },
+      { id: 'a', startMs: 0, endMs: 1500, text: '첫 줄\n\n둘째 줄' },
+      { id: 'blank', startMs: 2000, endMs: 2500, text: '   ' },
+    ]
+
+    expect(captionsToVtt(captions)).toBe(
+      [
+        'WEBVTT',
+        '',
+        'a',
+        '00:00:00.000 --> 00:00:01.500',
+        '첫 줄',
+        '둘째 줄',
+        '',
+        'b',
+        '01:02:03.004 --> 01:02:04.500',
+        'Tom &amp; Jerry &lt;3',
+        '',
+      ].join('\n'),
+    )
+  })
+
+  it('parses notes, identifiers, settings and short timestamps', () => {
+    const text = [
+      '\uFEFFWEBVTT - sample',
+      'Kind: captions',
+      '',
+      'NOTE 번역 검수 필요',
+      '',
+      'STYLE',
+      '::cue { color: yellow }',
+      '',
+      'intro',
+      '00:01.000 --> 00:02.500 line:90% position:50% align:center size:80% bogus:1',
+      '<v Narrator>Hello</v> &amp; welcome',
+      '',
+      '01:00:00.000 --> 01:00:01.000',
+      'Second',
+      'line',
+    ].join('\r\n')
+
+    const document = parseVtt(text)
+
+    expect(document.header).toBe('- sample')
+    expect(document.notes).toEqual(['번역 검수 필요'])
+    expect(document.cues).toEqual([
+      {
+        identifier: 'intro',
+        startMs: 1000,
+        endMs: 2500,
+        text: '<v Narrator>Hello</v> &amp; welcome',
+        settings: { line: '90%', position: '50%', align: 'center', size: '80%' },
+      },
+      {
+        identifier: undefined,
+        startMs: 3_600_000,
+        endMs: 3_601_000,
+        text: 'Second\nline',
+        settings: {},
+      },
+    ])
+  })
+
+  it('round-trips a document through serializeVtt and parseVtt', () => {
+    const document = {
+      header: '',
+      notes: ['first\nsecond'],
+      cues: [
+        {
+          identifier: 'cue-1',
+          startMs: 500,
+          endMs: 1500,
+          text: 'Hi',
+          settings: { align: 'start' as const, line: '0' },
+        },
+      ],
+    }
+
+    expect(parseVtt(serializeVtt(document))).toEqual(document)
+  })
+
+  it('maps cues to captions with plain text and unique ids', () => {
+    const text = [
+      'WEBVTT',
+      '',
+      'dup',
+      '00:00:00.000 --> 00:00:01.000',
+      '<i>A</i> &lt;tag&gt;',
+      '',
+      'dup',
+      '00:00:01.000 --> 00:00:02.000',
+      'B',
+      '',
+      '00:00:02.000 --> 00:00:03.000',
+      'C',
+    ].join('\n')
+
+    expect(parseCaptionsFromVtt(text, createIdFactory())).toEqual([
+      { id: 'dup', startMs: 0, endMs: 1000, text: 'A <tag>' },
+      { id: 'generated_1', startMs: 1000, endMs: 2000, text: 'B' },
+      { id: 'generated_2', startMs: 2000, endMs: 3000, text: 'C' },
+    ])
+  })
+
+  it('rejects files without a header or with malformed timestamps', () => {
+    expect(() => parseVtt('00:00.000 --> 00:01.000\nA')).toThrow('WEBVTT')
+    expect(() => parseVtt('WEBVTT\n\n00:00,000 --> 00:01.000\nA')).toThrow('타임스탬프')
+  })
+})
+
+describe('SRT import', () => {
+  it('round-trips captions produced by captionsToSrt without warnings', () => {
+    const captions: Caption[] = [
+      { id: 'a', startMs: 0, endMs: 1200, text: '안녕하세요' },
+      { id: 'b', startMs: 1500, endMs: 3_601_001, text: 'two\nlines' },
+    ]
+
+    const result = parseCaptionsFromSrt(captionsToSrt(captions), createIdFactory())
+
+    expect(result.warnings).toEqual([])
+    expect(result.captions).toEqual([
+      { id: 'generated_1', startMs: 0, endMs: 1200, text: '안녕하세요' },
+      { id: 'generated_2', startMs: 1500, endMs: 3_601_001, text: 'two\nlines' },
+    ])
+  })
+
+  it('recovers from BOM, mixed newlines, missing indices, dots and tags', () => {
+    const text = [
+      '\uFEFF1',
+      '00:00:01.5 --> 00:00:02,000',
+      '<i>Hello</i>\r',
+      '00:00:03,000 --> 00:00:04,000',
+      'No index',
+      '',
+      '7',
+      '00:00:05,000 --> 00:00:06,000',
+      '{\\an8}Top',
+      '',
+    ].join('\n')
+
+    const result = parseCaptionsFromSrt(text, createIdFactory())
+
+    expect(result.captions.map(({ startMs, endMs, text: value }) => [startMs, endMs, value])).toEqual([
+      [1500, 2000, 'Hello'],
+      [3000, 4000, 'No index'],
+      [5000, 6000, 'Top'],
+    ])
+    expect(result.warnings).toEqual([
+      { line: 2, message: expect.stringContaining('표준') },
+      { line: 3, message: expect.stringContaining('태그') },
+      { line: 4, message: expect.stringContaining('번호 줄') },
+      { line: 7, message: expect.stringContaining('순서') },
+      { line: 9, message: expect.stringContaining('태그') },
+    ])
+  })
+
+  it('skips invalid cues and stray lines with warnings', () => {
+    const text = [
+      'stray header',
+      '',
+      '1',
+      '00:00:05,000 --> 00:00:04,000',
+      'Backwards',
+      '',
+      '2',
+      '00:00:06,000 --> 00:00:07,000',
+      '',
+      '3',
+      '00:00:08,000 --> 00:00:09,000',
+      'Kept',
+    ].join('\n')
+
+    const result = parseCaptionsFromSrt(text, createIdFactory())
+
+    expect(result.captions).toEqual([{ id: 'generated_1', startMs: 8000, endMs: 9000, text: 'Kept' }])
+    expect(result.warnings.map((warning) => warning.line)).toEqual([1, 4, 8])
+  })
+
+  it('throws when nothing can be recovered', () => {
+    expect(() => parseCaptionsFromSrt('just text', createIdFactory())).toThrow('SRT')
+  })
+})
+
+describe('CSV/TSV sheet', () => {
+  const captions: Caption[] = [
+    { id: 'a', startMs: 0, endMs: 1500, text: '- 안녕, "친구"\n둘째 줄' },
+    { id: 'b', startMs: 2000, endMs: 3000, text: 'Bye' },
+  ]
+
+  it('round-trips quoted, multi-line and formula-like text', () => {
+    const csv = captionsToSheet(captions, { extraColumns: ['translation'] })
+
+    expect(csv.split('\r\n')[0]).toBe('\uFEFFid,start,end,duration,text,translation')
+    expect(csv).toContain('a,00:00:00.000,00:00:01.500,1.500,"\'- 안녕, ""친구""\n둘째 줄",')
+
+    const result = mergeCaptionsFromSheet(captions, csv)
+    expect(result.warnings).toEqual([])
+    expect(result.updatedCount).toBe(0)
+    expect(result.captions).toEqual(captions)
+  })
+
+  it('merges translated text by id and keeps timing', () => {
+    const tsv = [
+      'id\tstart\tend\ttext\ttranslation',
+      'b\t00:00:02.000\t00:00:03.500\tBye\t잘 가',
+      'a\t00:00:00.000\t00:00:01.500\t안녕\t',
+      'zzz\t00:00:09.000\t00:00:10.000\tGhost\t유령',
+      '\t\t\tNo id\t',
+      'a\t\t\tagain\t',
+    ].join('\n')
+
+    const result = mergeCaptionsFromSheet(captions, tsv)
+
+    expect(result.captions).toEqual([
+      { id: 'a', startMs: 0, endMs: 1500, text: '안녕' },
+      { id: 'b', startMs: 2000, endMs: 3000, text: '잘 가' },
+    ])
+    expect(result.updatedCount).toBe(2)
+    expect(result.warnings).toEqual([
+      { line: 2, message: expect.stringContaining('기존 시간을 유지') },
+      { line: 4, message: expect.stringContaining('zzz') },
+      { line: 5, message: expect.stringContaining('id가 비어') },
+      { line: 6, message: expect.stringContaining('같은 id') },
+    ])
+  })
+
+  it('reports broken characters and rejects sheets without matching ids', () => {
+    const result = mergeCaptionsFromSheet(captions, 'id,text\na,\uFFFD\uFFFD\nb,ì•ˆë…•')
+
+    expect(result.captions).toEqual(captions)
+    expect(result.warnings.map((warning) => warning.line)).toEqual([2, 3])
+    expect(() => mergeCaptionsFromSheet(captions, 'id,text\nx,y')).toThrow('id')
+    expect(() => mergeCaptionsFromSheet(captions, 'name,value\na,b')).toThrow('id와 text')
+  })
+
+  it('decodes UTF-16 and falls back to EUC-KR for legacy spreadsheets', () => {
+    expect(decodeTextFileBytes(new Uint8Array([0xff, 0xfe, 0x41, 0x00]).buffer)).toEqual({
+      text: 'A',
+      encoding: 'utf-16le',
+    })
+    expect(decodeTextFileBytes(new Uint8Array([0xbe, 0xc8, 0xb3, 0xe7]).buffer)).toEqual({
+      text: '안녕',
+      encoding: 'euc-kr',
+    })
+  })
+})
+
+describe('SBV and transcript', () => {
+  const captions: Caption[] = [
+    { id: 'c', startMs: 3_725_000, endMs: 3_726_000, text: '마지막' },
+    { id: 'a', startMs: 1000, endMs: 2500, text: '첫 문장\n\n이어서' },
+    { id: 'b', startMs: 3000, endMs: 4000, text: '같은 문단' },
+  ]
+
+  it('writes SBV blocks with unpadded hours', () => {
+    expect(captionsToSbv(captions)).toBe(
+      [
+        '0:00:01.000,0:00:02.500',
+        '첫 문장',
+        '이어서',
+        '',
+        '0:00:03.000,0:00:04.000',
+        '같은 문단',
+        '',
+        '1:02:05.000,1:02:06.000',
+        '마지막',
+        '',
+      ].join('\n'),
+    )
+  })
+
+  it('groups captions into paragraphs by gap with optional timestamps', () => {
+    expect(captionsToTranscript(captions)).toBe('첫 문장 이어서 같은 문단\n\n마지막\n')
+    expect(captionsToTranscript(captions, { includeTimestamps: true, paragraphGapMs: 0 })).toBe(
+      '[00:00:01] 첫 문장 이어서\n\n[00:00:03] 같은 문단\n\n[01:02:05] 마지막\n',
+    )
+  })
+})
+
+describe('caption JSON schema', () => {
+  it('writes a versioned document with metadata and reads it back', () => {
+    const json = serializeCaptionsToJson(
+      [
+        { id: 'b', startMs: 2000, endMs: 3000, text: 'B' },
+        { id: 'a', startMs: 0, endMs: 1000, text: 'A' },
+      ],
+      {
+        appVersion: '1.2.0',
+        exportedAt: new Date(Date.UTC(2024, 4, 1)),
+        video: { id: 'v1', title: '데모', createdAt: 0, durationMs: 5000 },
+        trim: { startMs: 1000, endMs: 4000, applied: true },
+      },
+    )
+
+    expect(parseCaptionJsonDocument(json, createIdFactory())).toEqual({
+      schemaVersion: CAPTION_JSON_SCHEMA_VERSION,
+      appVersion: '1.2.0',
+      exportedAt: '2024-05-01T00:00:00.000Z',
+      video: { id: 'v1', title: '데모', durationMs: 5000, width: null, height: null },
+      trim: { startMs: 1000, endMs: 4000, applied: true },
+      captions: [
+        { id: 'a', startMs: 0, endMs: 1000, text: 'A' },
+        { id: 'b', startMs: 2000, endMs: 3000, text: 'B' },
+      ],
+    })
+  })
+
+  it('migrates unversioned documents and bare arrays', () => {
+    const legacy = { captions: [{ startMs: 0, endMs: 1000, text: 'old' }] }
+    const expected = {
+      schemaVersion: CAPTION_JSON_SCHEMA_VERSION,
+      appVersion: null,
+      exportedAt: null,
+      video: null,
+      trim: null,
+      captions: [{ id: 'generated_1', startMs: 0, endMs: 1000, text: 'old' }],
+    }
+
+    expect(parseCaptionJsonDocument(JSON.stringify(legacy), createIdFactory())).toEqual(expected)
+    expect(parseCaptionJsonDocument(JSON.stringify(legacy.captions), createIdFactory())).toEqual(expected)
+  })
+
+  it('rejects documents from a newer schema version', () => {
+    const future = JSON.stringify({ schemaVersion: CAPTION_JSON_SCHEMA_VERSION + 1, captions: [] })
+
+    expect(() => parseCaptionJsonDocument(future, createIdFactory())).toThrow(
+      `스키마 v${CAPTION_JSON_SCHEMA_VERSION + 1}`,
+    )
+    expect(() => parseCaptionJsonDocument('{"schemaVersion":"2","captions":[]}', createIdFactory())).toThrow(
+      'schemaVersion',
+    )
+  })
+})
@@ -1,6 +1,6 @@
-import type { Caption } from '@/datasource/types'
+import type { Caption, Video } from '@/datasource/types'
 
-function formatTimecode(ms: number) {
+function formatTimecode(ms: number, separator = ',') {
   const clamped = Math.max(0, Math.floor(ms))
   const hours = Math.floor(clamped / 3_600_000)
   const minutes = Math.floor((clamped % 3_600_000) / 60_000)
@@ -12,15 +12,19 @@ function formatTimecode(ms: number) {
   const ss = String(seconds).padStart(2, '0')
   const mmm = String(millis).padStart(3, '0')
 
-  return `${hh}:${mm}:${ss},${mmm}`
+  return `${hh}:${mm}:${ss}${separator}${mmm}`
 }
 
-export function captionsToSrt(captions: Caption[]): string {
-  const validCaptions = captions
+export function getExportableCaptions(captions: Caption[]) {
+  return captions
     .filter((caption) => Number.isFinite(caption.startMs) && Number.isFinite(caption.endMs))
     .filter((caption) => caption.startMs < caption.endMs)
     .filter((caption) => caption.text.trim() !== '')
     .sort((a, b) => a.startMs - b.startMs)
+}
+
+export function captionsToSrt(captions: Caption[]): string {
+  const validCaptions = getExportableCaptions(captions)
 
   const segments = validCaptions.map((caption, index) => {
     const safeTextLines = caption.text
@@ -42,9 +46,484 @@ export function captionsToSrt(captions: Caption[]): string {
   return `${segments.join('\r\n\r\n')}\r\n`
 }
 
-export function serializeCaptionsToJson(captions: Caption[]): string {
+function formatSbvTimestamp(ms: number) {
+  // YouTube SBV는 시(時)를 자리 맞춤 없이 쓴다. 예: 0:01:02.500
+  return formatTimecode(ms, '.').replace(/^0(\d)/, '$1')
+}
+
+export function captionsToSbv(captions: Caption[]): string {
+  const segments = getExportableCaptions(captions).map((caption) => {
+    // 빈 줄은 블록 구분자라 본문에서 뺀다.
+    const lines = caption.text
+      .replace(/\r\n?/g, '\n')
+      .split('\n')
+      .map((line) => line.trim())
+      .filter(Boolean)
+    return [`${formatSbvTimestamp(caption.startMs)},${formatSbvTimestamp(caption.endMs)}`, ...lines].join('\n')
+  })
+
+  if (segments.length === 0) return ''
+  return `${segments.join('\n\n')}\n`
+}
+
+export type TranscriptOptions = {
+  includeTimestamps?: boolean
+  // 앞 자막 끝과 다음 자막 시작 사이가 이보다 길면 문단을 나눈다.
+  paragraphGapMs?: number
+}
+
+export const DEFAULT_TRANSCRIPT_PARAGRAPH_GAP_MS = 2000
+
+export function captionsToTranscript(captions: Caption[], options: TranscriptOptions = {}): string {
+  const paragraphGapMs = options.paragraphGapMs ?? DEFAULT_TRANSCRIPT_PARAGRAPH_GAP_MS
+  const paragraphs: { startMs: number; texts: string[] }[] = []
+  let previousEndMs = -Infinity
+
+  for (const caption of getExportableCaptions(captions)) {
+    const text = caption.text.replace(/\s+/g, ' ').trim()
+    const current = paragraphs[paragraphs.length - 1]
+    if (!current || caption.startMs - previousEndMs > paragraphGapMs) {
+      paragraphs.push({ startMs: caption.startMs, texts: [text] })
+    } else {
+      current.texts.push(text)
+    }
+    previousEndMs = Math.max(previousEndMs, caption.endMs)
+  }
+
+  if (paragraphs.length === 0) return ''
+
+  const body = paragraphs.map(({ startMs, texts }) => {
+    const paragraph = texts.join(' ')
+    return options.includeTimestamps ? `[${formatTimecode(startMs, '.').slice(0, 8)}] ${paragraph}` : paragraph
+  })
+  return `${body.join('\n\n')}\n`
+}
+
+export type CaptionImportWarning = {
+  line: number
+  message: string
+}
+
+export type CaptionImportResult = {
+  captions: Caption[]
+  warnings: CaptionImportWarning[]
+}
+
+export type CaptionExportWarning = {
+  captionId: string
+  startMs: number
+  message: string
+}
+
+const SRT_TIMESTAMP = String.raw`(?:(\d{1,2})\s*:\s*)?(\d{1,2})\s*:\s*(\d{1,2})\s*(?:([,.:])\s*(\d{1,3}))?`
+const SRT_TIMING_PATTERN = new RegExp(`^\\s*${SRT_TIMESTAMP}\\s*-{1,2}>\\s*${SRT_TIMESTAMP}(?:\\s+.*)?$`)
+const SRT_INDEX_PATTERN = /^\s*\d+\s*$/
+
+function toSrtMs(groups: (string | undefined)[], offset: number) {
+  const hours = Number(groups[offset] ?? 0)
+  const minutes = Number(groups[offset + 1])
+  const seconds = Number(groups[offset + 2])
+  const fraction = groups[offset + 4] ?? ''
+  // "1,5"처럼 자릿수가 모자란 밀리초는 소수점 이하로 해석한다.
+  const millis = fraction ? Number(fraction.padEnd(3, '0')) : 0
+  return { ms: hours * 3_600_000 + minutes * 60_000 + seconds * 1000 + millis, minutes, seconds }
+}
+
+function stripSrtMarkup(text: string) {
+  return text
+    .replace(/<\/?[a-zA-Z][^>]*>/g, '')
+    .replace(/\{\\[^}]*\}/g, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, '\u00A0')
+    .replace(/&amp;/g, '&')
+}
+
+export function parseCaptionsFromSrt(srtText: string, fallbackId: () => string): CaptionImportResult {
+  const lines = srtText.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split('\n')
+  const warnings: CaptionImportWarning[] = []
+  const captions: Caption[] = []
+  const warn = (lineIndex: number, message: string) => warnings.push({ line: lineIndex + 1, message })
+
+  const isTimingLine = (index: number) => SRT_TIMING_PATTERN.test(lines[index] ?? '')
+  // 빈 줄 없이 다음 cue가 바로 이어지는 경우(번호 + 시간 줄)를 감지한다.
+  const isNextCueStart = (index: number) =>
+    isTimingLine(index) || (SRT_INDEX_PATTERN.test(lines[index] ?? '') && isTimingLine(index + 1))
+
+  let expectedIndex = 1
+  let index = 0
+
+  while (index < lines.length) {
+    const line = lines[index] ?? ''
+
+    if (line.trim() === '') {
+      index += 1
+      continue
+    }
+
+    let timingIndex = index
+    if (SRT_INDEX_PATTERN.test(line) && isTimingLine(index + 1)) {
+      const cueNumber = Number(line.trim())
+      if (cueNumber !== expectedIndex) {
+        warn(index, `자막 번호가 순서와 달라요. (기대값 ${expectedIndex}, 실제 ${cueNumber})`)
+      }
+      timingIndex = index + 1
+    } else if (isTimingLine(index)) {
+      warn(index, '자막 번호 줄이 없어요.')
+    } else {
+      const skippedFrom = index
+      while (index < lines.length && (lines[index] ?? '').trim() !== '' && !isNextCueStart(index)) {
+        index += 1
+      }
+      warn(skippedFrom, '시간 정보가 없는 줄을 건너뛰었어요.')
+      continue
+    }
+
+    const timingLine = lines[timingIndex] ?? ''
+    const match = SRT_TIMING_PATTERN.exec(timingLine)
+    const groups = match ? match.slice(1) : []
+    const start = toSrtMs(groups, 0)
+    const end = toSrtMs(groups, 5)
+
+    const isStandardTiming =
+      Boolean(groups[0] && groups[5] && groups[4] && groups[9]) && groups[3] === ',' && groups[8] === ','
+    if (!isStandardTiming) {
+      warn(timingIndex, '시간 형식이 표준(HH:MM:SS,mmm)과 달라서 보정했어요.')
+    }
+
+    const textLines: string[] = []
+    index = timingIndex + 1
+    while (index < lines.length && (lines[index] ?? '').trim() !== '' && !isNextCueStart(index)) {
+      textLines.push((lines[index] ?? '').replace(/\s+$/g, ''))
+      index += 1
+    }
+
+    expectedIndex += 1
+
+    if (start.minutes > 59 || start.seconds > 59 || end.minutes > 59 || end.seconds > 59) {
+      warn(timingIndex, '분/초 값이 범위를 벗어나 이 자막을 건너뛰었어요.')
+      continue
+    }
+
+    if (start.ms >= end.ms) {
+      warn(timingIndex, '종료 시간이 시작 시간보다 빠르거나 같아서 이 자막을 건너뛰었어요.')
+      continue
+    }
+
+    const rawText = textLines.join('\n')
+    const text = stripSrtMarkup(rawText)
+    if (text !== rawText) {
+      warn(timingIndex + 1, '서식 태그를 제거했어요.')
+    }
+
+    if (!text.trim()) {
+      warn(timingIndex, '내용이 비어 있는 자막을 건너뛰었어요.')
+      continue
+    }
+
+    captions.push({ id: fallbackId(), startMs: start.ms, endMs: end.ms, text })
+  }
+
+  if (captions.length === 0) {
+    throw new Error('SRT에서 읽을 수 있는 자막을 찾지 못했어요.')
+  }
+
+  return { captions, warnings }
+}
+
+export type VttCueSettings = {
+  line?: string
+  position?: string
+  align?: 'start' | 'center' | 'end' | 'left' | 'right'
+  size?: string
+}
+
+export type VttCue = {
+  identifier?: string
+  startMs: number
+  endMs: number
+  // 원본 cue payload(태그/엔티티 포함). 일반 텍스트는 vttCueTextToPlain으로 얻는다.
+  text: string
+  settings: VttCueSettings
+}
+
+export type VttDocument = {
+  header: string
+  notes: string[]
+  cues: VttCue[]
+}
+
+const VTT_ALIGN_VALUES = new Set<VttCueSettings['align']>(['start', 'center', 'end', 'left', 'right'])
+const VTT_TIMESTAMP_PATTERN = /^(?:(\d{1,}):)?(\d{2}):(\d{2})\.(\d{3})$/
+
+function parseVttTimestamp(raw: string): number | null {
+  const match = VTT_TIMESTAMP_PATTERN.exec(raw.trim())
+  if (!match) return null
+
+  const hours = match[1] ? Number(match[1]) : 0
+  const minutes = Number(match[2])
+  const seconds = Number(match[3])
+  const millis = Number(match[4])
+  if (minutes > 59 || seconds > 59) return null
+
+  return hours * 3_600_000 + minutes * 60_000 + seconds * 1000 + millis
+}
+
+function parseVttCueSettings(raw: string): VttCueSettings {
+  const settings: VttCueSettings = {}
+
+  for (const token of raw.split(/[ \t]+/)) {
+    const separatorIndex = token.indexOf(':')
+    if (separatorIndex <= 0) continue
+    const name = token.slice(0, separatorIndex)
+    const value = token.slice(separatorIndex + 1)
+    if (!value) continue
+
+    if (name === 'line' || name === 'position' || name === 'size') {
+      settings[name] = value
+    } else if (name === 'align' && VTT_ALIGN_VALUES.has(value as VttCueSettings['align'])) {
+      settings.align = value as VttCueSettings['align']
+    }
+  }
+
+  return settings
+}
+
+function formatVttCueSettings(settings: VttCueSettings) {
+  const parts: string[] = []
+  if (settings.line) parts.push(`line:${settings.line}`)
+  if (settings.position) parts.push(`position:${settings.position}`)
+  if (settings.align) parts.push(`align:${settings.align}`)
+  if (settings.size) parts.push(`size:${settings.size}`)
+  return parts.join(' ')
+}
+
+function escapeVttText(text: string) {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+export function vttCueTextToPlain(text: string) {
+  return text
+    .replace(/<[^>]*>/g, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, '\u00A0')
+    .replace(/&lrm;/g, '\u200E')
+    .replace(/&rlm;/g, '\u200F')
+    .replace(/&amp;/g, '&')
+}
+
+function toCueTextLines(text: string) {
+  // 빈 줄은 cue 종료로 해석되므로 payload 안에는 남기지 않는다.
+  return text
+    .replace(/\r\n?|\n/g, '\n')
+    .split('\n')
+    .map((line) => line.replace(/\s+$/g, ''))
+    .filter((line) => line !== '')
+}
+
+export function serializeVtt(document: VttDocument): string {
+  const header = document.header.replace(/\r\n?|\n/g, ' ').trim()
+  const blocks = [header ? `WEBVTT ${header}` : 'WEBVTT']
+
+  for (const note of document.notes) {
+    const lines = note
+      .replace(/\r\n?|\n/g, '\n')
+      .split('\n')
+      .map((line) => line.replace(/-->/g, '->'))
+      .filter((line) => line.trim() !== '')
+    if (lines.length === 0) continue
+    blocks.push(['NOTE', ...lines].join('\n'))
+  }
+
+  for (const cue of document.cues) {
+    const lines: string[] = []
+    const identifier = cue.identifier?.replace(/\r\n?|\n/g, ' ').trim()
+    if (identifier && !identifier.includes('-->')) lines.push(identifier)
+
+    const settings = formatVttCueSettings(cue.settings)
+    const timing = `${formatTimecode(cue.startMs, '.')} --> ${formatTimecode(cue.endMs, '.')}`
+    lines.push(settings ? `${timing} ${settings}` : timing)
+    lines.push(...toCueTextLines(cue.text))
+
+    blocks.push(lines.join('\n'))
+  }
+
+  return `${blocks.join('\n\n')}\n`
+}
+
+export function parseVtt(vttText: string): VttDocument {
+  const lines = vttText.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split('\n')
+  const firstLine = lines[0] ?? ''
+
+  if (!/^WEBVTT(?:[ \t]|$)/.test(firstLine)) {
+    throw new Error('WEBVTT 헤더가 없는 파일이에요.')
+  }
+
+  const document: VttDocument = {
+    header: firstLine.slice('WEBVTT'.length).trim(),
+    notes: [],
+    cues: [],
+  }
+
+  let index = 1
+  // 헤더 다음 첫 빈 줄까지는 메타데이터 헤더라 건너뛴다.
+  while (index < lines.length && (lines[index] ?? '').trim() !== '') index += 1
+
+  while (index < lines.length) {
+    while (index < lines.length && (lines[index] ?? '').trim() === '') index += 1
+    if (index >= lines.length) break
+
+    const block: string[] = []
+    while (index < lines.length && (lines[index] ?? '').trim() !== '') {
+      block.push(lines[index] ?? '')
+      index += 1
+    }
+
+    const [head = ''] = block
+
+    if (/^NOTE(?:[ \t]|$)/.test(head)) {
+      const inline = head.slice('NOTE'.length).trim()
+      const body = [inline, ...block.slice(1)].filter((line) => line !== '').join('\n')
+      document.notes.push(body)
+      continue
+    }
+
+    if (/^(STYLE|REGION)(?:[ \t]|$)/.test(head)) continue
+
+    const timingIndex = head.includes('-->') ? 0 : 1
+    const timingLine = block[timingIndex]
+    if (!timingLine || !timingLine.includes('-->')) {
+      throw new Error(`VTT cue의 시간 정보를 읽을 수 없어요. (${head})`)
+    }
+
+    const [rawStart = '', rest = ''] = timingLine.split('-->')
+    const [rawEnd = '', ...settingTokens] = rest.trim().split(/[ \t]+/)
+    const startMs = parseVttTimestamp(rawStart)
+    const endMs = parseVttTimestamp(rawEnd)
+
+    if (startMs === null || endMs === null) {
+      throw new Error(`VTT 타임스탬프 형식이 올바르지 않아요. (${timingLine.trim()})`)
+    }
+
+    document.cues.push({
+      identifier: timingIndex === 1 ? head.trim() : undefined,
+      startMs,
+      endMs,
+      text: block.slice(timingIndex + 1).join('\n'),
+      settings: parseVttCueSettings(settingTokens.join(' ')),
+    })
+  }
+
+  return document
+}
+
+export function captionsToVtt(captions: Caption[], options: { notes?: string[] } = {}): string {
+  const validCaptions = getExportableCaptions(captions)
+
+  return serializeVtt({
+    header: '',
+    notes: options.notes ?? [],
+    cues: validCaptions.map((caption) => ({
+      identifier: caption.id,
+      startMs: caption.startMs,
+      endMs: caption.endMs,
+      text: escapeVttText(caption.text),
+      settings: {},
+    })),
+  })
+}
+
+export function parseCaptionsFromVtt(vttText: string, fallbackId: () => string): Caption[] {
+  const { cues } = parseVtt(vttText)
+  const seenIds = new Set<string>()
+
+  return cues.map((cue) => {
+    if (cue.startMs >= cue.endMs) {
+      throw new Error('종료 시간은 시작 시간보다 커야 해요.')
+    }
+
+    const identifier = cue.identifier
+    const id = identifier && !seenIds.has(identifier) ? identifier : fallbackId()
+    seenIds.add(id)
+
+    return {
+      id,
+      startMs: cue.startMs,
+      endMs: cue.endMs,
+      text: vttCueTextToPlain(cue.text),
+    }
+  })
+}
+
+// 자막 JSON 문서 형식이 바뀔 때마다 올리고, CAPTION_JSON_MIGRATIONS에 이전 버전 변환을 추가한다.
+export const CAPTION_JSON_SCHEMA_VERSION = 2
+
+export type CaptionJsonVideoMetadata = {
+  id: string
+  title: string
+  durationMs: number | null
+  width: number | null
+  height: number | null
+}
+
+export type CaptionJsonTrim = {
+  startMs: number
+  endMs: number
+  // true면 captions 시간이 구간 시작 기준(0부터)으로 옮겨져 있다.
+  applied: boolean
+}
+
+export type CaptionJsonDocument = {
+  schemaVersion: number
+  appVersion: string | null
+  exportedAt: string | null
+  video: CaptionJsonVideoMetadata | null
+  trim: CaptionJsonTrim | null
+  captions: Caption[]
+}
+
+export type CaptionJsonMetadata = {
+  appVersion?: string | null
+  exportedAt?: Date
+  video?: Video | null
+  trim?: CaptionJsonTrim | null
+}
+
+type CaptionJsonRecord = Record<string, unknown>
+
+const CAPTION_JSON_MIGRATIONS: Record<number, (document: CaptionJsonRecord) => CaptionJsonRecord> = {
+  // v1: 버전 표시 없이 { captions } 또는 배열만 저장하던 형식
+  1: (document) => ({
+    schemaVersion: 2,
+    appVersion: null,
+    exportedAt: null,
+    video: null,
+    trim: null,
+    captions: document.captions,
+  }),
+}
+
+export function serializeCaptionsToJson(captions: Caption[], metadata: CaptionJsonMetadata = {}): string {
   const sorted = [...captions].sort((a, b) => a.startMs - b.startMs)
-  return JSON.stringify({ captions: sorted }, null, 2)
+  const { video } = metadata
+  const document: CaptionJsonDocument = {
+    schemaVersion: CAPTION_JSON_SCHEMA_VERSION,
+    appVersion: metadata.appVersion ?? null,
+    exportedAt: (metadata.exportedAt ?? new Date()).toISOString(),
+    video: video
+      ? {
+          id: video.id,
+          title: video.title,
+          durationMs: video.durationMs ?? null,
+          width: video.width ?? null,
+          height: video.height ?? null,
+        }
+      : null,
+    trim: metadata.trim ?? null,
+    captions: sorted,
+  }
+  return JSON.stringify(document, null, 2)
 }
 
 type CaptionJson = {
@@ -81,7 +560,51 @@ function normalizeCaptionJson(raw: CaptionJson, fallbackId: () => string): Capti
   }
 }
 
-export function parseCaptionsFromJson(jsonText: string, fallbackId: () => string): Caption[] {
+function toNullableNumber(value: unknown) {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null
+}
+
+function normalizeVideoMetadata(value: unknown): CaptionJsonVideoMetadata | null {
+  if (!value || typeof value !== 'object') return null
+  const raw = value as CaptionJsonRecord
+  if (typeof raw.id !== 'string') return null
+
+  return {
+    id: raw.id,
+    title: typeof raw.title === 'string' ? raw.title : '',
+    durationMs: toNullableNumber(raw.durationMs),
+    width: toNullableNumber(raw.width),
+    height: toNullableNumber(raw.height),
+  }
+}
+
+function normalizeTrim(value: unknown): CaptionJsonTrim | null {
+  if (!value || typeof value !== 'object') return null
+  const raw = value as CaptionJsonRecord
+  const startMs = toNullableNumber(raw.startMs)
+  const endMs = toNullableNumber(raw.endMs)
+  if (startMs === null || endMs === null) return null
+
+  return { startMs, endMs, applied: raw.applied === true }
+}
+
+function readCaptionJsonVersion(document: CaptionJsonRecord) {
+  if (!('schemaVersion' in document)) return 1
+
+  const version = document.schemaVersion
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new Error('자막 JSON의 schemaVersion을 알아볼 수 없어요.')
+  }
+  if (version > CAPTION_JSON_SCHEMA_VERSION) {
+    throw new Error(
+      `더 새로운 버전(스키마 v${version})에서 만든 자막 JSON이라 불러올 수 없어요. ` +
+        `이 앱은 v${CAPTION_JSON_SCHEMA_VERSION}까지 읽을 수 있으니 앱을 업데이트해 주세요.`,
+    )
+  }
+  return version
+}
+
+export function parseCaptionJsonDocument(jsonText: string, fallbackId: () => string): CaptionJsonDocument {
   let parsed: unknown
   try {
     parsed = JSON.parse(jsonText)
@@ -89,26 +612,286 @@ export function parseCaptionsFromJson(jsonText: string, fallbackId: () => string
     throw new Error('JSON 형식을 읽을 수 없어요.')
   }
 
-  const sourceArray = Array.isArray(parsed)
-    ? parsed
-    : Array.isArray((parsed as { captions?: unknown })?.captions)
-      ? ((parsed as { captions: unknown[] }).captions)
-      : null
+  if (!parsed || typeof parsed !== 'object') {
+    throw new Error('자막 JSON에 captions 배열이 필요해요.')
+  }
 
-  if (!sourceArray) {
+  let document: CaptionJsonRecord = Array.isArray(parsed) ? { captions: parsed } : (parsed as CaptionJsonRecord)
+  let version = readCaptionJsonVersion(document)
+
+  while (version < CAPTION_JSON_SCHEMA_VERSION) {
+    const migrate = CAPTION_JSON_MIGRATIONS[version]
+    if (!migrate) throw new Error(`스키마 v${version} 자막 JSON을 변환할 방법이 없어요.`)
+    document = migrate(document)
+    version += 1
+  }
+
+  const sourceArray = document.captions
+  if (!Array.isArray(sourceArray)) {
     throw new Error('자막 JSON에 captions 배열이 필요해요.')
   }
 
-  if (sourceArray.length === 0) return []
+  return {
+    schemaVersion: CAPTION_JSON_SCHEMA_VERSION,
+    appVersion: typeof document.appVersion === 'string' ? document.appVersion : null,
+    exportedAt: typeof document.exportedAt === 'string' ? document.exportedAt : null,
+    video: normalizeVideoMetadata(document.video),
+    trim: normalizeTrim(document.trim),
+    captions: sourceArray.map((item) => {
+      if (!isCaptionJson(item)) throw new Error('자막 항목에 필요한 필드가 없어요.')
+      return normalizeCaptionJson(item, fallbackId)
+    }),
+  }
+}
+
+export function parseCaptionsFromJson(jsonText: string, fallbackId: () => string): Caption[] {
+  return parseCaptionJsonDocument(jsonText, fallbackId).captions
+}
 
-  return sourceArray.map((item) => {
-    if (!isCaptionJson(item)) throw new Error('자막 항목에 필요한 필드가 없어요.')
-    return normalizeCaptionJson(item, fallbackId)
-  })
+export type CaptionSheetDelimiter = ',' | '\t'
+
+export type CaptionSheetOptions = {
+  delimiter?: CaptionSheetDelimiter
+  // 번역가가 채울 빈 열(예: translation, note)
+  extraColumns?: string[]
 }
 
-export function downloadTextFile(filename: string, content: string, mime = 'text/plain;charset=utf-8') {
-  const blob = new Blob([content], { type: mime })
+export type CaptionSheetMergeResult = CaptionImportResult & {
+  updatedCount: number
+}
+
+const CAPTION_SHEET_COLUMNS = ['id', 'start', 'end', 'duration', 'text']
+const SHEET_TRANSLATION_COLUMN = 'translation'
+// 스프레드시트가 수식으로 해석하는 시작 문자. 앞에 '를 붙여 글자로 취급되게 한다.
+const SHEET_FORMULA_PATTERN = /^'*[=+\-@]/
+const SHEET_TIME_PATTERN = /^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[.,](\d{1,3}))?$/
+// UTF-8 한글을 Latin-1/CP1252로 잘못 읽었을 때 나타나는 글자 조합
+const SHEET_MOJIBAKE_PATTERN = /[\u00EA-\u00ED][\u0080-\u00BF\u0152-\u0178\u0192\u02C6\u02DC\u2013-\u2122]{2}/
+
+function escapeSheetField(value: string, delimiter: CaptionSheetDelimiter) {
+  const guarded = SHEET_FORMULA_PATTERN.test(value) ? `'${value}` : value
+  if (!guarded.includes(delimiter) && !/["\r\n]/.test(guarded)) return guarded
+  return `"${guarded.replace(/"/g, '""')}"`
+}
+
+function unguardSheetField(value: string) {
+  return SHEET_FORMULA_PATTERN.test(value) && value.startsWith("'") ? value.slice(1) : value
+}
+
+function formatSheetSeconds(ms: number) {
+  return (Math.round(ms) / 1000).toFixed(3)
+}
+
+export function captionsToSheet(captions: Caption[], options: CaptionSheetOptions = {}): string {
+  const delimiter = options.delimiter ?? ','
+  const extraColumns = (options.extraColumns ?? []).filter(
+    (column) => column && !CAPTION_SHEET_COLUMNS.includes(column.toLowerCase()),
+  )
+  const header = [...CAPTION_SHEET_COLUMNS, ...extraColumns]
+
+  const rows = getExportableCaptions(captions).map((caption) => [
+    caption.id,
+    formatTimecode(caption.startMs, '.'),
+    formatTimecode(caption.endMs, '.'),
+    formatSheetSeconds(caption.endMs - caption.startMs),
+    caption.text.replace(/\r\n?/g, '\n'),
+    ...extraColumns.map(() => ''),
+  ])
+
+  // 엑셀이 UTF-8로 열도록 BOM을 붙인다.
+  const lines = [header, ...rows].map((fields) =>
+    fields.map((field) => escapeSheetField(field, delimiter)).join(delimiter),
+  )
+  return `\uFEFF${lines.join('\r\n')}\r\n`
+}
+
+type SheetRecord = {
+  line: number
+  fields: string[]
+}
+
+function parseSheetRecords(text: string, delimiter: CaptionSheetDelimiter): SheetRecord[] {
+  const records: SheetRecord[] = []
+  let fields: string[] = []
+  let field = ''
+  let quoted = false
+  let line = 1
+  let recordLine = 1
+
+  const pushRecord = () => {
+    fields.push(field)
+    if (fields.some((value) => value.trim() !== '')) records.push({ line: recordLine, fields })
+    fields = []
+    field = ''
+  }
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index]
+
+    if (quoted) {
+      if (char === '"') {
+        if (text[index + 1] === '"') {
+          field += '"'
+          index += 1
+        } else {
+          quoted = false
+        }
+      } else {
+        if (char === '\n') line += 1
+        field += char
+      }
+      continue
+    }
+
+    if (char === '"' && field === '') {
+      quoted = true
+    } else if (char === delimiter) {
+      fields.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') index += 1
+      pushRecord()
+      line += 1
+      recordLine = line
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== '' || fields.length > 0) pushRecord()
+  return records
+}
+
+function parseSheetTime(raw: string): number | null {
+  const match = SHEET_TIME_PATTERN.exec(raw.trim())
+  if (!match) return null
+  const [, hours = '0', minutes = '0', seconds = '0', millis = '0'] = match
+  return (
+    Number(hours) * 3_600_000 +
+    Number(minutes) * 60_000 +
+    Number(seconds) * 1000 +
+    Number(millis.padEnd(3, '0'))
+  )
+}
+
+function detectSheetDelimiter(text: string): CaptionSheetDelimiter {
+  const firstLine = text.split(/\r\n?|\n/, 1)[0] ?? ''
+  return firstLine.includes('\t') ? '\t' : ','
+}
+
+export function mergeCaptionsFromSheet(captions: Caption[], sheetText: string): CaptionSheetMergeResult {
+  const text = sheetText.replace(/^\uFEFF/, '')
+  const records = parseSheetRecords(text, detectSheetDelimiter(text))
+  const [headerRecord, ...rows] = records
+  const header = headerRecord?.fields.map((name) => name.trim().toLowerCase()) ?? []
+
+  const idIndex = header.indexOf('id')
+  const textIndex = header.indexOf('text')
+  const translationIndex = header.indexOf(SHEET_TRANSLATION_COLUMN)
+  const startIndex = header.indexOf('start')
+  const endIndex = header.indexOf('end')
+
+  if (idIndex < 0 || (textIndex < 0 && translationIndex < 0)) {
+    throw new Error('CSV/TSV 첫 줄에 id와 text 열이 필요해요.')
+  }
+
+  const captionById = new Map(captions.map((caption) => [caption.id, caption]))
+  const nextTextById = new Map<string, string>()
+  const seenIds = new Set<string>()
+  const warnings: CaptionImportWarning[] = []
+  let matchedCount = 0
+
+  for (const { line, fields } of rows) {
+    const warn = (message: string) => warnings.push({ line, message })
+    const id = (fields[idIndex] ?? '').trim()
+
+    if (fields.length > header.length) {
+      warn('열 개수가 첫 줄보다 많아요. 구분자가 들어간 칸은 따옴표로 감싸야 해요.')
+    }
+    if (!id) {
+      warn('id가 비어 있어 건너뛰었어요.')
+      continue
+    }
+    if (seenIds.has(id)) {
+      warn(`같은 id(${id})가 앞에서 이미 나와 건너뛰었어요.`)
+      continue
+    }
+    seenIds.add(id)
+
+    const caption = captionById.get(id)
+    if (!caption) {
+      warn(`id(${id})에 해당하는 자막이 없어 건너뛰었어요.`)
+      continue
+    }
+    matchedCount += 1
+
+    const rawStart = startIndex >= 0 ? (fields[startIndex] ?? '').trim() : ''
+    const rawEnd = endIndex >= 0 ? (fields[endIndex] ?? '').trim() : ''
+    if (rawStart || rawEnd) {
+      const startMs = rawStart ? parseSheetTime(rawStart) : Math.round(caption.startMs)
+      const endMs = rawEnd ? parseSheetTime(rawEnd) : Math.round(caption.endMs)
+      if (startMs === null || endMs === null) {
+        warn('시간 칸을 읽을 수 없어 기존 시간을 유지했어요.')
+      } else if (startMs !== Math.round(caption.startMs) || endMs !== Math.round(caption.endMs)) {
+        warn(
+          `시간이 바뀌었지만(${formatTimecode(caption.startMs, '.')} → ${formatTimecode(startMs, '.')}, ` +
+            `${formatTimecode(caption.endMs, '.')} → ${formatTimecode(endMs, '.')}) 기존 시간을 유지했어요.`,
+        )
+      }
+    }
+
+    const translation = translationIndex >= 0 ? (fields[translationIndex] ?? '') : ''
+    const source = translation.trim() ? translation : textIndex >= 0 ? (fields[textIndex] ?? '') : ''
+    const nextText = unguardSheetField(source.replace(/\r\n?/g, '\n'))
+
+    if (nextText.includes('\uFFFD') || SHEET_MOJIBAKE_PATTERN.test(nextText)) {
+      warn('글자가 깨져 있어 기존 문구를 유지했어요. 파일 인코딩을 확인해 주세요.')
+      continue
+    }
+    if (!nextText.trim()) {
+      if (caption.text.trim()) warn('문구가 비어 있어 기존 문구를 유지했어요.')
+      continue
+    }
+    if (nextText !== caption.text) nextTextById.set(id, nextText)
+  }
+
+  if (rows.length > 0 && matchedCount === 0) {
+    throw new Error('CSV/TSV에서 현재 자막과 id가 맞는 행을 찾지 못했어요.')
+  }
+
+  return {
+    captions: captions.map((caption) => {
+      const nextText = nextTextById.get(caption.id)
+      return nextText === undefined ? caption : { ...caption, text: nextText }
+    }),
+    warnings,
+    updatedCount: nextTextById.size,
+  }
+}
+
+export type DecodedTextFile = {
+  text: string
+  encoding: 'utf-8' | 'utf-16le' | 'utf-16be' | 'euc-kr'
+}
+
+export function decodeTextFileBytes(buffer: ArrayBuffer): DecodedTextFile {
+  const bytes = new Uint8Array(buffer)
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return { text: new TextDecoder('utf-16le').decode(bytes), encoding: 'utf-16le' }
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return { text: new TextDecoder('utf-16be').decode(bytes), encoding: 'utf-16be' }
+  }
+
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(bytes), encoding: 'utf-8' }
+  } catch {
+    // 한국어 엑셀이 기본으로 저장하는 CP949(EUC-KR 상위 호환)로 다시 읽는다.
+    return { text: new TextDecoder('euc-kr').decode(bytes), encoding: 'euc-kr' }
+  }
+}
+
+function downloadBlob(filename: string, blob: Blob) {
   const url = URL.createObjectURL(blob)
 
   const anchor = document.createElement('a')
@@ -122,4 +905,12 @@ export function downloadTextFile(filename: string, content: string, mime = 'text
   window.setTimeout(() => {
     URL.revokeObjectURL(url)
   }, 0)
-}
\ No newline at end of file
+}
+
+export function downloadTextFile(filename: string, content: string, mime = 'text/plain;charset=utf-8') {
+  downloadBlob(filename, new Blob([content], { type: mime }))
+}
+
+export function downloadBinaryFile(filename: string, bytes: Uint8Array<ArrayBuffer>, mime = 'application/octet-stream') {
+  downloadBlob(filename, new Blob([bytes], { type: mime }))
+}
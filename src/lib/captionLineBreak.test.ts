@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest'
+
+import type { Caption } from '@/datasource/types'
+
+import { breakCaptionLines, breakCaptionsLines } from './captionLineBreak'
+
+const options = { maxCharsPerLine: 16, maxLines: 2 }
+
+describe('caption line breaking', () => {
+  it('breaks at 어절 boundaries into a balanced two-line shape', () => {
+    expect(breakCaptionLines('오늘은 날씨가 정말 좋아서 공원에 가기로 했어요', options)).toEqual({
+      text: '오늘은 날씨가 정말 좋아서\n공원에 가기로 했어요',
+      changed: true,
+      fits: true,
+    })
+  })
+
+  it('prefers breaking after punctuation over a slightly better balance', () => {
+    expect(breakCaptionLines('그래 알겠어, 내일 아침에 다시 이야기하자', options).text).toBe(
+      '그래 알겠어,\n내일 아침에 다시 이야기하자',
+    )
+    expect(breakCaptionLines('그래 알겠어 내일 아침에 다시 이야기하자', options).text).toBe(
+      '그래 알겠어 내일\n아침에 다시 이야기하자',
+    )
+  })
+
+  it('keeps captions that already fit and reports the ones that cannot', () => {
+    expect(breakCaptionLines('짧은\n자막', options)).toEqual({ text: '짧은\n자막', changed: false, fits: true })
+
+    const captions: Caption[] = [
+      { id: 'a', startMs: 0, endMs: 1000, text: '하나의아주아주긴어절이라나눌수없어요' },
+      { id: 'b', startMs: 1000, endMs: 2000, text: '이 자막은 한 줄에 다 들어가지 않아요' },
+      { id: 'c', startMs: 2000, endMs: 3000, text: '이 자막은 한 줄에 다 들어가지 않아요' },
+    ]
+    const result = breakCaptionsLines(captions, new Set(['a', 'b']), options)
+    expect(result.changedIds).toEqual(['b'])
+    expect(result.overflowIds).toEqual(['a'])
+    expect(result.captions[2]).toBe(captions[2])
+  })
+})
@@ -0,0 +1,148 @@
+import type { Caption } from '@/datasource/types'
+
+export type CaptionLineBreakOptions = {
+  maxCharsPerLine: number
+  maxLines: number
+}
+
+export type CaptionLineBreakResult = {
+  text: string
+  changed: boolean
+  // 어절 하나가 한 줄보다 길거나 줄 수가 모자라 기준 안에 다 넣지 못하면 false
+  fits: boolean
+}
+
+const graphemeSegmenter =
+  typeof Intl !== 'undefined' && 'Segmenter' in Intl
+    ? new Intl.Segmenter('ko', { granularity: 'grapheme' })
+    : null
+
+// 한글은 초성·중성·종성으로 풀어 쓴(NFD) 입력도 음절 하나를 한 글자로 센다.
+export function countCaptionChars(text: string) {
+  const normalized = text.normalize('NFC')
+  if (graphemeSegmenter) return Array.from(graphemeSegmenter.segment(normalized)).length
+  return Array.from(normalized.replace(/[\u0300-\u036f]/g, '')).length
+}
+
+const SENTENCE_END = /[.?!…。？！]["'”’)\]」』]*$/u
+const CLAUSE_END = /[,;:、，]["'”’)\]」』]*$/u
+// 여는 괄호·따옴표 뒤나, 닫는 문장부호만 있는 어절 앞에서는 줄을 나누지 않는다.
+const OPENER_END = /["'([“‘「『]$/u
+const PUNCTUATION_ONLY = /^[\p{P}\p{S}]+$/u
+
+const OVERFLOW_COST = 1000
+const BAD_BREAK_COST = 50
+const SENTENCE_BREAK_BONUS = 5
+const CLAUSE_BREAK_BONUS = 3
+
+function getBreakCost(before: string, after: string) {
+  if (OPENER_END.test(before) || PUNCTUATION_ONLY.test(after)) return BAD_BREAK_COST
+  if (SENTENCE_END.test(before)) return -SENTENCE_BREAK_BONUS
+  if (CLAUSE_END.test(before)) return -CLAUSE_BREAK_BONUS
+  return 0
+}
+
+function getLines(text: string) {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+}
+
+function fitsLines(lines: string[], { maxCharsPerLine, maxLines }: CaptionLineBreakOptions) {
+  return lines.length <= maxLines && lines.every((line) => countCaptionChars(line) <= maxCharsPerLine)
+}
+
+type Partition = { cost: number; breaks: number[] }
+
+// words를 정확히 lineCount줄로 나누는 가장 싼 방법. 줄 길이를 고르게 하고,
+// 두 줄일 때는 아랫줄이 조금 더 긴 모양을 선호한다.
+function partitionWords(words: string[], widths: number[], lineCount: number, maxCharsPerLine: number) {
+  const n = words.length
+  const total = widths.reduce((sum, width) => sum + width, 0) + (n - 1)
+  const target = total / lineCount
+  const lineWidth = (from: number, to: number) => {
+    let width = to - from - 1
+    for (let i = from; i < to; i += 1) width += widths[i] ?? 0
+    return width
+  }
+  const lineCost = (width: number) =>
+    (width > maxCharsPerLine ? (width - maxCharsPerLine) * OVERFLOW_COST : 0) +
+    (width - target) ** 2 / Math.max(1, maxCharsPerLine)
+
+  // best[k][i]: 앞의 i개 어절을 k줄로 나눴을 때의 최소 비용
+  const best = Array.from({ length: lineCount + 1 }, () => new Map<number, Partition>())
+  best[0]?.set(0, { cost: 0, breaks: [] })
+  for (let k = 1; k <= lineCount; k += 1) {
+    for (let i = k; i <= n - (lineCount - k); i += 1) {
+      for (let j = k - 1; j < i; j += 1) {
+        const prev = best[k - 1]?.get(j)
+        if (!prev) continue
+        let cost = prev.cost + lineCost(lineWidth(j, i))
+        if (j > 0) cost += getBreakCost(words[j - 1] ?? '', words[j] ?? '')
+        if (lineCount === 2 && k === 2) {
+          const top = lineWidth(0, j)
+          const bottom = lineWidth(j, i)
+          if (top > bottom) cost += (top - bottom) * 0.1
+        }
+        const current = best[k]?.get(i)
+        if (!current || cost < current.cost) best[k]?.set(i, { cost, breaks: k > 1 ? [...prev.breaks, j] : [] })
+      }
+    }
+  }
+  return best[lineCount]?.get(n) ?? null
+}
+
+// 이미 기준에 맞는 자막(직접 넣은 줄바꿈 포함)은 그대로 둔다.
+// 넘치면 어절(띄어쓰기) 단위로 다시 나누되, 문장부호 뒤를 우선하고 줄 길이를 고르게 맞춘다.
+export function breakCaptionLines(text: string, options: CaptionLineBreakOptions): CaptionLineBreakResult {
+  const maxCharsPerLine = Math.max(1, Math.floor(options.maxCharsPerLine))
+  const maxLines = Math.max(1, Math.floor(options.maxLines))
+  const normalizedOptions = { maxCharsPerLine, maxLines }
+
+  if (fitsLines(getLines(text), normalizedOptions)) return { text, changed: false, fits: true }
+
+  const words = text.split(/\s+/).filter(Boolean)
+  if (words.length === 0) return { text, changed: false, fits: true }
+  const widths = words.map(countCaptionChars)
+
+  let chosen: { lines: string[]; fits: boolean } | null = null
+  for (let lineCount = 1; lineCount <= Math.min(maxLines, words.length); lineCount += 1) {
+    const partition = partitionWords(words, widths, lineCount, maxCharsPerLine)
+    if (!partition) continue
+    const bounds = [0, ...partition.breaks, words.length]
+    const lines = bounds.slice(1).map((end, index) => words.slice(bounds[index], end).join(' '))
+    chosen = { lines, fits: fitsLines(lines, normalizedOptions) }
+    if (chosen.fits) break
+  }
+  if (!chosen) return { text, changed: false, fits: false }
+
+  const wrapped = chosen.lines.join('\n')
+  return { text: wrapped, changed: wrapped !== text, fits: chosen.fits }
+}
+
+export type CaptionLineBreakBatchResult = {
+  captions: Caption[]
+  changedIds: string[]
+  overflowIds: string[]
+}
+
+// ids가 null이면 모든 자막에 적용한다.
+export function breakCaptionsLines(
+  captions: Caption[],
+  ids: ReadonlySet<string> | null,
+  options: CaptionLineBreakOptions,
+): CaptionLineBreakBatchResult {
+  const changedIds: string[] = []
+  const overflowIds: string[] = []
+  const next = captions.map((caption) => {
+    if (ids && !ids.has(caption.id)) return caption
+    const result = breakCaptionLines(caption.text, options)
+    if (!result.fits) overflowIds.push(caption.id)
+    if (!result.changed) return caption
+    changedIds.push(caption.id)
+    return { ...caption, text: result.text }
+  })
+  return { captions: changedIds.length > 0 ? next : captions, changedIds, overflowIds }
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest'
+
+import type { Caption } from '@/datasource/types'
+
+import { findCaptionOverlaps, resolveCaptionOverlaps } from './captionOverlap'
+
+const captions: Caption[] = [
+  { id: 'a', startMs: 0, endMs: 1200, text: '하나' },
+  { id: 'b', startMs: 1000, endMs: 2000, text: '둘' },
+  { id: 'c', startMs: 3000, endMs: 4000, text: '셋' },
+]
+
+const times = (list: Caption[]) => list.map((caption) => [caption.id, caption.startMs, caption.endMs])
+
+describe('caption overlaps', () => {
+  it('finds overlaps against the latest-ending caption', () => {
+    expect(findCaptionOverlaps(captions)).toEqual([{ previousId: 'a', nextId: 'b', startMs: 1000, endMs: 1200 }])
+
+    const nested: Caption[] = [
+      { id: 'long', startMs: 0, endMs: 5000, text: '' },
+      { id: 'x', startMs: 1000, endMs: 2000, text: '' },
+      { id: 'y', startMs: 3000, endMs: 4000, text: '' },
+    ]
+    expect(findCaptionOverlaps(nested).map((overlap) => overlap.nextId)).toEqual(['x', 'y'])
+  })
+
+  it('resolves with each strategy while keeping the minimum gap', () => {
+    expect(times(resolveCaptionOverlaps(captions, 'trimPrevious', 100).captions)).toEqual([
+      ['a', 0, 900],
+      ['b', 1000, 2000],
+      ['c', 3000, 4000],
+    ])
+    expect(times(resolveCaptionOverlaps(captions, 'pushNext', 100).captions).slice(0, 2)).toEqual([
+      ['a', 0, 1200],
+      ['b', 1300, 2000],
+    ])
+    expect(times(resolveCaptionOverlaps(captions, 'splitDifference', 100).captions).slice(0, 2)).toEqual([
+      ['a', 0, 1050],
+      ['b', 1150, 2000],
+    ])
+  })
+
+  it('pushes a fully covered caption and cascades, or reports what it cannot fix', () => {
+    const covered: Caption[] = [
+      { id: 'a', startMs: 0, endMs: 3000, text: '' },
+      { id: 'b', startMs: 500, endMs: 1500, text: '' },
+      { id: 'c', startMs: 3500, endMs: 4000, text: '' },
+    ]
+    const pushed = resolveCaptionOverlaps(covered, 'pushNext', 0)
+    expect(times(pushed.captions)).toEqual([
+      ['a', 0, 3000],
+      ['b', 3000, 4000],
+      ['c', 4000, 4500],
+    ])
+    expect(pushed.resolvedCount).toBe(2)
+
+    const split = resolveCaptionOverlaps(covered, 'splitDifference', 0)
+    expect(split.resolvedCount).toBe(0)
+    expect(split.captions).toBe(covered)
+    expect(split.unresolved).toEqual([{ previousId: 'a', nextId: 'b', startMs: 500, endMs: 1500 }])
+  })
+})
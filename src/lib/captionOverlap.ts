@@ -0,0 +1,115 @@
+import type { Caption } from '@/datasource/types'
+
+export type CaptionOverlap = {
+  previousId: string
+  nextId: string
+  // 두 자막이 함께 보이는 구간
+  startMs: number
+  endMs: number
+}
+
+export type CaptionOverlapStrategy = 'trimPrevious' | 'pushNext' | 'splitDifference'
+
+export type CaptionOverlapResolution = {
+  captions: Caption[]
+  resolvedCount: number
+  // 한쪽 자막 길이가 0 이하가 되어 손대지 않은 겹침
+  unresolved: CaptionOverlap[]
+}
+
+function hasValidTimes(caption: Caption) {
+  return Number.isFinite(caption.startMs) && Number.isFinite(caption.endMs) && caption.endMs > caption.startMs
+}
+
+function sortByStart(captions: Caption[]) {
+  return [...captions].sort((a, b) => a.startMs - b.startMs || a.endMs - b.endMs)
+}
+
+function toOverlap(previous: Caption, next: Caption): CaptionOverlap {
+  return {
+    previousId: previous.id,
+    nextId: next.id,
+    startMs: next.startMs,
+    endMs: Math.min(previous.endMs, next.endMs),
+  }
+}
+
+// 시작 시간순으로 훑으면서, 지금까지 가장 늦게 끝나는 자막과 겹치는 자막을 모은다.
+export function findCaptionOverlaps(captions: Caption[]) {
+  const overlaps: CaptionOverlap[] = []
+  let latest: Caption | null = null
+
+  for (const caption of sortByStart(captions.filter(hasValidTimes))) {
+    if (latest && caption.startMs < latest.endMs) overlaps.push(toOverlap(latest, caption))
+    if (!latest || caption.endMs > latest.endMs) latest = caption
+  }
+
+  return overlaps
+}
+
+export function getOverlappingCaptionIds(overlaps: CaptionOverlap[]) {
+  const ids = new Set<string>()
+  for (const overlap of overlaps) {
+    ids.add(overlap.previousId)
+    ids.add(overlap.nextId)
+  }
+  return ids
+}
+
+// 겹친 두 자막 사이를 정확히 gapMs만큼 벌린다.
+// - trimPrevious: 앞 자막의 끝을 당긴다.
+// - pushNext: 뒤 자막의 시작을 민다. 뒤 자막이 통째로 덮여 있으면 길이를 유지한 채 뒤로 옮긴다.
+// - splitDifference: 겹친 구간의 가운데에서 나눈다.
+export function resolveCaptionOverlaps(
+  captions: Caption[],
+  strategy: CaptionOverlapStrategy,
+  gapMs: number,
+): CaptionOverlapResolution {
+  const gap = Math.max(0, Math.round(gapMs))
+  const resolved = new Map<string, Caption>()
+  const unresolved: CaptionOverlap[] = []
+  let resolvedCount = 0
+  let latest: Caption | null = null
+
+  for (const original of sortByStart(captions.filter(hasValidTimes))) {
+    let caption = original
+    const previous: Caption | null = latest
+    if (previous && caption.startMs < previous.endMs) {
+      let nextPrevious: Caption = previous
+      let nextCaption: Caption = caption
+
+      if (strategy === 'trimPrevious') {
+        nextPrevious = { ...previous, endMs: caption.startMs - gap }
+      } else if (strategy === 'pushNext') {
+        const startMs = previous.endMs + gap
+        nextCaption =
+          startMs < caption.endMs
+            ? { ...caption, startMs }
+            : { ...caption, startMs, endMs: startMs + (caption.endMs - caption.startMs) }
+      } else {
+        const meetMs = Math.round((caption.startMs + previous.endMs) / 2)
+        const endMs = meetMs - Math.floor(gap / 2)
+        nextPrevious = { ...previous, endMs }
+        nextCaption = { ...caption, startMs: endMs + gap }
+      }
+
+      if (hasValidTimes(nextPrevious) && hasValidTimes(nextCaption)) {
+        resolved.set(nextPrevious.id, nextPrevious)
+        resolved.set(nextCaption.id, nextCaption)
+        caption = nextCaption
+        latest = nextPrevious
+        resolvedCount += 1
+      } else {
+        unresolved.push(toOverlap(previous, caption))
+      }
+    }
+    if (!latest || caption.endMs > latest.endMs) latest = caption
+  }
+
+  if (resolvedCount === 0) return { captions, resolvedCount, unresolved }
+  return {
+    captions: captions.map((caption) => resolved.get(caption.id) ?? caption),
+    resolvedCount,
+    unresolved,
+  }
+}
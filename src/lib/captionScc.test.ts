@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest'
+
+import { captionsToScc, formatDropFrameTimecode, msToDropFrameCount } from './captionScc'
+
+describe('SCC export', () => {
+  it('labels frames with drop-frame timecode', () => {
+    expect(formatDropFrameTimecode(0)).toBe('00:00:00;00')
+    expect(formatDropFrameTimecode(1799)).toBe('00:00:59;29')
+    expect(formatDropFrameTimecode(1800)).toBe('00:01:00;02')
+    expect(formatDropFrameTimecode(17982)).toBe('00:10:00;00')
+    expect(formatDropFrameTimecode(msToDropFrameCount(3_600_000))).toBe('01:00:00;00')
+  })
+
+  it('encodes a pop-on caption with parity, doubled controls and an erase', () => {
+    const { scc, warnings } = captionsToScc([{ id: 'a', startMs: 2000, endMs: 4000, text: 'Hi ♪' }])
+    const [header, load, erase] = scc.trimEnd().split('\r\n\r\n')
+
+    expect(warnings).toEqual([])
+    expect(header).toBe('Scenarist_SCC V1.0')
+    // ENM, RCL, 15행 PAC(들여쓰기 12) + Tab Offset 2, "Hi", " " 패딩, ♪, EOC
+    expect(load).toBe(
+      '00:00:01;17\t94ae 94ae 9420 9420 9476 9476 97a2 97a2 c8e9 2080 9137 9137 942f 942f',
+    )
+    expect(erase).toBe('00:00:04;00\t942c 942c')
+  })
+
+  it('warns about unsupported characters, long rows and crowded timing', () => {
+    const { scc, warnings } = captionsToScc([
+      { id: 'a', startMs: 0, endMs: 100, text: '안녕 hello' },
+      { id: 'b', startMs: 100, endMs: 2000, text: 'x'.repeat(40) },
+    ])
+
+    expect(scc.split('\r\n\r\n')).toHaveLength(4)
+    expect(warnings.map(({ captionId, message }) => [captionId, message])).toEqual([
+      ['a', expect.stringContaining('안 녕')],
+      ['a', expect.stringContaining('늦게')],
+      ['b', expect.stringContaining('40칸')],
+      ['b', expect.stringContaining('늦게')],
+    ])
+  })
+})
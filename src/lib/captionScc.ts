@@ -0,0 +1,264 @@
+import type { Caption } from '@/datasource/types'
+
+import { getExportableCaptions } from './captionIO'
+
+import type { CaptionExportWarning } from './captionIO'
+
+export type SccExportResult = {
+  scc: string
+  warnings: CaptionExportWarning[]
+}
+
+// 29.97fps 드롭 프레임: 10분마다 17982프레임, 매분(10의 배수 분 제외) 첫 2프레임 번호를 건너뛴다.
+const SCC_FPS = 30000 / 1001
+const DROP_FRAMES_PER_MINUTE = 2
+const FRAMES_PER_10_MINUTES = 17982
+const FRAMES_PER_MINUTE = 1798
+
+const SCC_MAX_COLUMNS = 32
+const SCC_MAX_ROWS = 4
+const SCC_BOTTOM_ROW = 15
+
+// CC1(필드 1, 채널 1) 제어 코드
+type SccCode = readonly [number, number]
+
+const RCL: SccCode = [0x14, 0x20]
+const ENM: SccCode = [0x14, 0x2e]
+const EDM: SccCode = [0x14, 0x2c]
+const EOC: SccCode = [0x14, 0x2f]
+const TAB_OFFSETS: (SccCode | null)[] = [null, [0x17, 0x21], [0x17, 0x22], [0x17, 0x23]]
+
+// 행 1~15의 PAC 첫 바이트와 두 번째 바이트 기준값(0x40 또는 0x60)
+const PAC_ROWS: Record<number, SccCode> = {
+  1: [0x11, 0x40],
+  2: [0x11, 0x60],
+  3: [0x12, 0x40],
+  4: [0x12, 0x60],
+  5: [0x15, 0x40],
+  6: [0x15, 0x60],
+  7: [0x16, 0x40],
+  8: [0x16, 0x60],
+  9: [0x17, 0x40],
+  10: [0x17, 0x60],
+  11: [0x10, 0x40],
+  12: [0x13, 0x40],
+  13: [0x13, 0x60],
+  14: [0x14, 0x40],
+  15: [0x14, 0x60],
+}
+
+// 기본 문자 집합에서 ASCII와 다르게 쓰이는 자리
+const BASIC_OVERRIDES: Record<number, string> = {
+  0x2a: 'á',
+  0x5c: 'é',
+  0x5e: 'í',
+  0x5f: 'ó',
+  0x60: 'ú',
+  0x7b: 'ç',
+  0x7c: '÷',
+  0x7d: 'Ñ',
+  0x7e: 'ñ',
+  0x7f: '█',
+}
+
+const SPECIAL_CHARS = '®°½¿™¢£♪à\u0000èâêîôû'
+const EXTENDED_CHARS_12 = 'ÁÉÓÚÜü‘¡*\'—©℠•“”ÀÂÇÈÊËëÎÏïÔÙùÛ«»'
+const EXTENDED_CHARS_13 = 'ÃãÍÌìÒòÕõ{}\\^_|~ÄäÖöß¥¤│ÅåØø┌┐└┘'
+
+const NORMALIZED_CHARS: Record<string, string> = {
+  '\u00A0': ' ',
+  '\u2019': "'",
+  '\u2013': '-',
+  '\u2026': '...',
+}
+
+type SccCodeChar = {
+  code: SccCode
+  fallback: number | null
+}
+
+const BASIC_CHAR_MAP = new Map<string, number>()
+for (let byte = 0x20; byte <= 0x7f; byte += 1) {
+  BASIC_CHAR_MAP.set(BASIC_OVERRIDES[byte] ?? String.fromCharCode(byte), byte)
+}
+
+const CODE_CHAR_MAP = new Map<string, SccCodeChar>()
+Array.from(SPECIAL_CHARS).forEach((char, index) => {
+  if (char !== '\u0000') CODE_CHAR_MAP.set(char, { code: [0x11, 0x30 + index], fallback: null })
+})
+const addExtendedChars = (chars: string, firstByte: number) => {
+  Array.from(chars).forEach((char, index) => {
+    // 확장 문자는 앞 글자를 지우고 덮어쓰므로, 지원하지 않는 디코더를 위한 대체 글자를 먼저 보낸다.
+    const base = char.normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+    const fallback = BASIC_CHAR_MAP.get(base) ?? BASIC_CHAR_MAP.get(' ') ?? 0x20
+    CODE_CHAR_MAP.set(char, { code: [firstByte, 0x20 + index], fallback })
+  })
+}
+addExtendedChars(EXTENDED_CHARS_12, 0x12)
+addExtendedChars(EXTENDED_CHARS_13, 0x13)
+
+function withOddParity(byte: number) {
+  let ones = 0
+  for (let bit = 0; bit < 7; bit += 1) ones += (byte >> bit) & 1
+  return ones % 2 === 0 ? byte | 0x80 : byte & 0x7f
+}
+
+function toSccWord([first, second]: SccCode) {
+  return (withOddParity(first) << 8) | withOddParity(second)
+}
+
+export function msToDropFrameCount(ms: number) {
+  return Math.max(0, Math.round((ms / 1000) * SCC_FPS))
+}
+
+export function formatDropFrameTimecode(frameCount: number) {
+  const tenMinutes = Math.floor(frameCount / FRAMES_PER_10_MINUTES)
+  const remainder = frameCount % FRAMES_PER_10_MINUTES
+  const skipped =
+    DROP_FRAMES_PER_MINUTE * 9 * tenMinutes +
+    (remainder > DROP_FRAMES_PER_MINUTE
+      ? DROP_FRAMES_PER_MINUTE * Math.floor((remainder - DROP_FRAMES_PER_MINUTE) / FRAMES_PER_MINUTE)
+      : 0)
+  const labelFrames = frameCount + skipped
+
+  const frames = labelFrames % 30
+  const seconds = Math.floor(labelFrames / 30) % 60
+  const minutes = Math.floor(labelFrames / 1800) % 60
+  const hours = Math.floor(labelFrames / 108_000)
+  const pad = (value: number) => String(value).padStart(2, '0')
+
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)};${pad(frames)}`
+}
+
+class SccWordWriter {
+  words: number[] = []
+  private pending: number | null = null
+
+  char(byte: number) {
+    if (this.pending === null) {
+      this.pending = byte
+      return
+    }
+    this.words.push(toSccWord([this.pending, byte]))
+    this.pending = null
+  }
+
+  // 제어 코드는 워드 경계에서 시작해야 하고, 디코더가 중복을 걸러내므로 두 번 보낸다.
+  control(code: SccCode) {
+    this.flush()
+    this.words.push(toSccWord(code), toSccWord(code))
+  }
+
+  flush() {
+    if (this.pending === null) return
+    this.words.push(toSccWord([this.pending, 0]))
+    this.pending = null
+  }
+}
+
+function toSccLines(text: string) {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map((line) =>
+      Array.from(line)
+        .map((char) => NORMALIZED_CHARS[char] ?? char)
+        .join('')
+        .trim(),
+    )
+    .filter(Boolean)
+}
+
+function encodePopOnCaption(caption: Caption, warn: (message: string) => void) {
+  let lines = toSccLines(caption.text)
+  if (lines.length > SCC_MAX_ROWS) {
+    warn(`${lines.length}줄이라 608 팝온 자막의 최대 ${SCC_MAX_ROWS}줄을 넘어요. 마지막 ${SCC_MAX_ROWS}줄만 넣었어요.`)
+    lines = lines.slice(-SCC_MAX_ROWS)
+  }
+
+  const unsupported = new Set<string>()
+  const writer = new SccWordWriter()
+  writer.control(ENM)
+  writer.control(RCL)
+
+  lines.forEach((line, index) => {
+    const chars = Array.from(line).filter((char) => {
+      if (BASIC_CHAR_MAP.has(char) || CODE_CHAR_MAP.has(char)) return true
+      unsupported.add(char)
+      return false
+    })
+
+    if (chars.length > SCC_MAX_COLUMNS) {
+      warn(`${index + 1}번째 줄이 ${chars.length}칸이라 ${SCC_MAX_COLUMNS}칸을 넘어요. 넘치는 글자는 잘렸어요.`)
+    }
+    const visible = chars.slice(0, SCC_MAX_COLUMNS)
+
+    // 가운데 정렬: PAC 들여쓰기는 4칸 단위라 나머지는 Tab Offset으로 채운다.
+    const column = Math.floor((SCC_MAX_COLUMNS - visible.length) / 2)
+    const indent = Math.floor(column / 4)
+    const tabOffset = TAB_OFFSETS[column % 4]
+    const [pacFirst, pacBase] = PAC_ROWS[SCC_BOTTOM_ROW - (lines.length - 1 - index)] ?? [0x14, 0x60]
+    writer.control([pacFirst, pacBase + 0x10 + indent * 2])
+    if (tabOffset) writer.control(tabOffset)
+
+    for (const char of visible) {
+      const basic = BASIC_CHAR_MAP.get(char)
+      if (basic !== undefined) {
+        writer.char(basic)
+        continue
+      }
+      const special = CODE_CHAR_MAP.get(char)
+      if (!special) continue
+      if (special.fallback !== null) writer.char(special.fallback)
+      writer.control(special.code)
+    }
+  })
+
+  if (unsupported.size > 0) {
+    warn(`608 문자 집합에 없는 글자(${Array.from(unsupported).join(' ')})는 빠졌어요.`)
+  }
+
+  writer.flush()
+  return writer.words
+}
+
+export function captionsToScc(captions: Caption[]): SccExportResult {
+  const warnings: CaptionExportWarning[] = []
+  const validCaptions = getExportableCaptions(captions)
+  const entries: { frame: number; words: number[] }[] = []
+  let nextFreeFrame = 0
+
+  validCaptions.forEach((caption, index) => {
+    const warn = (message: string) => warnings.push({ captionId: caption.id, startMs: caption.startMs, message })
+    const loadWords = encodePopOnCaption(caption, warn)
+
+    // 워드 하나를 보내는 데 한 프레임이 걸리므로, EOC가 시작 프레임에 닿도록 미리 싣는다.
+    const startFrame = msToDropFrameCount(caption.startMs)
+    const endFrame = msToDropFrameCount(caption.endMs)
+    const words = [...loadWords, toSccWord(EOC), toSccWord(EOC)]
+    const loadFrame = Math.max(nextFreeFrame, startFrame - words.length + 1)
+    const displayFrame = loadFrame + words.length - 1
+
+    if (displayFrame > startFrame) {
+      warn(`자막을 미리 실어 둘 프레임이 모자라 ${displayFrame - startFrame}프레임 늦게 표시돼요.`)
+    }
+    entries.push({ frame: loadFrame, words })
+    nextFreeFrame = displayFrame + 1
+
+    // 다음 자막이 바로 이어지면 EOC가 화면을 바꾸므로 지우기 명령을 생략한다.
+    const next = validCaptions[index + 1]
+    if (next && msToDropFrameCount(next.startMs) <= endFrame) return
+
+    const eraseFrame = Math.max(nextFreeFrame, endFrame)
+    const eraseWords = [toSccWord(EDM), toSccWord(EDM)]
+    entries.push({ frame: eraseFrame, words: eraseWords })
+    nextFreeFrame = eraseFrame + eraseWords.length
+  })
+
+  const body = entries.map(({ frame, words }) => {
+    const hexWords = words.map((word) => word.toString(16).padStart(4, '0')).join(' ')
+    return `${formatDropFrameTimecode(frame)}\t${hexWords}`
+  })
+
+  return { scc: `${['Scenarist_SCC V1.0', ...body].join('\r\n\r\n')}\r\n`, warnings }
+}
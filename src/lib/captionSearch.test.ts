@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest'
+
+import type { Caption } from '@/datasource/types'
+
+import { compileCaptionSearch, findCaptionMatches, replaceAllInCaptions } from './captionSearch'
+
+const captions: Caption[] = [
+  { id: 'a', startMs: 0, endMs: 1000, text: 'Hello world, hello!' },
+  { id: 'b', startMs: 1000, endMs: 2000, text: '가격은 $5, 2024년' },
+]
+
+describe('caption search', () => {
+  it('finds literal matches with optional case folding', () => {
+    const literal = compileCaptionSearch('hello', { ignoreCase: false, regex: false })
+    expect(findCaptionMatches(captions, literal).map((m) => [m.captionId, m.index])).toEqual([['a', 13]])
+
+    const folded = compileCaptionSearch('HELLO', { ignoreCase: true, regex: false })
+    expect(findCaptionMatches(captions, folded)).toHaveLength(2)
+
+    const special = compileCaptionSearch('$5', { ignoreCase: false, regex: false })
+    expect(findCaptionMatches(captions, special)).toEqual([{ captionId: 'b', startMs: 1000, index: 4, length: 2 }])
+  })
+
+  it('supports regex mode and rejects invalid patterns', () => {
+    const digits = compileCaptionSearch('\\d+', { ignoreCase: false, regex: true })
+    expect(findCaptionMatches(captions, digits).map((m) => m.length)).toEqual([1, 4])
+    expect(findCaptionMatches(captions, compileCaptionSearch('x*', { ignoreCase: false, regex: true }))).toEqual([])
+    expect(() => compileCaptionSearch('(', { ignoreCase: false, regex: true })).toThrow('정규식')
+    expect(compileCaptionSearch('', { ignoreCase: false, regex: true })).toBeNull()
+  })
+
+  it('previews replacements with group references only in regex mode', () => {
+    const regex = compileCaptionSearch('(\\d+)년', { ignoreCase: false, regex: true })
+    const { captions: replaced, changes } = replaceAllInCaptions(captions, regex, '$1-$$', { regex: true })
+    expect(changes).toEqual([{ captionId: 'b', startMs: 1000, before: '가격은 $5, 2024년', after: '가격은 $5, 2024-$' }])
+    expect(replaced[0]).toBe(captions[0])
+
+    const literal = compileCaptionSearch('world', { ignoreCase: false, regex: false })
+    expect(replaceAllInCaptions(captions, literal, '$&', { regex: false }).changes[0]?.after).toBe('Hello $&, hello!')
+  })
+})
@@ -0,0 +1,92 @@
+import type { Caption } from '@/datasource/types'
+
+export type CaptionSearchOptions = {
+  ignoreCase: boolean
+  regex: boolean
+}
+
+export type CaptionSearchMatch = {
+  captionId: string
+  startMs: number
+  index: number
+  length: number
+}
+
+export type CaptionReplacement = {
+  captionId: string
+  startMs: number
+  before: string
+  after: string
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+// 빈 검색어는 null. 정규식 문법이 틀리면 에러를 던진다.
+export function compileCaptionSearch(query: string, { ignoreCase, regex }: CaptionSearchOptions) {
+  if (!query) return null
+  const flags = ignoreCase ? 'giu' : 'gu'
+  if (!regex) return new RegExp(escapeRegExp(query), flags)
+  try {
+    return new RegExp(query, flags)
+  } catch {
+    throw new Error('정규식을 해석할 수 없어요. 괄호나 특수 문자를 확인해 주세요.')
+  }
+}
+
+function forEachMatch(text: string, pattern: RegExp, visit: (match: RegExpExecArray) => void) {
+  const re = new RegExp(pattern.source, pattern.flags)
+  let match: RegExpExecArray | null
+  while ((match = re.exec(text)) !== null) {
+    // 빈 문자열에 걸리는 정규식(예: ^, a*)이 제자리에서 멈추지 않게 한 칸 민다.
+    if (match[0].length === 0) {
+      re.lastIndex += 1
+      continue
+    }
+    visit(match)
+  }
+}
+
+export function findCaptionMatches(captions: Caption[], pattern: RegExp | null): CaptionSearchMatch[] {
+  if (!pattern) return []
+  const matches: CaptionSearchMatch[] = []
+  for (const caption of captions) {
+    forEachMatch(caption.text, pattern, (match) => {
+      matches.push({ captionId: caption.id, startMs: caption.startMs, index: match.index, length: match[0].length })
+    })
+  }
+  return matches
+}
+
+export function replaceAllInCaptions(
+  captions: Caption[],
+  pattern: RegExp | null,
+  replacement: string,
+  { regex }: Pick<CaptionSearchOptions, 'regex'>,
+) {
+  const changes: CaptionReplacement[] = []
+  if (!pattern) return { captions, changes }
+
+  const next = captions.map((caption) => {
+    const re = new RegExp(pattern.source, pattern.flags)
+    // 일반 검색에서는 바꿀 문구의 $1, $& 등을 글자 그대로 넣는다.
+    const after = caption.text.replace(re, (matched, ...rest) => {
+      if (matched.length === 0) return matched
+      if (!regex) return replacement
+      // 콜백 인자는 (일치, 그룹..., 위치, 원문[, 이름 그룹])이라 위치(숫자) 앞까지가 그룹이다.
+      const groups = rest.slice(0, rest.findIndex((value) => typeof value === 'number')) as (string | undefined)[]
+      return replacement.replace(/\$(\$|&|\d{1,2})/g, (token, key: string) => {
+        if (key === '$') return '$'
+        if (key === '&') return matched
+        const group = groups[Number(key) - 1]
+        return Number(key) >= 1 && Number(key) <= groups.length ? (group ?? '') : token
+      })
+    })
+    if (after === caption.text) return caption
+    changes.push({ captionId: caption.id, startMs: caption.startMs, before: caption.text, after })
+    return { ...caption, text: after }
+  })
+
+  return { captions: next, changes }
+}
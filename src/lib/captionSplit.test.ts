@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest'
+
+import type { Caption } from '@/datasource/types'
+
+import { mergeCaptionWithNext, splitCaptionAt, splitCaptionText } from './captionSplit'
+
+describe('splitCaptionAt', () => {
+  const caption: Caption = { id: 'a', startMs: 1000, endMs: 3000, text: '안녕하세요 반갑습니다 오늘은 날씨가' }
+
+  it('distributes words by the time ratio when there is no cursor', () => {
+    expect(splitCaptionAt(caption, 2000, 'b')).toEqual([
+      { id: 'a', startMs: 1000, endMs: 2000, text: '안녕하세요 반갑습니다' },
+      { id: 'b', startMs: 2000, endMs: 3000, text: '오늘은 날씨가' },
+    ])
+    expect(splitCaptionText('한마디', 0.2)).toEqual(['', '한마디'])
+  })
+
+  it('breaks the text at the cursor position', () => {
+    const [first, second] = splitCaptionAt(caption, 1500, 'b', 3) ?? []
+    expect(first?.text).toBe('안녕하')
+    expect(second?.text).toBe('세요 반갑습니다 오늘은 날씨가')
+  })
+
+  it('returns null when the time is outside the caption', () => {
+    expect(splitCaptionAt(caption, 1000, 'b')).toBeNull()
+    expect(splitCaptionAt(caption, 3000, 'b')).toBeNull()
+    expect(splitCaptionAt(caption, Number.NaN, 'b')).toBeNull()
+  })
+})
+
+describe('mergeCaptionWithNext', () => {
+  it('joins the caption with the next one in time order', () => {
+    const captions: Caption[] = [
+      { id: 'c', startMs: 4000, endMs: 5000, text: '셋' },
+      { id: 'a', startMs: 0, endMs: 1000, text: '하나 ' },
+      { id: 'b', startMs: 1200, endMs: 2000, text: '둘' },
+    ]
+    expect(mergeCaptionWithNext(captions, 'a')).toEqual([
+      { id: 'c', startMs: 4000, endMs: 5000, text: '셋' },
+      { id: 'a', startMs: 0, endMs: 2000, text: '하나 둘' },
+    ])
+    expect(mergeCaptionWithNext(captions, 'c')).toBeNull()
+  })
+})
@@ -0,0 +1,76 @@
+import type { Caption } from '@/datasource/types'
+
+function countVisibleChars(text: string) {
+  return Array.from(text.replace(/\s+/g, '')).length
+}
+
+// 어절 경계 중에서 앞쪽 글자 수 비율이 시간 비율에 가장 가까운 자리를 고른다.
+function findProportionalBreak(text: string, ratio: number) {
+  const total = countVisibleChars(text)
+  if (total === 0) return 0
+
+  const candidates = [0, text.length]
+  for (const match of text.matchAll(/\s+/g)) {
+    candidates.push(match.index)
+  }
+
+  let best = 0
+  let bestDistance = Number.POSITIVE_INFINITY
+  for (const index of candidates) {
+    const distance = Math.abs(countVisibleChars(text.slice(0, index)) / total - ratio)
+    if (distance < bestDistance) {
+      best = index
+      bestDistance = distance
+    }
+  }
+  return best
+}
+
+export function splitCaptionText(text: string, ratio: number, cursorIndex: number | null = null) {
+  const breakIndex =
+    cursorIndex !== null && cursorIndex > 0 && cursorIndex < text.length
+      ? cursorIndex
+      : findProportionalBreak(text, Math.min(1, Math.max(0, ratio)))
+  return [text.slice(0, breakIndex).trim(), text.slice(breakIndex).trim()] as const
+}
+
+export function splitCaptionAt(
+  caption: Caption,
+  atMs: number,
+  nextId: string,
+  cursorIndex: number | null = null,
+): [Caption, Caption] | null {
+  const { startMs, endMs } = caption
+  if (!Number.isFinite(startMs) || !Number.isFinite(endMs) || !Number.isFinite(atMs)) return null
+  if (atMs <= startMs || atMs >= endMs) return null
+
+  const splitMs = Math.round(atMs)
+  const [before, after] = splitCaptionText(caption.text, (splitMs - startMs) / (endMs - startMs), cursorIndex)
+  return [
+    { ...caption, endMs: splitMs, text: before },
+    { id: nextId, startMs: splitMs, endMs, text: after },
+  ]
+}
+
+function joinCaptionText(first: string, second: string) {
+  return [first.trim(), second.trim()].filter(Boolean).join(' ')
+}
+
+// 시간순으로 바로 다음 자막을 합쳐 앞 자막의 id로 남긴다. 다음 자막이 없으면 null.
+export function mergeCaptionWithNext(captions: Caption[], captionId: string): Caption[] | null {
+  const sorted = [...captions].sort((a, b) => a.startMs - b.startMs)
+  const index = sorted.findIndex((caption) => caption.id === captionId)
+  const current = sorted[index]
+  const next = sorted[index + 1]
+  if (!current || !next) return null
+
+  const merged: Caption = {
+    ...current,
+    startMs: Math.min(current.startMs, next.startMs),
+    endMs: Math.max(current.endMs, next.endMs),
+    text: joinCaptionText(current.text, next.text),
+  }
+  return captions
+    .filter((caption) => caption.id !== next.id)
+    .map((caption) => (caption.id === current.id ? merged : caption))
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest'
+
+import type { Caption } from '@/datasource/types'
+
+import { captionsToStl, isStlFile, parseCaptionsFromStl } from './captionStl'
+
+function createIdFactory() {
+  let seq = 0
+  return () => `generated_${++seq}`
+}
+
+function readAscii(bytes: Uint8Array, offset: number, length: number) {
+  return String.fromCharCode(...bytes.subarray(offset, offset + length))
+}
+
+describe('EBU-STL', () => {
+  const captions: Caption[] = [
+    { id: 'a', startMs: 1000, endMs: 2480, text: 'Café crème\n♪ Über' },
+    { id: 'b', startMs: 3000, endMs: 4000, text: 'x'.repeat(150) },
+  ]
+
+  it('writes a GSI header and TTI blocks with extension blocks', () => {
+    const { bytes, warnings } = captionsToStl(captions, {
+      title: 'Demo',
+      createdAt: new Date(2024, 0, 31),
+    })
+
+    expect(bytes.length).toBe(1024 + 3 * 128)
+    expect(readAscii(bytes, 0, 16)).toBe('850STL25.0110000')
+    expect(readAscii(bytes, 16, 32).trimEnd()).toBe('Demo')
+    expect(readAscii(bytes, 224, 6)).toBe('240131')
+    expect(readAscii(bytes, 238, 10)).toBe('0000300002')
+    expect(readAscii(bytes, 264, 8)).toBe('00000100')
+
+    const first = bytes.subarray(1024, 1024 + 128)
+    expect(Array.from(first.subarray(0, 16))).toEqual([0, 0, 0, 0xff, 0, 0, 0, 1, 0, 0, 0, 2, 12, 21, 2, 0])
+    expect(Array.from(first.subarray(16, 22))).toEqual([0x43, 0x61, 0x66, 0xc2, 0x65, 0x20])
+
+    const extension = bytes.subarray(1024 + 128, 1024 + 256)
+    expect([extension[1], extension[3]]).toEqual([1, 0])
+    expect(bytes[1024 + 256 + 3]).toBe(0xff)
+
+    expect(warnings).toEqual([{ captionId: 'b', startMs: 3000, message: expect.stringContaining('150자') }])
+  })
+
+  it('parses blocks back into captions', () => {
+    const { bytes } = captionsToStl(captions, { frameRate: 30 })
+
+    expect(isStlFile(bytes.buffer)).toBe(true)
+    expect(parseCaptionsFromStl(bytes.buffer, createIdFactory())).toEqual([
+      { id: 'generated_1', startMs: 1000, endMs: 2467, text: 'Café crème\n♪ Über' },
+      { id: 'generated_2', startMs: 3000, endMs: 4000, text: 'x'.repeat(150) },
+    ])
+  })
+
+  it('swaps $ and ¤ for the ISO 6937 table', () => {
+    const { bytes, warnings } = captionsToStl([{ id: 'd', startMs: 0, endMs: 1000, text: '$5 ¤' }])
+
+    expect(warnings).toEqual([])
+    expect(Array.from(bytes.subarray(1024 + 16, 1024 + 20))).toEqual([0xa4, 0x35, 0x20, 0x24])
+    expect(parseCaptionsFromStl(bytes.buffer, createIdFactory())[0]?.text).toBe('$5 ¤')
+  })
+
+  it('replaces characters outside the code table and reports them', () => {
+    const { bytes, warnings } = captionsToStl(
+      [{ id: 'k', startMs: 0, endMs: 1000, text: '안녕 Привет' }],
+      { characterCodeTable: '01', title: '제목' },
+    )
+
+    expect(readAscii(bytes, 12, 2)).toBe('01')
+    expect(parseCaptionsFromStl(bytes.buffer, createIdFactory())[0]?.text).toBe('?? Привет')
+    expect(warnings.map((warning) => warning.captionId)).toEqual(['k', ''])
+  })
+
+  it('rejects files without a GSI header', () => {
+    expect(() => parseCaptionsFromStl(new ArrayBuffer(2048), createIdFactory())).toThrow('GSI')
+  })
+})
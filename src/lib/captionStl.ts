@@ -0,0 +1,389 @@
+import type { Caption } from '@/datasource/types'
+
+import { getExportableCaptions } from './captionIO'
+
+import type { CaptionExportWarning } from './captionIO'
+
+export type StlFrameRate = 25 | 30
+
+// GSI CCT: 00 Latin(ISO 6937), 01 키릴(8859-5), 02 아랍(8859-6), 03 그리스(8859-7), 04 히브리(8859-8)
+export type StlCharacterCodeTable = '00' | '01' | '02' | '03' | '04'
+
+export type StlDocumentOptions = {
+  title?: string
+  frameRate?: StlFrameRate
+  characterCodeTable?: StlCharacterCodeTable
+  // EBU Tech 3264 부록의 2자리 16진 언어 코드. 00 = 알 수 없음
+  languageCode?: string
+  countryCode?: string
+  createdAt?: Date
+}
+
+export type StlExportResult = {
+  bytes: Uint8Array<ArrayBuffer>
+  warnings: CaptionExportWarning[]
+}
+
+const GSI_SIZE = 1024
+const TTI_SIZE = 128
+const TTI_TEXT_SIZE = 112
+const STL_MAX_COLUMNS = 40
+const STL_MAX_ROWS = 23
+// 자막 마지막 줄을 놓을 Teletext 행
+const STL_BOTTOM_ROW = 22
+
+const TF_NEWLINE = 0x8a
+const TF_UNUSED = 0x8f
+const EBN_LAST = 0xff
+const EBN_USER_DATA = 0xfe
+const JC_CENTERED = 2
+const UNREPRESENTABLE = 0x3f
+
+const ISO_8859_BY_CCT: Record<Exclude<StlCharacterCodeTable, '00'>, string> = {
+  '01': 'iso-8859-5',
+  '02': 'iso-8859-6',
+  '03': 'iso-8859-7',
+  '04': 'iso-8859-8',
+}
+
+// ISO 6937은 악센트를 "발음 구별 부호 + 기본 글자" 두 바이트로 쓴다.
+const ISO_6937_DIACRITICS: Record<string, number> = {
+  '\u0300': 0xc1,
+  '\u0301': 0xc2,
+  '\u0302': 0xc3,
+  '\u0303': 0xc4,
+  '\u0304': 0xc5,
+  '\u0306': 0xc6,
+  '\u0307': 0xc7,
+  '\u0308': 0xc8,
+  '\u030A': 0xca,
+  '\u0327': 0xcb,
+  '\u030B': 0xcd,
+  '\u0328': 0xce,
+  '\u030C': 0xcf,
+}
+
+// ISO 6937은 ASCII와 달리 0x24가 ¤이고 $는 0xA4에 있다.
+const ISO_6937_SYMBOLS: Record<string, number> = {
+  '¤': 0x24,
+  '¡': 0xa1,
+  '¢': 0xa2,
+  '£': 0xa3,
+  '$': 0xa4,
+  '¥': 0xa5,
+  '§': 0xa7,
+  '‘': 0xa9,
+  '“': 0xaa,
+  '«': 0xab,
+  '°': 0xb0,
+  '±': 0xb1,
+  '²': 0xb2,
+  '³': 0xb3,
+  '×': 0xb4,
+  'µ': 0xb5,
+  '¶': 0xb6,
+  '·': 0xb7,
+  '÷': 0xb8,
+  '’': 0xb9,
+  '”': 0xba,
+  '»': 0xbb,
+  '¿': 0xbf,
+  '―': 0xd0,
+  '¹': 0xd1,
+  '®': 0xd2,
+  '©': 0xd3,
+  '™': 0xd4,
+  '♪': 0xd5,
+  'Æ': 0xe1,
+  'Đ': 0xe2,
+  'Ł': 0xe8,
+  'Ø': 0xe9,
+  'Œ': 0xea,
+  'æ': 0xf1,
+  'đ': 0xf2,
+  'ł': 0xf8,
+  'ø': 0xf9,
+  'œ': 0xfa,
+  'ß': 0xfb,
+}
+
+const ISO_6937_SYMBOL_BY_BYTE = new Map(Object.entries(ISO_6937_SYMBOLS).map(([char, byte]) => [byte, char]))
+const ISO_6937_DIACRITIC_BY_BYTE = new Map(
+  Object.entries(ISO_6937_DIACRITICS).map(([mark, byte]) => [byte, mark]),
+)
+
+const isoEncoderCache = new Map<string, Map<string, number>>()
+
+function getIsoEncoder(encoding: string) {
+  const cached = isoEncoderCache.get(encoding)
+  if (cached) return cached
+
+  // TextEncoder는 UTF-8만 지원하므로 디코더로 상위 128자 역방향 표를 만든다.
+  const decoder = new TextDecoder(encoding)
+  const table = new Map<string, number>()
+  for (let byte = 0xa0; byte <= 0xff; byte += 1) {
+    const char = decoder.decode(new Uint8Array([byte]))
+    if (char !== '\uFFFD') table.set(char, byte)
+  }
+  isoEncoderCache.set(encoding, table)
+  return table
+}
+
+function encodeIso6937Char(char: string): number[] | null {
+  const symbol = ISO_6937_SYMBOLS[char]
+  if (symbol !== undefined) return [symbol]
+
+  const code = char.charCodeAt(0)
+  if (char.length === 1 && code >= 0x20 && code <= 0x7e) return [code]
+
+  const [base = '', mark = '', ...rest] = Array.from(char.normalize('NFD'))
+  const diacritic = ISO_6937_DIACRITICS[mark]
+  const baseCode = base.charCodeAt(0)
+  if (rest.length > 0 || diacritic === undefined || baseCode < 0x20 || baseCode > 0x7e) return null
+  return [diacritic, baseCode]
+}
+
+function encodeStlChar(char: string, table: StlCharacterCodeTable): number[] | null {
+  if (char === '\u00A0') return [0x20]
+  if (table === '00') return encodeIso6937Char(char)
+
+  const code = char.charCodeAt(0)
+  if (char.length === 1 && code >= 0x20 && code <= 0x7e) return [code]
+  const byte = getIsoEncoder(ISO_8859_BY_CCT[table]).get(char)
+  return byte === undefined ? null : [byte]
+}
+
+function decodeStlText(bytes: Uint8Array, table: StlCharacterCodeTable) {
+  const decoder = table === '00' ? null : new TextDecoder(ISO_8859_BY_CCT[table])
+  let text = ''
+  let pendingMark = ''
+
+  for (const byte of bytes) {
+    if (byte === TF_UNUSED) break
+    if (byte === TF_NEWLINE) {
+      text += '\n'
+      continue
+    }
+    // 0x00~0x1F(Teletext 속성), 0x80~0x9F(열린 자막 속성)는 글자가 아니다.
+    if (byte < 0x20 || (byte >= 0x80 && byte <= 0x9f)) {
+      if (byte < 0x20) text += ' '
+      continue
+    }
+    if (decoder) {
+      text += byte < 0x80 ? String.fromCharCode(byte) : decoder.decode(new Uint8Array([byte]))
+      continue
+    }
+
+    const mark = ISO_6937_DIACRITIC_BY_BYTE.get(byte)
+    if (mark) {
+      pendingMark = mark
+      continue
+    }
+    const char = ISO_6937_SYMBOL_BY_BYTE.get(byte) ?? (byte < 0x80 ? String.fromCharCode(byte) : '')
+    text += pendingMark ? `${char}${pendingMark}`.normalize('NFC') : char
+    pendingMark = ''
+  }
+
+  return text
+    .split('\n')
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n')
+}
+
+function writeAscii(target: Uint8Array, offset: number, length: number, value: string) {
+  for (let index = 0; index < length; index += 1) {
+    const code = value.charCodeAt(index)
+    target[offset + index] = index < value.length ? (code >= 0x20 && code <= 0x7e ? code : UNREPRESENTABLE) : 0x20
+  }
+}
+
+function readAscii(source: Uint8Array, offset: number, length: number) {
+  return String.fromCharCode(...source.subarray(offset, offset + length)).trim()
+}
+
+function toStlFrames(ms: number, frameRate: StlFrameRate) {
+  const totalFrames = Math.max(0, Math.round((ms * frameRate) / 1000))
+  return [
+    Math.floor(totalFrames / (3600 * frameRate)) % 24,
+    Math.floor(totalFrames / (60 * frameRate)) % 60,
+    Math.floor(totalFrames / frameRate) % 60,
+    totalFrames % frameRate,
+  ]
+}
+
+function fromStlFrames([hours = 0, minutes = 0, seconds = 0, frames = 0]: Iterable<number>, frameRate: number) {
+  return Math.round((hours * 3600 + minutes * 60 + seconds) * 1000 + (frames * 1000) / frameRate)
+}
+
+function formatStlDate(date: Date) {
+  const pad = (value: number) => String(value).padStart(2, '0')
+  return `${pad(date.getFullYear() % 100)}${pad(date.getMonth() + 1)}${pad(date.getDate())}`
+}
+
+function encodeCaptionText(caption: Caption, table: StlCharacterCodeTable, warn: (message: string) => void) {
+  const lines = caption.text
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+  const unsupported = new Set<string>()
+  const bytes: number[] = []
+
+  lines.forEach((line, index) => {
+    const chars = Array.from(line.normalize('NFC'))
+    if (chars.length > STL_MAX_COLUMNS) {
+      warn(`${index + 1}번째 줄이 ${chars.length}자라 Teletext 한 줄(${STL_MAX_COLUMNS}자)을 넘어요.`)
+    }
+    if (index > 0) bytes.push(TF_NEWLINE)
+    for (const char of chars) {
+      const encoded = encodeStlChar(char, table)
+      if (encoded) {
+        bytes.push(...encoded)
+      } else {
+        unsupported.add(char)
+        bytes.push(UNREPRESENTABLE)
+      }
+    }
+  })
+
+  if (unsupported.size > 0) {
+    warn(`CCT ${table} 코드 페이지에 없는 글자(${Array.from(unsupported).join(' ')})는 ?로 바꿨어요.`)
+  }
+  return { bytes, lineCount: lines.length }
+}
+
+export function captionsToStl(captions: Caption[], options: StlDocumentOptions = {}): StlExportResult {
+  const frameRate = options.frameRate ?? 25
+  const table = options.characterCodeTable ?? '00'
+  const warnings: CaptionExportWarning[] = []
+  const validCaptions = getExportableCaptions(captions)
+
+  const blocks: Uint8Array[] = []
+  validCaptions.forEach((caption, index) => {
+    const warn = (message: string) => warnings.push({ captionId: caption.id, startMs: caption.startMs, message })
+    const subtitleNumber = index % 0x10000
+    const { bytes, lineCount } = encodeCaptionText(caption, table, warn)
+    const verticalPosition = Math.max(1, STL_BOTTOM_ROW - Math.max(0, lineCount - 1))
+
+    // 112바이트를 넘는 자막은 확장 블록(EBN 0, 1, …, 마지막은 0xFF)으로 나눈다.
+    const chunkCount = Math.max(1, Math.ceil(bytes.length / TTI_TEXT_SIZE))
+    for (let chunk = 0; chunk < chunkCount; chunk += 1) {
+      const block = new Uint8Array(TTI_SIZE)
+      block[0] = 0
+      block[1] = subtitleNumber & 0xff
+      block[2] = subtitleNumber >> 8
+      block[3] = chunk === chunkCount - 1 ? EBN_LAST : chunk
+      block[4] = 0
+      block.set(toStlFrames(caption.startMs, frameRate), 5)
+      block.set(toStlFrames(caption.endMs, frameRate), 9)
+      block[13] = verticalPosition
+      block[14] = JC_CENTERED
+      block[15] = 0
+      block.fill(TF_UNUSED, 16)
+      block.set(bytes.slice(chunk * TTI_TEXT_SIZE, (chunk + 1) * TTI_TEXT_SIZE), 16)
+      blocks.push(block)
+    }
+  })
+
+  const title = (options.title ?? '').replace(/[\r\n]+/g, ' ').trim()
+  if (/[^\x20-\x7e]/.test(title)) {
+    warnings.push({
+      captionId: '',
+      startMs: 0,
+      message: 'GSI 제목은 코드 페이지 850의 ASCII 범위만 쓸 수 있어 일부 글자를 ?로 바꿨어요.',
+    })
+  }
+
+  const gsi = new Uint8Array(GSI_SIZE)
+  const firstCue = validCaptions[0]
+  const firstCueFrames = firstCue ? toStlFrames(firstCue.startMs, frameRate) : [0, 0, 0, 0]
+  const createdAt = formatStlDate(options.createdAt ?? new Date())
+  const pad = (value: number, length: number) => String(value).padStart(length, '0')
+
+  gsi.fill(0x20)
+  writeAscii(gsi, 0, 3, '850')
+  writeAscii(gsi, 3, 8, frameRate === 30 ? 'STL30.01' : 'STL25.01')
+  writeAscii(gsi, 11, 1, '1')
+  writeAscii(gsi, 12, 2, table)
+  writeAscii(gsi, 14, 2, (options.languageCode ?? '00').toUpperCase())
+  writeAscii(gsi, 16, 32, title)
+  writeAscii(gsi, 80, 32, title)
+  writeAscii(gsi, 224, 6, createdAt)
+  writeAscii(gsi, 230, 6, createdAt)
+  writeAscii(gsi, 236, 2, '00')
+  writeAscii(gsi, 238, 5, pad(blocks.length, 5))
+  writeAscii(gsi, 243, 5, pad(validCaptions.length, 5))
+  writeAscii(gsi, 248, 3, '001')
+  writeAscii(gsi, 251, 2, pad(STL_MAX_COLUMNS, 2))
+  writeAscii(gsi, 253, 2, pad(STL_MAX_ROWS, 2))
+  writeAscii(gsi, 255, 1, '1')
+  writeAscii(gsi, 256, 8, '00000000')
+  writeAscii(gsi, 264, 8, firstCueFrames.map((value) => pad(value, 2)).join(''))
+  writeAscii(gsi, 272, 1, '1')
+  writeAscii(gsi, 273, 1, '1')
+  writeAscii(gsi, 274, 3, (options.countryCode ?? 'KOR').toUpperCase())
+
+  const bytes = new Uint8Array(GSI_SIZE + blocks.length * TTI_SIZE)
+  bytes.set(gsi, 0)
+  blocks.forEach((block, index) => bytes.set(block, GSI_SIZE + index * TTI_SIZE))
+
+  return { bytes, warnings }
+}
+
+export function isStlFile(buffer: ArrayBuffer) {
+  if (buffer.byteLength < GSI_SIZE) return false
+  return /^STL(?:24|25|30)\.01$/.test(readAscii(new Uint8Array(buffer), 3, 8))
+}
+
+export function parseCaptionsFromStl(buffer: ArrayBuffer, fallbackId: () => string): Caption[] {
+  const source = new Uint8Array(buffer)
+  if (!isStlFile(buffer)) {
+    throw new Error('EBU-STL GSI 헤더를 찾지 못했어요.')
+  }
+
+  const frameRate = Number(readAscii(source, 6, 2)) || 25
+  const rawTable = readAscii(source, 12, 2) || '00'
+  const table: StlCharacterCodeTable = rawTable in ISO_8859_BY_CCT ? (rawTable as StlCharacterCodeTable) : '00'
+
+  // 많은 방송용 파일이 10:00:00:00 같은 프로그램 시작 시각을 기준으로 타임코드를 적는다.
+  const startOfProgramme = readAscii(source, 256, 8)
+  const programmeOffsetMs = /^\d{8}$/.test(startOfProgramme)
+    ? fromStlFrames(
+        [0, 2, 4, 6].map((offset) => Number(startOfProgramme.slice(offset, offset + 2))),
+        frameRate,
+      )
+    : 0
+
+  const captions: Caption[] = []
+  let pendingText: number[] = []
+
+  for (let offset = GSI_SIZE; offset + TTI_SIZE <= source.length; offset += TTI_SIZE) {
+    const block = source.subarray(offset, offset + TTI_SIZE)
+    const extensionBlock = block[3] ?? EBN_LAST
+    const isComment = block[15] === 1
+    if (extensionBlock === EBN_USER_DATA || isComment) continue
+
+    const textField = block.subarray(16, TTI_SIZE)
+    const unusedAt = textField.indexOf(TF_UNUSED)
+    pendingText.push(...(unusedAt >= 0 ? textField.subarray(0, unusedAt) : textField))
+    if (extensionBlock !== EBN_LAST) continue
+
+    const text = decodeStlText(new Uint8Array(pendingText), table)
+    pendingText = []
+
+    const rawStart = fromStlFrames(block.subarray(5, 9), frameRate)
+    const rawEnd = fromStlFrames(block.subarray(9, 13), frameRate)
+    const offsetMs = rawStart >= programmeOffsetMs ? programmeOffsetMs : 0
+    const startMs = rawStart - offsetMs
+    const endMs = rawEnd - offsetMs
+    if (!text || endMs <= startMs) continue
+
+    captions.push({ id: fallbackId(), startMs, endMs, text })
+  }
+
+  if (captions.length === 0) {
+    throw new Error('EBU-STL에서 읽을 수 있는 자막을 찾지 못했어요.')
+  }
+  return captions.sort((a, b) => a.startMs - b.startMs)
+}
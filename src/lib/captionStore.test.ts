@@ -0,0 +1,45 @@
+import 'fake-indexeddb/auto'
+import { describe, expect, it } from 'vitest'
+
+import type { CaptionStyleProfile } from '@/datasource/types'
+
+import {
+  getCaptionStyleProfile,
+  getCaptionTimecodeSettings,
+  getCaptions,
+  saveCaptionStyleProfile,
+  saveCaptionTimecodeSettings,
+  saveCaptions,
+} from './captionStore'
+
+describe('captionStore', () => {
+  it('keeps every field when captions, style profile and timecode are saved at the same time', async () => {
+    const captions = [{ id: 'a', startMs: 0, endMs: 1000, text: '안녕' }]
+    const rule = { warning: null, error: null }
+    const profile: CaptionStyleProfile = {
+      id: 'custom',
+      name: '사용자',
+      gapMs: 1,
+      maxCps: rule,
+      maxWpm: rule,
+      maxCharsPerLine: rule,
+      maxLines: rule,
+      minDurationMs: rule,
+      maxDurationMs: rule,
+      minGapFrames: rule,
+      allowedChars: null,
+    }
+
+    const timecode = { frameRate: 25, dropFrame: false, format: 'frames' as const, snapToFrames: true }
+
+    await Promise.all([
+      saveCaptions('v1', captions),
+      saveCaptionStyleProfile('v1', profile),
+      saveCaptionTimecodeSettings('v1', timecode),
+    ])
+
+    expect(await getCaptions('v1')).toEqual(captions)
+    expect(await getCaptionStyleProfile('v1')).toEqual(profile)
+    expect(await getCaptionTimecodeSettings('v1')).toEqual(timecode)
+  })
+})
@@ -1,6 +1,6 @@
 import Dexie, { type Table } from 'dexie'
 
-import type { Caption } from '@/datasource/types'
+import type { Caption, CaptionStyleProfile, CaptionTimecodeSettings } from '@/datasource/types'
 
 const DB_NAME = 'video-caption-editor-captions'
 const TABLE_CAPTIONS = 'captions'
@@ -8,6 +8,8 @@ const TABLE_CAPTIONS = 'captions'
 type StoredCaptions = {
   videoId: string
   captions: Caption[]
+  styleProfile?: CaptionStyleProfile
+  timecode?: CaptionTimecodeSettings
   createdAt: number
   updatedAt: number
 }
@@ -41,18 +43,32 @@ class CaptionStoreError extends Error {
   }
 }
 
-export async function saveCaptions(videoId: string, captions: Caption[]) {
-  assertIndexedDbAvailable()
-  try {
+// 자막·스타일 프로필·타임코드 설정은 한 레코드에 같이 있다. 따로 저장하다 서로 덮어쓰지 않도록
+// 읽고 고쳐 쓰는 과정을 한 트랜잭션으로 묶는다.
+async function patchStoredCaptions(
+  videoId: string,
+  patch: Partial<Pick<StoredCaptions, 'captions' | 'styleProfile' | 'timecode'>>,
+) {
+  await db.transaction('rw', db.captions, async () => {
     const existing = await db.captions.get(videoId)
     const timestamp = Date.now()
 
     await db.captions.put({
       videoId,
-      captions,
+      captions: existing?.captions ?? [],
+      styleProfile: existing?.styleProfile,
+      timecode: existing?.timecode,
+      ...patch,
       createdAt: existing?.createdAt ?? timestamp,
       updatedAt: timestamp,
     })
+  })
+}
+
+export async function saveCaptions(videoId: string, captions: Caption[]) {
+  assertIndexedDbAvailable()
+  try {
+    await patchStoredCaptions(videoId, { captions })
   } catch (err) {
     throw new CaptionStoreError(`Failed to save captions for videoId=${videoId}`, err)
   }
@@ -68,6 +84,44 @@ export async function getCaptions(videoId: string): Promise<Caption[]> {
   }
 }
 
+export async function saveCaptionStyleProfile(videoId: string, styleProfile: CaptionStyleProfile) {
+  assertIndexedDbAvailable()
+  try {
+    await patchStoredCaptions(videoId, { styleProfile })
+  } catch (err) {
+    throw new CaptionStoreError(`Failed to save style profile for videoId=${videoId}`, err)
+  }
+}
+
+export async function getCaptionStyleProfile(videoId: string): Promise<CaptionStyleProfile | null> {
+  assertIndexedDbAvailable()
+  try {
+    const stored = await db.captions.get(videoId)
+    return stored?.styleProfile ?? null
+  } catch (err) {
+    throw new CaptionStoreError(`Failed to load style profile for videoId=${videoId}`, err)
+  }
+}
+
+export async function saveCaptionTimecodeSettings(videoId: string, timecode: CaptionTimecodeSettings) {
+  assertIndexedDbAvailable()
+  try {
+    await patchStoredCaptions(videoId, { timecode })
+  } catch (err) {
+    throw new CaptionStoreError(`Failed to save timecode settings for videoId=${videoId}`, err)
+  }
+}
+
+export async function getCaptionTimecodeSettings(videoId: string): Promise<CaptionTimecodeSettings | null> {
+  assertIndexedDbAvailable()
+  try {
+    const stored = await db.captions.get(videoId)
+    return stored?.timecode ?? null
+  } catch (err) {
+    throw new CaptionStoreError(`Failed to load timecode settings for videoId=${videoId}`, err)
+  }
+}
+
 export async function __devCaptionStoreSmoke(videoId: string, captions: Caption[]) {
   if (!import.meta.env.DEV) return
   await saveCaptions(videoId, captions)
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest'
+
+import type { Caption } from '@/datasource/types'
+
+import { applyLinearTiming, fitLinearTiming } from './captionSync'
+
+describe('two-point caption sync', () => {
+  it('fits offset and scale through both anchors', () => {
+    const transform = fitLinearTiming({ sourceMs: 1000, targetMs: 3000 }, { sourceMs: 11000, targetMs: 13500 })
+    expect(transform).toEqual({ scale: 1.05, offsetMs: 1950 })
+
+    const captions: Caption[] = [
+      { id: 'a', startMs: 1000, endMs: 2000, text: 'A' },
+      { id: 'b', startMs: 11000, endMs: 12000, text: 'B' },
+    ]
+    expect(applyLinearTiming(captions, transform!).map((c) => [c.startMs, c.endMs])).toEqual([
+      [3000, 4050],
+      [13500, 14550],
+    ])
+    expect(applyLinearTiming(captions, transform!, new Set(['b']))[0]).toBe(captions[0])
+  })
+
+  it('rejects anchors that cannot define a forward mapping', () => {
+    expect(fitLinearTiming({ sourceMs: 1000, targetMs: 0 }, { sourceMs: 1000, targetMs: 500 })).toBeNull()
+    expect(fitLinearTiming({ sourceMs: 1000, targetMs: 5000 }, { sourceMs: 2000, targetMs: 4000 })).toBeNull()
+    expect(fitLinearTiming({ sourceMs: Number.NaN, targetMs: 0 }, { sourceMs: 2000, targetMs: 4000 })).toBeNull()
+  })
+})
@@ -0,0 +1,39 @@
+import type { Caption } from '@/datasource/types'
+
+export type CaptionSyncAnchor = {
+  sourceMs: number
+  targetMs: number
+}
+
+// target = source * scale + offsetMs
+export type LinearTimingTransform = {
+  scale: number
+  offsetMs: number
+}
+
+// 두 기준점을 지나는 직선을 구한다. 두 점의 원래 시각이 같으면 기울기를 정할 수 없어 null.
+export function fitLinearTiming(first: CaptionSyncAnchor, second: CaptionSyncAnchor): LinearTimingTransform | null {
+  const values = [first.sourceMs, first.targetMs, second.sourceMs, second.targetMs]
+  if (!values.every(Number.isFinite)) return null
+
+  const sourceSpan = second.sourceMs - first.sourceMs
+  if (sourceSpan === 0) return null
+
+  const scale = (second.targetMs - first.targetMs) / sourceSpan
+  if (!(scale > 0)) return null
+
+  return { scale, offsetMs: first.targetMs - first.sourceMs * scale }
+}
+
+export function applyLinearTiming(
+  captions: Caption[],
+  { scale, offsetMs }: LinearTimingTransform,
+  ids: ReadonlySet<string> | null = null,
+) {
+  const map = (ms: number) => (Number.isFinite(ms) ? Math.round(ms * scale + offsetMs) : ms)
+  return captions.map((caption) =>
+    ids === null || ids.has(caption.id)
+      ? { ...caption, startMs: map(caption.startMs), endMs: map(caption.endMs) }
+      : caption,
+  )
+}
@@ -0,0 +1,78 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest'
+
+import { captionsToTtml, parseCaptionsFromTtml, validateTtml } from './captionTtml'
+
+const captions = [
+  { id: 'b', startMs: 3_723_456, endMs: 3_725_000, text: '둘째 <자막> & "인용"' },
+  { id: '1', startMs: 1000, endMs: 2500, text: '첫 줄\n 둘째 줄 ' },
+  { id: 'blank', startMs: 4000, endMs: 5000, text: '  ' },
+]
+
+describe('TTML', () => {
+  it('writes an IMSC1 document with language, escaped text and line breaks', () => {
+    const ttml = captionsToTtml(captions, { profile: 'imsc1-text', language: 'ko-KR', title: '제목 & 부제' })
+
+    expect(ttml).toContain('xml:lang="ko-KR"')
+    expect(ttml).toContain('ttp:profile="http://www.w3.org/ns/ttml/profile/imsc1/text"')
+    expect(ttml).toContain('<ttm:title>제목 &amp; 부제</ttm:title>')
+    expect(ttml).toContain(
+      '<p xml:id="c1_1" begin="00:00:01.000" end="00:00:02.500" region="bottom" style="default">첫 줄<br/>둘째 줄</p>',
+    )
+    expect(ttml).toContain('>둘째 &lt;자막&gt; &amp; &quot;인용&quot;</p>')
+    expect(ttml).not.toContain('blank')
+    expect(validateTtml(ttml, 'imsc1-text')).toEqual([])
+  })
+
+  it('falls back to an undetermined language instead of an empty xml:lang', () => {
+    expect(captionsToTtml(captions, { profile: 'dfxp' })).toContain('xml:lang="und"')
+  })
+
+  it('reports structural problems', () => {
+    const ttml = [
+      '<tt xmlns="http://www.w3.org/ns/ttml" xmlns:ttp="http://www.w3.org/ns/ttml#parameter"',
+      ' ttp:profile="http://www.w3.org/ns/ttml/profile/dfxp-presentation">',
+      '<body><div>',
+      '<p xml:id="a" begin="00:00:02.000" end="00:00:01.000" region="nowhere">x</p>',
+      '<p xml:id="a" begin="soon" end="00:00:03.000">y</p>',
+      '</div></body></tt>',
+    ].join('')
+
+    expect(validateTtml(ttml, 'imsc1-text')).toEqual([
+      'tt 요소에 xml:lang 속성이 필요해요.',
+      'ttp:profile이 http://www.w3.org/ns/ttml/profile/imsc1/text이어야 해요.',
+      '1번째 자막: end는 begin보다 커야 해요.',
+      '1번째 자막: 정의되지 않은 region(nowhere)을 참조해요.',
+      '2번째 자막: xml:id(a)가 중복돼요.',
+      '2번째 자막: 시간 표현식을 읽을 수 없어요.',
+    ])
+    expect(() => validateTtml('<tt>', 'dfxp')).toThrow('TTML(XML)')
+  })
+
+  it('round-trips exported captions', () => {
+    let nextId = 0
+    const ttml = captionsToTtml(captions, { profile: 'imsc1-text', language: 'ko' })
+
+    expect(parseCaptionsFromTtml(ttml, () => `new-${(nextId += 1)}`)).toEqual([
+      { id: 'c1_1', startMs: 1000, endMs: 2500, text: '첫 줄\n둘째 줄' },
+      { id: 'b', startMs: 3_723_456, endMs: 3_725_000, text: '둘째 <자막> & "인용"' },
+    ])
+  })
+
+  it('resolves frame, tick and offset times relative to the parent div', () => {
+    let nextId = 0
+    const ttml = [
+      '<tt xmlns="http://www.w3.org/ns/ttml" xmlns:ttp="http://www.w3.org/ns/ttml#parameter"',
+      ' ttp:frameRate="30" ttp:frameRateMultiplier="1000 1001" ttp:tickRate="10000000">',
+      '<body><div begin="10s">',
+      '<p begin="00:00:01:15" dur="500ms">프레임 <span>span</span><br/>다음 줄</p>',
+      '<p xml:id="t" begin="20000000t" end="3s">틱</p>',
+      '</div></body></tt>',
+    ].join('')
+
+    expect(parseCaptionsFromTtml(ttml, () => `new-${(nextId += 1)}`)).toEqual([
+      { id: 'new-1', startMs: 11_501, endMs: 12_001, text: '프레임 span\n다음 줄' },
+      { id: 't', startMs: 12_000, endMs: 13_000, text: '틱' },
+    ])
+  })
+})
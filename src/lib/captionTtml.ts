@@ -0,0 +1,405 @@
+import type { Caption } from '@/datasource/types'
+
+import { getExportableCaptions } from './captionIO'
+
+export type TtmlProfile = 'imsc1-text' | 'dfxp'
+
+export type TtmlRegion = {
+  id: string
+  // 퍼센트 좌표('10% 80%')만 사용해 루트 tts:extent 없이도 유효하게 둔다.
+  origin: string
+  extent: string
+  displayAlign?: 'before' | 'center' | 'after'
+}
+
+export type TtmlStyle = {
+  id: string
+  color?: string
+  backgroundColor?: string
+  fontFamily?: string
+  fontSize?: string
+  fontStyle?: 'normal' | 'italic'
+  fontWeight?: 'normal' | 'bold'
+  textAlign?: 'left' | 'center' | 'right' | 'start' | 'end'
+  lineHeight?: string
+}
+
+export type TtmlDocumentOptions = {
+  profile: TtmlProfile
+  // BCP 47 언어 태그. 비어 있으면 'und'(미정)로 쓴다.
+  language?: string
+  title?: string
+  regions?: TtmlRegion[]
+  styles?: TtmlStyle[]
+  getRegionId?: (caption: Caption) => string
+  getStyleId?: (caption: Caption) => string
+}
+
+const TTML_NS = 'http://www.w3.org/ns/ttml'
+const TTML_PARAMETER_NS = 'http://www.w3.org/ns/ttml#parameter'
+const TTML_STYLING_NS = 'http://www.w3.org/ns/ttml#styling'
+const TTML_METADATA_NS = 'http://www.w3.org/ns/ttml#metadata'
+
+const TTML_PROFILE_DESIGNATORS: Record<TtmlProfile, string> = {
+  'imsc1-text': 'http://www.w3.org/ns/ttml/profile/imsc1/text',
+  dfxp: 'http://www.w3.org/ns/ttml/profile/dfxp-presentation',
+}
+
+// IMSC1 Text Profile은 동시에 표시되는 region을 4개까지만 허용한다. 문서 전체 기준으로 보수적으로 검사한다.
+const IMSC1_MAX_REGIONS = 4
+
+export const DEFAULT_TTML_REGIONS: TtmlRegion[] = [
+  { id: 'bottom', origin: '10% 10%', extent: '80% 80%', displayAlign: 'after' },
+  { id: 'top', origin: '10% 10%', extent: '80% 80%', displayAlign: 'before' },
+]
+
+export const DEFAULT_TTML_STYLES: TtmlStyle[] = [
+  {
+    id: 'default',
+    color: '#FFFFFF',
+    backgroundColor: '#000000CC',
+    fontFamily: 'proportionalSansSerif',
+    fontSize: '100%',
+    textAlign: 'center',
+    lineHeight: '125%',
+  },
+]
+
+function escapeXml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+function toXmlId(value: string, fallback: string) {
+  // xml:id는 NCName이어야 하므로 숫자로 시작하거나 허용되지 않는 문자가 있으면 보정한다.
+  const safe = value.replace(/[^A-Za-z0-9_.-]/g, '_')
+  return /^[A-Za-z_]/.test(safe) ? safe : `${fallback}${safe}`
+}
+
+function formatTtmlClockTime(ms: number) {
+  const clamped = Math.max(0, Math.round(ms))
+  const hours = Math.floor(clamped / 3_600_000)
+  const minutes = Math.floor((clamped % 3_600_000) / 60_000)
+  const seconds = Math.floor((clamped % 60_000) / 1000)
+  const millis = clamped % 1000
+
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}.${String(millis).padStart(3, '0')}`
+}
+
+function formatStyleAttributes(style: Omit<TtmlStyle, 'id'>) {
+  const attributes: [string, string | undefined][] = [
+    ['tts:color', style.color],
+    ['tts:backgroundColor', style.backgroundColor],
+    ['tts:fontFamily', style.fontFamily],
+    ['tts:fontSize', style.fontSize],
+    ['tts:fontStyle', style.fontStyle],
+    ['tts:fontWeight', style.fontWeight],
+    ['tts:textAlign', style.textAlign],
+    ['tts:lineHeight', style.lineHeight],
+  ]
+
+  return attributes
+    .filter((entry): entry is [string, string] => typeof entry[1] === 'string' && entry[1] !== '')
+    .map(([name, value]) => `${name}="${escapeXml(value)}"`)
+    .join(' ')
+}
+
+export function captionsToTtml(captions: Caption[], options: TtmlDocumentOptions): string {
+  const regions = options.regions?.length ? options.regions : DEFAULT_TTML_REGIONS
+  const styles = options.styles?.length ? options.styles : DEFAULT_TTML_STYLES
+  const regionIds = new Set(regions.map((region) => region.id))
+  const styleIds = new Set(styles.map((style) => style.id))
+  const defaultRegionId = regions[0]?.id
+  const defaultStyleId = styles[0]?.id
+
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<tt xmlns="${TTML_NS}" xmlns:ttp="${TTML_PARAMETER_NS}" xmlns:tts="${TTML_STYLING_NS}" xmlns:ttm="${TTML_METADATA_NS}"` +
+      ` xml:lang="${escapeXml(options.language?.trim() || 'und')}" ttp:timeBase="media"` +
+      ` ttp:profile="${TTML_PROFILE_DESIGNATORS[options.profile]}">`,
+    '  <head>',
+  ]
+
+  if (options.title) {
+    lines.push('    <metadata>', `      <ttm:title>${escapeXml(options.title)}</ttm:title>`, '    </metadata>')
+  }
+
+  lines.push('    <styling>')
+  for (const style of styles) {
+    const { id, ...rest } = style
+    const attributes = formatStyleAttributes(rest)
+    lines.push(`      <style xml:id="${escapeXml(id)}"${attributes ? ` ${attributes}` : ''}/>`)
+  }
+  lines.push('    </styling>', '    <layout>')
+  for (const region of regions) {
+    const displayAlign = region.displayAlign ? ` tts:displayAlign="${region.displayAlign}"` : ''
+    lines.push(
+      `      <region xml:id="${escapeXml(region.id)}" tts:origin="${escapeXml(region.origin)}"` +
+        ` tts:extent="${escapeXml(region.extent)}"${displayAlign}/>`,
+    )
+  }
+  lines.push('    </layout>', '  </head>', '  <body>', '    <div>')
+
+  getExportableCaptions(captions).forEach((caption, index) => {
+    const requestedRegion = options.getRegionId?.(caption)
+    const requestedStyle = options.getStyleId?.(caption)
+    const regionId = requestedRegion && regionIds.has(requestedRegion) ? requestedRegion : defaultRegionId
+    const styleId = requestedStyle && styleIds.has(requestedStyle) ? requestedStyle : defaultStyleId
+
+    const content = caption.text
+      .replace(/\r\n?|\n/g, '\n')
+      .split('\n')
+      .map((line) => escapeXml(line.trim()))
+      .filter((line) => line !== '')
+      .join('<br/>')
+
+    const attributes = [
+      `xml:id="${toXmlId(caption.id, `c${index + 1}_`)}"`,
+      `begin="${formatTtmlClockTime(caption.startMs)}"`,
+      `end="${formatTtmlClockTime(caption.endMs)}"`,
+      regionId ? `region="${escapeXml(regionId)}"` : null,
+      styleId ? `style="${escapeXml(styleId)}"` : null,
+    ].filter(Boolean)
+
+    lines.push(`      <p ${attributes.join(' ')}>${content}</p>`)
+  })
+
+  lines.push('    </div>', '  </body>', '</tt>')
+  return `${lines.join('\n')}\n`
+}
+
+function parseXml(xmlText: string) {
+  if (typeof DOMParser === 'undefined') {
+    throw new Error('이 환경에서는 XML을 해석할 수 없어요.')
+  }
+
+  const document = new DOMParser().parseFromString(xmlText.replace(/^\uFEFF/, ''), 'application/xml')
+  if (document.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('TTML(XML) 형식을 읽을 수 없어요.')
+  }
+  return document
+}
+
+function getLocalElements(root: Document | Element, localName: string) {
+  return Array.from(root.getElementsByTagNameNS('*', localName))
+}
+
+export function validateTtml(xmlText: string, profile: TtmlProfile): string[] {
+  const issues: string[] = []
+  const document = parseXml(xmlText)
+  const root = document.documentElement
+
+  if (root.localName !== 'tt') {
+    issues.push('루트 요소가 tt가 아니에요.')
+    return issues
+  }
+
+  if (root.namespaceURI !== TTML_NS) {
+    issues.push(`tt 요소의 네임스페이스가 ${TTML_NS}가 아니에요.`)
+  }
+
+  if (!root.hasAttribute('xml:lang')) {
+    issues.push('tt 요소에 xml:lang 속성이 필요해요.')
+  }
+
+  const profileAttr = root.getAttributeNS(TTML_PARAMETER_NS, 'profile')
+  if (profileAttr !== TTML_PROFILE_DESIGNATORS[profile]) {
+    issues.push(`ttp:profile이 ${TTML_PROFILE_DESIGNATORS[profile]}이어야 해요.`)
+  }
+
+  const timeBase = root.getAttributeNS(TTML_PARAMETER_NS, 'timeBase')
+  if (timeBase && timeBase !== 'media') {
+    issues.push('ttp:timeBase는 media여야 해요.')
+  }
+
+  const heads = getLocalElements(root, 'head')
+  const bodies = getLocalElements(root, 'body')
+  if (heads.length > 1) issues.push('head 요소는 하나만 있어야 해요.')
+  if (bodies.length !== 1) issues.push('body 요소가 정확히 하나 있어야 해요.')
+
+  const regionIds = new Set(getLocalElements(root, 'region').map((region) => region.getAttribute('xml:id') ?? ''))
+  const styleIds = new Set(getLocalElements(root, 'style').map((style) => style.getAttribute('xml:id') ?? ''))
+
+  if (profile === 'imsc1-text') {
+    if (regionIds.size > IMSC1_MAX_REGIONS) {
+      issues.push(`IMSC1 Text Profile은 region을 최대 ${IMSC1_MAX_REGIONS}개까지 허용해요.`)
+    }
+    if (getLocalElements(root, 'image').length > 0) {
+      issues.push('IMSC1 Text Profile에는 image 요소를 쓸 수 없어요.')
+    }
+    const withBackgroundImage = Array.from(root.getElementsByTagName('*')).some((element) =>
+      element.hasAttributeNS('http://www.smpte-ra.org/schemas/2052-1/2010/smpte', 'backgroundImage'),
+    )
+    if (withBackgroundImage) {
+      issues.push('IMSC1 Text Profile에는 smpte:backgroundImage를 쓸 수 없어요.')
+    }
+  }
+
+  const seenIds = new Set<string>()
+  getLocalElements(root, 'p').forEach((paragraph, index) => {
+    const label = `${index + 1}번째 자막`
+    const parentName = paragraph.parentElement?.localName
+    if (parentName !== 'div') issues.push(`${label}: p 요소는 div 안에 있어야 해요.`)
+
+    const id = paragraph.getAttribute('xml:id')
+    if (id) {
+      if (seenIds.has(id)) issues.push(`${label}: xml:id(${id})가 중복돼요.`)
+      seenIds.add(id)
+    }
+
+    const begin = paragraph.getAttribute('begin')
+    const end = paragraph.getAttribute('end')
+    if (!begin || !end) {
+      issues.push(`${label}: begin/end 속성이 필요해요.`)
+    } else {
+      const beginMs = parseTtmlTime(begin, DEFAULT_TIMING)
+      const endMs = parseTtmlTime(end, DEFAULT_TIMING)
+      if (beginMs === null || endMs === null) issues.push(`${label}: 시간 표현식을 읽을 수 없어요.`)
+      else if (beginMs >= endMs) issues.push(`${label}: end는 begin보다 커야 해요.`)
+    }
+
+    const region = paragraph.getAttribute('region')
+    if (region && !regionIds.has(region)) issues.push(`${label}: 정의되지 않은 region(${region})을 참조해요.`)
+
+    const style = paragraph.getAttribute('style')
+    for (const styleRef of style?.split(/\s+/).filter(Boolean) ?? []) {
+      if (!styleIds.has(styleRef)) issues.push(`${label}: 정의되지 않은 style(${styleRef})을 참조해요.`)
+    }
+  })
+
+  return issues
+}
+
+type TtmlTiming = { frameRate: number; tickRate: number }
+
+const DEFAULT_TIMING: TtmlTiming = { frameRate: 30, tickRate: 1 }
+
+function parseTtmlTime(raw: string, timing: TtmlTiming): number | null {
+  const value = raw.trim()
+
+  const clock = /^(\d{2,}):(\d{2}):(\d{2})(?:(\.\d+)|:(\d{2,})(?:\.(\d+))?)?$/.exec(value)
+  if (clock) {
+    const hours = Number(clock[1])
+    const minutes = Number(clock[2])
+    const seconds = Number(clock[3])
+    const fraction = clock[4] ? Number(clock[4]) : 0
+    const frames = clock[5] ? Number(clock[5]) : 0
+    return Math.round((hours * 3600 + minutes * 60 + seconds + fraction + frames / timing.frameRate) * 1000)
+  }
+
+  const offset = /^(\d+(?:\.\d+)?)(h|ms|m|s|f|t)$/.exec(value)
+  if (offset) {
+    const amount = Number(offset[1])
+    switch (offset[2]) {
+      case 'h':
+        return Math.round(amount * 3_600_000)
+      case 'm':
+        return Math.round(amount * 60_000)
+      case 's':
+        return Math.round(amount * 1000)
+      case 'ms':
+        return Math.round(amount)
+      case 'f':
+        return Math.round((amount / timing.frameRate) * 1000)
+      case 't':
+        return Math.round((amount / timing.tickRate) * 1000)
+      default:
+        return null
+    }
+  }
+
+  return null
+}
+
+function collectParagraphText(node: Node): string {
+  let text = ''
+  node.childNodes.forEach((child) => {
+    if (child.nodeType === Node.TEXT_NODE) {
+      text += (child.textContent ?? '').replace(/\s+/g, ' ')
+      return
+    }
+    if (child.nodeType !== Node.ELEMENT_NODE) return
+    const element = child as Element
+    if (element.localName === 'br') {
+      text += '\n'
+      return
+    }
+    if (element.localName === 'span') text += collectParagraphText(element)
+  })
+  return text
+}
+
+export function parseCaptionsFromTtml(xmlText: string, fallbackId: () => string): Caption[] {
+  const document = parseXml(xmlText)
+  const root = document.documentElement
+  if (root.localName !== 'tt') throw new Error('TTML 루트 요소(tt)를 찾지 못했어요.')
+
+  const frameRateAttr = Number(root.getAttributeNS(TTML_PARAMETER_NS, 'frameRate') ?? root.getAttribute('ttp:frameRate'))
+  const multiplierAttr = (
+    root.getAttributeNS(TTML_PARAMETER_NS, 'frameRateMultiplier') ?? root.getAttribute('ttp:frameRateMultiplier') ?? ''
+  )
+    .split(/\s+/)
+    .map(Number)
+  const tickRateAttr = Number(root.getAttributeNS(TTML_PARAMETER_NS, 'tickRate') ?? root.getAttribute('ttp:tickRate'))
+
+  const baseFrameRate = frameRateAttr > 0 ? frameRateAttr : DEFAULT_TIMING.frameRate
+  const [numerator = 1, denominator = 1] = multiplierAttr
+  const frameRate =
+    numerator > 0 && denominator > 0 ? (baseFrameRate * numerator) / denominator : baseFrameRate
+  const timing: TtmlTiming = {
+    frameRate,
+    tickRate: tickRateAttr > 0 ? tickRateAttr : frameRateAttr > 0 ? frameRate : DEFAULT_TIMING.tickRate,
+  }
+
+  // begin은 부모(body/div)의 begin 기준 상대 시간이다.
+  const getInheritedOffset = (element: Element) => {
+    let offset = 0
+    let parent = element.parentElement
+    while (parent && parent !== root) {
+      const begin = parent.getAttribute('begin')
+      const parsed = begin ? parseTtmlTime(begin, timing) : null
+      if (parsed !== null) offset += parsed
+      parent = parent.parentElement
+    }
+    return offset
+  }
+
+  const seenIds = new Set<string>()
+  const captions: Caption[] = []
+
+  getLocalElements(root, 'p').forEach((paragraph, index) => {
+    const label = `${index + 1}번째 자막`
+    const begin = paragraph.getAttribute('begin')
+    const end = paragraph.getAttribute('end')
+    const dur = paragraph.getAttribute('dur')
+    const offset = getInheritedOffset(paragraph)
+
+    const beginMs = begin ? parseTtmlTime(begin, timing) : null
+    const endMs = end ? parseTtmlTime(end, timing) : null
+    const durMs = dur ? parseTtmlTime(dur, timing) : null
+
+    if (beginMs === null) throw new Error(`${label}의 begin 시간을 읽을 수 없어요.`)
+    const startMs = offset + beginMs
+    const resolvedEnd = endMs !== null ? offset + endMs : durMs !== null ? startMs + durMs : null
+    if (resolvedEnd === null) throw new Error(`${label}의 end/dur 시간을 읽을 수 없어요.`)
+    if (startMs >= resolvedEnd) throw new Error('종료 시간은 시작 시간보다 커야 해요.')
+
+    const text = collectParagraphText(paragraph)
+      .split('\n')
+      .map((line) => line.trim())
+      .join('\n')
+      .trim()
+
+    const xmlId = paragraph.getAttribute('xml:id')
+    const id = xmlId && !seenIds.has(xmlId) ? xmlId : fallbackId()
+    seenIds.add(id)
+
+    captions.push({ id, startMs, endMs: resolvedEnd, text })
+  })
+
+  return captions
+}
@@ -0,0 +1,81 @@
+import 'fake-indexeddb/auto'
+import Dexie from 'dexie'
+import { describe, expect, it } from 'vitest'
+
+import {
+  deleteVideoAssets,
+  getPeakPyramid,
+  saveVideoAssetsAtomically,
+  saveVideoBlob,
+  savePeakPyramid,
+} from './localAssetStore'
+
+const pyramid = {
+  durationMs: 1000,
+  sampleRate: 8000,
+  levels: [{ bucketCount: 2, peaks: new Int16Array([-3, 5, -7, 9]) }],
+}
+
+function createVideoBlob(text: string) {
+  return new Blob([text], { type: 'video/mp4' })
+}
+
+describe('localAssetStore peak pyramids', () => {
+  it('returns saved peaks while the video blob stays the same', async () => {
+    await saveVideoBlob('same', createVideoBlob('video'))
+    await savePeakPyramid('same', pyramid)
+
+    expect(await getPeakPyramid('same')).toMatchObject({ id: 'same', ...pyramid })
+  })
+
+  it('does not save peaks without a video blob to check them against', async () => {
+    await savePeakPyramid('missing', pyramid)
+
+    expect(await getPeakPyramid('missing')).toBeUndefined()
+  })
+
+  it('drops peaks when the video blob is saved again', async () => {
+    await saveVideoBlob('resaved', createVideoBlob('video'))
+    await savePeakPyramid('resaved', pyramid)
+    await saveVideoBlob('resaved', createVideoBlob('other video'))
+
+    expect(await getPeakPyramid('resaved')).toBeUndefined()
+
+    await saveVideoAssetsAtomically({
+      record: { id: 'record', title: '제목', createdAt: 1, videoBlobKey: 'resaved' },
+      videoBlob: createVideoBlob('video'),
+    })
+    await savePeakPyramid('resaved', pyramid)
+    await saveVideoAssetsAtomically({
+      record: { id: 'record', title: '제목', createdAt: 1, videoBlobKey: 'resaved' },
+      videoBlob: createVideoBlob('third video'),
+    })
+
+    expect(await getPeakPyramid('resaved')).toBeUndefined()
+  })
+
+  it('discards peaks whose blob signature no longer matches', async () => {
+    await saveVideoBlob('changed', createVideoBlob('video'))
+    await savePeakPyramid('changed', pyramid)
+
+    // saveVideoBlob을 거치지 않고 blob만 바뀐 경우(예: 다른 탭, 예전 버전)를 흉내 낸다.
+    const raw = new Dexie('video-caption-editor-assets')
+    await raw.open()
+    await raw.table('videos').update('changed', { blob: createVideoBlob('a longer video') })
+
+    expect(await getPeakPyramid('changed')).toBeUndefined()
+    expect(await raw.table('peaks').get('changed')).toBeUndefined()
+    raw.close()
+  })
+
+  it('removes peaks together with the video assets', async () => {
+    await saveVideoAssetsAtomically({
+      record: { id: 'deleted', title: '제목', createdAt: 1, videoBlobKey: 'deleted-blob' },
+      videoBlob: createVideoBlob('video'),
+    })
+    await savePeakPyramid('deleted-blob', pyramid)
+    await deleteVideoAssets('deleted')
+
+    expect(await getPeakPyramid('deleted-blob')).toBeUndefined()
+  })
+})
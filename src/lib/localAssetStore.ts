@@ -18,10 +18,23 @@ export type StoredVideoRecord = {
   height?: number
 }
 
+// videoBlobKey마다 저장하는 파형 피크 피라미드
+export type StoredPeakPyramid = {
+  id: string
+  // 만들 때의 영상 blob 표식. 지금 blob과 다르면 버린다.
+  blobSignature: string
+  durationMs: number
+  sampleRate: number
+  levels: { bucketCount: number; peaks: Int16Array }[]
+  createdAt: number
+  updatedAt: number
+}
+
 class LocalAssetDatabase extends Dexie {
   videos!: Table<StoredBlob, string>
   thumbnails!: Table<StoredBlob, string>
   videoRecords!: Table<StoredVideoRecord, string>
+  peaks!: Table<StoredPeakPyramid, string>
 
   constructor() {
     super('video-caption-editor-assets')
@@ -36,6 +49,13 @@ class LocalAssetDatabase extends Dexie {
       thumbnails: 'id,updatedAt,createdAt',
       videoRecords: 'id,updatedAt,createdAt',
     })
+
+    this.version(3).stores({
+      videos: 'id,updatedAt,createdAt',
+      thumbnails: 'id,updatedAt,createdAt',
+      videoRecords: 'id,updatedAt,createdAt',
+      peaks: 'id,updatedAt',
+    })
   }
 }
 
@@ -68,8 +88,14 @@ async function fetchBlob(tableKey: StoreKey, id: string): Promise<StoredBlob | u
   return db[tableKey].get(id)
 }
 
+function getBlobSignature(stored: StoredBlob) {
+  return `${stored.blob.size}:${stored.blob.type}:${stored.updatedAt}`
+}
+
 export async function saveVideoBlob(id: string, blob: Blob, createdAt?: number) {
   await upsertBlob('videos', id, blob, createdAt)
+  // blob이 바뀌면 예전 파형 피크는 맞지 않는다.
+  await db.peaks.delete(id)
 }
 
 export async function saveThumbnailBlob(id: string, blob: Blob, createdAt?: number) {
@@ -84,6 +110,37 @@ export async function getThumbnailBlob(id: string): Promise<StoredBlob | undefin
   return fetchBlob('thumbnails', id)
 }
 
+// 저장된 피크가 지금 영상 blob에서 만든 것일 때만 돌려준다. 어긋나면 지운다.
+export async function getPeakPyramid(blobKey: string): Promise<StoredPeakPyramid | undefined> {
+  const [pyramid, video] = await Promise.all([db.peaks.get(blobKey), db.videos.get(blobKey)])
+  if (!pyramid) return undefined
+  if (!video || pyramid.blobSignature !== getBlobSignature(video)) {
+    await db.peaks.delete(blobKey)
+    return undefined
+  }
+  return pyramid
+}
+
+export async function savePeakPyramid(
+  blobKey: string,
+  pyramid: Pick<StoredPeakPyramid, 'durationMs' | 'sampleRate' | 'levels'>,
+) {
+  await db.transaction('rw', db.videos, db.peaks, async () => {
+    const video = await db.videos.get(blobKey)
+    // 영상 blob이 없으면 나중에 맞는지 확인할 수 없으므로 저장하지 않는다.
+    if (!video) return
+    const existing = await db.peaks.get(blobKey)
+    const timestamp = Date.now()
+    await db.peaks.put({
+      id: blobKey,
+      blobSignature: getBlobSignature(video),
+      ...pyramid,
+      createdAt: existing?.createdAt ?? timestamp,
+      updatedAt: timestamp,
+    })
+  })
+}
+
 export async function saveVideoRecord(record: Omit<StoredVideoRecord, 'updatedAt'>) {
   const normalized = normalizeVideoRecord({ ...record, updatedAt: record.createdAt })
   const existing = await db.videoRecords.get(normalized.id)
@@ -111,10 +168,11 @@ export async function deleteVideoAssets(id: string) {
   const record = await db.videoRecords.get(id)
   const blobKey = record?.videoBlobKey ?? id
 
-  await db.transaction('rw', db.videos, db.thumbnails, db.videoRecords, async () => {
+  await db.transaction('rw', [db.videos, db.thumbnails, db.videoRecords, db.peaks], async () => {
     await db.videoRecords.delete(id)
     await db.videos.delete(blobKey)
     await db.thumbnails.delete(blobKey)
+    await db.peaks.delete(blobKey)
   })
 }
 
@@ -126,7 +184,7 @@ export async function saveVideoAssetsAtomically(params: {
   const normalizedRecord = normalizeVideoRecord({ ...params.record, updatedAt: params.record.createdAt })
   const now = Date.now()
 
-  await db.transaction('rw', db.videos, db.thumbnails, db.videoRecords, async () => {
+  await db.transaction('rw', [db.videos, db.thumbnails, db.videoRecords, db.peaks], async () => {
     const existingRecord = await db.videoRecords.get(normalizedRecord.id)
     const createdAt = existingRecord?.createdAt ?? normalizedRecord.createdAt ?? now
 
@@ -136,6 +194,7 @@ export async function saveVideoAssetsAtomically(params: {
       createdAt,
       updatedAt: now,
     })
+    await db.peaks.delete(normalizedRecord.videoBlobKey)
 
     if (params.thumbnailBlob) {
       await db.thumbnails.put({
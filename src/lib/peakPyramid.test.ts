@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest'
+
+import { downsamplePeaks, getPeaksFromPyramid } from './peakPyramid'
+
+describe('peakPyramid', () => {
+  it('keeps the extremes when downsampling', () => {
+    const peaks = Int16Array.from([-10, 20, -30, 5, -1, 1, -2, 40])
+    expect(Array.from(downsamplePeaks(peaks, 4, 2))).toEqual([-30, 20, -2, 40])
+  })
+
+  it('derives peaks from the coarsest level that is fine enough', () => {
+    const coarse = { bucketCount: 2, peaks: Int16Array.from([-1, 1, -2, 2]) }
+    const fine = { bucketCount: 4, peaks: Int16Array.from([-10, 20, -30, 5, -1, 1, -2, 40]) }
+    const levels = [fine, coarse]
+
+    expect(getPeaksFromPyramid(levels, 2)).toBe(coarse.peaks)
+    expect(Array.from(getPeaksFromPyramid(levels, 3) ?? [])).toEqual([-10, 20, -30, 5, -2, 40])
+    // 가장 촘촘한 단계보다 더 촘촘하게는 만들 수 없다.
+    expect(getPeaksFromPyramid(levels, 8)).toBeNull()
+  })
+})
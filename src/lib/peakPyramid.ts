@@ -0,0 +1,44 @@
+// 저장해 두는 해상도들. 가장 촘촘한 단계보다 더 확대해야 할 때만 오디오를 다시 디코딩한다.
+export const PEAK_PYRAMID_BUCKET_COUNTS = [1024, 4096, 16384, 65536]
+
+export type PeakPyramidLevel = {
+  bucketCount: number
+  // 버킷마다 [min, max] 쌍
+  peaks: Int16Array
+}
+
+export function downsamplePeaks(peaks: Int16Array, sourceBucketCount: number, targetBucketCount: number) {
+  const safeTarget = Math.max(1, targetBucketCount)
+  const safeSource = Math.max(1, sourceBucketCount)
+  const result = new Int16Array(safeTarget * 2)
+  const ratio = safeSource / safeTarget
+
+  for (let bucket = 0; bucket < safeTarget; bucket += 1) {
+    const start = Math.floor(bucket * ratio)
+    const end = Math.max(start + 1, Math.floor((bucket + 1) * ratio))
+    let min = 32767
+    let max = -32768
+    for (let source = start; source < end && source < safeSource; source += 1) {
+      const sourceMin = peaks[source * 2] ?? 0
+      const sourceMax = peaks[source * 2 + 1] ?? 0
+      if (sourceMin < min) min = sourceMin
+      if (sourceMax > max) max = sourceMax
+    }
+    result[bucket * 2] = min === 32767 ? 0 : min
+    result[bucket * 2 + 1] = max === -32768 ? 0 : max
+  }
+
+  return result
+}
+
+// bucketCount 이상으로 촘촘한 단계 중 가장 성긴 것을 골라 줄인다. 그런 단계가 없으면 null
+export function getPeaksFromPyramid(levels: PeakPyramidLevel[], bucketCount: number): Int16Array | null {
+  let source: PeakPyramidLevel | null = null
+  for (const level of levels) {
+    if (level.bucketCount < bucketCount) continue
+    if (!source || level.bucketCount < source.bucketCount) source = level
+  }
+  if (!source) return null
+  if (source.bucketCount === bucketCount) return source.peaks
+  return downsamplePeaks(source.peaks, source.bucketCount, bucketCount)
+}
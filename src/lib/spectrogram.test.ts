@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest'
+
+import { computeSpectrogram, createSpectrogramColorMap } from './spectrogram'
+
+const SAMPLE_RATE = 8000
+
+function sine(hz: number, durationMs: number) {
+  const samples = new Float32Array((SAMPLE_RATE * durationMs) / 1000)
+  for (let i = 0; i < samples.length; i += 1) samples[i] = 0.5 * Math.sin((2 * Math.PI * hz * i) / SAMPLE_RATE)
+  return samples
+}
+
+function loudestRow(data: Uint8Array, column: number, binCount: number) {
+  let best = 0
+  for (let row = 1; row < binCount; row += 1) {
+    if ((data[column * binCount + row] ?? 0) > (data[column * binCount + best] ?? 0)) best = row
+  }
+  return best
+}
+
+describe('spectrogram', () => {
+  it('places a tone on the matching linear or mel row', () => {
+    const options = { columnCount: 8, binCount: 64, fftSize: 512, dynamicRangeDb: 80 }
+    const samples = sine(1000, 1000)
+
+    const linear = computeSpectrogram(samples, SAMPLE_RATE, { ...options, scale: 'linear' })
+    // 1000Hz / 4000Hz(나이퀴스트) * 64칸
+    expect(loudestRow(linear, 4, 64)).toBe(16)
+    expect(Math.max(...linear)).toBe(255)
+
+    const mel = computeSpectrogram(samples, SAMPLE_RATE, { ...options, scale: 'mel' })
+    // 멜 눈금은 낮은 주파수를 넓게 펴므로 같은 음이 더 위 칸에 온다.
+    const melRow = loudestRow(mel, 4, 64)
+    expect(melRow).toBeGreaterThan(24)
+    expect(melRow).toBeLessThan(32)
+  })
+
+  it('keeps short sounds that fall between column centres', () => {
+    const samples = new Float32Array(SAMPLE_RATE)
+    // 첫 열(0~250ms)의 앞부분에만 25ms짜리 소리를 넣는다. 열 가운데의 FFT 하나로는 닿지 않는 자리다.
+    samples.set(sine(1000, 25), 100)
+
+    const data = computeSpectrogram(samples, SAMPLE_RATE, {
+      columnCount: 4,
+      binCount: 64,
+      fftSize: 256,
+      scale: 'linear',
+      dynamicRangeDb: 80,
+    })
+    expect(loudestRow(data, 0, 64)).toBe(16)
+    expect(data[16]).toBe(255)
+    expect(data.subarray(64).every((value) => value === 0)).toBe(true)
+  })
+
+  it('returns zeros for silence', () => {
+    const data = computeSpectrogram(new Float32Array(4000), SAMPLE_RATE, {
+      columnCount: 4,
+      binCount: 16,
+      fftSize: 256,
+      scale: 'mel',
+      dynamicRangeDb: 80,
+    })
+    expect(data.every((value) => value === 0)).toBe(true)
+  })
+
+  it('maps quiet to dark and loud to bright colors', () => {
+    const colors = createSpectrogramColorMap()
+    expect(Array.from(colors.slice(0, 4))).toEqual([0, 0, 4, 255])
+    expect(Array.from(colors.slice(255 * 4, 256 * 4))).toEqual([252, 255, 164, 255])
+  })
+})
@@ -0,0 +1,173 @@
+export type SpectrogramScale = 'mel' | 'linear'
+
+export type SpectrogramOptions = {
+  // 가로(시간) 칸 수. 파형 래스터 폭과 맞춘다.
+  columnCount: number
+  // 세로(주파수) 칸 수
+  binCount: number
+  // 2의 거듭제곱이어야 한다.
+  fftSize: number
+  scale: SpectrogramScale
+  // 가장 센 값에서 이만큼 아래까지를 색으로 나눈다.
+  dynamicRangeDb: number
+}
+
+// FFT 전력 하한(1e-12)과 같은 값. 이보다 작으면 무음으로 본다.
+const SILENCE_FLOOR_DB = -120
+
+const hzToMel = (hz: number) => 2595 * Math.log10(1 + hz / 700)
+const melToHz = (mel: number) => 700 * (10 ** (mel / 2595) - 1)
+
+function createTwiddles(n: number) {
+  const cos = new Float32Array(n >> 1)
+  const sin = new Float32Array(n >> 1)
+  for (let i = 0; i < n >> 1; i += 1) {
+    cos[i] = Math.cos((-2 * Math.PI * i) / n)
+    sin[i] = Math.sin((-2 * Math.PI * i) / n)
+  }
+  return { cos, sin }
+}
+
+// 제자리 radix-2 FFT. re/im 길이는 2의 거듭제곱
+function fft(re: Float32Array, im: Float32Array, twiddles: ReturnType<typeof createTwiddles>) {
+  const n = re.length
+  for (let i = 1, j = 0; i < n; i += 1) {
+    let bit = n >> 1
+    for (; j & bit; bit >>= 1) j ^= bit
+    j ^= bit
+    if (i < j) {
+      const tr = re[i] ?? 0
+      re[i] = re[j] ?? 0
+      re[j] = tr
+      const ti = im[i] ?? 0
+      im[i] = im[j] ?? 0
+      im[j] = ti
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const half = size >> 1
+    const stride = n / size
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < half; k += 1) {
+        const cos = twiddles.cos[k * stride] ?? 1
+        const sin = twiddles.sin[k * stride] ?? 0
+        const a = start + k
+        const b = a + half
+        const bRe = re[b] ?? 0
+        const bIm = im[b] ?? 0
+        const tRe = bRe * cos - bIm * sin
+        const tIm = bRe * sin + bIm * cos
+        const aRe = re[a] ?? 0
+        const aIm = im[a] ?? 0
+        re[b] = aRe - tRe
+        im[b] = aIm - tIm
+        re[a] = aRe + tRe
+        im[a] = aIm + tIm
+      }
+    }
+  }
+}
+
+// 세로 칸마다 맡을 FFT 빈 범위 [시작, 끝). 멜 눈금은 낮은 주파수에 칸을 더 많이 준다.
+function getBinEdges(binCount: number, halfSize: number, sampleRate: number, scale: SpectrogramScale) {
+  const nyquist = sampleRate / 2
+  const maxMel = hzToMel(nyquist)
+  const edges = new Float32Array(binCount + 1)
+  for (let row = 0; row <= binCount; row += 1) {
+    const ratio = row / binCount
+    const hz = scale === 'mel' ? melToHz(ratio * maxMel) : ratio * nyquist
+    edges[row] = (hz / nyquist) * halfSize
+  }
+  return edges
+}
+
+// 결과는 열(시간) 우선이고, 한 열 안에서는 낮은 주파수부터 담는다. 값은 dB를 0~255로 나눈 것
+// 한 열이 맡은 구간을 반씩 겹친 프레임으로 모두 훑고, 빈마다 가장 센 전력을 쓴다. 열 사이의 짧은 소리도 빠지지 않는다.
+export function computeSpectrogram(samples: Float32Array, sampleRate: number, options: SpectrogramOptions) {
+  const { columnCount, binCount, fftSize, scale, dynamicRangeDb } = options
+  const output = new Uint8Array(Math.max(0, columnCount * binCount))
+  if (samples.length === 0 || !(sampleRate > 0) || columnCount <= 0 || binCount <= 0) return output
+
+  const halfSize = fftSize >> 1
+  const window = new Float32Array(fftSize)
+  for (let i = 0; i < fftSize; i += 1) window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (fftSize - 1))
+  const edges = getBinEdges(binCount, halfSize, sampleRate, scale)
+  const twiddles = createTwiddles(fftSize)
+
+  const re = new Float32Array(fftSize)
+  const im = new Float32Array(fftSize)
+  const columnPower = new Float32Array(halfSize)
+  const db = new Float32Array(columnCount * binCount)
+  let maxDb = SILENCE_FLOOR_DB
+
+  for (let column = 0; column < columnCount; column += 1) {
+    const columnStart = (column * samples.length) / columnCount
+    const columnSpan = samples.length / columnCount
+    const frameCount = Math.max(1, Math.ceil(columnSpan / halfSize))
+    columnPower.fill(0)
+    for (let frame = 0; frame < frameCount; frame += 1) {
+      const center = Math.round(columnStart + ((frame + 0.5) * columnSpan) / frameCount)
+      const start = center - halfSize
+      for (let i = 0; i < fftSize; i += 1) {
+        re[i] = (samples[start + i] ?? 0) * (window[i] ?? 0)
+        im[i] = 0
+      }
+      fft(re, im, twiddles)
+      for (let k = 0; k < halfSize; k += 1) {
+        const value = (re[k] ?? 0) ** 2 + (im[k] ?? 0) ** 2
+        if (value > (columnPower[k] ?? 0)) columnPower[k] = value
+      }
+    }
+
+    for (let row = 0; row < binCount; row += 1) {
+      const from = Math.min(halfSize - 1, Math.floor(edges[row] ?? 0))
+      const to = Math.max(from + 1, Math.min(halfSize, Math.ceil(edges[row + 1] ?? 0)))
+      let power = 0
+      for (let k = from; k < to; k += 1) {
+        const value = columnPower[k] ?? 0
+        if (value > power) power = value
+      }
+      const value = 10 * Math.log10(power + 1e-12)
+      db[column * binCount + row] = value
+      if (value > maxDb) maxDb = value
+    }
+  }
+
+  const floorDb = Math.max(maxDb - dynamicRangeDb, SILENCE_FLOOR_DB)
+  const range = maxDb - floorDb
+  if (!(range > 0)) return output
+  for (let i = 0; i < db.length; i += 1) {
+    const normalized = ((db[i] ?? floorDb) - floorDb) / range
+    output[i] = Math.round(Math.min(1, Math.max(0, normalized)) * 255)
+  }
+  return output
+}
+
+const COLOR_STOPS: [number, number, number, number][] = [
+  [0, 0, 0, 4],
+  [0.25, 87, 16, 110],
+  [0.5, 188, 55, 84],
+  [0.75, 249, 142, 9],
+  [1, 252, 255, 164],
+]
+
+// 0~255 값을 RGBA로 바꾸는 표. 어두운 보라에서 노랑으로 밝아진다.
+export function createSpectrogramColorMap() {
+  const colors = new Uint8ClampedArray(256 * 4)
+  for (let value = 0; value < 256; value += 1) {
+    const t = value / 255
+    const upper = COLOR_STOPS.findIndex((stop) => stop[0] >= t)
+    const high = COLOR_STOPS[Math.max(0, upper)] ?? COLOR_STOPS[0]
+    const low = COLOR_STOPS[Math.max(0, upper - 1)] ?? high
+    if (!high || !low) continue
+    const [lowAt, lowR, lowG, lowB] = low
+    const [highAt, highR, highG, highB] = high
+    const mix = highAt > lowAt ? (t - lowAt) / (highAt - lowAt) : 0
+    colors[value * 4] = lowR + (highR - lowR) * mix
+    colors[value * 4 + 1] = lowG + (highG - lowG) * mix
+    colors[value * 4 + 2] = lowB + (highB - lowB) * mix
+    colors[value * 4 + 3] = 255
+  }
+  return colors
+}
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  DEFAULT_SPEECH_DETECTION_OPTIONS,
+  computeEnergyEnvelope,
+  detectSpeechSegments,
+  findNearestSpeechEdge,
+  seedCaptionsFromSpeechSegments,
+} from './speechSegments'
+
+const SAMPLE_RATE = 8000
+
+// [시작 ms, 끝 ms, 진폭] 구간마다 440Hz 사인파를 채운다.
+function buildSamples(durationMs: number, tones: [number, number, number][]) {
+  const samples = new Float32Array((SAMPLE_RATE * durationMs) / 1000)
+  for (const [startMs, endMs, amplitude] of tones) {
+    const from = (SAMPLE_RATE * startMs) / 1000
+    const to = (SAMPLE_RATE * endMs) / 1000
+    for (let i = from; i < to; i += 1) samples[i] = amplitude * Math.sin((2 * Math.PI * 440 * i) / SAMPLE_RATE)
+  }
+  return samples
+}
+
+describe('speechSegments', () => {
+  it('finds loud regions and pads them', () => {
+    const samples = buildSamples(3000, [
+      [500, 1000, 0.5],
+      [2000, 2500, 0.5],
+    ])
+    expect(detectSpeechSegments(samples, SAMPLE_RATE, DEFAULT_SPEECH_DETECTION_OPTIONS)).toEqual([
+      { startMs: 400, endMs: 1100 },
+      { startMs: 1900, endMs: 2600 },
+    ])
+  })
+
+  it('joins short pauses and drops short blips and quiet noise', () => {
+    const samples = buildSamples(3000, [
+      [200, 800, 0.5],
+      [1000, 1600, 0.5],
+      [2000, 2060, 0.5],
+      [2300, 2900, 0.001],
+    ])
+    expect(
+      detectSpeechSegments(samples, SAMPLE_RATE, { ...DEFAULT_SPEECH_DETECTION_OPTIONS, paddingMs: 0 }),
+    ).toEqual([{ startMs: 200, endMs: 1600 }])
+  })
+
+  it('respects the threshold', () => {
+    const samples = buildSamples(1000, [[200, 800, 0.005]])
+    expect(detectSpeechSegments(samples, SAMPLE_RATE, DEFAULT_SPEECH_DETECTION_OPTIONS)).toEqual([])
+    expect(
+      detectSpeechSegments(samples, SAMPLE_RATE, { ...DEFAULT_SPEECH_DETECTION_OPTIONS, thresholdDb: -60 }),
+    ).toEqual([{ startMs: 100, endMs: 900 }])
+  })
+
+  it('seeds blank captions for regions that do not overlap existing captions', () => {
+    let nextId = 0
+    const result = seedCaptionsFromSpeechSegments(
+      [{ id: 'a', startMs: 1000, endMs: 2000, text: '안녕' }],
+      [
+        { startMs: 0, endMs: 800 },
+        { startMs: 1500, endMs: 2500 },
+        { startMs: 3000, endMs: 4000 },
+      ],
+      () => `new-${(nextId += 1)}`,
+    )
+    expect(result.createdCount).toBe(2)
+    expect(result.skippedCount).toBe(1)
+    expect(result.captions).toEqual([
+      { id: 'a', startMs: 1000, endMs: 2000, text: '안녕' },
+      { id: 'new-1', startMs: 0, endMs: 800, text: '' },
+      { id: 'new-2', startMs: 3000, endMs: 4000, text: '' },
+    ])
+  })
+
+  it('finds the nearest onset or offset within the window', () => {
+    const samples = buildSamples(3000, [
+      [500, 1000, 0.5],
+      [1200, 1210, 0.5],
+      [2000, 2500, 0.5],
+    ])
+    const { envelope } = computeEnergyEnvelope(samples, SAMPLE_RATE, 10)
+    const options = { thresholdDb: -40, windowMs: 300 }
+    expect(findNearestSpeechEdge(envelope, 10, 700, 'onset', options)).toBe(500)
+    expect(findNearestSpeechEdge(envelope, 10, 1150, 'offset', options)).toBe(1000)
+    // 10ms짜리 잡음은 경계로 보지 않는다.
+    expect(findNearestSpeechEdge(envelope, 10, 1250, 'onset', options)).toBeNull()
+    expect(findNearestSpeechEdge(envelope, 10, 2200, 'onset', { ...options, windowMs: 100 })).toBeNull()
+  })
+
+  it('prefers edges before the press over slightly closer ones after it', () => {
+    const samples = buildSamples(2000, [
+      [300, 600, 0.5],
+      [800, 1200, 0.5],
+    ])
+    const { envelope } = computeEnergyEnvelope(samples, SAMPLE_RATE, 10)
+    const options = { thresholdDb: -40, windowMs: 300 }
+    expect(findNearestSpeechEdge(envelope, 10, 580, 'onset', options)).toBe(300)
+    expect(findNearestSpeechEdge(envelope, 10, 700, 'onset', options)).toBe(800)
+  })
+
+  it('reports the frame length actually used for the envelope', () => {
+    const { envelope, frameMs } = computeEnergyEnvelope(new Float32Array(44_100), 44_100, 10)
+    expect(frameMs).toBeCloseTo((441 / 44_100) * 1000)
+    expect(computeEnergyEnvelope(new Float32Array(100), 22_050, 7).frameMs).toBeCloseTo((154 / 22_050) * 1000)
+    expect(envelope).toHaveLength(100)
+  })
+})
@@ -0,0 +1,213 @@
+import type { Caption } from '@/datasource/types'
+
+export type SpeechDetectionOptions = {
+  // 이 세기(dBFS) 이상인 구간을 말소리로 본다.
+  thresholdDb: number
+  // 이보다 짧은 쉼은 한 구간으로 잇는다.
+  minSilenceMs: number
+  // 찾은 구간 앞뒤로 덧붙이는 여유
+  paddingMs: number
+  // 이보다 짧은 구간은 잡음으로 보고 버린다.
+  minSpeechMs: number
+}
+
+export type SpeechSegment = {
+  startMs: number
+  endMs: number
+}
+
+export const DEFAULT_SPEECH_DETECTION_OPTIONS: SpeechDetectionOptions = {
+  thresholdDb: -40,
+  minSilenceMs: 300,
+  paddingMs: 100,
+  minSpeechMs: 200,
+}
+
+const FRAME_MS = 20
+// 문턱보다 조금 작아도 영교차율이 높으면(ㅅ, ㅊ 같은 마찰음) 말소리로 본다.
+const FRICATIVE_MARGIN_DB = 6
+const FRICATIVE_MIN_ZCR = 0.2
+
+function toDb(rms: number) {
+  return 20 * Math.log10(rms + 1e-10)
+}
+
+// 20ms 프레임마다 에너지와 영교차율로 말소리 여부를 정한다.
+function classifyFrames(samples: Float32Array, frameLength: number, thresholdDb: number) {
+  const frameCount = Math.ceil(samples.length / frameLength)
+  const voiced = new Uint8Array(frameCount)
+
+  for (let frame = 0; frame < frameCount; frame += 1) {
+    const start = frame * frameLength
+    const end = Math.min(samples.length, start + frameLength)
+    let sumSquares = 0
+    let crossings = 0
+    let previous = samples[start] ?? 0
+    for (let i = start; i < end; i += 1) {
+      const value = samples[i] ?? 0
+      sumSquares += value * value
+      if ((value >= 0) !== (previous >= 0)) crossings += 1
+      previous = value
+    }
+    const length = Math.max(1, end - start)
+    const db = toDb(Math.sqrt(sumSquares / length))
+    const zcr = crossings / length
+    voiced[frame] =
+      db >= thresholdDb || (db >= thresholdDb - FRICATIVE_MARGIN_DB && zcr >= FRICATIVE_MIN_ZCR) ? 1 : 0
+  }
+
+  return voiced
+}
+
+export function detectSpeechSegments(
+  samples: Float32Array,
+  sampleRate: number,
+  options: SpeechDetectionOptions,
+): SpeechSegment[] {
+  if (samples.length === 0 || !(sampleRate > 0)) return []
+
+  const frameLength = Math.max(1, Math.round((sampleRate * FRAME_MS) / 1000))
+  const frameMs = (frameLength / sampleRate) * 1000
+  const durationMs = (samples.length / sampleRate) * 1000
+  const voiced = classifyFrames(samples, frameLength, options.thresholdDb)
+
+  const runs: SpeechSegment[] = []
+  let runStart: number | null = null
+  for (let frame = 0; frame <= voiced.length; frame += 1) {
+    const isVoiced = frame < voiced.length && voiced[frame] === 1
+    if (isVoiced && runStart === null) runStart = frame
+    if (!isVoiced && runStart !== null) {
+      runs.push({ startMs: runStart * frameMs, endMs: Math.min(durationMs, frame * frameMs) })
+      runStart = null
+    }
+  }
+
+  // 짧은 쉼을 잇고, 너무 짧은 구간을 버린 뒤, 앞뒤 여유를 붙여 다시 겹치는 구간을 합친다.
+  const joined: SpeechSegment[] = []
+  for (const run of runs) {
+    const last = joined[joined.length - 1]
+    if (last && run.startMs - last.endMs < options.minSilenceMs) last.endMs = run.endMs
+    else joined.push({ ...run })
+  }
+
+  const padded: SpeechSegment[] = []
+  for (const segment of joined) {
+    if (segment.endMs - segment.startMs < options.minSpeechMs) continue
+    const startMs = Math.max(0, segment.startMs - options.paddingMs)
+    const endMs = Math.min(durationMs, segment.endMs + options.paddingMs)
+    const last = padded[padded.length - 1]
+    if (last && startMs <= last.endMs) last.endMs = endMs
+    else padded.push({ startMs, endMs })
+  }
+
+  return padded.map((segment) => ({ startMs: Math.round(segment.startMs), endMs: Math.round(segment.endMs) }))
+}
+
+export type SpeechEdgeKind = 'onset' | 'offset'
+
+export type SpeechEdgeOptions = {
+  thresholdDb: number
+  // 찾은 시각에서 앞뒤로 이만큼 안에 있는 경계만 쓴다.
+  windowMs: number
+}
+
+// 경계 앞뒤로 이만큼의 프레임이 각각 같은 상태로 이어져야 경계로 본다. 짧은 잡음에 끌려가지 않게 한다.
+const EDGE_HOLD_FRAMES = 3
+
+// 누른 뒤에 오는 경계는 거리를 이만큼 늘려 본다. 소리를 듣고 누르므로 보통 경계보다 늦게 찍힌다.
+const LATE_EDGE_DISTANCE_WEIGHT = 2
+
+export type EnergyEnvelope = {
+  // 프레임마다 RMS 세기(dBFS)
+  envelope: Float32Array
+  // 샘플 단위로 맞춘 실제 프레임 길이. 요청한 길이와 조금 다를 수 있다.
+  frameMs: number
+}
+
+export function computeEnergyEnvelope(samples: Float32Array, sampleRate: number, frameMs: number): EnergyEnvelope {
+  if (samples.length === 0 || !(sampleRate > 0)) return { envelope: new Float32Array(0), frameMs }
+  const frameLength = Math.max(1, Math.round((sampleRate * frameMs) / 1000))
+  const envelope = new Float32Array(Math.ceil(samples.length / frameLength))
+  for (let frame = 0; frame < envelope.length; frame += 1) {
+    const start = frame * frameLength
+    const end = Math.min(samples.length, start + frameLength)
+    let sumSquares = 0
+    for (let i = start; i < end; i += 1) {
+      const value = samples[i] ?? 0
+      sumSquares += value * value
+    }
+    envelope[frame] = toDb(Math.sqrt(sumSquares / Math.max(1, end - start)))
+  }
+  return { envelope, frameMs: (frameLength / sampleRate) * 1000 }
+}
+
+function isEdgeAt(envelope: Float32Array, frame: number, kind: SpeechEdgeKind, thresholdDb: number) {
+  // 끝은 앞에 말소리가 있어야 하므로 첫 프레임일 수 없다. 시작은 파일 맨 앞에서도 잡는다.
+  if (kind === 'offset' && frame === 0) return false
+  const from = Math.max(0, frame - EDGE_HOLD_FRAMES)
+  const to = Math.min(envelope.length, frame + EDGE_HOLD_FRAMES)
+  for (let i = from; i < to; i += 1) {
+    const voiced = (envelope[i] ?? Number.NEGATIVE_INFINITY) >= thresholdDb
+    const expected = i < frame ? kind === 'offset' : kind === 'onset'
+    if (voiced !== expected) return false
+  }
+  return true
+}
+
+// ms에서 가장 가까운 말소리 시작(onset) 또는 끝(offset) 시각. 창 안에 없으면 null
+// 누르기 전의 경계를 더 가깝게 본다.
+export function findNearestSpeechEdge(
+  envelope: Float32Array,
+  frameMs: number,
+  ms: number,
+  kind: SpeechEdgeKind,
+  { thresholdDb, windowMs }: SpeechEdgeOptions,
+): number | null {
+  if (envelope.length === 0 || !(frameMs > 0) || !Number.isFinite(ms)) return null
+  const first = Math.max(0, Math.ceil((ms - windowMs) / frameMs))
+  const last = Math.min(envelope.length - 1, Math.floor((ms + windowMs) / frameMs))
+  let nearest: number | null = null
+  let nearestDistance = Number.POSITIVE_INFINITY
+  for (let frame = first; frame <= last; frame += 1) {
+    if (!isEdgeAt(envelope, frame, kind, thresholdDb)) continue
+    const edgeMs = Math.round(frame * frameMs)
+    const distance = edgeMs > ms ? (edgeMs - ms) * LATE_EDGE_DISTANCE_WEIGHT : ms - edgeMs
+    if (distance < nearestDistance) {
+      nearest = edgeMs
+      nearestDistance = distance
+    }
+  }
+  return nearest
+}
+
+export type SpeechCaptionSeedResult = {
+  captions: Caption[]
+  createdCount: number
+  // 이미 있는 자막과 겹쳐서 건너뛴 구간 수
+  skippedCount: number
+}
+
+// 음성 구간마다 빈 자막을 만든다. 기존 자막과 겹치는 구간은 덮어쓰지 않고 건너뛴다.
+export function seedCaptionsFromSpeechSegments(
+  captions: Caption[],
+  segments: SpeechSegment[],
+  createId: () => string,
+): SpeechCaptionSeedResult {
+  const existing = captions.filter(
+    (caption) => Number.isFinite(caption.startMs) && Number.isFinite(caption.endMs) && caption.endMs > caption.startMs,
+  )
+  const created: Caption[] = []
+  let skippedCount = 0
+
+  for (const segment of segments) {
+    if (segment.endMs <= segment.startMs) continue
+    const overlaps = existing.some((caption) => caption.startMs < segment.endMs && segment.startMs < caption.endMs)
+    if (overlaps) {
+      skippedCount += 1
+      continue
+    }
+    created.push({ id: createId(), startMs: segment.startMs, endMs: segment.endMs, text: '' })
+  }
+
+  return { captions: [...captions, ...created], createdCount: created.length, skippedCount }
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest'
+
+import { formatTimecode, framesToMs, nudgeMsByFrames, parseTimecode, snapMsToFrame } from './timecode'
+
+const NTSC = 30000 / 1001
+
+describe('timecode', () => {
+  it('formats and parses non-drop and drop-frame SMPTE timecodes', () => {
+    const pal = { frameRate: 25, dropFrame: false, format: 'frames' as const }
+    expect(formatTimecode(1480, pal)).toBe('00:00:01:12')
+    expect(parseTimecode('00:00:01:12', pal)).toBe(1480)
+
+    const dropFrame = { frameRate: NTSC, dropFrame: true, format: 'frames' as const }
+    expect(formatTimecode(framesToMs(1799, NTSC), dropFrame)).toBe('00:00:59;29')
+    expect(formatTimecode(framesToMs(1800, NTSC), dropFrame)).toBe('00:01:00;02')
+    expect(formatTimecode(framesToMs(17982, NTSC), dropFrame)).toBe('00:10:00;00')
+    expect(parseTimecode('00:01:00;02', dropFrame)).toBe(framesToMs(1800, NTSC))
+    expect(parseTimecode('00:10:00;00', dropFrame)).toBe(framesToMs(17982, NTSC))
+    // 드롭 프레임에서 건너뛰는 번호
+    expect(parseTimecode('00:01:00;00', dropFrame)).toBeNull()
+    expect(parseTimecode('00:00:01:30', dropFrame)).toBeNull()
+  })
+
+  it('accepts clock times and plain milliseconds', () => {
+    const clock = { frameRate: 25, dropFrame: false, format: 'milliseconds' as const }
+    expect(formatTimecode(3_723_004, clock)).toBe('01:02:03.004')
+    expect(parseTimecode('01:02:03.004', clock)).toBe(3_723_004)
+    expect(parseTimecode('1:02.5', clock)).toBe(62_500)
+    expect(parseTimecode('1500', clock)).toBe(1500)
+    expect(parseTimecode('00:61:00.000', clock)).toBeNull()
+    expect(parseTimecode('abc', clock)).toBeNull()
+  })
+
+  it('nudges and snaps to frame boundaries', () => {
+    expect(nudgeMsByFrames(1000, 1, 25)).toBe(1040)
+    expect(nudgeMsByFrames(20, -1, 25)).toBe(0)
+    expect(nudgeMsByFrames(0, 1, NTSC)).toBe(33)
+    expect(nudgeMsByFrames(33, 1, NTSC)).toBe(67)
+    expect(snapMsToFrame(1010, 25)).toBe(1000)
+    expect(snapMsToFrame(1025, 25)).toBe(1040)
+  })
+})
@@ -0,0 +1,126 @@
+export type TimecodeFormat = 'frames' | 'milliseconds'
+
+export type TimecodeOptions = {
+  frameRate: number
+  dropFrame: boolean
+  format: TimecodeFormat
+}
+
+const NTSC_EPSILON = 0.01
+
+// 드롭 프레임은 29.97·59.94처럼 1000/1001배인 NTSC 계열에만 있다.
+export function supportsDropFrame(frameRate: number) {
+  const nominal = Math.round(frameRate)
+  return (nominal === 30 || nominal === 60) && Math.abs(frameRate - (nominal * 1000) / 1001) < NTSC_EPSILON
+}
+
+function getDropFrameLayout(frameRate: number) {
+  const nominal = Math.round(frameRate)
+  // 10분 단위가 아닌 매 분 처음에 건너뛰는 번호 수(29.97은 2, 59.94는 4)
+  const dropPerMinute = Math.round(nominal / 15)
+  const framesPerMinute = nominal * 60 - dropPerMinute
+  const framesPer10Minutes = nominal * 600 - dropPerMinute * 9
+  return { nominal, dropPerMinute, framesPerMinute, framesPer10Minutes }
+}
+
+export function msToFrames(ms: number, frameRate: number) {
+  return Math.max(0, Math.round((ms * frameRate) / 1000))
+}
+
+export function framesToMs(frames: number, frameRate: number) {
+  return Math.max(0, Math.round((frames * 1000) / frameRate))
+}
+
+export function snapMsToFrame(ms: number, frameRate: number) {
+  return framesToMs(msToFrames(ms, frameRate), frameRate)
+}
+
+export function nudgeMsByFrames(ms: number, frames: number, frameRate: number) {
+  return framesToMs(Math.max(0, msToFrames(ms, frameRate) + frames), frameRate)
+}
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0')
+
+function formatFrameLabel(frameCount: number, frameRate: number, dropFrame: boolean) {
+  const { nominal, dropPerMinute, framesPerMinute, framesPer10Minutes } = getDropFrameLayout(frameRate)
+  let label = frameCount
+  if (dropFrame) {
+    const tenMinutes = Math.floor(frameCount / framesPer10Minutes)
+    const remainder = frameCount % framesPer10Minutes
+    label +=
+      dropPerMinute * 9 * tenMinutes +
+      (remainder > dropPerMinute ? dropPerMinute * Math.floor((remainder - dropPerMinute) / framesPerMinute) : 0)
+  }
+  const frames = label % nominal
+  const totalSeconds = Math.floor(label / nominal)
+  const seconds = totalSeconds % 60
+  const minutes = Math.floor(totalSeconds / 60) % 60
+  const hours = Math.floor(totalSeconds / 3600)
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${dropFrame ? ';' : ':'}${pad(frames)}`
+}
+
+export function formatTimecode(ms: number, { frameRate, dropFrame, format }: TimecodeOptions) {
+  if (!Number.isFinite(ms)) return ''
+  if (format === 'frames') {
+    return formatFrameLabel(msToFrames(ms, frameRate), frameRate, dropFrame && supportsDropFrame(frameRate))
+  }
+  const total = Math.max(0, Math.round(ms))
+  const hours = Math.floor(total / 3_600_000)
+  const minutes = Math.floor(total / 60_000) % 60
+  const seconds = Math.floor(total / 1000) % 60
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}.${pad(total % 1000, 3)}`
+}
+
+// 드롭 프레임에서 매 분(10분 단위 제외) 처음 번호는 존재하지 않으므로 null
+function frameLabelToCount(
+  hours: number,
+  minutes: number,
+  seconds: number,
+  frames: number,
+  frameRate: number,
+  dropFrame: boolean,
+) {
+  const { nominal, dropPerMinute } = getDropFrameLayout(frameRate)
+  if (frames >= nominal) return null
+  const totalMinutes = hours * 60 + minutes
+  let count = (totalMinutes * 60 + seconds) * nominal + frames
+  if (dropFrame) {
+    if (seconds === 0 && frames < dropPerMinute && minutes % 10 !== 0) return null
+    count -= dropPerMinute * (totalMinutes - Math.floor(totalMinutes / 10))
+  }
+  return count
+}
+
+const FRAME_TIMECODE = /^(\d+):(\d{1,2}):(\d{1,2})([:;])(\d{1,3})$/
+const CLOCK_TIMECODE = /^(?:(?:(\d+):)?(\d{1,2}):)?(\d{1,2})(?:[.,](\d{1,3}))?$/
+
+// HH:MM:SS:FF(드롭 프레임은 ;), HH:MM:SS.mmm, MM:SS.mmm, SS.mmm을 받는다.
+// 숫자만 입력하면 예전처럼 ms로 읽는다. 해석할 수 없으면 null.
+export function parseTimecode(text: string, { frameRate, dropFrame }: TimecodeOptions) {
+  const trimmed = text.trim()
+  if (/^\d+$/.test(trimmed)) return Number(trimmed)
+
+  const frameMatch = FRAME_TIMECODE.exec(trimmed)
+  if (frameMatch) {
+    const [, hours, minutes, seconds, separator, frames] = frameMatch
+    if (Number(minutes) > 59 || Number(seconds) > 59) return null
+    const useDropFrame = supportsDropFrame(frameRate) && (separator === ';' || dropFrame)
+    const count = frameLabelToCount(
+      Number(hours),
+      Number(minutes),
+      Number(seconds),
+      Number(frames),
+      frameRate,
+      useDropFrame,
+    )
+    return count === null ? null : framesToMs(count, frameRate)
+  }
+
+  const clockMatch = CLOCK_TIMECODE.exec(trimmed)
+  if (!clockMatch) return null
+  const [, hours, minutes, seconds = '0', fraction = ''] = clockMatch
+  if (minutes !== undefined && Number(seconds) > 59) return null
+  if (hours !== undefined && Number(minutes) > 59) return null
+  const totalSeconds = Number(hours ?? 0) * 3600 + Number(minutes ?? 0) * 60 + Number(seconds)
+  return totalSeconds * 1000 + Number(fraction.padEnd(3, '0'))
+}
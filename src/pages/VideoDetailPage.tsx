@@ -3,24 +3,95 @@ import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { Link, useParams } from 'react-router-dom';
 
 import { dataSource, dataSourceKind } from '@/datasource';
-import { downloadTextFile } from '@/lib/captionIO';
+import { findCaptionOrderIssues, scaleCaptions, shiftCaptions, snapCaptionsToGap } from '@/lib/captionBulk';
+import { applyCaptionDrag, getCaptionSnapTargets, hitTestCaptionBlocks } from '@/lib/captionDrag';
+import {
+  DEFAULT_TRANSCRIPT_PARAGRAPH_GAP_MS,
+  downloadBinaryFile,
+  downloadTextFile,
+} from '@/lib/captionIO';
+import type { CaptionSheetDelimiter, TranscriptOptions } from '@/lib/captionIO';
+import { breakCaptionLines, breakCaptionsLines } from '@/lib/captionLineBreak';
+import { findCaptionOverlaps, getOverlappingCaptionIds, resolveCaptionOverlaps } from '@/lib/captionOverlap';
+import type { CaptionOverlap, CaptionOverlapStrategy } from '@/lib/captionOverlap';
+import { replaceAllInCaptions } from '@/lib/captionSearch';
+import { mergeCaptionWithNext, splitCaptionAt } from '@/lib/captionSplit';
+import { applyLinearTiming, fitLinearTiming } from '@/lib/captionSync';
+import type { TtmlProfile } from '@/lib/captionTtml';
+import { PEAK_PYRAMID_BUCKET_COUNTS, downsamplePeaks, getPeaksFromPyramid } from '@/lib/peakPyramid';
+import type { PeakPyramidLevel } from '@/lib/peakPyramid';
 import { queryClient } from '@/lib/queryClient';
+import { createSpectrogramColorMap } from '@/lib/spectrogram';
+import { findNearestSpeechEdge, seedCaptionsFromSpeechSegments } from '@/lib/speechSegments';
+import type { EnergyEnvelope, SpeechDetectionOptions, SpeechSegment } from '@/lib/speechSegments';
+import { snapMsToFrame } from '@/lib/timecode';
 import { normalizeTrimRange } from '@/lib/trimRange';
 import type { WaveformWorkerResponse } from '@/workers/waveformWorker';
 
+import { CaptionBulkPanel } from './videoDetail/captions/CaptionBulkPanel';
 import { CaptionEditor } from './videoDetail/captions/CaptionEditor';
+import { CaptionFrameRatePanel } from './videoDetail/captions/CaptionFrameRatePanel';
+import { CaptionHistoryPanel } from './videoDetail/captions/CaptionHistoryPanel';
 import {
+  createCaptionExportAss,
   createCaptionExportJson,
+  createCaptionExportSbv,
+  createCaptionExportScc,
+  createCaptionExportSheet,
   createCaptionExportSrt,
-  parseCaptionJsonForPage,
+  createCaptionExportStl,
+  createCaptionExportTranscript,
+  createCaptionExportTtml,
+  getCaptionExportLanguage,
+  createCaptionExportVtt,
+  parseCaptionFileForPage,
 } from './videoDetail/captions/captionIO';
+import { CaptionLineBreakPanel } from './videoDetail/captions/CaptionLineBreakPanel';
+import { CaptionOverlapPanel } from './videoDetail/captions/CaptionOverlapPanel';
+import {
+  createCaptionStyleProfilesJson,
+  getCaptionLineBreakOptions,
+  getCaptionQualityRules,
+  isBuiltInCaptionStyleProfile,
+  mergeCaptionStyleProfiles,
+  parseCaptionStyleProfilesJson,
+  sanitizeCaptionStyleProfiles,
+} from './videoDetail/captions/captionProfiles';
+import { CaptionSearchPanel } from './videoDetail/captions/CaptionSearchPanel';
 import { getActiveCaption } from './videoDetail/captions/captionSelectors';
-import { getCaptionErrors } from './videoDetail/captions/captionValidation';
+import { CaptionSpeechPanel } from './videoDetail/captions/CaptionSpeechPanel';
+import { CaptionSyncPanel } from './videoDetail/captions/CaptionSyncPanel';
 import {
+  evaluateCaptionQuality,
+  getCaptionErrors,
+  summarizeCaptionQuality,
+} from './videoDetail/captions/captionValidation';
+import { useCaptionHistory } from './videoDetail/captions/useCaptionHistory';
+import { useCaptionSearch } from './videoDetail/captions/useCaptionSearch';
+import { useCaptionSelection } from './videoDetail/captions/useCaptionSelection';
+import {
+  CAPTION_FRAME_RATE_FPS,
   CAPTION_GAP_MS_STORAGE_KEY,
+  CAPTION_HISTORY_DEPTH_STORAGE_KEY,
+  CAPTION_LINE_BREAK_STORAGE_KEY,
+  CAPTION_SMART_SNAP_STORAGE_KEY,
+  CAPTION_SPEECH_DETECTION_STORAGE_KEY,
+  CAPTION_STYLE_PROFILES_STORAGE_KEY,
+  DEFAULT_CAPTION_HISTORY_DEPTH,
+  DEFAULT_CAPTION_STYLE_PROFILE,
+  DEFAULT_CAPTION_TIMECODE_SETTINGS,
   DEFAULT_HOTKEYS,
   HOTKEY_STORAGE_KEY,
+  SMART_SNAP_MARK_VISIBLE_MS,
+  SPECTROGRAM_BIN_COUNT,
+  SPECTROGRAM_DYNAMIC_RANGE_DB,
+  SPECTROGRAM_FFT_SIZE,
+  SPEECH_ENVELOPE_FRAME_MS,
   TRIM_LOOP_EPSILON_MS,
+  WAVEFORM_CAPTION_BLOCK_HEIGHT_PX,
+  WAVEFORM_CAPTION_EDGE_HIT_PX,
+  WAVEFORM_CAPTION_MIN_DURATION_MS,
+  WAVEFORM_CAPTION_SNAP_PX,
   WAVEFORM_FOLLOW_RESUME_MS,
   WAVEFORM_MAX_BUCKET_COUNT,
   WAVEFORM_MAX_LOD_SCALE,
@@ -32,6 +103,7 @@ import {
   WAVEFORM_RASTER_MEMORY_BUDGET_BYTES,
   WAVEFORM_RASTER_MIN_WIDTH,
   WAVEFORM_VIEWPORT_MIN_DURATION_MS,
+  WAVEFORM_VIEW_STORAGE_KEY,
 } from './videoDetail/constants';
 import { useBurnInExport } from './videoDetail/export/useBurnInExport';
 import { useTrimExport } from './videoDetail/export/useTrimExport';
@@ -41,13 +113,24 @@ import {
   formatDate,
   formatMeta,
   formatMsWithSeconds,
+  convertCaptionFrameRate,
+  findCaptionFrameRateId,
   formatSeconds,
   getLastValidEndMs,
+  isCaptionHistoryHotkeyTarget,
+  isHotkeyOffTarget,
   isInvalidHotkeyKey,
+  getSmartSnapBypassField,
+  isHotkeyTypingTarget,
   normalizeEventKey,
   parseCaptionGapMs,
+  parseCaptionHistoryDepth,
+  sanitizeCaptionLineBreakSettings,
+  sanitizeCaptionSmartSnapSettings,
+  sanitizeSpeechDetectionOptions,
   sanitizeForFileName,
   sanitizeHotkeyConfig,
+  sanitizeWaveformViewSettings,
   snapToStep,
   sortCaptions,
 } from './videoDetail/utils';
@@ -56,13 +139,36 @@ import { WebglPreviewView } from './videoDetail/webgl/WebglPreviewView';
 
 import './VideoDetailPage.css';
 
+import type { CaptionLineBreakScope } from './videoDetail/captions/CaptionLineBreakPanel';
 import type {
   Caption,
+  CaptionBulkReport,
+  CaptionExportQualityCheck,
+  CaptionExportReport,
+  CaptionFrameRateConversionMode,
+  CaptionFrameRateId,
+  CaptionFrameRateReport,
+  CaptionImportReport,
+  CaptionLineBreakReport,
+  CaptionLineBreakSettings,
+  CaptionSmartSnapMark,
+  CaptionSmartSnapSettings,
+  CaptionSpeechSeedReport,
+  CaptionOverlapReport,
+  CaptionScaleAnchor,
+  CaptionStyleProfile,
+  CaptionSyncPoint,
+  CaptionSyncPointKey,
+  CaptionSyncPreview,
+  CaptionSyncScope,
+  CaptionTimecodeSettings,
   HotkeyConfig,
   TrimRange,
   Video,
   Viewport,
+  WaveformCaptionDrag,
   WaveformRasterCacheEntry,
+  WaveformViewSettings,
   WaveformWorkerPayload,
 } from './videoDetail/types';
 import type {
@@ -80,9 +186,49 @@ export default function VideoDetailPage() {
   const videoId = id ?? '';
   const [appliedMetadataForId, setAppliedMetadataForId] = useState<string | null>(null);
 
-  const [captionDrafts, setCaptionDrafts] = useState<Caption[]>([]);
   const [lastSavedAt, setLastSavedAt] = useState<number | null>(null);
-  const [importError, setImportError] = useState<string | null>(null);
+  const [importReport, setImportReport] = useState<CaptionImportReport | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [exportReport, setExportReport] = useState<CaptionExportReport | null>(null);
+  const [exportQualityCheck, setExportQualityCheck] = useState<CaptionExportQualityCheck | null>(null);
+  const [bulkReport, setBulkReport] = useState<CaptionBulkReport | null>(null);
+  const [syncPoints, setSyncPoints] = useState<Record<CaptionSyncPointKey, CaptionSyncPoint | null>>({
+    first: null,
+    second: null,
+  });
+  const [syncScope, setSyncScope] = useState<CaptionSyncScope>('all');
+  const [frameRateReport, setFrameRateReport] = useState<CaptionFrameRateReport | null>(null);
+  const [overlapReport, setOverlapReport] = useState<CaptionOverlapReport | null>(null);
+  const [speechDetectionOptions, setSpeechDetectionOptions] = useState<SpeechDetectionOptions>(() => {
+    if (typeof window === 'undefined') return sanitizeSpeechDetectionOptions(null);
+    try {
+      const stored = localStorage.getItem(CAPTION_SPEECH_DETECTION_STORAGE_KEY);
+      return sanitizeSpeechDetectionOptions(stored ? JSON.parse(stored) : null);
+    } catch {
+      return sanitizeSpeechDetectionOptions(null);
+    }
+  });
+  const [speechSegments, setSpeechSegments] = useState<SpeechSegment[] | null>(null);
+  const [isDetectingSpeech, setIsDetectingSpeech] = useState(false);
+  const [speechDetectionError, setSpeechDetectionError] = useState<string | null>(null);
+  const [speechSeedReport, setSpeechSeedReport] = useState<CaptionSpeechSeedReport | null>(null);
+  const [smartSnapSettings, setSmartSnapSettings] = useState<CaptionSmartSnapSettings>(() => {
+    if (typeof window === 'undefined') return sanitizeCaptionSmartSnapSettings(null);
+    try {
+      const stored = localStorage.getItem(CAPTION_SMART_SNAP_STORAGE_KEY);
+      return sanitizeCaptionSmartSnapSettings(stored ? JSON.parse(stored) : null);
+    } catch {
+      return sanitizeCaptionSmartSnapSettings(null);
+    }
+  });
+  const [smartSnapMark, setSmartSnapMark] = useState<CaptionSmartSnapMark | null>(null);
+  const [isSpeechEnvelopeReady, setIsSpeechEnvelopeReady] = useState(false);
+  const [lineBreakReport, setLineBreakReport] = useState<CaptionLineBreakReport | null>(null);
+  const [transcriptOptions, setTranscriptOptions] = useState<Required<TranscriptOptions>>({
+    includeTimestamps: true,
+    paragraphGapMs: DEFAULT_TRANSCRIPT_PARAGRAPH_GAP_MS,
+  });
+  const [ttmlLanguage, setTtmlLanguage] = useState(getCaptionExportLanguage);
   const [durationMs, setDurationMs] = useState<number | null>(null);
   const [trimRange, setTrimRange] = useState<TrimRange | null>(null);
   const [waveformViewport, setWaveformViewport] = useState<Viewport | null>(null);
@@ -99,15 +245,86 @@ export default function VideoDetailPage() {
       return { ...DEFAULT_HOTKEYS };
     }
   });
-  const [captionGapMs, setCaptionGapMs] = useState<number>(() => {
-    if (typeof window === 'undefined') return 1;
+  // 예전 전역 간격 설정이 남아 있으면 프로필을 고른 적 없는 영상의 기본 간격으로 이어 쓴다.
+  const [fallbackStyleProfile] = useState<CaptionStyleProfile>(() => {
+    if (typeof window === 'undefined') return DEFAULT_CAPTION_STYLE_PROFILE;
     try {
       const stored = localStorage.getItem(CAPTION_GAP_MS_STORAGE_KEY);
-      return parseCaptionGapMs(stored);
+      return stored === null
+        ? DEFAULT_CAPTION_STYLE_PROFILE
+        : { ...DEFAULT_CAPTION_STYLE_PROFILE, gapMs: parseCaptionGapMs(stored) };
+    } catch {
+      return DEFAULT_CAPTION_STYLE_PROFILE;
+    }
+  });
+  const [customStyleProfiles, setCustomStyleProfiles] = useState<CaptionStyleProfile[]>(() => {
+    if (typeof window === 'undefined') return [];
+    try {
+      const stored = localStorage.getItem(CAPTION_STYLE_PROFILES_STORAGE_KEY);
+      return stored ? sanitizeCaptionStyleProfiles(JSON.parse(stored)) : [];
+    } catch {
+      return [];
+    }
+  });
+  const [styleProfileError, setStyleProfileError] = useState<string | null>(null);
+  const { data: storedStyleProfile } = useQuery({
+    queryKey: ['caption-style-profile', videoId],
+    enabled: Boolean(videoId),
+    queryFn: () => dataSource.getCaptionStyleProfile(videoId),
+  });
+  const styleProfile = storedStyleProfile ?? fallbackStyleProfile;
+  const captionGapMs = styleProfile.gapMs;
+  const [timecodeSettingsError, setTimecodeSettingsError] = useState<string | null>(null);
+  const { data: storedTimecodeSettings } = useQuery({
+    queryKey: ['caption-timecode', videoId],
+    enabled: Boolean(videoId),
+    queryFn: () => dataSource.getCaptionTimecodeSettings(videoId),
+  });
+  const timecodeSettings = storedTimecodeSettings ?? DEFAULT_CAPTION_TIMECODE_SETTINGS;
+  const captionQualityRules = useMemo(
+    () => getCaptionQualityRules(styleProfile, timecodeSettings.frameRate),
+    [styleProfile, timecodeSettings.frameRate],
+  );
+  const lineBreakOptions = useMemo(() => getCaptionLineBreakOptions(styleProfile), [styleProfile]);
+  const [lineBreakSettings, setLineBreakSettings] = useState<CaptionLineBreakSettings>(() => {
+    if (typeof window === 'undefined') return sanitizeCaptionLineBreakSettings(null);
+    try {
+      const stored = localStorage.getItem(CAPTION_LINE_BREAK_STORAGE_KEY);
+      return sanitizeCaptionLineBreakSettings(stored ? JSON.parse(stored) : null);
     } catch {
-      return 1;
+      return sanitizeCaptionLineBreakSettings(null);
     }
   });
+  const exportLineBreak = lineBreakSettings.wrapOnExport ? lineBreakOptions : null;
+  const [captionHistoryDepth, setCaptionHistoryDepth] = useState<number>(() => {
+    if (typeof window === 'undefined') return DEFAULT_CAPTION_HISTORY_DEPTH;
+    try {
+      return parseCaptionHistoryDepth(localStorage.getItem(CAPTION_HISTORY_DEPTH_STORAGE_KEY));
+    } catch {
+      return DEFAULT_CAPTION_HISTORY_DEPTH;
+    }
+  });
+  const {
+    captions: captionDrafts,
+    entries: captionHistoryEntries,
+    index: captionHistoryIndex,
+    canUndo: canUndoCaptions,
+    canRedo: canRedoCaptions,
+    commit: commitCaptionDrafts,
+    replace: replaceCaptionDrafts,
+    reset: resetCaptionHistory,
+    jumpTo: jumpToCaptionHistory,
+    undo: undoCaptions,
+    redo: redoCaptions,
+  } = useCaptionHistory({ depth: captionHistoryDepth });
+  const {
+    selectedIds: selectedCaptionIds,
+    selectCaption,
+    selectAll: selectAllCaptions,
+    clearSelection: clearCaptionSelection,
+  } = useCaptionSelection(captionDrafts);
+  const captionSearch = useCaptionSearch(captionDrafts);
+  const captionHistoryVideoIdRef = useRef<string | null>(null);
   const [capturingHotkey, setCapturingHotkey] = useState<keyof HotkeyConfig | null>(null);
   const [snapStepMs, setSnapStepMs] = useState<100 | 1000>(100);
   const [trimInputSeconds, setTrimInputSeconds] = useState<{ start: string; end: string }>({
@@ -159,11 +376,27 @@ export default function VideoDetailPage() {
   const waveformRasterBytesRef = useRef(0);
   const waveformRasterKeyRef = useRef<string | null>(null);
   const waveformRasterHeightRef = useRef<number>(0);
+  // 스펙트로그램 래스터도 waveformRasterCacheRef에 함께 담아 같은 메모리 예산을 쓴다.
+  const spectrogramRasterKeyRef = useRef<string | null>(null);
+  const spectrogramPendingKeyRef = useRef<string | null>(null);
+  // 영상이 바뀐 뒤 늦게 도착한 이전 영상의 결과(디코딩, 스펙트로그램)를 버리는 데 쓴다.
+  const waveformGenerationRef = useRef(0);
+  const waveformDecodePromiseRef = useRef<Promise<boolean> | null>(null);
+  const ensureWaveformSamplesRef = useRef<(() => Promise<boolean>) | null>(null);
+  const spectrogramColors = useMemo(() => createSpectrogramColorMap(), []);
   const waveformOverviewRenderRafIdRef = useRef<number | null>(null);
   const waveformBucketCountRef = useRef<number | null>(null);
   const waveformViewportRef = useRef<Viewport | null>(null);
   const waveformViewportCommitTimerRef = useRef<number | null>(null);
   const renderOverviewWaveformRef = useRef<(() => void) | null>(null);
+  const captionOverlapsRef = useRef<CaptionOverlap[]>([]);
+  const waveformCaptionsRef = useRef<Caption[]>([]);
+  const waveformCaptionDragRef = useRef<WaveformCaptionDrag | null>(null);
+  const speechEnvelopeRef = useRef<EnergyEnvelope | null>(null);
+  // 파형에 그릴 스마트 스냅 표시. 잠시 뒤 지운다.
+  const smartSnapMarkRef = useRef<CaptionSmartSnapMark | null>(null);
+  // 포락선이 준비되기 전에 찍은 시간. 준비되면 스냅을 다시 적용한다.
+  const pendingSmartSnapsRef = useRef<{ captionId: string; field: CaptionSmartSnapMark['field']; fromMs: number }[]>([]);
   const waveformWheelRafIdRef = useRef<number | null>(null);
   const waveformPendingWheelRef = useRef<
     | { type: 'zoom'; deltaPx: number; width: number; anchorX: number }
@@ -180,11 +413,39 @@ export default function VideoDetailPage() {
   }, [hotkeyConfig]);
   useEffect(() => {
     try {
-      localStorage.setItem(CAPTION_GAP_MS_STORAGE_KEY, captionGapMs.toString());
+      localStorage.setItem(CAPTION_STYLE_PROFILES_STORAGE_KEY, JSON.stringify(customStyleProfiles));
+    } catch {
+      // ignore
+    }
+  }, [customStyleProfiles]);
+  useEffect(() => {
+    try {
+      localStorage.setItem(CAPTION_HISTORY_DEPTH_STORAGE_KEY, captionHistoryDepth.toString());
+    } catch {
+      // ignore
+    }
+  }, [captionHistoryDepth]);
+  useEffect(() => {
+    try {
+      localStorage.setItem(CAPTION_LINE_BREAK_STORAGE_KEY, JSON.stringify(lineBreakSettings));
+    } catch {
+      // ignore
+    }
+  }, [lineBreakSettings]);
+  useEffect(() => {
+    try {
+      localStorage.setItem(CAPTION_SPEECH_DETECTION_STORAGE_KEY, JSON.stringify(speechDetectionOptions));
+    } catch {
+      // ignore
+    }
+  }, [speechDetectionOptions]);
+  useEffect(() => {
+    try {
+      localStorage.setItem(CAPTION_SMART_SNAP_STORAGE_KEY, JSON.stringify(smartSnapSettings));
     } catch {
       // ignore
     }
-  }, [captionGapMs]);
+  }, [smartSnapSettings]);
   const waveformPendingBucketRef = useRef<number | null>(null);
   const waveformComputeTimeoutRef = useRef<number | null>(null);
   const waveformComputeTokenRef = useRef<number>(0);
@@ -204,6 +465,24 @@ export default function VideoDetailPage() {
   const lastUiTimeUpdateAtRef = useRef<number>(0);
   const [lastFocusedCaptionId, setLastFocusedCaptionId] = useState<string | null>(null);
   const [shouldUseLiveWaveform, setShouldUseLiveWaveform] = useState(false);
+  // IndexedDB에 저장해 둔 피크. 있으면 디코딩 없이 개요 파형을 그린다.
+  const [waveformPeakPyramid, setWaveformPeakPyramid] = useState<PeakPyramidLevel[] | null>(null);
+  const [waveformViewSettings, setWaveformViewSettings] = useState<WaveformViewSettings>(() => {
+    if (typeof window === 'undefined') return sanitizeWaveformViewSettings(null);
+    try {
+      const stored = localStorage.getItem(WAVEFORM_VIEW_STORAGE_KEY);
+      return sanitizeWaveformViewSettings(stored ? JSON.parse(stored) : null);
+    } catch {
+      return sanitizeWaveformViewSettings(null);
+    }
+  });
+  useEffect(() => {
+    try {
+      localStorage.setItem(WAVEFORM_VIEW_STORAGE_KEY, JSON.stringify(waveformViewSettings));
+    } catch {
+      // ignore
+    }
+  }, [waveformViewSettings]);
   const videoFrameRequestIdRef = useRef<number | null>(null);
   const animationFrameIdRef = useRef<number | null>(null);
 
@@ -326,20 +605,70 @@ export default function VideoDetailPage() {
 
   useEffect(() => {
     if (captions) {
-
-      setCaptionDrafts(sortCaptions(captions));
+      // 다른 영상으로 바뀔 때만 기록을 새로 시작하고, 같은 영상의 재조회/저장 결과는 현재 단계만 갈아끼운다.
+      if (captionHistoryVideoIdRef.current !== videoId) {
+        captionHistoryVideoIdRef.current = videoId;
+        resetCaptionHistory(sortCaptions(captions), '저장된 자막 불러오기');
+      } else {
+        replaceCaptionDrafts(sortCaptions(captions));
+      }
     }
-  }, [captions]);
+  }, [captions, replaceCaptionDrafts, resetCaptionHistory, videoId]);
 
   useEffect(() => {
-    setCaptionDrafts((prev) => autoAlignCaptions(prev, captionGapMs));
-  }, [captionGapMs]);
+    commitCaptionDrafts('자동 간격 적용', (prev) => autoAlignCaptions(prev, captionGapMs));
+  }, [captionGapMs, commitCaptionDrafts]);
 
   const hasCaptionErrors = useMemo(
     () => captionDrafts.some((c) => Object.keys(getCaptionErrors(c)).length > 0),
     [captionDrafts],
   );
 
+  const captionQualityIssues = useMemo(
+    () => evaluateCaptionQuality(captionDrafts, captionQualityRules),
+    [captionDrafts, captionQualityRules],
+  );
+  const captionQualitySummary = useMemo(
+    () => summarizeCaptionQuality(captionQualityIssues),
+    [captionQualityIssues],
+  );
+  const captionOverlaps = useMemo(() => findCaptionOverlaps(captionDrafts), [captionDrafts]);
+  const overlappingCaptionIds = useMemo(() => getOverlappingCaptionIds(captionOverlaps), [captionOverlaps]);
+  useEffect(() => {
+    waveformCaptionsRef.current = captionDrafts;
+    captionOverlapsRef.current = captionOverlaps;
+    renderOverviewWaveformRef.current?.();
+  }, [captionDrafts, captionOverlaps]);
+  const pendingExportRef = useRef<(() => void) | null>(null);
+
+  // 품질 오류가 있으면 내보내기를 멈추고 확인을 받는다. 경고만 있으면 내보낸 뒤 알린다.
+  const guardCaptionExport = useCallback(
+    (format: string, run: () => void) => {
+      const { errorCount, warningCount } = captionQualitySummary;
+      if (errorCount > 0) {
+        pendingExportRef.current = run;
+        setExportQualityCheck({ format, errorCount, warningCount, blocked: true });
+        return;
+      }
+      pendingExportRef.current = null;
+      setExportQualityCheck(warningCount > 0 ? { format, errorCount, warningCount, blocked: false } : null);
+      run();
+    },
+    [captionQualitySummary],
+  );
+
+  const handleProceedExport = useCallback(() => {
+    const run = pendingExportRef.current;
+    pendingExportRef.current = null;
+    setExportQualityCheck(null);
+    run?.();
+  }, []);
+
+  const handleDismissExportQualityCheck = useCallback(() => {
+    pendingExportRef.current = null;
+    setExportQualityCheck(null);
+  }, []);
+
   const {
     mutate: persistCaptions,
     isPending: isSavingCaptions,
@@ -354,35 +683,61 @@ export default function VideoDetailPage() {
     },
     onSuccess: (saved) => {
       queryClient.setQueryData(['captions', videoId], saved);
-      setCaptionDrafts(saved);
+      replaceCaptionDrafts(saved);
       setLastSavedAt(Date.now());
     },
   });
 
-  const handleCaptionFieldChange = useCallback(
-    (captionId: string, field: keyof Pick<Caption, 'startMs' | 'endMs' | 'text'>, value: string) => {
+  // 시간 입력칸과 파형 위 자막 블록이 함께 쓰는 시간 수정 경로
+  const handleCaptionTimingChange = useCallback(
+    (
+      captionId: string,
+      timing: Partial<Pick<Caption, 'startMs' | 'endMs'>>,
+      label: string,
+      coalesceKey: string,
+    ) => {
       resetSaveCaptionsError();
-      setImportError(null);
-      const nextNumber =
-        value.trim() === '' ? Number.NaN : Number(value);
-      setCaptionDrafts((prev) => {
-        const next = prev.map((caption) =>
-          caption.id === captionId
-            ? {
-                ...caption,
-                [field]: field === 'text' ? value : nextNumber,
-              }
-            : caption,
-        );
-
-        if (field === 'text') return sortCaptions(next);
+      setImportReport(null);
+      const snap = (ms: number) =>
+        timecodeSettings.snapToFrames && Number.isFinite(ms) ? snapMsToFrame(ms, timecodeSettings.frameRate) : ms;
+      const patch: Partial<Pick<Caption, 'startMs' | 'endMs'>> = {};
+      if (timing.startMs !== undefined) patch.startMs = snap(timing.startMs);
+      if (timing.endMs !== undefined) patch.endMs = snap(timing.endMs);
+      commitCaptionDrafts(label, (prev) => {
+        const next = prev.map((caption) => (caption.id === captionId ? { ...caption, ...patch } : caption));
         // 숫자 입력은 "비우고 다시 타이핑"을 허용해야 함.
         // 빈값(NaN)인 동안은 자동 정렬로 값을 다시 채우지 않는다.
-        if (!Number.isFinite(nextNumber)) return next;
+        if (Object.values(patch).some((ms) => !Number.isFinite(ms))) return next;
         return autoAlignCaptions(next, captionGapMs);
-      });
+      }, { coalesceKey });
+    },
+    [
+      captionGapMs,
+      commitCaptionDrafts,
+      resetSaveCaptionsError,
+      timecodeSettings.frameRate,
+      timecodeSettings.snapToFrames,
+    ],
+  );
+
+  const handleCaptionFieldChange = useCallback(
+    (captionId: string, field: keyof Pick<Caption, 'startMs' | 'endMs' | 'text'>, value: string) => {
+      if (field !== 'text') {
+        const nextNumber = value.trim() === '' ? Number.NaN : Number(value);
+        const label = field === 'startMs' ? '시작 시간 수정' : '종료 시간 수정';
+        handleCaptionTimingChange(captionId, { [field]: nextNumber }, label, `${captionId}:${field}`);
+        return;
+      }
+      resetSaveCaptionsError();
+      setImportReport(null);
+      commitCaptionDrafts(
+        '자막 내용 수정',
+        (prev) =>
+          sortCaptions(prev.map((caption) => (caption.id === captionId ? { ...caption, text: value } : caption))),
+        { coalesceKey: `${captionId}:${field}` },
+      );
     },
-    [captionGapMs, resetSaveCaptionsError],
+    [commitCaptionDrafts, handleCaptionTimingChange, resetSaveCaptionsError],
   );
 
   const getCurrentTimeMs = useCallback(() => {
@@ -515,10 +870,10 @@ export default function VideoDetailPage() {
 
   const handleAddCaption = useCallback(() => {
     resetSaveCaptionsError();
-    setImportError(null);
+    setImportReport(null);
     const nextCaptionId = createCaptionId();
     const currentTimeMs = getCurrentTimeMs();
-    setCaptionDrafts((prev) => {
+    commitCaptionDrafts('자막 추가', (prev) => {
       const aligned = autoAlignCaptions(prev, captionGapMs);
       const lastEndMs = getLastValidEndMs(aligned);
       const hasValidEnd = aligned.some((caption) => Number.isFinite(caption.endMs));
@@ -530,14 +885,14 @@ export default function VideoDetailPage() {
       const next = [...aligned, { id: nextCaptionId, startMs, endMs, text: '' }];
       return autoAlignCaptions(next, captionGapMs);
     });
-  }, [captionGapMs, getCurrentTimeMs, resetSaveCaptionsError]);
+  }, [captionGapMs, commitCaptionDrafts, getCurrentTimeMs, resetSaveCaptionsError]);
 
   const handleConfirmCaption = useCallback(
     (captionId: string) => {
       resetSaveCaptionsError();
-      setImportError(null);
+      setImportReport(null);
       let createdId: string | null = null;
-      setCaptionDrafts((prev) => {
+      commitCaptionDrafts('자막 확정', (prev) => {
         const aligned = autoAlignCaptions(prev, captionGapMs);
         const targetIndex = aligned.findIndex((caption) => caption.id === captionId);
         if (targetIndex === -1) return aligned;
@@ -545,6 +900,9 @@ export default function VideoDetailPage() {
         const target = aligned[targetIndex];
         if (!target) return aligned;
         if (!target.text.trim()) return aligned;
+        const wrappedText = lineBreakSettings.wrapOnConfirm
+          ? breakCaptionLines(target.text, lineBreakOptions).text
+          : target.text;
 
         const targetEnd = Number.isFinite(target.endMs)
           ? target.endMs
@@ -561,7 +919,7 @@ export default function VideoDetailPage() {
         createdId = nextCaption.id;
 
         const nextCaptions = [...aligned];
-        nextCaptions.splice(targetIndex + 1, 0, nextCaption);
+        nextCaptions.splice(targetIndex, 1, { ...target, text: wrappedText }, nextCaption);
         return autoAlignCaptions(nextCaptions, captionGapMs);
       });
 
@@ -569,18 +927,124 @@ export default function VideoDetailPage() {
         setLastFocusedCaptionId(createdId);
       }
     },
-    [captionGapMs, resetSaveCaptionsError],
+    [
+      captionGapMs,
+      commitCaptionDrafts,
+      lineBreakOptions,
+      lineBreakSettings.wrapOnConfirm,
+      resetSaveCaptionsError,
+    ],
+  );
+
+  // 재생 위치를 자막 시간으로 가져올 때 쓰는 값. 영상이 준비되지 않았으면 null.
+  const capturePlayheadMs = useCallback(() => {
+    const currentTimeMs = getCurrentTimeMs();
+    return Number.isFinite(currentTimeMs) ? currentTimeMs : null;
+  }, [getCurrentTimeMs]);
+
+  // 가까운 말소리 시작/끝을 찾아 파형에 표시한다. 포락선이 없거나 창 안에 경계가 없으면 null
+  const snapToSpeechEdge = useCallback(
+    (field: CaptionSmartSnapMark['field'], fromMs: number) => {
+      const envelope = speechEnvelopeRef.current;
+      if (!envelope) return null;
+      const edgeMs = findNearestSpeechEdge(
+        envelope.envelope,
+        envelope.frameMs,
+        fromMs,
+        field === 'startMs' ? 'onset' : 'offset',
+        { thresholdDb: speechDetectionOptions.thresholdDb, windowMs: smartSnapSettings.windowMs },
+      );
+      if (edgeMs === null) return null;
+      const mark = { field, fromMs, toMs: edgeMs };
+      smartSnapMarkRef.current = mark;
+      setSmartSnapMark(mark);
+      return edgeMs;
+    },
+    [smartSnapSettings.windowMs, speechDetectionOptions.thresholdDb],
   );
 
   const handleSetCaptionTimeFromVideo = useCallback(
-    (captionId: string, field: keyof Pick<Caption, 'startMs' | 'endMs'>) => {
+    (captionId: string, field: keyof Pick<Caption, 'startMs' | 'endMs'>, options: { skipSnap?: boolean } = {}) => {
+      const currentTimeMs = capturePlayheadMs();
+      if (currentTimeMs === null) return;
+
+      // 누르는 반응 시간만큼 늦게 찍히므로, 켜져 있으면 가까운 말소리 시작/끝으로 옮긴다.
+      let nextMs = currentTimeMs;
+      if (smartSnapSettings.enabled && !options.skipSnap) {
+        if (speechEnvelopeRef.current) {
+          nextMs = snapToSpeechEdge(field, currentTimeMs) ?? currentTimeMs;
+        } else {
+          // 포락선을 아직 만드는 중이면 우선 찍은 시간을 넣고, 준비되는 대로 스냅한다.
+          pendingSmartSnapsRef.current.push({ captionId, field, fromMs: currentTimeMs });
+          void ensureWaveformSamplesRef.current?.();
+        }
+      }
+
+      handleCaptionFieldChange(captionId, field, nextMs.toString());
+      setLastFocusedCaptionId(captionId);
+    },
+    [capturePlayheadMs, handleCaptionFieldChange, smartSnapSettings.enabled, snapToSpeechEdge],
+  );
+
+  // 포락선이 준비되기 전에 찍은 시간을 스냅한다. 그 사이 직접 고친 시간은 건드리지 않는다.
+  useEffect(() => {
+    if (!isSpeechEnvelopeReady || pendingSmartSnapsRef.current.length === 0) return;
+    const pending = pendingSmartSnapsRef.current;
+    pendingSmartSnapsRef.current = [];
+    if (!smartSnapSettings.enabled) return;
+    for (const press of pending) {
+      const caption = captionDrafts.find((item) => item.id === press.captionId);
+      if (!caption || caption[press.field] !== press.fromMs) continue;
+      const edgeMs = snapToSpeechEdge(press.field, press.fromMs);
+      if (edgeMs !== null) handleCaptionFieldChange(press.captionId, press.field, edgeMs.toString());
+    }
+  }, [captionDrafts, handleCaptionFieldChange, isSpeechEnvelopeReady, smartSnapSettings.enabled, snapToSpeechEdge]);
+
+  useEffect(() => {
+    if (!smartSnapMark) return undefined;
+    renderOverviewWaveformRef.current?.();
+    const timeoutId = window.setTimeout(() => {
+      smartSnapMarkRef.current = null;
+      renderOverviewWaveformRef.current?.();
+    }, SMART_SNAP_MARK_VISIBLE_MS);
+    return () => window.clearTimeout(timeoutId);
+  }, [smartSnapMark]);
+
+  const handleSplitCaption = useCallback(
+    (captionId: string, cursorIndex: number | null) => {
       const currentTimeMs = getCurrentTimeMs();
       if (!Number.isFinite(currentTimeMs)) return;
 
-      handleCaptionFieldChange(captionId, field, currentTimeMs.toString());
+      resetSaveCaptionsError();
+      setImportReport(null);
+      const nextCaptionId = createCaptionId();
+      commitCaptionDrafts('자막 나누기', (prev) => {
+        const targetIndex = prev.findIndex((caption) => caption.id === captionId);
+        const target = prev[targetIndex];
+        if (!target) return prev;
+
+        const parts = splitCaptionAt(target, currentTimeMs, nextCaptionId, cursorIndex);
+        if (!parts) return prev;
+
+        const next = [...prev];
+        next.splice(targetIndex, 1, ...parts);
+        return autoAlignCaptions(next, captionGapMs);
+      });
+    },
+    [captionGapMs, commitCaptionDrafts, getCurrentTimeMs, resetSaveCaptionsError],
+  );
+
+  const handleMergeCaption = useCallback(
+    (captionId: string) => {
+      resetSaveCaptionsError();
+      setImportReport(null);
+      commitCaptionDrafts('자막 합치기', (prev) => {
+        const merged = mergeCaptionWithNext(autoAlignCaptions(prev, captionGapMs), captionId);
+        return merged ? autoAlignCaptions(merged, captionGapMs) : prev;
+      });
       setLastFocusedCaptionId(captionId);
     },
-    [getCurrentTimeMs, handleCaptionFieldChange],
+    [captionGapMs, commitCaptionDrafts, resetSaveCaptionsError],
   );
 
   const baseFileName = useMemo(() => {
@@ -595,39 +1059,199 @@ export default function VideoDetailPage() {
   }, [video, videoId]);
 
   const handleExportJson = useCallback(() => {
-    const json = createCaptionExportJson(captionDrafts, { applyTrimOnExport, trimRange });
+    const json = createCaptionExportJson(captionDrafts, { applyTrimOnExport, trimRange }, video);
     downloadTextFile(`${baseFileName}.json`, json, 'application/json;charset=utf-8');
-  }, [applyTrimOnExport, baseFileName, captionDrafts, trimRange]);
+  }, [applyTrimOnExport, baseFileName, captionDrafts, trimRange, video]);
 
   const handleExportSrt = useCallback(() => {
-    const srt = createCaptionExportSrt(captionDrafts, { applyTrimOnExport, trimRange });
+    const srt = createCaptionExportSrt(captionDrafts, {
+      applyTrimOnExport,
+      trimRange,
+      lineBreak: exportLineBreak,
+    });
     downloadTextFile(`${baseFileName}.srt`, srt, 'application/x-subrip;charset=utf-8');
+  }, [applyTrimOnExport, baseFileName, captionDrafts, exportLineBreak, trimRange]);
+
+  const handleExportVtt = useCallback(() => {
+    const vtt = createCaptionExportVtt(captionDrafts, {
+      applyTrimOnExport,
+      trimRange,
+      lineBreak: exportLineBreak,
+    });
+    downloadTextFile(`${baseFileName}.vtt`, vtt, 'text/vtt;charset=utf-8');
+  }, [applyTrimOnExport, baseFileName, captionDrafts, exportLineBreak, trimRange]);
+
+  const handleExportSbv = useCallback(() => {
+    const sbv = createCaptionExportSbv(captionDrafts, { applyTrimOnExport, trimRange });
+    downloadTextFile(`${baseFileName}.sbv`, sbv);
+  }, [applyTrimOnExport, baseFileName, captionDrafts, trimRange]);
+
+  const handleExportTranscript = useCallback(() => {
+    const transcript = createCaptionExportTranscript(
+      captionDrafts,
+      { applyTrimOnExport, trimRange },
+      transcriptOptions,
+    );
+    downloadTextFile(`${baseFileName}.txt`, transcript);
+  }, [applyTrimOnExport, baseFileName, captionDrafts, transcriptOptions, trimRange]);
+
+  const handleExportSheet = useCallback(
+    (delimiter: CaptionSheetDelimiter) => {
+      const sheet = createCaptionExportSheet(captionDrafts, { applyTrimOnExport, trimRange }, delimiter);
+      if (delimiter === '\t') {
+        downloadTextFile(`${baseFileName}.tsv`, sheet, 'text/tab-separated-values;charset=utf-8');
+      } else {
+        downloadTextFile(`${baseFileName}.csv`, sheet, 'text/csv;charset=utf-8');
+      }
+    },
+    [applyTrimOnExport, baseFileName, captionDrafts, trimRange],
+  );
+
+  const handleExportScc = useCallback(() => {
+    const { scc, warnings } = createCaptionExportScc(captionDrafts, { applyTrimOnExport, trimRange });
+    downloadTextFile(`${baseFileName}.scc`, scc, 'text/plain;charset=us-ascii');
+    setExportReport(warnings.length > 0 ? { format: 'SCC', warnings } : null);
   }, [applyTrimOnExport, baseFileName, captionDrafts, trimRange]);
 
-  const handleImportJsonClick = useCallback(() => {
+  const handleExportStl = useCallback(() => {
+    const { bytes, warnings } = createCaptionExportStl(captionDrafts, { applyTrimOnExport, trimRange }, video);
+    downloadBinaryFile(`${baseFileName}.stl`, bytes);
+    setExportReport(warnings.length > 0 ? { format: 'EBU-STL', warnings } : null);
+  }, [applyTrimOnExport, baseFileName, captionDrafts, trimRange, video]);
+
+  const handleExportAss = useCallback(() => {
+    const ass = createCaptionExportAss(
+      captionDrafts,
+      { applyTrimOnExport, trimRange, lineBreak: exportLineBreak },
+      video,
+    );
+    downloadTextFile(`${baseFileName}.ass`, ass, 'text/x-ssa;charset=utf-8');
+  }, [applyTrimOnExport, baseFileName, captionDrafts, exportLineBreak, trimRange, video]);
+
+  const handleExportTtml = useCallback(
+    (profile: TtmlProfile) => {
+      try {
+        const ttml = createCaptionExportTtml(
+          captionDrafts,
+          { applyTrimOnExport, trimRange },
+          video,
+          profile,
+          ttmlLanguage,
+        );
+        const extension = profile === 'dfxp' ? 'dfxp' : 'ttml';
+        downloadTextFile(`${baseFileName}.${extension}`, ttml, 'application/ttml+xml;charset=utf-8');
+        setExportError(null);
+      } catch (err) {
+        setExportError(err instanceof Error ? err.message : 'TTML을 내보내지 못했어요.');
+      }
+    },
+    [applyTrimOnExport, baseFileName, captionDrafts, trimRange, ttmlLanguage, video],
+  );
+
+  const handleImportCaptionClick = useCallback(() => {
     fileInputRef.current?.click();
   }, []);
 
-  const handleImportJsonFile = useCallback(
+  const handleImportCaptionFile = useCallback(
     async (event: ChangeEvent<HTMLInputElement>) => {
       const file = event.target.files?.[0];
       if (!file) return;
 
       try {
-        const text = await file.text();
-        const imported = parseCaptionJsonForPage(text, createCaptionId, captionGapMs);
-        setCaptionDrafts(imported);
-        setImportError(null);
+        const buffer = await file.arrayBuffer();
+        const { captions: imported, warnings } = parseCaptionFileForPage(
+          file.name,
+          buffer,
+          createCaptionId,
+          captionGapMs,
+          captionDrafts,
+        );
+        commitCaptionDrafts(`${file.name} 불러오기`, () => imported);
+        setImportReport(warnings.length > 0 ? { fileName: file.name, error: null, warnings } : null);
         resetSaveCaptionsError();
       } catch (err) {
-        setImportError(err instanceof Error ? err.message : '자막 JSON을 불러오지 못했어요.');
+        setImportReport({
+          fileName: file.name,
+          error: err instanceof Error ? err.message : '자막 파일을 불러오지 못했어요.',
+          warnings: [],
+        });
       } finally {
         event.target.value = '';
       }
     },
-    [captionGapMs, resetSaveCaptionsError],
+    [captionDrafts, captionGapMs, commitCaptionDrafts, resetSaveCaptionsError],
+  );
+
+  const { mutate: persistStyleProfile } = useMutation({
+    mutationFn: (profile: CaptionStyleProfile) => dataSource.saveCaptionStyleProfile(videoId, profile),
+    onMutate: (profile) => {
+      setStyleProfileError(null);
+      queryClient.setQueryData(['caption-style-profile', videoId], profile);
+    },
+    onError: (err) => {
+      setStyleProfileError(err instanceof Error ? err.message : '스타일 프로필을 저장하지 못했어요.');
+      void queryClient.invalidateQueries({ queryKey: ['caption-style-profile', videoId] });
+    },
+  });
+
+  const { mutate: persistTimecodeSettings } = useMutation({
+    mutationFn: (settings: CaptionTimecodeSettings) => dataSource.saveCaptionTimecodeSettings(videoId, settings),
+    onMutate: (settings) => {
+      setTimecodeSettingsError(null);
+      queryClient.setQueryData(['caption-timecode', videoId], settings);
+    },
+    onError: (err) => {
+      setTimecodeSettingsError(err instanceof Error ? err.message : '타임코드 설정을 저장하지 못했어요.');
+      void queryClient.invalidateQueries({ queryKey: ['caption-timecode', videoId] });
+    },
+  });
+
+  const handleCaptionGapChange = useCallback(
+    (gapMs: number) => persistStyleProfile({ ...styleProfile, gapMs }),
+    [persistStyleProfile, styleProfile],
+  );
+
+  const handleSaveCustomStyleProfile = useCallback(
+    (name: string) => {
+      const profile: CaptionStyleProfile = { ...styleProfile, id: `custom-${createCaptionId()}`, name };
+      setCustomStyleProfiles((prev) => [...prev, profile]);
+      persistStyleProfile(profile);
+    },
+    [persistStyleProfile, styleProfile],
   );
 
+  // 현재 프로필을 같은 id의 사용자 프로필에 덮어쓴다. 기본 제공 프로필은 바꾸지 않는다.
+  const handleUpdateCustomStyleProfile = useCallback(() => {
+    if (isBuiltInCaptionStyleProfile(styleProfile.id)) return;
+    setCustomStyleProfiles((prev) =>
+      prev.map((profile) => (profile.id === styleProfile.id ? styleProfile : profile)),
+    );
+  }, [styleProfile]);
+
+  const handleDeleteCustomStyleProfile = useCallback((profileId: string) => {
+    setCustomStyleProfiles((prev) => prev.filter((profile) => profile.id !== profileId));
+  }, []);
+
+  const handleExportStyleProfiles = useCallback(() => {
+    downloadTextFile(
+      'caption-style-profiles.json',
+      createCaptionStyleProfilesJson(customStyleProfiles),
+      'application/json;charset=utf-8',
+    );
+  }, [customStyleProfiles]);
+
+  const handleImportStyleProfiles = useCallback(async (file: File) => {
+    try {
+      const imported = parseCaptionStyleProfilesJson(await file.text());
+      setCustomStyleProfiles((prev) =>
+        mergeCaptionStyleProfiles(prev, imported, () => `custom-${createCaptionId()}`),
+      );
+      setStyleProfileError(null);
+    } catch (err) {
+      setStyleProfileError(err instanceof Error ? err.message : '프로필 파일을 불러오지 못했어요.');
+    }
+  }, []);
+
   const togglePlayback = useCallback(() => {
     const video = videoRef.current;
     if (!video) return;
@@ -653,6 +1277,8 @@ export default function VideoDetailPage() {
     { key: 'setStart', label: '시작 설정', description: '현재 재생 위치를 시작 시간으로 설정' },
     { key: 'setEnd', label: '종료 설정', description: '현재 재생 위치를 종료 시간으로 설정' },
     { key: 'confirm', label: '자막 추가', description: '새 자막을 추가하고 포커스 유지' },
+    { key: 'split', label: '자막 나누기', description: '현재 재생 위치에서 자막을 둘로 나누기' },
+    { key: 'merge', label: '자막 합치기', description: '다음 자막과 합쳐 한 자막으로 만들기' },
   ];
 
   useEffect(() => {
@@ -661,20 +1287,14 @@ export default function VideoDetailPage() {
     const handleKeyDown = (event: KeyboardEvent) => {
       if (capturingHotkey) return;
       if (event.isComposing) return;
+      if (isHotkeyOffTarget(event.target)) return;
       if (event.metaKey || event.ctrlKey || event.altKey) return;
 
       const eventKey = normalizeEventKey(event.key);
       if (!eventKey || eventKey === 'Process') return;
 
       const target = event.target as HTMLElement | null;
-      const isTypingTarget =
-        target &&
-        (target.tagName === 'INPUT' ||
-          target.tagName === 'TEXTAREA' ||
-          target.tagName === 'SELECT' ||
-          target.tagName === 'BUTTON' ||
-          target.tagName === 'A' ||
-          target.isContentEditable);
+      const isTypingTarget = isHotkeyTypingTarget(target);
 
       // textarea(자막 내용)에서 Enter는 로컬(onKeyDown)로 처리한다.
       // - Enter: 확정(다음 자막 생성)
@@ -682,6 +1302,16 @@ export default function VideoDetailPage() {
       // window capture에서 Enter를 먹어버리면 Shift+Enter도 확정으로 동작하거나,
       // Enter가 중복 처리되어 자막이 2개 생길 수 있다.
       if (target?.tagName === 'TEXTAREA' && eventKey === 'Enter') return;
+
+      const skipSnapField = getSmartSnapBypassField(event, hotkeyConfig);
+      if (skipSnapField) {
+        event.stopPropagation();
+        event.preventDefault();
+        const targetCaptionId = getShortcutTargetCaptionId();
+        if (targetCaptionId) handleSetCaptionTimeFromVideo(targetCaptionId, skipSnapField, { skipSnap: true });
+        return;
+      }
+
       if (isTypingTarget && !hotkeyValues.has(eventKey)) return;
 
       if (eventKey === hotkeyConfig.togglePlay) {
@@ -714,6 +1344,29 @@ export default function VideoDetailPage() {
         event.stopPropagation();
         event.preventDefault();
         handleAddCaption();
+        return;
+      }
+
+      if (eventKey === hotkeyConfig.split) {
+        event.stopPropagation();
+        event.preventDefault();
+        const targetCaptionId = getShortcutTargetCaptionId();
+        // 자막 내용 입력 중이면 커서 위치에서 문구를 나눈다.
+        const cursorIndex =
+          target instanceof HTMLTextAreaElement &&
+          target.dataset.captionText === 'true' &&
+          target.selectionStart === target.selectionEnd
+            ? target.selectionStart
+            : null;
+        if (targetCaptionId) handleSplitCaption(targetCaptionId, cursorIndex);
+        return;
+      }
+
+      if (eventKey === hotkeyConfig.merge) {
+        event.stopPropagation();
+        event.preventDefault();
+        const targetCaptionId = getShortcutTargetCaptionId();
+        if (targetCaptionId) handleMergeCaption(targetCaptionId);
       }
     };
 
@@ -725,7 +1378,9 @@ export default function VideoDetailPage() {
     capturingHotkey,
     getShortcutTargetCaptionId,
     handleAddCaption,
+    handleMergeCaption,
     handleSetCaptionTimeFromVideo,
+    handleSplitCaption,
     hotkeyConfig,
     togglePlayback,
   ]);
@@ -762,13 +1417,249 @@ export default function VideoDetailPage() {
     };
   }, [capturingHotkey]);
 
+  useEffect(() => {
+    const handleHistoryKeyDown = (event: KeyboardEvent) => {
+      if (capturingHotkey) return;
+      if (event.isComposing) return;
+      if (!isCaptionHistoryHotkeyTarget(event.target)) return;
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+      // 한글 입력 상태에서는 key가 'ㅋ'로 들어오므로 물리 키(code)도 함께 본다.
+      if (event.key.toLowerCase() !== 'z' && event.code !== 'KeyZ') return;
+
+      // 자막 입력칸의 브라우저 기본 실행 취소는 controlled 값과 어긋나므로 편집 기록으로 처리한다.
+      event.stopPropagation();
+      event.preventDefault();
+      if (event.shiftKey) {
+        redoCaptions();
+      } else {
+        undoCaptions();
+      }
+    };
+
+    window.addEventListener('keydown', handleHistoryKeyDown, WINDOW_KEYDOWN_CAPTURE_OPTS);
+    return () => {
+      window.removeEventListener('keydown', handleHistoryKeyDown, WINDOW_KEYDOWN_CAPTURE_OPTS);
+    };
+  }, [capturingHotkey, redoCaptions, undoCaptions]);
+
 
   const handleDeleteCaption = useCallback((captionId: string) => {
     resetSaveCaptionsError();
-    setImportError(null);
-    setCaptionDrafts((prev) => prev.filter((caption) => caption.id !== captionId));
+    setImportReport(null);
+    commitCaptionDrafts('자막 삭제', (prev) => prev.filter((caption) => caption.id !== captionId));
     setLastFocusedCaptionId((prev) => (prev === captionId ? null : prev));
-  }, [resetSaveCaptionsError]);
+  }, [commitCaptionDrafts, resetSaveCaptionsError]);
+
+  // 일괄 편집은 한 단계로 기록하고, 겹치거나 순서가 바뀌는 결과는 적용하지 않는다.
+  const applyCaptionBulkEdit = useCallback(
+    (label: string, targetIds: ReadonlySet<string>, update: (prev: Caption[]) => Caption[]) => {
+      resetSaveCaptionsError();
+      setImportReport(null);
+      const issues = findCaptionOrderIssues(
+        update(captionDrafts),
+        targetIds,
+        captionGapMs,
+        captionDrafts,
+      ).filter((issue) => issue.blocking);
+      if (issues.length > 0) {
+        setBulkReport({
+          message: '자막이 겹치거나 순서가 바뀌어서 적용하지 않았어요.',
+          issues,
+          blocked: true,
+        });
+        return false;
+      }
+
+      setBulkReport(null);
+      commitCaptionDrafts(label, (prev) => autoAlignCaptions(update(prev), captionGapMs));
+      return true;
+    },
+    [captionDrafts, captionGapMs, commitCaptionDrafts, resetSaveCaptionsError],
+  );
+
+  const handleBulkShift = useCallback(
+    (deltaMs: number) => {
+      const delta = Math.round(deltaMs);
+      applyCaptionBulkEdit(`선택 자막 ${delta > 0 ? '+' : ''}${delta}ms 이동`, selectedCaptionIds, (prev) =>
+        shiftCaptions(prev, selectedCaptionIds, delta),
+      );
+    },
+    [applyCaptionBulkEdit, selectedCaptionIds],
+  );
+
+  const handleBulkScale = useCallback(
+    (factor: number, anchor: CaptionScaleAnchor) => {
+      const selectedStarts = captionDrafts
+        .filter((caption) => selectedCaptionIds.has(caption.id) && Number.isFinite(caption.startMs))
+        .map((caption) => caption.startMs);
+      const anchorMs =
+        anchor === 'zero'
+          ? 0
+          : anchor === 'playhead'
+            ? getCurrentTimeMs()
+            : selectedStarts.length > 0
+              ? Math.min(...selectedStarts)
+              : Number.NaN;
+      if (!Number.isFinite(anchorMs)) return;
+
+      applyCaptionBulkEdit(`선택 자막 ${factor}배 조정`, selectedCaptionIds, (prev) =>
+        scaleCaptions(prev, selectedCaptionIds, factor, anchorMs),
+      );
+    },
+    [applyCaptionBulkEdit, captionDrafts, getCurrentTimeMs, selectedCaptionIds],
+  );
+
+  const handleBulkSnapToGap = useCallback(() => {
+    resetSaveCaptionsError();
+    setImportReport(null);
+    setBulkReport(null);
+    commitCaptionDrafts('선택 자막 간격 맞추기', (prev) =>
+      sortCaptions(snapCaptionsToGap(prev, selectedCaptionIds, captionGapMs)),
+    );
+  }, [captionGapMs, commitCaptionDrafts, resetSaveCaptionsError, selectedCaptionIds]);
+
+  const handleValidateCaptionOrder = useCallback(() => {
+    const issues = findCaptionOrderIssues(captionDrafts, selectedCaptionIds, captionGapMs);
+    setBulkReport({
+      message:
+        issues.length > 0
+          ? `선택한 자막에 확인할 내용이 ${issues.length}건 있어요.`
+          : '선택한 자막의 순서와 간격에 문제가 없어요.',
+      issues,
+      blocked: false,
+    });
+  }, [captionDrafts, captionGapMs, selectedCaptionIds]);
+
+  const handleBulkDelete = useCallback(() => {
+    resetSaveCaptionsError();
+    setImportReport(null);
+    setBulkReport(null);
+    commitCaptionDrafts(`선택 자막 ${selectedCaptionIds.size}개 삭제`, (prev) =>
+      prev.filter((caption) => !selectedCaptionIds.has(caption.id)),
+    );
+    setLastFocusedCaptionId((prev) => (prev && selectedCaptionIds.has(prev) ? null : prev));
+    clearCaptionSelection();
+  }, [clearCaptionSelection, commitCaptionDrafts, resetSaveCaptionsError, selectedCaptionIds]);
+
+  const syncPreview = useMemo<CaptionSyncPreview | null>(() => {
+    const first = captionDrafts.find((caption) => caption.id === syncPoints.first?.captionId);
+    const second = captionDrafts.find((caption) => caption.id === syncPoints.second?.captionId);
+    const firstTargetMs = syncPoints.first?.targetMs;
+    const secondTargetMs = syncPoints.second?.targetMs;
+    if (!first || !second || firstTargetMs == null || secondTargetMs == null) return null;
+
+    const transform = fitLinearTiming(
+      { sourceMs: first.startMs, targetMs: firstTargetMs },
+      { sourceMs: second.startMs, targetMs: secondTargetMs },
+    );
+    if (!transform) return null;
+
+    const targetIds =
+      syncScope === 'selected' && selectedCaptionIds.size > 0
+        ? selectedCaptionIds
+        : new Set(captionDrafts.map((caption) => caption.id));
+    const captions = applyLinearTiming(captionDrafts, transform, targetIds);
+    return {
+      transform,
+      captions,
+      targetIds,
+      issues: findCaptionOrderIssues(captions, targetIds, captionGapMs, captionDrafts),
+    };
+  }, [captionDrafts, captionGapMs, selectedCaptionIds, syncPoints, syncScope]);
+
+  const handleMarkSyncPoint = useCallback(
+    (key: CaptionSyncPointKey) => {
+      const captionId = getShortcutTargetCaptionId();
+      if (!captionId) return;
+      setSyncPoints((prev) => ({ ...prev, [key]: { captionId, targetMs: null } }));
+    },
+    [getShortcutTargetCaptionId],
+  );
+
+  const handleCaptureSyncPoint = useCallback(
+    (key: CaptionSyncPointKey) => {
+      const targetMs = capturePlayheadMs();
+      if (targetMs === null) return;
+      setSyncPoints((prev) => {
+        const point = prev[key];
+        return point ? { ...prev, [key]: { ...point, targetMs } } : prev;
+      });
+    },
+    [capturePlayheadMs],
+  );
+
+  const handleResetSync = useCallback(() => {
+    setSyncPoints({ first: null, second: null });
+  }, []);
+
+  const handleApplySync = useCallback(() => {
+    if (!syncPreview) return;
+    const { transform, targetIds } = syncPreview;
+    const applied = applyCaptionBulkEdit('두 점 싱크 보정', targetIds, (prev) =>
+      applyLinearTiming(prev, transform, targetIds),
+    );
+    if (applied) handleResetSync();
+  }, [applyCaptionBulkEdit, handleResetSync, syncPreview]);
+
+  const handleConvertFrameRate = useCallback(
+    (
+      source: CaptionFrameRateId,
+      target: CaptionFrameRateId,
+      mode: CaptionFrameRateConversionMode,
+      snapToFrames: boolean,
+    ) => {
+      resetSaveCaptionsError();
+      setImportReport(null);
+      // 겹침은 고치지 않고 그대로 보고해서, 변환 결과를 사용자가 확인하고 손보게 한다.
+      const { issues } = convertCaptionFrameRate(captionDrafts, source, target, { mode, snapToFrames });
+      commitCaptionDrafts(
+        `프레임레이트 변환 ${source}→${target}fps`,
+        (prev) => convertCaptionFrameRate(prev, source, target, { mode, snapToFrames }).captions,
+      );
+      setFrameRateReport({ source, target, mode, issues });
+      // 변환한 자막은 대상 프레임레이트 영상에 맞으므로 영상의 프레임레이트도 함께 바꾼다.
+      persistTimecodeSettings({ ...timecodeSettings, frameRate: CAPTION_FRAME_RATE_FPS[target] });
+    },
+    [captionDrafts, commitCaptionDrafts, persistTimecodeSettings, resetSaveCaptionsError, timecodeSettings],
+  );
+
+  const handleResolveOverlaps = useCallback(
+    (strategy: CaptionOverlapStrategy) => {
+      resetSaveCaptionsError();
+      setImportReport(null);
+      const { resolvedCount, unresolved } = resolveCaptionOverlaps(captionDrafts, strategy, captionGapMs);
+      if (resolvedCount > 0) {
+        commitCaptionDrafts(`겹침 해결 (${resolvedCount}곳)`, (prev) =>
+          sortCaptions(resolveCaptionOverlaps(prev, strategy, captionGapMs).captions),
+        );
+      }
+      setOverlapReport({ strategy, resolvedCount, unresolved });
+    },
+    [captionDrafts, captionGapMs, commitCaptionDrafts, resetSaveCaptionsError],
+  );
+
+  const handleBreakCaptionLines = useCallback(
+    (scope: CaptionLineBreakScope) => {
+      resetSaveCaptionsError();
+      setImportReport(null);
+      const ids = scope === 'selection' ? selectedCaptionIds : null;
+      const { changedIds, overflowIds } = breakCaptionsLines(captionDrafts, ids, lineBreakOptions);
+      if (changedIds.length > 0) {
+        commitCaptionDrafts(
+          `자동 줄바꿈 (${changedIds.length}개)`,
+          (prev) => breakCaptionsLines(prev, ids, lineBreakOptions).captions,
+        );
+      }
+      const overflow = new Set(overflowIds);
+      setLineBreakReport({
+        changedCount: changedIds.length,
+        overflow: captionDrafts
+          .filter((caption) => overflow.has(caption.id))
+          .map((caption) => ({ captionId: caption.id, startMs: caption.startMs })),
+      });
+    },
+    [captionDrafts, commitCaptionDrafts, lineBreakOptions, resetSaveCaptionsError, selectedCaptionIds],
+  );
 
   const handleSaveCaptions = useCallback(() => {
     if (!videoId || hasCaptionErrors) return;
@@ -977,7 +1868,7 @@ export default function VideoDetailPage() {
     handleBurnInExport,
     handleCancelBurnIn,
     isBurningIn,
-  } = useBurnInExport({ captionDrafts, durationMs, safeTitleOrId, videoBlob });
+  } = useBurnInExport({ captionDrafts, durationMs, safeTitleOrId, video, videoBlob });
 
   const {
     handleCancelTrim,
@@ -1027,6 +1918,7 @@ export default function VideoDetailPage() {
     waveformRasterBytesRef.current = 0;
     waveformRasterKeyRef.current = null;
     waveformRasterHeightRef.current = 0;
+    spectrogramRasterKeyRef.current = null;
   }, []);
 
   const resetWaveformOverview = useCallback(() => {
@@ -1038,6 +1930,9 @@ export default function VideoDetailPage() {
     waveformPendingBucketRef.current = null;
     waveformLastComputeAtRef.current = 0;
     waveformModeRef.current = 'loading';
+    spectrogramPendingKeyRef.current = null;
+    waveformGenerationRef.current += 1;
+    waveformDecodePromiseRef.current = null;
     if (waveformComputeTimeoutRef.current !== null) {
       window.clearTimeout(waveformComputeTimeoutRef.current);
       waveformComputeTimeoutRef.current = null;
@@ -1140,34 +2035,10 @@ export default function VideoDetailPage() {
     }
   }, []);
 
-  const downsampleWaveformPeaks = useCallback((peaks: Int16Array, sourceBucketCount: number, targetBucketCount: number) => {
-    const safeTarget = Math.max(1, targetBucketCount);
-    const safeSource = Math.max(1, sourceBucketCount);
-    const result = new Int16Array(safeTarget * 2);
-    const ratio = safeSource / safeTarget;
-
-    for (let bucket = 0; bucket < safeTarget; bucket += 1) {
-      const start = Math.floor(bucket * ratio);
-      const end = Math.max(start + 1, Math.floor((bucket + 1) * ratio));
-      let min = 32767;
-      let max = -32768;
-      for (let source = start; source < end && source < safeSource; source += 1) {
-        const sourceMin = peaks[source * 2] ?? 0;
-        const sourceMax = peaks[source * 2 + 1] ?? 0;
-        if (sourceMin < min) min = sourceMin;
-        if (sourceMax > max) max = sourceMax;
-      }
-      result[bucket * 2] = min === 32767 ? 0 : min;
-      result[bucket * 2 + 1] = max === -32768 ? 0 : max;
-    }
-
-    return result;
-  }, []);
-
   const rasterizeWaveform = useCallback(
     (bucketCount: number, peaks: Int16Array, height: number, rasterWidth?: number, allowFallback = true): OffscreenCanvas | HTMLCanvasElement | null => {
       const width = Math.max(1, Math.min(rasterWidth ?? bucketCount, WAVEFORM_RASTER_MAX_WIDTH));
-      const effectivePeaks = bucketCount > width ? downsampleWaveformPeaks(peaks, bucketCount, width) : peaks;
+      const effectivePeaks = bucketCount > width ? downsamplePeaks(peaks, bucketCount, width) : peaks;
       const rasterCanvas = createWaveformRasterCanvas(width, height);
       if (!rasterCanvas) {
         clearWaveformRasterCache();
@@ -1207,7 +2078,6 @@ export default function VideoDetailPage() {
     [
       clearWaveformRasterCache,
       createWaveformRasterCanvas,
-      downsampleWaveformPeaks,
     ],
   );
 
@@ -1251,6 +2121,69 @@ export default function VideoDetailPage() {
     [formatRasterBytes, getWaveformRasterKey, getWaveformRasterWidth, rasterizeWaveform, touchWaveformRasterCache],
   );
 
+  const getSpectrogramRasterKey = useCallback(
+    (bucketCount: number, rasterWidth: number, scale: WaveformViewSettings['spectrogramScale']) =>
+      `spectrogram|${scale}|${bucketCount}|${rasterWidth}`,
+    [],
+  );
+
+  // 워커에서 STFT를 계산해 래스터로 만든 뒤 캐시에 넣는다. 같은 키를 이미 기다리는 중이면 다시 보내지 않는다.
+  const requestSpectrogramRaster = useCallback(
+    (key: string, columnCount: number, scale: WaveformViewSettings['spectrogramScale']) => {
+      if (spectrogramPendingKeyRef.current === key) return;
+      spectrogramPendingKeyRef.current = key;
+      const generation = waveformGenerationRef.current;
+
+      postWaveformWorkerMessage({
+        type: 'compute-spectrogram',
+        options: {
+          columnCount,
+          binCount: SPECTROGRAM_BIN_COUNT,
+          fftSize: SPECTROGRAM_FFT_SIZE,
+          scale,
+          dynamicRangeDb: SPECTROGRAM_DYNAMIC_RANGE_DB,
+        },
+      })
+        .then((response) => {
+          if (response.type !== 'spectrogram-ready') return;
+          if (generation !== waveformGenerationRef.current) return;
+          if (spectrogramPendingKeyRef.current === key) spectrogramPendingKeyRef.current = null;
+
+          const raster = createWaveformRasterCanvas(response.columnCount, response.binCount);
+          const context = raster?.getContext('2d');
+          if (!raster || !context) return;
+          const data = new Uint8Array(response.data);
+          const image = context.createImageData(response.columnCount, response.binCount);
+          // 위쪽이 높은 주파수가 되도록 세로를 뒤집어 칠한다.
+          for (let column = 0; column < response.columnCount; column += 1) {
+            for (let row = 0; row < response.binCount; row += 1) {
+              const value = data[column * response.binCount + row] ?? 0;
+              const target = ((response.binCount - 1 - row) * response.columnCount + column) * 4;
+              image.data[target] = spectrogramColors[value * 4] ?? 0;
+              image.data[target + 1] = spectrogramColors[value * 4 + 1] ?? 0;
+              image.data[target + 2] = spectrogramColors[value * 4 + 2] ?? 0;
+              image.data[target + 3] = 255;
+            }
+          }
+          context.putImageData(image, 0, 0);
+
+          const totalBytes = touchWaveformRasterCache(key, raster);
+          spectrogramRasterKeyRef.current = key;
+          if (import.meta.env.DEV) {
+            console.debug(
+              `[waveform] spectrogram cached in ${response.durationMs.toFixed(1)}ms (key=${key}, total=${formatRasterBytes(totalBytes)})`,
+            );
+          }
+          renderOverviewWaveformRef.current?.();
+        })
+        .catch((error: unknown) => {
+          // 대기 키를 그대로 둬서 다시 그릴 때마다 같은 계산을 되풀이하지 않는다. 파형으로 대신 보여준다.
+          console.error('[waveform] spectrogram computation failed', error);
+        });
+    },
+    [createWaveformRasterCanvas, formatRasterBytes, postWaveformWorkerMessage, spectrogramColors, touchWaveformRasterCache],
+  );
+
   const xToMs = useCallback(
     (x: number, width: number) => {
       if (typeof effectiveDurationMs !== 'number' || effectiveDurationMs <= 0 || width <= 0) return null;
@@ -1402,6 +2335,101 @@ export default function VideoDetailPage() {
     [commitCurrentTimeMs, recenterWaveformViewport],
   );
 
+  const { stepMatch: stepCaptionSearchMatch } = captionSearch;
+  const handleCaptionSearchStep = useCallback(
+    (direction: 1 | -1) => {
+      const match = stepCaptionSearchMatch(direction);
+      if (!match) return;
+      seekToMs(match.startMs);
+      setLastFocusedCaptionId(match.captionId);
+    },
+    [seekToMs, stepCaptionSearchMatch],
+  );
+
+  const handleSeekToOverlap = useCallback(
+    (overlap: CaptionOverlap) => {
+      seekToMs(overlap.startMs);
+      setLastFocusedCaptionId(overlap.nextId);
+    },
+    [seekToMs],
+  );
+
+  const handleSeekToCaption = useCallback(
+    (captionId: string, startMs: number) => {
+      seekToMs(startMs);
+      setLastFocusedCaptionId(captionId);
+    },
+    [seekToMs],
+  );
+
+  const handleDetectSpeechSegments = useCallback(async () => {
+    setIsDetectingSpeech(true);
+    setSpeechDetectionError(null);
+    setSpeechSeedReport(null);
+    try {
+      // 음성 구간은 파형 워커에 올려둔 샘플로 찾으므로, 저장된 피크만 있으면 먼저 디코딩한다.
+      const isReady = (await ensureWaveformSamplesRef.current?.()) ?? false;
+      if (!isReady) {
+        setSpeechDetectionError('오디오를 불러오지 못했어요. 잠시 후 다시 시도해주세요.');
+        return;
+      }
+      const response = await postWaveformWorkerMessage({
+        type: 'detect-speech-segments',
+        options: speechDetectionOptions,
+      });
+      if (response.type !== 'speech-segments-ready') throw new Error('speech-detection-failed');
+      setSpeechSegments(response.segments);
+    } catch (error) {
+      console.error('[waveform] speech detection failed', error);
+      setSpeechDetectionError('음성 구간을 찾지 못했어요. 잠시 후 다시 시도해주세요.');
+    } finally {
+      setIsDetectingSpeech(false);
+    }
+  }, [postWaveformWorkerMessage, speechDetectionOptions]);
+
+  const handleCreateCaptionsFromSpeech = useCallback(() => {
+    if (!speechSegments) return;
+    resetSaveCaptionsError();
+    setImportReport(null);
+    const { createdCount, skippedCount } = seedCaptionsFromSpeechSegments(
+      captionDrafts,
+      speechSegments,
+      createCaptionId,
+    );
+    if (createdCount > 0) {
+      commitCaptionDrafts(`음성 구간으로 빈 자막 만들기 (${createdCount}개)`, (prev) =>
+        sortCaptions(seedCaptionsFromSpeechSegments(prev, speechSegments, createCaptionId).captions),
+      );
+    }
+    setSpeechSeedReport({ createdCount, skippedCount });
+  }, [captionDrafts, commitCaptionDrafts, resetSaveCaptionsError, speechSegments]);
+
+  const handleApplyCaptionReplace = useCallback(() => {
+    const { pattern, replacement, options, replacePreview, setIsReplacePreviewOpen } = captionSearch;
+    if (!pattern || !replacePreview || replacePreview.length === 0) return;
+    resetSaveCaptionsError();
+    setImportReport(null);
+    commitCaptionDrafts(
+      `모두 바꾸기 (${replacePreview.length}개)`,
+      (prev) => replaceAllInCaptions(prev, pattern, replacement, options).captions,
+    );
+    setIsReplacePreviewOpen(false);
+  }, [captionSearch, commitCaptionDrafts, resetSaveCaptionsError]);
+
+  // 파형 아래쪽 자막 띠에서 누른 블록과 잡은 부분(가장자리/몸통)을 찾는다.
+  const getWaveformCaptionHit = useCallback(
+    (clientX: number, clientY: number, rect: DOMRect) => {
+      if (clientY - rect.top < rect.height - WAVEFORM_CAPTION_BLOCK_HEIGHT_PX) return null;
+      const ms = xToMs(clientX - rect.left, rect.width);
+      const edgeMs = xToMs(WAVEFORM_CAPTION_EDGE_HIT_PX, rect.width);
+      const originMs = xToMs(0, rect.width);
+      if (ms === null || edgeMs === null || originMs === null) return null;
+      const hit = hitTestCaptionBlocks(waveformCaptionsRef.current, ms, edgeMs - originMs);
+      return hit ? { ...hit, ms } : null;
+    },
+    [xToMs],
+  );
+
   const handleWaveformPointerDown = useCallback(
     (event: ReactPointerEvent<HTMLCanvasElement>) => {
       const canvas = waveformCanvasRef.current;
@@ -1424,6 +2452,24 @@ export default function VideoDetailPage() {
         }
       }
 
+      const hit = getWaveformCaptionHit(event.clientX, event.clientY, rect);
+      if (hit) {
+        const caption = waveformCaptionsRef.current.find((item) => item.id === hit.captionId);
+        if (!caption) return;
+        waveformCaptionDragRef.current = {
+          pointerId: event.pointerId,
+          captionId: caption.id,
+          mode: hit.mode,
+          originMs: hit.ms,
+          original: { startMs: caption.startMs, endMs: caption.endMs },
+          preview: null,
+        };
+        canvas.style.cursor = hit.mode === 'move' ? 'grabbing' : 'ew-resize';
+        pauseWaveformFollow();
+        setLastFocusedCaptionId(caption.id);
+        return;
+      }
+
       const ms = xToMs(event.clientX - rect.left, rect.width);
       if (typeof ms !== 'number') return;
 
@@ -1431,17 +2477,45 @@ export default function VideoDetailPage() {
       waveformPendingSeekMsRef.current = ms;
       seekToMs(ms);
     },
-    [seekToMs, xToMs],
+    [getWaveformCaptionHit, pauseWaveformFollow, seekToMs, xToMs],
   );
   
   const handleWaveformPointerMove = useCallback(
     (event: ReactPointerEvent<HTMLCanvasElement>) => {
-      const activePointerId = waveformScrubPointerIdRef.current;
-      if (activePointerId === null || activePointerId !== event.pointerId) return;
-
       const canvas = waveformCanvasRef.current;
       if (!canvas) return;
 
+      const drag = waveformCaptionDragRef.current;
+      if (drag) {
+        if (drag.pointerId !== event.pointerId) return;
+        event.preventDefault();
+        const rect = canvas.getBoundingClientRect();
+        const ms = xToMs(event.clientX - rect.left, rect.width);
+        const snapMs = xToMs(WAVEFORM_CAPTION_SNAP_PX, rect.width);
+        const originMs = xToMs(0, rect.width);
+        if (ms === null || snapMs === null || originMs === null || typeof effectiveDurationMs !== 'number') return;
+        // Alt를 누르고 있으면 붙이지 않는다.
+        const snapTargets = event.altKey
+          ? null
+          : getCaptionSnapTargets(waveformCaptionsRef.current, drag.captionId, currentTimeMsRef.current, captionGapMs);
+        drag.preview = applyCaptionDrag(drag.original, drag.mode, ms - drag.originMs, {
+          snapTargets,
+          snapThresholdMs: snapMs - originMs,
+          minDurationMs: WAVEFORM_CAPTION_MIN_DURATION_MS,
+          maxMs: effectiveDurationMs,
+        });
+        renderOverviewWaveformRef.current?.();
+        return;
+      }
+
+      const activePointerId = waveformScrubPointerIdRef.current;
+      if (activePointerId === null) {
+        const hit = getWaveformCaptionHit(event.clientX, event.clientY, canvas.getBoundingClientRect());
+        canvas.style.cursor = !hit ? 'pointer' : hit.mode === 'move' ? 'grab' : 'ew-resize';
+        return;
+      }
+      if (activePointerId !== event.pointerId) return;
+
       event.preventDefault();
       pauseWaveformFollow();
 
@@ -1460,15 +2534,49 @@ export default function VideoDetailPage() {
         if (typeof pending === 'number') seekToMs(pending);
       });
     },
-    [pauseWaveformFollow, seekToMs, xToMs],
+    [captionGapMs, effectiveDurationMs, getWaveformCaptionHit, pauseWaveformFollow, seekToMs, xToMs],
   );
 
   const handleWaveformPointerUp = useCallback(
     (event: ReactPointerEvent<HTMLCanvasElement>) => {
+      const canvas = waveformCanvasRef.current;
+      const drag = waveformCaptionDragRef.current;
+      if (drag && drag.pointerId === event.pointerId) {
+        waveformCaptionDragRef.current = null;
+        if (canvas) {
+          canvas.style.cursor = 'pointer';
+          if (typeof canvas.releasePointerCapture === 'function') {
+            try {
+              canvas.releasePointerCapture(event.pointerId);
+            } catch {
+              // ignore
+            }
+          }
+        }
+        const { preview, original, mode, captionId } = drag;
+        const isMoved = preview && (preview.startMs !== original.startMs || preview.endMs !== original.endMs);
+        // pointercancel이면 옮기던 블록을 원래 자리로 돌린다.
+        if (preview && isMoved && event.type !== 'pointercancel') {
+          if (mode === 'move') {
+            handleCaptionTimingChange(
+              captionId,
+              { startMs: preview.startMs, endMs: preview.endMs },
+              '자막 옮기기',
+              `${captionId}:waveform`,
+            );
+          } else if (mode === 'start') {
+            handleCaptionTimingChange(captionId, { startMs: preview.startMs }, '시작 시간 수정', `${captionId}:startMs`);
+          } else {
+            handleCaptionTimingChange(captionId, { endMs: preview.endMs }, '종료 시간 수정', `${captionId}:endMs`);
+          }
+        }
+        renderOverviewWaveformRef.current?.();
+        return;
+      }
+
       const activePointerId = waveformScrubPointerIdRef.current;
       if (activePointerId === null || activePointerId !== event.pointerId) return;
 
-      const canvas = waveformCanvasRef.current;
       waveformScrubPointerIdRef.current = null;
 
       if (waveformScrubRafIdRef.current !== null) {
@@ -1488,7 +2596,7 @@ export default function VideoDetailPage() {
         }
       }
     },
-    [seekToMs],
+    [handleCaptionTimingChange, seekToMs],
   );
 
   const handleWaveformWheel = useCallback(
@@ -1496,7 +2604,7 @@ export default function VideoDetailPage() {
       const canvas = waveformCanvasRef.current;
       if (!canvas) return;
       if (typeof effectiveDurationMs !== 'number' || effectiveDurationMs <= 0) return;
-      if (waveformScrubPointerIdRef.current !== null) return;
+      if (waveformScrubPointerIdRef.current !== null || waveformCaptionDragRef.current !== null) return;
 
       const rect = canvas.getBoundingClientRect();
       if (!(rect.width > 0)) return;
@@ -1561,6 +2669,103 @@ export default function VideoDetailPage() {
     };
   }, [handleWaveformWheel]);
 
+  // 겹친 자막 구간을 파형 위에 빨갛게 칠한다.
+  const drawCaptionOverlapRegions = useCallback(
+    (context: CanvasRenderingContext2D, width: number, height: number) => {
+      const overlaps = captionOverlapsRef.current;
+      if (overlaps.length === 0) return;
+      context.fillStyle = 'rgba(239, 68, 68, 0.25)';
+      for (const overlap of overlaps) {
+        const startX = msToX(overlap.startMs, width);
+        const endX = msToX(overlap.endMs, width);
+        if (startX === null || endX === null || endX <= startX) continue;
+        context.fillRect(startX, 0, Math.max(1, endX - startX), height);
+      }
+    },
+    [msToX],
+  );
+
+  // 자막을 파형 아래쪽 띠에 이름표 달린 블록으로 그린다. 끌고 있는 블록은 미리보기 시간으로 그린다.
+  const drawCaptionBlocks = useCallback(
+    (context: CanvasRenderingContext2D, width: number, height: number) => {
+      const captions = waveformCaptionsRef.current;
+      if (captions.length === 0) return;
+      const dpr = window.devicePixelRatio || 1;
+      const drag = waveformCaptionDragRef.current;
+      const blockHeight = Math.min(height, WAVEFORM_CAPTION_BLOCK_HEIGHT_PX * dpr);
+      const top = height - blockHeight;
+
+      context.save();
+      context.font = `${11 * dpr}px sans-serif`;
+      context.textBaseline = 'middle';
+      context.lineWidth = Math.max(1, dpr);
+      for (const caption of captions) {
+        const isDragging = drag?.captionId === caption.id;
+        const timing = isDragging && drag.preview ? drag.preview : caption;
+        if (!Number.isFinite(timing.startMs) || !Number.isFinite(timing.endMs)) continue;
+        const startX = msToX(timing.startMs, width);
+        const endX = msToX(timing.endMs, width);
+        // 화면 밖 자막은 msToX가 가장자리로 모으므로 폭이 0이 된다.
+        if (startX === null || endX === null || endX - startX < 1) continue;
+
+        const blockWidth = endX - startX;
+        context.fillStyle = isDragging ? 'rgba(37, 99, 235, 0.45)' : 'rgba(37, 99, 235, 0.22)';
+        context.fillRect(startX, top, blockWidth, blockHeight);
+        context.strokeStyle = '#2563eb';
+        context.strokeRect(startX + 0.5, top + 0.5, Math.max(0, blockWidth - 1), blockHeight - 1);
+
+        const label = caption.text.split('\n')[0]?.trim();
+        if (label && blockWidth > 12 * dpr) {
+          context.save();
+          context.beginPath();
+          context.rect(startX, top, blockWidth, blockHeight);
+          context.clip();
+          context.fillStyle = '#0f172a';
+          context.fillText(label, startX + 4 * dpr, top + blockHeight / 2);
+          context.restore();
+        }
+      }
+
+      const snappedMs = drag?.preview?.snappedMs;
+      if (typeof snappedMs === 'number') {
+        const x = msToX(snappedMs, width);
+        if (x !== null) {
+          context.strokeStyle = '#f59e0b';
+          context.setLineDash([4 * dpr, 3 * dpr]);
+          context.beginPath();
+          context.moveTo(x + 0.5, 0);
+          context.lineTo(x + 0.5, height);
+          context.stroke();
+        }
+      }
+      context.restore();
+    },
+    [msToX],
+  );
+
+  // 스마트 스냅으로 옮긴 거리를 띠로, 옮겨 간 자리를 선으로 잠시 보여준다.
+  const drawSmartSnapMark = useCallback(
+    (context: CanvasRenderingContext2D, width: number, height: number) => {
+      const mark = smartSnapMarkRef.current;
+      if (!mark) return;
+      const fromX = msToX(mark.fromMs, width);
+      const toX = msToX(mark.toMs, width);
+      if (fromX === null || toX === null) return;
+      const dpr = window.devicePixelRatio || 1;
+      context.save();
+      context.fillStyle = 'rgba(16, 185, 129, 0.18)';
+      context.fillRect(Math.min(fromX, toX), 0, Math.abs(toX - fromX), height);
+      context.strokeStyle = '#10b981';
+      context.lineWidth = Math.max(1, 2 * dpr);
+      context.beginPath();
+      context.moveTo(toX, 0);
+      context.lineTo(toX, height);
+      context.stroke();
+      context.restore();
+    },
+    [msToX],
+  );
+
   const renderOverviewWaveformNow = useCallback(() => {
     const canvas = waveformCanvasRef.current;
     if (!canvas) return;
@@ -1596,7 +2801,25 @@ export default function VideoDetailPage() {
 
     let rasterCanvas: OffscreenCanvas | HTMLCanvasElement | null = null;
 
-    if (targetKey) {
+    // 스펙트로그램을 계산하는 동안에는 직전 스펙트로그램을, 그것도 없으면 파형을 대신 보여준다.
+    if (waveformViewSettings.mode === 'spectrogram' && !waveformSamplesReadyRef.current) {
+      void ensureWaveformSamplesRef.current?.();
+    }
+    if (waveformViewSettings.mode === 'spectrogram' && waveformSamplesReadyRef.current && bucketCount && targetRasterWidth) {
+      const spectrogramKey = getSpectrogramRasterKey(bucketCount, targetRasterWidth, waveformViewSettings.spectrogramScale);
+      const cached = cache.get(spectrogramKey);
+      if (cached) {
+        touchWaveformRasterCache(spectrogramKey, cached.canvas);
+        spectrogramRasterKeyRef.current = spectrogramKey;
+        rasterCanvas = cached.canvas;
+      } else {
+        requestSpectrogramRaster(spectrogramKey, targetRasterWidth, waveformViewSettings.spectrogramScale);
+        const previousKey = spectrogramRasterKeyRef.current;
+        rasterCanvas = previousKey ? (cache.get(previousKey)?.canvas ?? null) : null;
+      }
+    }
+
+    if (!rasterCanvas && targetKey) {
       const cached = cache.get(targetKey) ?? null;
       if (cached) {
         const totalBytes = touchWaveformRasterCache(targetKey, cached.canvas);
@@ -1654,6 +2877,10 @@ export default function VideoDetailPage() {
       );
     }
 
+    drawCaptionOverlapRegions(context, width, height);
+    drawCaptionBlocks(context, width, height);
+    drawSmartSnapMark(context, width, height);
+
     const currentMs = currentTimeMsRef.current;
     if (typeof currentMs === 'number') {
       const x = msToX(currentMs, width);
@@ -1668,13 +2895,20 @@ export default function VideoDetailPage() {
       }
     }
   }, [
+    drawCaptionBlocks,
+    drawCaptionOverlapRegions,
+    drawSmartSnapMark,
     effectiveDurationMs,
     formatRasterBytes,
+    getSpectrogramRasterKey,
     getWaveformRasterWidth,
     getWaveformRasterKey,
     msToX,
     rasterizeWaveform,
+    requestSpectrogramRaster,
     touchWaveformRasterCache,
+    waveformViewSettings.mode,
+    waveformViewSettings.spectrogramScale,
     waveformViewport?.endMs,
     waveformViewport?.startMs,
   ]);
@@ -1704,6 +2938,11 @@ export default function VideoDetailPage() {
     renderOverviewWaveformRef.current = scheduleRenderOverviewWaveform;
   }, [scheduleRenderOverviewWaveform]);
 
+  // 보기 방식을 바꾸면 바로 다시 그린다.
+  useEffect(() => {
+    scheduleRenderOverviewWaveform();
+  }, [scheduleRenderOverviewWaveform, waveformViewSettings]);
+
   const applyCachedWaveformPeaks = useCallback(
     (bucketCount: number) => {
       const cache = waveformPeaksCacheRef.current;
@@ -1781,6 +3020,20 @@ export default function VideoDetailPage() {
 
       if (applyCachedWaveformPeaks(bucketCount)) return;
 
+      if (waveformPeakPyramid) {
+        const derived = getPeaksFromPyramid(waveformPeakPyramid, bucketCount);
+        if (derived) {
+          storeWaveformPeaks(bucketCount, derived);
+          return;
+        }
+        // 저장된 단계보다 더 확대했을 때만 디코딩한다. 끝나면 대기 중인 bucketCount로 다시 계산한다.
+        if (!waveformSamplesReadyRef.current) {
+          waveformPendingBucketRef.current = bucketCount;
+          void ensureWaveformSamplesRef.current?.();
+          return;
+        }
+      }
+
       waveformPendingBucketRef.current = bucketCount;
 
       if (waveformComputeTimeoutRef.current !== null) {
@@ -1804,38 +3057,51 @@ export default function VideoDetailPage() {
         void computeOverviewPeaks(pendingBucketCount);
       }, delay);
     },
-    [applyCachedWaveformPeaks, computeOverviewPeaks, scheduleRenderOverviewWaveform, shouldUseLiveWaveform],
+    [
+      applyCachedWaveformPeaks,
+      computeOverviewPeaks,
+      scheduleRenderOverviewWaveform,
+      shouldUseLiveWaveform,
+      storeWaveformPeaks,
+      waveformPeakPyramid,
+    ],
   );
 
-  useEffect(() => {
-    resetWaveformOverview();
-    setShouldUseLiveWaveform(false);
-
-    if (!videoBlob) return undefined;
+  // 오디오를 디코딩해 워커에 올린다. 저장된 피크로 개요를 그렸다면 더 확대하거나
+  // 샘플이 필요한 기능(스펙트로그램, 음성 구간, 스마트 스냅)을 쓸 때에만 부른다.
+  const ensureWaveformSamples = useCallback(() => {
+    if (waveformSamplesReadyRef.current) return Promise.resolve(true);
+    if (!videoBlob || !videoId) return Promise.resolve(false);
+    if (waveformDecodePromiseRef.current) return waveformDecodePromiseRef.current;
 
-    let cancelled = false;
+    const generation = waveformGenerationRef.current;
+    const isStale = () => generation !== waveformGenerationRef.current;
 
-    const decodeWaveform = async () => {
+    const decodeWaveform = async (): Promise<boolean> => {
       const AudioContextClass =
         window.AudioContext ?? (window as typeof window & { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
       if (!AudioContextClass) {
+        if (waveformPeakPyramid) return false;
         setShouldUseLiveWaveform(true);
         waveformModeRef.current = 'live';
-        return;
+        return false;
       }
 
       let context: AudioContext | null = null;
 
       try {
         context = new AudioContextClass();
-        waveformModeRef.current = 'loading';
+        // 저장된 피크로 그린 개요는 디코딩하는 동안에도 그대로 보여준다.
+        if (!waveformPeakPyramid) waveformModeRef.current = 'loading';
 
         const audioBuffer = await videoBlob.arrayBuffer();
         const decoded = await context.decodeAudioData(audioBuffer.slice(0));
-        if (cancelled) return;
+        if (isStale()) return false;
 
         const firstChannel = decoded.getChannelData(0);
         let samples: Float32Array;
+        // 샘플 버퍼는 워커로 넘기면 비워지므로 길이를 미리 잡아 둔다.
+        const sampleCount = firstChannel.length;
 
         if (decoded.numberOfChannels >= 2) {
           // 기본은 첫 번째 채널, 2채널인 경우 좌/우 평균을 사용한다.
@@ -1851,38 +3117,137 @@ export default function VideoDetailPage() {
         }
 
         const response = await postWaveformWorkerMessage(
-          { type: 'load-samples', samples: samples.buffer as ArrayBuffer },
+          { type: 'load-samples', samples: samples.buffer as ArrayBuffer, sampleRate: decoded.sampleRate },
           [samples.buffer],
         );
-        if (cancelled) return;
+        if (isStale()) return false;
         if (response.type !== 'samples-loaded') throw new Error('waveform-load-failed');
 
         waveformSamplesReadyRef.current = true;
         waveformModeRef.current = 'overview';
 
         const bucketCount = getWaveformBucketCount();
-        queueWaveformComputation(bucketCount ?? Math.min(samples.length, 4096));
+        queueWaveformComputation(waveformPendingBucketRef.current ?? bucketCount ?? Math.min(sampleCount, 4096));
+
+        // 스마트 스냅용 포락선. 없어도 편집은 되므로 실패는 무시한다.
+        postWaveformWorkerMessage({ type: 'compute-energy-envelope', frameMs: SPEECH_ENVELOPE_FRAME_MS })
+          .then((envelopeResponse) => {
+            if (isStale() || envelopeResponse.type !== 'energy-envelope-ready') return;
+            speechEnvelopeRef.current = {
+              envelope: new Float32Array(envelopeResponse.envelope),
+              frameMs: envelopeResponse.frameMs,
+            };
+            setIsSpeechEnvelopeReady(true);
+          })
+          .catch((error: unknown) => {
+            if (import.meta.env.DEV) console.debug('[waveform] energy envelope failed', error);
+          });
+
+        // 다음에 열 때 디코딩 없이 그리도록 여러 해상도의 피크를 저장한다.
+        if (!waveformPeakPyramid) {
+          const durationMs = Math.round(decoded.duration * 1000);
+          const sampleRate = decoded.sampleRate;
+          const persistPeaks = async () => {
+            const levels: PeakPyramidLevel[] = [];
+            for (const levelBucketCount of PEAK_PYRAMID_BUCKET_COUNTS) {
+              if (levelBucketCount > sampleCount) break;
+              const levelResponse = await postWaveformWorkerMessage({ type: 'compute-peaks', bucketCount: levelBucketCount });
+              if (levelResponse.type !== 'peaks-ready') return;
+              levels.push({ bucketCount: levelResponse.bucketCount, peaks: new Int16Array(levelResponse.peaks) });
+            }
+            if (isStale() || levels.length === 0) return;
+            await dataSource.saveWaveformPeaks(videoId, { durationMs, sampleRate, levels });
+          };
+          persistPeaks().catch((error: unknown) => {
+            if (import.meta.env.DEV) console.debug('[waveform] peak pyramid not saved', error);
+          });
+        }
+        return true;
       } catch (error) {
-        if (cancelled) return;
+        if (isStale()) return false;
         if (import.meta.env.DEV) {
           console.debug('[waveform] overview fallback', error);
         }
+        // 저장된 피크로 그린 개요는 그대로 두고, 더 깊은 확대만 포기한다.
+        if (waveformPeakPyramid) return false;
         waveformSamplesReadyRef.current = false;
         waveformOverviewPeaksRef.current = null;
         resetWaveformOverview();
         setShouldUseLiveWaveform(true);
         waveformModeRef.current = 'live';
+        return false;
       } finally {
         if (context) void context.close().catch(() => null);
       }
     };
 
-    void decodeWaveform();
+    const promise = decodeWaveform();
+    waveformDecodePromiseRef.current = promise;
+    return promise;
+  }, [
+    getWaveformBucketCount,
+    postWaveformWorkerMessage,
+    queueWaveformComputation,
+    resetWaveformOverview,
+    videoBlob,
+    videoId,
+    waveformPeakPyramid,
+  ]);
+
+  useEffect(() => {
+    ensureWaveformSamplesRef.current = ensureWaveformSamples;
+  }, [ensureWaveformSamples]);
+
+  // 영상이 바뀔 때만 다시 불러온다. 확대·이동으로는 디코딩을 되풀이하지 않는다.
+  useEffect(() => {
+    resetWaveformOverview();
+    setShouldUseLiveWaveform(false);
+    setSpeechSegments(null);
+    setSpeechSeedReport(null);
+    setWaveformPeakPyramid(null);
+    speechEnvelopeRef.current = null;
+    pendingSmartSnapsRef.current = [];
+    setIsSpeechEnvelopeReady(false);
+
+    if (!videoBlob || !videoId) return undefined;
+
+    let cancelled = false;
+
+    const loadWaveform = async () => {
+      const stored = await dataSource.getWaveformPeaks(videoId).catch((error: unknown) => {
+        if (import.meta.env.DEV) console.debug('[waveform] stored peaks unavailable', error);
+        return null;
+      });
+      if (cancelled) return;
+      if (stored && stored.levels.length > 0) {
+        // 뷰포트 effect가 새 pyramid로 queueWaveformComputation을 다시 불러 바로 그린다.
+        waveformModeRef.current = 'overview';
+        setWaveformPeakPyramid(stored.levels);
+        return;
+      }
+      await ensureWaveformSamplesRef.current?.();
+    };
+
+    void loadWaveform();
 
     return () => {
       cancelled = true;
     };
-  }, [getWaveformBucketCount, postWaveformWorkerMessage, queueWaveformComputation, resetWaveformOverview, videoBlob]);
+  }, [resetWaveformOverview, videoBlob, videoId]);
+
+  // 스마트 스냅이 켜져 있으면 재생을 시작할 때 디코딩해서, 처음 찍을 때부터 포락선이 있게 한다.
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!smartSnapSettings.enabled || !video || !videoBlob) return undefined;
+    const handlePlay = () => {
+      void ensureWaveformSamplesRef.current?.();
+    };
+    if (!video.paused && !video.ended) handlePlay();
+    video.addEventListener('play', handlePlay);
+    return () => {
+      video.removeEventListener('play', handlePlay);
+    };
+  }, [smartSnapSettings.enabled, videoBlob, videoUrl]);
 
   useEffect(() => {
     if (shouldUseLiveWaveform) return undefined;
@@ -1976,6 +3341,9 @@ export default function VideoDetailPage() {
     }
 
     context.stroke();
+    drawCaptionOverlapRegions(context, width, height);
+    drawCaptionBlocks(context, width, height);
+    drawSmartSnapMark(context, width, height);
     if (typeof currentTimeMsRef.current === 'number') {
       const x = msToX(currentTimeMsRef.current, width);
       if (typeof x === 'number') {
@@ -1988,7 +3356,7 @@ export default function VideoDetailPage() {
       }
     }
     waveformRafIdRef.current = window.requestAnimationFrame(drawWaveform);
-  }, [msToX]);
+  }, [drawCaptionBlocks, drawCaptionOverlapRegions, drawSmartSnapMark, msToX]);
 
   const stopWaveform = useCallback(() => {
     if (waveformRafIdRef.current !== null) {
@@ -2384,12 +3752,31 @@ export default function VideoDetailPage() {
             isMetadataReady={isMetadataReady}
             captionDrafts={captionDrafts}
             activeCaptionId={activeCaptionId}
+            selectedCaptionIds={selectedCaptionIds}
+            captionHighlights={captionSearch.highlightsByCaptionId}
+            qualityIssuesById={captionQualityIssues}
+            overlappingCaptionIds={overlappingCaptionIds}
+            qualitySummary={captionQualitySummary}
+            onSelectCaption={selectCaption}
             captionGapMs={captionGapMs}
-            onCaptionGapChange={setCaptionGapMs}
+            onCaptionGapChange={handleCaptionGapChange}
+            styleProfile={styleProfile}
+            customStyleProfiles={customStyleProfiles}
+            styleProfileError={styleProfileError}
+            onStyleProfileChange={persistStyleProfile}
+            onSaveCustomStyleProfile={handleSaveCustomStyleProfile}
+            onUpdateCustomStyleProfile={handleUpdateCustomStyleProfile}
+            onDeleteCustomStyleProfile={handleDeleteCustomStyleProfile}
+            onExportStyleProfiles={handleExportStyleProfiles}
+            onImportStyleProfiles={handleImportStyleProfiles}
+            timecodeSettings={timecodeSettings}
+            timecodeSettingsError={timecodeSettingsError}
+            onTimecodeSettingsChange={persistTimecodeSettings}
             isCaptionsLoading={isCaptionsLoading}
             isCaptionsError={isCaptionsError}
             captionsError={captionsError}
-            importError={importError}
+            importReport={importReport}
+            onDismissImportReport={() => setImportReport(null)}
             hotkeyItems={hotkeyItems}
             hotkeyConfig={hotkeyConfig}
             capturingHotkey={capturingHotkey}
@@ -2403,6 +3790,8 @@ export default function VideoDetailPage() {
             onSetCaptionTimeFromVideo={handleSetCaptionTimeFromVideo}
             onConfirmCaption={handleConfirmCaption}
             onDeleteCaption={handleDeleteCaption}
+            onSplitCaption={handleSplitCaption}
+            onMergeCaption={handleMergeCaption}
             onCaptionFocus={setLastFocusedCaptionId}
             onSaveCaptions={handleSaveCaptions}
             isSavingCaptions={isSavingCaptions}
@@ -2414,10 +3803,32 @@ export default function VideoDetailPage() {
             onApplyTrimChange={setApplyTrimOnExport}
             trimRange={trimRange}
             fileInputRef={fileInputRef}
-            onImportJsonFile={handleImportJsonFile}
-            onImportJsonClick={handleImportJsonClick}
-            onExportJson={handleExportJson}
-            onExportSrt={handleExportSrt}
+            onImportCaptionFile={handleImportCaptionFile}
+            onImportCaptionClick={handleImportCaptionClick}
+            onExportJson={() => guardCaptionExport('JSON', handleExportJson)}
+            onExportSrt={() => guardCaptionExport('SRT', handleExportSrt)}
+            onExportVtt={() => guardCaptionExport('VTT', handleExportVtt)}
+            onExportSbv={() => guardCaptionExport('SBV', handleExportSbv)}
+            transcriptOptions={transcriptOptions}
+            onTranscriptOptionsChange={setTranscriptOptions}
+            onExportTranscript={() => guardCaptionExport('텍스트 원고', handleExportTranscript)}
+            onExportSheet={(delimiter) =>
+              guardCaptionExport(delimiter === '\t' ? 'TSV' : 'CSV', () => handleExportSheet(delimiter))
+            }
+            onExportScc={() => guardCaptionExport('SCC', handleExportScc)}
+            onExportStl={() => guardCaptionExport('EBU-STL', handleExportStl)}
+            onExportAss={() => guardCaptionExport('ASS', handleExportAss)}
+            ttmlLanguage={ttmlLanguage}
+            onTtmlLanguageChange={setTtmlLanguage}
+            onExportTtml={(profile) =>
+              guardCaptionExport(profile === 'dfxp' ? 'DFXP' : 'TTML', () => handleExportTtml(profile))
+            }
+            exportError={exportError}
+            exportReport={exportReport}
+            onDismissExportReport={() => setExportReport(null)}
+            exportQualityCheck={exportQualityCheck}
+            onProceedExport={handleProceedExport}
+            onDismissExportQualityCheck={handleDismissExportQualityCheck}
             onHandleTrimExport={handleTrimExport}
             onHandleCancelTrim={handleCancelTrim}
             isTrimming={isTrimming}
@@ -2436,6 +3847,102 @@ export default function VideoDetailPage() {
             burnInError={burnInError}
           />
 
+          <CaptionSearchPanel
+            query={captionSearch.query}
+            replacement={captionSearch.replacement}
+            options={captionSearch.options}
+            error={captionSearch.error}
+            matchCount={captionSearch.matches.length}
+            matchIndex={captionSearch.matchIndex}
+            isReplacePreviewOpen={captionSearch.isReplacePreviewOpen}
+            replacePreview={captionSearch.replacePreview}
+            onQueryChange={captionSearch.setQuery}
+            onReplacementChange={captionSearch.setReplacement}
+            onOptionsChange={captionSearch.setOptions}
+            onPrev={() => handleCaptionSearchStep(-1)}
+            onNext={() => handleCaptionSearchStep(1)}
+            onReplacePreviewOpenChange={captionSearch.setIsReplacePreviewOpen}
+            onApplyReplace={handleApplyCaptionReplace}
+          />
+          <CaptionBulkPanel
+            selectedCount={selectedCaptionIds.size}
+            totalCount={captionDrafts.length}
+            captionGapMs={captionGapMs}
+            report={bulkReport}
+            onDismissReport={() => setBulkReport(null)}
+            onSelectAll={selectAllCaptions}
+            onClearSelection={clearCaptionSelection}
+            onShift={handleBulkShift}
+            onScale={handleBulkScale}
+            onSnapToGap={handleBulkSnapToGap}
+            onValidateOrder={handleValidateCaptionOrder}
+            onDelete={handleBulkDelete}
+          />
+          <CaptionSyncPanel
+            captions={captionDrafts}
+            points={syncPoints}
+            scope={syncScope}
+            selectedCount={selectedCaptionIds.size}
+            preview={syncPreview}
+            onScopeChange={setSyncScope}
+            onMarkPoint={handleMarkSyncPoint}
+            onCapturePoint={handleCaptureSyncPoint}
+            onApply={handleApplySync}
+            onReset={handleResetSync}
+          />
+          <CaptionFrameRatePanel
+            captionCount={captionDrafts.length}
+            source={findCaptionFrameRateId(timecodeSettings.frameRate)}
+            report={frameRateReport}
+            onConvert={handleConvertFrameRate}
+            onDismissReport={() => setFrameRateReport(null)}
+          />
+          <CaptionOverlapPanel
+            overlaps={captionOverlaps}
+            captionGapMs={captionGapMs}
+            report={overlapReport}
+            onSeek={handleSeekToOverlap}
+            onResolve={handleResolveOverlaps}
+            onDismissReport={() => setOverlapReport(null)}
+          />
+          <CaptionLineBreakPanel
+            options={lineBreakOptions}
+            settings={lineBreakSettings}
+            captionCount={captionDrafts.length}
+            selectedCount={selectedCaptionIds.size}
+            report={lineBreakReport}
+            onSettingsChange={setLineBreakSettings}
+            onBreakLines={handleBreakCaptionLines}
+            onSeek={handleSeekToCaption}
+            onDismissReport={() => setLineBreakReport(null)}
+          />
+          <CaptionSpeechPanel
+            options={speechDetectionOptions}
+            segments={speechSegments}
+            isDetecting={isDetectingSpeech}
+            error={speechDetectionError}
+            report={speechSeedReport}
+            onOptionsChange={setSpeechDetectionOptions}
+            onDetect={() => void handleDetectSpeechSegments()}
+            onCreateCaptions={handleCreateCaptionsFromSpeech}
+            onSeek={seekToMs}
+            onDismissReport={() => setSpeechSeedReport(null)}
+            smartSnapSettings={smartSnapSettings}
+            smartSnapMark={smartSnapMark}
+            onSmartSnapSettingsChange={setSmartSnapSettings}
+          />
+          <CaptionHistoryPanel
+            entries={captionHistoryEntries}
+            currentIndex={captionHistoryIndex}
+            canUndo={canUndoCaptions}
+            canRedo={canRedoCaptions}
+            depth={captionHistoryDepth}
+            onDepthChange={setCaptionHistoryDepth}
+            onUndo={undoCaptions}
+            onRedo={redoCaptions}
+            onJump={jumpToCaptionHistory}
+          />
+
           <section
             className="video-detail-thumbnail"
             style={{
@@ -2890,12 +4397,48 @@ export default function VideoDetailPage() {
                     }}
                   >
                     <div style={{ color: '#333', fontSize: 14 }}>
-                      <p style={{ margin: 0, fontWeight: 600 }}>오디오 파형</p>
+                      <p style={{ margin: 0, fontWeight: 600 }}>
+                        {waveformViewSettings.mode === 'spectrogram' && !shouldUseLiveWaveform
+                          ? '스펙트로그램'
+                          : '오디오 파형'}
+                      </p>
                       <p style={{ margin: 0, fontSize: 12, color: '#475569' }}>
-                        Alt + 휠: 줌 · 휠: 이동
+                        Alt + 휠: 줌 · 휠: 이동 · 아래 자막 블록 끌기: 옮기기/가장자리로 시간 조절(Alt: 붙이지 않기)
                       </p>
                     </div>
                     <div style={{ display: 'flex', gap: 6 }}>
+                      <select
+                        value={shouldUseLiveWaveform ? 'waveform' : waveformViewSettings.mode}
+                        onChange={(e) =>
+                          setWaveformViewSettings((prev) => ({
+                            ...prev,
+                            mode: e.target.value as WaveformViewSettings['mode'],
+                          }))
+                        }
+                        disabled={shouldUseLiveWaveform}
+                        aria-label="파형 보기 방식"
+                        title={shouldUseLiveWaveform ? '오디오를 미리 불러오지 못해 스펙트로그램을 쓸 수 없어요.' : undefined}
+                        style={{ padding: '6px 8px', borderRadius: 6, border: '1px solid #d0d7e2', background: '#fff' }}
+                      >
+                        <option value="waveform">파형</option>
+                        <option value="spectrogram">스펙트로그램</option>
+                      </select>
+                      {waveformViewSettings.mode === 'spectrogram' && !shouldUseLiveWaveform ? (
+                        <select
+                          value={waveformViewSettings.spectrogramScale}
+                          onChange={(e) =>
+                            setWaveformViewSettings((prev) => ({
+                              ...prev,
+                              spectrogramScale: e.target.value as WaveformViewSettings['spectrogramScale'],
+                            }))
+                          }
+                          aria-label="스펙트로그램 주파수 눈금"
+                          style={{ padding: '6px 8px', borderRadius: 6, border: '1px solid #d0d7e2', background: '#fff' }}
+                        >
+                          <option value="mel">멜 눈금</option>
+                          <option value="linear">선형 눈금</option>
+                        </select>
+                      ) : null}
                       <button
                         type="button"
                         onClick={() => zoomWaveformViewport(0.8)}
@@ -0,0 +1,248 @@
+import { useState } from 'react';
+
+import { formatSeconds } from '../utils';
+
+import type { CaptionBulkReport, CaptionScaleAnchor } from '../types';
+
+type CaptionBulkPanelProps = {
+  selectedCount: number;
+  totalCount: number;
+  captionGapMs: number;
+  report: CaptionBulkReport | null;
+  onDismissReport: () => void;
+  onSelectAll: () => void;
+  onClearSelection: () => void;
+  onShift: (deltaMs: number) => void;
+  onScale: (factor: number, anchor: CaptionScaleAnchor) => void;
+  onSnapToGap: () => void;
+  onValidateOrder: () => void;
+  onDelete: () => void;
+};
+
+const buttonStyle = {
+  padding: '6px 10px',
+  borderRadius: 8,
+  border: '1px solid #ccc',
+  background: '#f8f8f8',
+  color: '#111',
+  cursor: 'pointer',
+} as const;
+
+const inputStyle = {
+  padding: '6px 8px',
+  borderRadius: 6,
+  border: '1px solid #cbd5e1',
+  width: 96,
+} as const;
+
+export function CaptionBulkPanel({
+  selectedCount,
+  totalCount,
+  captionGapMs,
+  report,
+  onDismissReport,
+  onSelectAll,
+  onClearSelection,
+  onShift,
+  onScale,
+  onSnapToGap,
+  onValidateOrder,
+  onDelete,
+}: CaptionBulkPanelProps) {
+  const [shiftMs, setShiftMs] = useState('0');
+  const [scaleFactor, setScaleFactor] = useState('1');
+  const [scaleAnchor, setScaleAnchor] = useState<CaptionScaleAnchor>('selectionStart');
+
+  const hasSelection = selectedCount > 0;
+  const parsedShift = Number(shiftMs);
+  const parsedScale = Number(scaleFactor);
+  const canShift = hasSelection && Number.isFinite(parsedShift) && Math.round(parsedShift) !== 0;
+  const canScale = hasSelection && Number.isFinite(parsedScale) && parsedScale > 0 && parsedScale !== 1;
+
+  const actionStyle = (enabled: boolean) => ({
+    ...buttonStyle,
+    cursor: enabled ? 'pointer' : 'not-allowed',
+    opacity: enabled ? 1 : 0.5,
+  });
+
+  return (
+    <section
+      style={{
+        padding: 16,
+        borderRadius: 10,
+        border: '1px solid #e6e6e6',
+        background: '#fff',
+        display: 'grid',
+        gap: 10,
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8, flexWrap: 'wrap' }}>
+        <h3 style={{ margin: 0 }}>일괄 편집</h3>
+        <span style={{ fontSize: 12, color: '#555' }}>
+          {hasSelection
+            ? `자막 ${selectedCount}개 선택됨`
+            : '자막의 선택 칸을 누르거나 Shift/Ctrl(⌘)+클릭으로 여러 개를 고르세요.'}
+        </span>
+        <div style={{ flex: 1 }} />
+        <button
+          type="button"
+          onClick={onSelectAll}
+          disabled={totalCount === 0}
+          style={actionStyle(totalCount > 0)}
+        >
+          전체 선택
+        </button>
+        <button
+          type="button"
+          onClick={onClearSelection}
+          disabled={!hasSelection}
+          style={actionStyle(hasSelection)}
+        >
+          선택 해제
+        </button>
+      </div>
+
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8, flexWrap: 'wrap', fontSize: 13 }}>
+        <label style={{ display: 'inline-flex', alignItems: 'center', gap: 6 }}>
+          이동(ms)
+          <input
+            type="number"
+            step={100}
+            value={shiftMs}
+            onChange={(event) => setShiftMs(event.target.value)}
+            style={inputStyle}
+          />
+        </label>
+        <button
+          type="button"
+          onClick={() => onShift(parsedShift)}
+          disabled={!canShift}
+          style={actionStyle(canShift)}
+        >
+          시간 이동
+        </button>
+
+        <span style={{ width: 1, alignSelf: 'stretch', background: '#e6e6e6' }} />
+
+        <label style={{ display: 'inline-flex', alignItems: 'center', gap: 6 }}>
+          배율
+          <input
+            type="number"
+            min={0}
+            step={0.001}
+            value={scaleFactor}
+            onChange={(event) => setScaleFactor(event.target.value)}
+            style={inputStyle}
+          />
+        </label>
+        <label style={{ display: 'inline-flex', alignItems: 'center', gap: 6 }}>
+          기준점
+          <select
+            value={scaleAnchor}
+            onChange={(event) => setScaleAnchor(event.target.value as CaptionScaleAnchor)}
+            style={{ padding: '6px 8px', borderRadius: 6, border: '1px solid #cbd5e1' }}
+          >
+            <option value="selectionStart">선택한 첫 자막 시작</option>
+            <option value="playhead">현재 재생 위치</option>
+            <option value="zero">0초</option>
+          </select>
+        </label>
+        <button
+          type="button"
+          onClick={() => onScale(parsedScale, scaleAnchor)}
+          disabled={!canScale}
+          style={actionStyle(canScale)}
+        >
+          배율 적용
+        </button>
+      </div>
+
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8, flexWrap: 'wrap' }}>
+        <button
+          type="button"
+          onClick={onSnapToGap}
+          disabled={!hasSelection}
+          style={actionStyle(hasSelection)}
+        >
+          간격 규칙 맞추기({captionGapMs}ms)
+        </button>
+        <button
+          type="button"
+          onClick={onValidateOrder}
+          disabled={!hasSelection}
+          style={actionStyle(hasSelection)}
+        >
+          순서 검사
+        </button>
+        <button
+          type="button"
+          onClick={onDelete}
+          disabled={!hasSelection}
+          style={{
+            ...actionStyle(hasSelection),
+            border: '1px solid #b00020',
+            background: '#fff6f6',
+            color: '#b00020',
+          }}
+        >
+          선택 삭제
+        </button>
+      </div>
+
+      {report ? (
+        <div
+          style={{
+            padding: 12,
+            borderRadius: 8,
+            border: report.blocked ? '1px solid #f2c4c4' : '1px solid #f5d48a',
+            background: report.blocked ? '#fff6f6' : '#fffbeb',
+            color: report.blocked ? '#b00020' : '#7a4b00',
+            display: 'grid',
+            gap: 6,
+            fontSize: 13,
+          }}
+        >
+          <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+            <strong>{report.message}</strong>
+            <div style={{ flex: 1 }} />
+            <button
+              type="button"
+              onClick={onDismissReport}
+              style={{
+                padding: '4px 8px',
+                borderRadius: 6,
+                border: '1px solid currentColor',
+                background: 'transparent',
+                color: 'inherit',
+                cursor: 'pointer',
+              }}
+            >
+              닫기
+            </button>
+          </div>
+          {report.issues.length > 0 ? (
+            <ul
+              style={{
+                margin: 0,
+                paddingLeft: 18,
+                maxHeight: 160,
+                overflowY: 'auto',
+                display: 'grid',
+                gap: 2,
+              }}
+            >
+              {report.issues.map((issue, index) => (
+                <li key={`${issue.captionId}-${index}`}>
+                  <span style={{ fontVariantNumeric: 'tabular-nums', fontWeight: 600 }}>
+                    {Number.isFinite(issue.startMs) ? `${formatSeconds(issue.startMs)}s` : '시간 없음'}
+                  </span>{' '}
+                  {issue.message}
+                </li>
+              ))}
+            </ul>
+          ) : null}
+        </div>
+      ) : null}
+    </section>
+  );
+}
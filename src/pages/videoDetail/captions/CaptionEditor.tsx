@@ -1,23 +1,64 @@
-import { formatDate, formatKeyLabel, formatMeta, parseCaptionGapMs } from '../utils';
+import type { CaptionSheetDelimiter, TranscriptOptions } from '@/lib/captionIO';
+import type { TtmlProfile } from '@/lib/captionTtml';
+
+import { formatDate, formatKeyLabel, formatMeta, formatSeconds, parseCaptionGapMs } from '../utils';
 
 import { CaptionRow } from './CaptionRow';
+import { CaptionStyleProfilePanel } from './CaptionStyleProfilePanel';
+import { CaptionTimecodeSettingsPanel } from './CaptionTimecodeSettingsPanel';
 import { getCaptionErrors } from './captionValidation';
 import { useCaptionFocus } from './useCaptionFocus';
 
-import type { Caption, HotkeyConfig, TrimRange, Video } from '../types';
+import type {
+  Caption,
+  CaptionExportQualityCheck,
+  CaptionExportReport,
+  CaptionImportReport,
+  CaptionQualityIssue,
+  CaptionQualitySummary,
+  CaptionStyleProfile,
+  CaptionTextHighlight,
+  CaptionTimecodeSettings,
+  HotkeyConfig,
+  TrimRange,
+  Video,
+} from '../types';
+import type { CaptionSelectMode } from './useCaptionSelection';
 import type { ChangeEventHandler, RefObject } from 'react';
 
+const NO_HIGHLIGHTS: CaptionTextHighlight[] = [];
+const NO_QUALITY_ISSUES: CaptionQualityIssue[] = [];
+
 type CaptionEditorProps = {
   video: Video | null;
   isMetadataReady: boolean;
   captionDrafts: Caption[];
   activeCaptionId: string | null;
+  selectedCaptionIds: ReadonlySet<string>;
+  captionHighlights: ReadonlyMap<string, CaptionTextHighlight[]>;
+  qualityIssuesById: ReadonlyMap<string, CaptionQualityIssue[]>;
+  overlappingCaptionIds: ReadonlySet<string>;
+  qualitySummary: CaptionQualitySummary;
+  onSelectCaption: (captionId: string, mode: CaptionSelectMode) => void;
   captionGapMs: number;
   onCaptionGapChange: (gapMs: number) => void;
+  styleProfile: CaptionStyleProfile;
+  customStyleProfiles: CaptionStyleProfile[];
+  styleProfileError: string | null;
+  onStyleProfileChange: (profile: CaptionStyleProfile) => void;
+  onSaveCustomStyleProfile: (name: string) => void;
+  onUpdateCustomStyleProfile: () => void;
+  onDeleteCustomStyleProfile: (profileId: string) => void;
+  onExportStyleProfiles: () => void;
+  onImportStyleProfiles: (file: File) => void;
+  timecodeSettings: CaptionTimecodeSettings;
+  timecodeSettingsError: string | null;
+  onTimecodeSettingsChange: (settings: CaptionTimecodeSettings) => void;
   isCaptionsLoading: boolean;
   isCaptionsError: boolean;
   captionsError: unknown;
-  importError: string | null;
+  importReport: CaptionImportReport | null;
+  onDismissImportReport: () => void;
   hotkeyItems: { key: keyof HotkeyConfig; label: string; description: string }[];
   hotkeyConfig: HotkeyConfig;
   capturingHotkey: keyof HotkeyConfig | null;
@@ -32,6 +73,8 @@ type CaptionEditorProps = {
   onSetCaptionTimeFromVideo: (captionId: string, field: keyof Pick<Caption, 'startMs' | 'endMs'>) => void;
   onConfirmCaption: (captionId: string) => void;
   onDeleteCaption: (captionId: string) => void;
+  onSplitCaption: (captionId: string, cursorIndex: number | null) => void;
+  onMergeCaption: (captionId: string) => void;
   onCaptionFocus: (captionId: string) => void;
   onSaveCaptions: () => void;
   isSavingCaptions: boolean;
@@ -43,10 +86,29 @@ type CaptionEditorProps = {
   onApplyTrimChange: (value: boolean) => void;
   trimRange: TrimRange | null;
   fileInputRef: RefObject<HTMLInputElement | null>;
-  onImportJsonFile: ChangeEventHandler<HTMLInputElement>;
-  onImportJsonClick: () => void;
+  onImportCaptionFile: ChangeEventHandler<HTMLInputElement>;
+  onImportCaptionClick: () => void;
   onExportJson: () => void;
   onExportSrt: () => void;
+  onExportVtt: () => void;
+  onExportSbv: () => void;
+  transcriptOptions: Required<TranscriptOptions>;
+  onTranscriptOptionsChange: (options: Required<TranscriptOptions>) => void;
+  onExportTranscript: () => void;
+  onExportSheet: (delimiter: CaptionSheetDelimiter) => void;
+  onExportScc: () => void;
+  onExportStl: () => void;
+  onExportAss: () => void;
+  // TTML/DFXP의 xml:lang. 자막의 언어이므로 브라우저 언어와 다를 수 있다.
+  ttmlLanguage: string;
+  onTtmlLanguageChange: (language: string) => void;
+  onExportTtml: (profile: TtmlProfile) => void;
+  exportError: string | null;
+  exportReport: CaptionExportReport | null;
+  onDismissExportReport: () => void;
+  exportQualityCheck: CaptionExportQualityCheck | null;
+  onProceedExport: () => void;
+  onDismissExportQualityCheck: () => void;
   onHandleTrimExport: () => void;
   onHandleCancelTrim: () => void;
   isTrimming: boolean;
@@ -70,12 +132,31 @@ export function CaptionEditor({
   isMetadataReady,
   captionDrafts,
   activeCaptionId,
+  selectedCaptionIds,
+  captionHighlights,
+  qualityIssuesById,
+  overlappingCaptionIds,
+  qualitySummary,
+  onSelectCaption,
   captionGapMs,
   onCaptionGapChange,
+  styleProfile,
+  customStyleProfiles,
+  styleProfileError,
+  onStyleProfileChange,
+  onSaveCustomStyleProfile,
+  onUpdateCustomStyleProfile,
+  onDeleteCustomStyleProfile,
+  onExportStyleProfiles,
+  onImportStyleProfiles,
+  timecodeSettings,
+  timecodeSettingsError,
+  onTimecodeSettingsChange,
   isCaptionsLoading,
   isCaptionsError,
   captionsError,
-  importError,
+  importReport,
+  onDismissImportReport,
   hotkeyItems,
   hotkeyConfig,
   capturingHotkey,
@@ -86,6 +167,8 @@ export function CaptionEditor({
   onSetCaptionTimeFromVideo,
   onConfirmCaption,
   onDeleteCaption,
+  onSplitCaption,
+  onMergeCaption,
   onCaptionFocus,
   onSaveCaptions,
   isSavingCaptions,
@@ -97,10 +180,28 @@ export function CaptionEditor({
   onApplyTrimChange,
   trimRange,
   fileInputRef,
-  onImportJsonFile,
-  onImportJsonClick,
+  onImportCaptionFile,
+  onImportCaptionClick,
   onExportJson,
   onExportSrt,
+  onExportVtt,
+  onExportSbv,
+  transcriptOptions,
+  onTranscriptOptionsChange,
+  onExportTranscript,
+  onExportSheet,
+  onExportScc,
+  onExportStl,
+  onExportAss,
+  ttmlLanguage,
+  onTtmlLanguageChange,
+  onExportTtml,
+  exportError,
+  exportReport,
+  onDismissExportReport,
+  exportQualityCheck,
+  onProceedExport,
+  onDismissExportQualityCheck,
   onHandleTrimExport,
   onHandleCancelTrim,
   isTrimming,
@@ -254,6 +355,17 @@ export function CaptionEditor({
             );
           })}
         </div>
+        <CaptionStyleProfilePanel
+          profile={styleProfile}
+          customProfiles={customStyleProfiles}
+          error={styleProfileError}
+          onChange={onStyleProfileChange}
+          onSaveCustom={onSaveCustomStyleProfile}
+          onUpdateCustom={onUpdateCustomStyleProfile}
+          onDeleteCustom={onDeleteCustomStyleProfile}
+          onExport={onExportStyleProfiles}
+          onImport={onImportStyleProfiles}
+        />
         <div
           style={{
             display: 'flex',
@@ -264,7 +376,8 @@ export function CaptionEditor({
         >
           <strong style={{ fontSize: 14, color: '#111' }}>자동 시간 간격</strong>
           <span style={{ fontSize: 12, color: '#555' }}>
-            Enter로 자막을 확정하면 다음 자막의 시작 시간을 이전 종료 시간 뒤로 맞춰줘요.
+            Enter로 자막을 확정하면 다음 자막의 시작 시간을 이전 종료 시간 뒤로 맞춰줘요. 간격은 스타일 가이드에
+            함께 저장돼요.
           </span>
           <div style={{ flex: 1 }} />
           <label
@@ -291,6 +404,11 @@ export function CaptionEditor({
             />
           </label>
         </div>
+        <CaptionTimecodeSettingsPanel
+          settings={timecodeSettings}
+          error={timecodeSettingsError}
+          onChange={onTimecodeSettingsChange}
+        />
       </div>
 
       {isCaptionsLoading ? (
@@ -333,7 +451,7 @@ export function CaptionEditor({
           }}
         >
           <ul style={{ listStyle: 'none', padding: 0, margin: 0, display: 'grid', gap: 12 }}>
-            {captionDrafts.map((caption) => {
+            {captionDrafts.map((caption, index) => {
               const errors = getCaptionErrors(caption);
               const isActive = activeCaptionId === caption.id;
               return (
@@ -342,6 +460,12 @@ export function CaptionEditor({
                   caption={caption}
                   errors={errors}
                   isActive={isActive}
+                  isSelected={selectedCaptionIds.has(caption.id)}
+                  isOverlapping={overlappingCaptionIds.has(caption.id)}
+                  highlights={captionHighlights.get(caption.id) ?? NO_HIGHLIGHTS}
+                  qualityIssues={qualityIssuesById.get(caption.id) ?? NO_QUALITY_ISSUES}
+                  timecode={timecodeSettings}
+                  onSelect={onSelectCaption}
                   onFieldChange={onCaptionFieldChange}
                   onSetTimeFromVideo={(id, field) => {
                     onSetCaptionTimeFromVideo(id, field);
@@ -349,6 +473,9 @@ export function CaptionEditor({
                   }}
                   onConfirm={onConfirmCaption}
                   onDelete={onDeleteCaption}
+                  canMerge={index < captionDrafts.length - 1}
+                  onSplit={onSplitCaption}
+                  onMerge={onMergeCaption}
                   onFocus={onCaptionFocus}
                   registerRowRef={registerCaptionRef(caption.id)}
                 />
@@ -409,9 +536,25 @@ export function CaptionEditor({
         ) : (
           <span style={{ color: '#555', fontSize: 13 }}>시작 시간 오름차순으로 정렬되어 저장돼요.</span>
         )}
+        {qualitySummary.errorCount + qualitySummary.warningCount > 0 ? (
+          <span
+            style={{
+              fontSize: 13,
+              color: qualitySummary.errorCount > 0 ? '#b00020' : '#7a4b00',
+            }}
+          >
+            {`품질 기준 오류 ${qualitySummary.errorCount}건 · 경고 ${qualitySummary.warningCount}건`}
+          </span>
+        ) : null}
       </div>
       <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', marginTop: 8 }}>
-        <input ref={fileInputRef} type="file" accept="application/json" style={{ display: 'none' }} onChange={onImportJsonFile} />
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json,text/vtt,.vtt,application/x-subrip,.srt,application/ttml+xml,.ttml,.dfxp,.xml,text/csv,.csv,text/tab-separated-values,.tsv,.stl"
+          style={{ display: 'none' }}
+          onChange={onImportCaptionFile}
+        />
         <label style={{ display: 'inline-flex', alignItems: 'center', gap: 6, marginRight: 12 }}>
           <input
             type="checkbox"
@@ -429,7 +572,7 @@ export function CaptionEditor({
         </label>
         <button
           type="button"
-          onClick={onImportJsonClick}
+          onClick={onImportCaptionClick}
           style={{
             padding: '9px 12px',
             borderRadius: 8,
@@ -439,7 +582,7 @@ export function CaptionEditor({
             cursor: 'pointer',
           }}
         >
-          JSON 불러오기
+          자막 불러오기 (JSON/SRT/VTT/TTML/CSV/STL)
         </button>
         <button
           type="button"
@@ -469,7 +612,311 @@ export function CaptionEditor({
         >
           SRT 내보내기
         </button>
+        <button
+          type="button"
+          onClick={onExportVtt}
+          style={{
+            padding: '9px 12px',
+            borderRadius: 8,
+            border: '1px solid #ccc',
+            background: '#f8f8f8',
+            color: '#111',
+            cursor: 'pointer',
+          }}
+        >
+          VTT 내보내기
+        </button>
+        <button
+          type="button"
+          onClick={onExportSbv}
+          style={{
+            padding: '9px 12px',
+            borderRadius: 8,
+            border: '1px solid #ccc',
+            background: '#f8f8f8',
+            color: '#111',
+            cursor: 'pointer',
+          }}
+        >
+          SBV 내보내기
+        </button>
+        <button
+          type="button"
+          onClick={() => onExportSheet(',')}
+          style={{
+            padding: '9px 12px',
+            borderRadius: 8,
+            border: '1px solid #ccc',
+            background: '#f8f8f8',
+            color: '#111',
+            cursor: 'pointer',
+          }}
+        >
+          CSV 내보내기
+        </button>
+        <button
+          type="button"
+          onClick={() => onExportSheet('\t')}
+          style={{
+            padding: '9px 12px',
+            borderRadius: 8,
+            border: '1px solid #ccc',
+            background: '#f8f8f8',
+            color: '#111',
+            cursor: 'pointer',
+          }}
+        >
+          TSV 내보내기
+        </button>
+        <button
+          type="button"
+          onClick={onExportAss}
+          style={{
+            padding: '9px 12px',
+            borderRadius: 8,
+            border: '1px solid #ccc',
+            background: '#f8f8f8',
+            color: '#111',
+            cursor: 'pointer',
+          }}
+        >
+          ASS 내보내기
+        </button>
+        <label style={{ display: 'inline-flex', alignItems: 'center', gap: 6, fontSize: 14, color: '#111' }}>
+          TTML 자막 언어
+          <input
+            type="text"
+            value={ttmlLanguage}
+            placeholder="ko"
+            data-hotkeys="off"
+            onChange={(event) => onTtmlLanguageChange(event.target.value)}
+            style={{
+              padding: '6px 8px',
+              borderRadius: 6,
+              border: '1px solid #cbd5e1',
+              width: 80,
+            }}
+          />
+        </label>
+        <button
+          type="button"
+          onClick={() => onExportTtml('imsc1-text')}
+          style={{
+            padding: '9px 12px',
+            borderRadius: 8,
+            border: '1px solid #ccc',
+            background: '#f8f8f8',
+            color: '#111',
+            cursor: 'pointer',
+          }}
+        >
+          TTML(IMSC1) 내보내기
+        </button>
+        <button
+          type="button"
+          onClick={() => onExportTtml('dfxp')}
+          style={{
+            padding: '9px 12px',
+            borderRadius: 8,
+            border: '1px solid #ccc',
+            background: '#f8f8f8',
+            color: '#111',
+            cursor: 'pointer',
+          }}
+        >
+          DFXP 내보내기
+        </button>
+        <button
+          type="button"
+          onClick={onExportScc}
+          style={{
+            padding: '9px 12px',
+            borderRadius: 8,
+            border: '1px solid #ccc',
+            background: '#f8f8f8',
+            color: '#111',
+            cursor: 'pointer',
+          }}
+        >
+          SCC 내보내기
+        </button>
+        <button
+          type="button"
+          onClick={onExportStl}
+          style={{
+            padding: '9px 12px',
+            borderRadius: 8,
+            border: '1px solid #ccc',
+            background: '#f8f8f8',
+            color: '#111',
+            cursor: 'pointer',
+          }}
+        >
+          EBU-STL 내보내기
+        </button>
+      </div>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 12, flexWrap: 'wrap', fontSize: 13 }}>
+        <strong style={{ fontSize: 14, color: '#111' }}>텍스트 원고</strong>
+        <label style={{ display: 'inline-flex', alignItems: 'center', gap: 6, color: '#111' }}>
+          <input
+            type="checkbox"
+            checked={transcriptOptions.includeTimestamps}
+            onChange={(event) =>
+              onTranscriptOptionsChange({ ...transcriptOptions, includeTimestamps: event.target.checked })
+            }
+          />
+          문단마다 [HH:MM:SS] 표시
+        </label>
+        <label style={{ display: 'inline-flex', alignItems: 'center', gap: 8, color: '#111' }}>
+          문단 나눔 간격(ms)
+          <input
+            type="number"
+            min={0}
+            step={100}
+            value={transcriptOptions.paragraphGapMs}
+            onChange={(event) =>
+              onTranscriptOptionsChange({
+                ...transcriptOptions,
+                paragraphGapMs: parseCaptionGapMs(event.target.value),
+              })
+            }
+            style={{
+              padding: '6px 8px',
+              borderRadius: 6,
+              border: '1px solid #cbd5e1',
+              width: 100,
+            }}
+          />
+        </label>
+        <button
+          type="button"
+          onClick={onExportTranscript}
+          style={{
+            padding: '9px 12px',
+            borderRadius: 8,
+            border: '1px solid #ccc',
+            background: '#f8f8f8',
+            color: '#111',
+            cursor: 'pointer',
+          }}
+        >
+          텍스트 원고 내보내기
+        </button>
       </div>
+      {exportError ? (
+        <p style={{ margin: 0, color: '#b00020', fontSize: 13, whiteSpace: 'pre-line' }}>{exportError}</p>
+      ) : null}
+
+      {exportQualityCheck ? (
+        <div
+          style={{
+            marginTop: 8,
+            padding: 12,
+            borderRadius: 8,
+            border: exportQualityCheck.blocked ? '1px solid #f2c4c4' : '1px solid #f5d48a',
+            background: exportQualityCheck.blocked ? '#fff6f6' : '#fffbeb',
+            color: exportQualityCheck.blocked ? '#b00020' : '#7a4b00',
+            display: 'flex',
+            alignItems: 'center',
+            gap: 8,
+            flexWrap: 'wrap',
+            fontSize: 13,
+          }}
+        >
+          <strong style={{ fontSize: 14 }}>
+            {exportQualityCheck.blocked
+              ? `품질 기준 오류가 ${exportQualityCheck.errorCount}건 있어 ${exportQualityCheck.format} 내보내기를 멈췄어요.`
+              : `${exportQualityCheck.format}로 내보냈지만 품질 기준 경고가 ${exportQualityCheck.warningCount}건 있어요.`}
+          </strong>
+          <div style={{ flex: 1 }} />
+          {exportQualityCheck.blocked ? (
+            <button
+              type="button"
+              onClick={onProceedExport}
+              style={{
+                padding: '4px 8px',
+                borderRadius: 6,
+                border: '1px solid currentColor',
+                background: 'transparent',
+                color: 'inherit',
+                cursor: 'pointer',
+              }}
+            >
+              무시하고 내보내기
+            </button>
+          ) : null}
+          <button
+            type="button"
+            onClick={onDismissExportQualityCheck}
+            style={{
+              padding: '4px 8px',
+              borderRadius: 6,
+              border: '1px solid currentColor',
+              background: 'transparent',
+              color: 'inherit',
+              cursor: 'pointer',
+            }}
+          >
+            닫기
+          </button>
+        </div>
+      ) : null}
+
+      {exportReport ? (
+        <div
+          style={{
+            marginTop: 8,
+            padding: 12,
+            borderRadius: 8,
+            border: '1px solid #f5d48a',
+            background: '#fffbeb',
+            color: '#7a4b00',
+            display: 'grid',
+            gap: 6,
+            fontSize: 13,
+          }}
+        >
+          <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+            <strong style={{ fontSize: 14 }}>
+              {`${exportReport.format}로 내보냈지만 확인할 내용이 ${exportReport.warnings.length}건 있어요.`}
+            </strong>
+            <div style={{ flex: 1 }} />
+            <button
+              type="button"
+              onClick={onDismissExportReport}
+              style={{
+                padding: '4px 8px',
+                borderRadius: 6,
+                border: '1px solid currentColor',
+                background: 'transparent',
+                color: 'inherit',
+                cursor: 'pointer',
+              }}
+            >
+              닫기
+            </button>
+          </div>
+          <ul
+            style={{
+              margin: 0,
+              paddingLeft: 18,
+              maxHeight: 160,
+              overflowY: 'auto',
+              display: 'grid',
+              gap: 2,
+            }}
+          >
+            {exportReport.warnings.map((warning, index) => (
+              <li key={`${warning.captionId}-${index}`}>
+                <span style={{ fontVariantNumeric: 'tabular-nums', fontWeight: 600 }}>
+                  {warning.captionId ? `${formatSeconds(warning.startMs)}s` : '파일'}
+                </span>{' '}
+                {warning.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
 
       {applyTrimOnExport ? (
         <div
@@ -679,7 +1126,65 @@ export function CaptionEditor({
         ) : null}
       </div>
 
-      {importError ? <p style={{ margin: '8px 0 0', color: '#b00020' }}>{importError}</p> : null}
+      {importReport ? (
+        <div
+          style={{
+            marginTop: 8,
+            padding: 12,
+            borderRadius: 8,
+            border: importReport.error ? '1px solid #f2c4c4' : '1px solid #f5d48a',
+            background: importReport.error ? '#fff6f6' : '#fffbeb',
+            color: importReport.error ? '#b00020' : '#7a4b00',
+            display: 'grid',
+            gap: 6,
+            fontSize: 13,
+          }}
+        >
+          <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+            <strong style={{ fontSize: 14 }}>
+              {importReport.error
+                ? `${importReport.fileName}을(를) 불러오지 못했어요.`
+                : `${importReport.fileName}을(를) 불러왔지만 확인할 내용이 ${importReport.warnings.length}건 있어요.`}
+            </strong>
+            <div style={{ flex: 1 }} />
+            <button
+              type="button"
+              onClick={onDismissImportReport}
+              style={{
+                padding: '4px 8px',
+                borderRadius: 6,
+                border: '1px solid currentColor',
+                background: 'transparent',
+                color: 'inherit',
+                cursor: 'pointer',
+              }}
+            >
+              닫기
+            </button>
+          </div>
+          {importReport.error ? <p style={{ margin: 0 }}>{importReport.error}</p> : null}
+          {importReport.warnings.length > 0 ? (
+            <ul
+              style={{
+                margin: 0,
+                paddingLeft: 18,
+                maxHeight: 160,
+                overflowY: 'auto',
+                display: 'grid',
+                gap: 2,
+              }}
+            >
+              {importReport.warnings.map((warning, index) => (
+                <li key={`${warning.line}-${index}`}>
+                  <span style={{ fontVariantNumeric: 'tabular-nums', fontWeight: 600 }}>{warning.line > 0 ? `${warning.line}행` : '파일'}
+                  </span>{' '}
+                  {warning.message}
+                </li>
+              ))}
+            </ul>
+          ) : null}
+        </div>
+      ) : null}
     </section>
   );
 }
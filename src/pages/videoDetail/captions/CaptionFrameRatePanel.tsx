@@ -0,0 +1,180 @@
+import { useState } from 'react';
+
+import { CAPTION_FRAME_RATE_FPS } from '../constants';
+import { formatSeconds, getDefaultFrameRateConversionMode } from '../utils';
+
+import type { CaptionFrameRateConversionMode, CaptionFrameRateId, CaptionFrameRateReport } from '../types';
+
+type CaptionFrameRatePanelProps = {
+  captionCount: number;
+  // 영상의 타임코드 프레임레이트. 표에 없는 값이면 null
+  source: CaptionFrameRateId | null;
+  report: CaptionFrameRateReport | null;
+  onConvert: (
+    source: CaptionFrameRateId,
+    target: CaptionFrameRateId,
+    mode: CaptionFrameRateConversionMode,
+    snapToFrames: boolean,
+  ) => void;
+  onDismissReport: () => void;
+};
+
+const FRAME_RATE_IDS = Object.keys(CAPTION_FRAME_RATE_FPS) as CaptionFrameRateId[];
+
+const MODE_LABELS: Record<CaptionFrameRateConversionMode, string> = {
+  speed: '속도 변환(프레임 유지)',
+  'keep-duration': '재생 시간 유지(풀다운)',
+};
+
+export function CaptionFrameRatePanel({
+  captionCount,
+  source,
+  report,
+  onConvert,
+  onDismissReport,
+}: CaptionFrameRatePanelProps) {
+  const [target, setTarget] = useState<CaptionFrameRateId>('25');
+  // 원본/대상 조합이 바뀌면 고른 방식은 버리고 그 조합에 흔히 쓰는 방식으로 돌아간다.
+  const [modeChoice, setModeChoice] = useState<{ pair: string; mode: CaptionFrameRateConversionMode } | null>(null);
+  const [snapToFrames, setSnapToFrames] = useState(true);
+
+  const pair = `${source ?? ''}>${target}`;
+  const mode =
+    modeChoice?.pair === pair ? modeChoice.mode : source ? getDefaultFrameRateConversionMode(source, target) : 'speed';
+  const canConvert = captionCount > 0 && source !== null && (source !== target || snapToFrames);
+  const hasIssues = (report?.issues.length ?? 0) > 0;
+
+  return (
+    <section
+      style={{
+        padding: 16,
+        borderRadius: 10,
+        border: '1px solid #e6e6e6',
+        background: '#fff',
+        display: 'grid',
+        gap: 10,
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8, flexWrap: 'wrap', fontSize: 13 }}>
+        <h3 style={{ margin: 0 }}>프레임레이트 변환</h3>
+        <span title="타임코드 설정의 프레임레이트예요. 변환하면 대상 프레임레이트로 바뀌어요.">
+          {source ? `원본 ${source}fps` : '원본 프레임레이트가 표에 없어서 변환할 수 없어요.'}
+        </span>
+        <span>→</span>
+        <label style={{ display: 'inline-flex', alignItems: 'center', gap: 6 }}>
+          대상
+          <select
+            value={target}
+            onChange={(event) => setTarget(event.target.value as CaptionFrameRateId)}
+            style={{ padding: '6px 8px', borderRadius: 6, border: '1px solid #cbd5e1' }}
+          >
+            {FRAME_RATE_IDS.map((id) => (
+              <option key={id} value={id}>
+                {id}fps
+              </option>
+            ))}
+          </select>
+        </label>
+        <label style={{ display: 'inline-flex', alignItems: 'center', gap: 6 }}>
+          방식
+          <select
+            value={mode}
+            onChange={(event) => setModeChoice({ pair, mode: event.target.value as CaptionFrameRateConversionMode })}
+            style={{ padding: '6px 8px', borderRadius: 6, border: '1px solid #cbd5e1' }}
+          >
+            {(Object.keys(MODE_LABELS) as CaptionFrameRateConversionMode[]).map((id) => (
+              <option key={id} value={id}>
+                {MODE_LABELS[id]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label style={{ display: 'inline-flex', alignItems: 'center', gap: 6 }}>
+          <input
+            type="checkbox"
+            checked={snapToFrames}
+            onChange={(event) => setSnapToFrames(event.target.checked)}
+          />
+          대상 프레임에 맞추기
+        </label>
+        <div style={{ flex: 1 }} />
+        <button
+          type="button"
+          onClick={() => {
+            if (source) onConvert(source, target, mode, snapToFrames);
+          }}
+          disabled={!canConvert}
+          style={{
+            padding: '9px 12px',
+            borderRadius: 8,
+            border: '1px solid #ccc',
+            background: '#f8f8f8',
+            color: '#111',
+            cursor: canConvert ? 'pointer' : 'not-allowed',
+            opacity: canConvert ? 1 : 0.5,
+          }}
+        >
+          전체 자막 변환
+        </button>
+      </div>
+
+      {report ? (
+        <div
+          style={{
+            padding: 12,
+            borderRadius: 8,
+            border: hasIssues ? '1px solid #f5d48a' : '1px solid #e6e6e6',
+            background: hasIssues ? '#fffbeb' : '#fafafa',
+            color: hasIssues ? '#7a4b00' : '#111',
+            display: 'grid',
+            gap: 6,
+            fontSize: 13,
+          }}
+        >
+          <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+            <strong>
+              {report.source}fps → {report.target}fps로 변환했어요({MODE_LABELS[report.mode]}).
+              {hasIssues ? ` 확인할 내용이 ${report.issues.length}건 있어요.` : ''}
+            </strong>
+            <div style={{ flex: 1 }} />
+            <button
+              type="button"
+              onClick={onDismissReport}
+              style={{
+                padding: '4px 8px',
+                borderRadius: 6,
+                border: '1px solid currentColor',
+                background: 'transparent',
+                color: 'inherit',
+                cursor: 'pointer',
+              }}
+            >
+              닫기
+            </button>
+          </div>
+          {hasIssues ? (
+            <ul
+              style={{
+                margin: 0,
+                paddingLeft: 18,
+                maxHeight: 160,
+                overflowY: 'auto',
+                display: 'grid',
+                gap: 2,
+              }}
+            >
+              {report.issues.map((issue, index) => (
+                <li key={`${issue.captionId}-${index}`}>
+                  <span style={{ fontVariantNumeric: 'tabular-nums', fontWeight: 600 }}>
+                    {formatSeconds(issue.startMs)}s
+                  </span>{' '}
+                  {issue.message}
+                </li>
+              ))}
+            </ul>
+          ) : null}
+        </div>
+      ) : null}
+    </section>
+  );
+}
@@ -0,0 +1,144 @@
+import { MAX_CAPTION_HISTORY_DEPTH } from '../constants';
+import { parseCaptionHistoryDepth } from '../utils';
+
+import type { CaptionHistoryEntry } from './useCaptionHistory';
+
+type CaptionHistoryPanelProps = {
+  entries: CaptionHistoryEntry[];
+  currentIndex: number;
+  canUndo: boolean;
+  canRedo: boolean;
+  depth: number;
+  onDepthChange: (depth: number) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJump: (index: number) => void;
+};
+
+function formatHistoryTime(ms: number) {
+  return new Date(ms).toLocaleTimeString('ko-KR', { hour12: false });
+}
+
+export function CaptionHistoryPanel({
+  entries,
+  currentIndex,
+  canUndo,
+  canRedo,
+  depth,
+  onDepthChange,
+  onUndo,
+  onRedo,
+  onJump,
+}: CaptionHistoryPanelProps) {
+  return (
+    <section
+      style={{
+        padding: 16,
+        borderRadius: 10,
+        border: '1px solid #e6e6e6',
+        background: '#fff',
+        display: 'grid',
+        gap: 10,
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8, flexWrap: 'wrap' }}>
+        <h3 style={{ margin: 0 }}>편집 기록</h3>
+        <span style={{ fontSize: 12, color: '#555' }}>Ctrl/⌘+Z 되돌리기 · Ctrl/⌘+Shift+Z 다시 실행</span>
+        <div style={{ flex: 1 }} />
+        <button
+          type="button"
+          onClick={onUndo}
+          disabled={!canUndo}
+          style={{
+            padding: '6px 10px',
+            borderRadius: 8,
+            border: '1px solid #ccc',
+            background: '#f8f8f8',
+            color: '#111',
+            cursor: canUndo ? 'pointer' : 'not-allowed',
+            opacity: canUndo ? 1 : 0.5,
+          }}
+        >
+          되돌리기
+        </button>
+        <button
+          type="button"
+          onClick={onRedo}
+          disabled={!canRedo}
+          style={{
+            padding: '6px 10px',
+            borderRadius: 8,
+            border: '1px solid #ccc',
+            background: '#f8f8f8',
+            color: '#111',
+            cursor: canRedo ? 'pointer' : 'not-allowed',
+            opacity: canRedo ? 1 : 0.5,
+          }}
+        >
+          다시 실행
+        </button>
+        <label style={{ display: 'inline-flex', alignItems: 'center', gap: 8, fontSize: 13, color: '#111' }}>
+          보관 단계
+          <input
+            type="number"
+            min={1}
+            max={MAX_CAPTION_HISTORY_DEPTH}
+            value={depth}
+            onChange={(event) => onDepthChange(parseCaptionHistoryDepth(event.target.value))}
+            style={{
+              padding: '6px 8px',
+              borderRadius: 6,
+              border: '1px solid #cbd5e1',
+              width: 80,
+            }}
+          />
+        </label>
+      </div>
+
+      <ol
+        style={{
+          margin: 0,
+          padding: 0,
+          listStyle: 'none',
+          display: 'grid',
+          gap: 2,
+          maxHeight: 200,
+          overflowY: 'auto',
+          fontSize: 13,
+        }}
+      >
+        {entries.map((entry, index) => {
+          const isCurrent = index === currentIndex;
+          const isUndone = index > currentIndex;
+          return (
+            <li key={entry.id}>
+              <button
+                type="button"
+                onClick={() => onJump(index)}
+                aria-current={isCurrent ? 'step' : undefined}
+                style={{
+                  width: '100%',
+                  display: 'flex',
+                  gap: 8,
+                  padding: '4px 8px',
+                  borderRadius: 6,
+                  border: isCurrent ? '1px solid #111' : '1px solid transparent',
+                  background: isCurrent ? '#f5f8ff' : 'transparent',
+                  color: isUndone ? '#999' : '#111',
+                  textAlign: 'left',
+                  cursor: 'pointer',
+                }}
+              >
+                <span style={{ fontVariantNumeric: 'tabular-nums', color: '#666' }}>
+                  {formatHistoryTime(entry.updatedAt)}
+                </span>
+                <span style={{ flex: 1 }}>{entry.label}</span>
+                <span style={{ color: '#666' }}>자막 {entry.captions.length}개</span>
+              </button>
+            </li>
+          );
+        })}
+      </ol>
+    </section>
+  );
+}
@@ -0,0 +1,166 @@
+import type { CaptionLineBreakOptions } from '@/lib/captionLineBreak';
+
+import { formatSeconds } from '../utils';
+
+import type { CaptionLineBreakReport, CaptionLineBreakSettings } from '../types';
+
+export type CaptionLineBreakScope = 'selection' | 'all';
+
+type CaptionLineBreakPanelProps = {
+  options: CaptionLineBreakOptions;
+  settings: CaptionLineBreakSettings;
+  captionCount: number;
+  selectedCount: number;
+  report: CaptionLineBreakReport | null;
+  onSettingsChange: (settings: CaptionLineBreakSettings) => void;
+  onBreakLines: (scope: CaptionLineBreakScope) => void;
+  onSeek: (captionId: string, startMs: number) => void;
+  onDismissReport: () => void;
+};
+
+function getButtonStyle(enabled: boolean) {
+  return {
+    padding: '6px 10px',
+    borderRadius: 8,
+    border: '1px solid #ccc',
+    background: '#f8f8f8',
+    color: '#111',
+    cursor: enabled ? 'pointer' : 'not-allowed',
+    opacity: enabled ? 1 : 0.5,
+  };
+}
+
+export function CaptionLineBreakPanel({
+  options,
+  settings,
+  captionCount,
+  selectedCount,
+  report,
+  onSettingsChange,
+  onBreakLines,
+  onSeek,
+  onDismissReport,
+}: CaptionLineBreakPanelProps) {
+  const hasSelection = selectedCount > 0;
+  const hasCaptions = captionCount > 0;
+  const hasOverflow = (report?.overflow.length ?? 0) > 0;
+
+  return (
+    <section
+      style={{
+        padding: 16,
+        borderRadius: 10,
+        border: '1px solid #e6e6e6',
+        background: '#fff',
+        display: 'grid',
+        gap: 10,
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8, flexWrap: 'wrap', fontSize: 13 }}>
+        <h3 style={{ margin: 0 }}>자동 줄바꿈</h3>
+        <span style={{ color: '#555' }}>
+          {`스타일 가이드 기준: 한 줄 ${options.maxCharsPerLine}자, 최대 ${options.maxLines}줄`}
+        </span>
+        <div style={{ flex: 1 }} />
+        <button
+          type="button"
+          onClick={() => onBreakLines('selection')}
+          disabled={!hasSelection}
+          style={getButtonStyle(hasSelection)}
+        >
+          선택 자막 줄바꿈({selectedCount}개)
+        </button>
+        <button
+          type="button"
+          onClick={() => onBreakLines('all')}
+          disabled={!hasCaptions}
+          style={getButtonStyle(hasCaptions)}
+        >
+          전체 자막 줄바꿈
+        </button>
+      </div>
+
+      <div style={{ display: 'flex', alignItems: 'center', gap: 16, flexWrap: 'wrap', fontSize: 13 }}>
+        <label style={{ display: 'inline-flex', alignItems: 'center', gap: 6 }}>
+          <input
+            type="checkbox"
+            checked={settings.wrapOnConfirm}
+            onChange={(event) => onSettingsChange({ ...settings, wrapOnConfirm: event.target.checked })}
+          />
+          자막을 확정할 때 줄바꿈
+        </label>
+        <label style={{ display: 'inline-flex', alignItems: 'center', gap: 6 }}>
+          <input
+            type="checkbox"
+            checked={settings.wrapOnExport}
+            onChange={(event) => onSettingsChange({ ...settings, wrapOnExport: event.target.checked })}
+          />
+          SRT/VTT/ASS로 내보낼 때 줄바꿈
+        </label>
+      </div>
+
+      {report ? (
+        <div
+          style={{
+            padding: 12,
+            borderRadius: 8,
+            border: hasOverflow ? '1px solid #f5d48a' : '1px solid #e6e6e6',
+            background: hasOverflow ? '#fffbeb' : '#fafafa',
+            color: hasOverflow ? '#7a4b00' : '#111',
+            display: 'grid',
+            gap: 6,
+            fontSize: 13,
+          }}
+        >
+          <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+            <strong>
+              {report.changedCount > 0
+                ? `자막 ${report.changedCount}개의 줄을 다시 나눴어요.`
+                : '다시 나눌 자막이 없었어요.'}
+              {hasOverflow ? ` ${report.overflow.length}개는 기준 안에 다 넣지 못했어요.` : ''}
+            </strong>
+            <div style={{ flex: 1 }} />
+            <button
+              type="button"
+              onClick={onDismissReport}
+              style={{
+                padding: '4px 8px',
+                borderRadius: 6,
+                border: '1px solid currentColor',
+                background: 'transparent',
+                color: 'inherit',
+                cursor: 'pointer',
+              }}
+            >
+              닫기
+            </button>
+          </div>
+          {hasOverflow ? (
+            <ul style={{ margin: 0, paddingLeft: 18, display: 'grid', gap: 2 }}>
+              {report.overflow.map((item) => (
+                <li key={item.captionId}>
+                  <button
+                    type="button"
+                    onClick={() => onSeek(item.captionId, item.startMs)}
+                    style={{
+                      padding: 0,
+                      border: 'none',
+                      background: 'transparent',
+                      color: 'inherit',
+                      cursor: 'pointer',
+                      fontVariantNumeric: 'tabular-nums',
+                      fontWeight: 600,
+                    }}
+                  >
+                    {formatSeconds(item.startMs)}s
+                  </button>{' '}
+                  내용을 줄이거나 자막을 나눠주세요.
+                </li>
+              ))}
+            </ul>
+          ) : null}
+        </div>
+      ) : null}
+    </section>
+  );
+}
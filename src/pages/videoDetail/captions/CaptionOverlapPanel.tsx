@@ -0,0 +1,169 @@
+import { useState } from 'react';
+
+import type { CaptionOverlap, CaptionOverlapStrategy } from '@/lib/captionOverlap';
+
+import { formatSeconds } from '../utils';
+
+import type { CaptionOverlapReport } from '../types';
+
+type CaptionOverlapPanelProps = {
+  overlaps: CaptionOverlap[];
+  captionGapMs: number;
+  report: CaptionOverlapReport | null;
+  onSeek: (overlap: CaptionOverlap) => void;
+  onResolve: (strategy: CaptionOverlapStrategy) => void;
+  onDismissReport: () => void;
+};
+
+const STRATEGY_OPTIONS: { value: CaptionOverlapStrategy; label: string }[] = [
+  { value: 'trimPrevious', label: '앞 자막 끝 당기기' },
+  { value: 'pushNext', label: '뒤 자막 시작 밀기' },
+  { value: 'splitDifference', label: '겹친 구간 반씩 나누기' },
+];
+
+export function CaptionOverlapPanel({
+  overlaps,
+  captionGapMs,
+  report,
+  onSeek,
+  onResolve,
+  onDismissReport,
+}: CaptionOverlapPanelProps) {
+  const [strategy, setStrategy] = useState<CaptionOverlapStrategy>('trimPrevious');
+
+  const hasOverlaps = overlaps.length > 0;
+  const hasUnresolved = (report?.unresolved.length ?? 0) > 0;
+
+  return (
+    <section
+      style={{
+        padding: 16,
+        borderRadius: 10,
+        border: '1px solid #e6e6e6',
+        background: '#fff',
+        display: 'grid',
+        gap: 10,
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8, flexWrap: 'wrap', fontSize: 13 }}>
+        <h3 style={{ margin: 0 }}>겹침 검사</h3>
+        <span style={{ color: hasOverlaps ? '#b00020' : '#555' }}>
+          {hasOverlaps ? `겹친 자막이 ${overlaps.length}곳 있어요.` : '겹친 자막이 없어요.'}
+        </span>
+        <div style={{ flex: 1 }} />
+        <select
+          value={strategy}
+          onChange={(event) => setStrategy(event.target.value as CaptionOverlapStrategy)}
+          aria-label="겹침 해결 방법"
+          style={{ padding: '6px 8px', borderRadius: 6, border: '1px solid #cbd5e1' }}
+        >
+          {STRATEGY_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={() => onResolve(strategy)}
+          disabled={!hasOverlaps}
+          style={{
+            padding: '6px 10px',
+            borderRadius: 8,
+            border: '1px solid #ccc',
+            background: '#f8f8f8',
+            color: '#111',
+            cursor: hasOverlaps ? 'pointer' : 'not-allowed',
+            opacity: hasOverlaps ? 1 : 0.5,
+          }}
+        >
+          겹침 해결({captionGapMs}ms 간격)
+        </button>
+      </div>
+
+      {hasOverlaps ? (
+        <ul
+          style={{
+            margin: 0,
+            paddingLeft: 18,
+            maxHeight: 160,
+            overflowY: 'auto',
+            display: 'grid',
+            gap: 2,
+            fontSize: 13,
+          }}
+        >
+          {overlaps.map((overlap) => (
+            <li key={`${overlap.previousId}-${overlap.nextId}`}>
+              <button
+                type="button"
+                onClick={() => onSeek(overlap)}
+                style={{
+                  padding: 0,
+                  border: 'none',
+                  background: 'transparent',
+                  color: '#2563eb',
+                  cursor: 'pointer',
+                  fontVariantNumeric: 'tabular-nums',
+                  fontWeight: 600,
+                }}
+              >
+                {formatSeconds(overlap.startMs)}s
+              </button>{' '}
+              {`앞 자막과 ${overlap.endMs - overlap.startMs}ms 겹쳐요.`}
+            </li>
+          ))}
+        </ul>
+      ) : null}
+
+      {report ? (
+        <div
+          style={{
+            padding: 12,
+            borderRadius: 8,
+            border: hasUnresolved ? '1px solid #f5d48a' : '1px solid #e6e6e6',
+            background: hasUnresolved ? '#fffbeb' : '#fafafa',
+            color: hasUnresolved ? '#7a4b00' : '#111',
+            display: 'grid',
+            gap: 6,
+            fontSize: 13,
+          }}
+        >
+          <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+            <strong>
+              {`겹침 ${report.resolvedCount}곳을 해결했어요.`}
+              {hasUnresolved ? ` ${report.unresolved.length}곳은 자막 길이가 0 이하가 되어 그대로 뒀어요.` : ''}
+            </strong>
+            <div style={{ flex: 1 }} />
+            <button
+              type="button"
+              onClick={onDismissReport}
+              style={{
+                padding: '4px 8px',
+                borderRadius: 6,
+                border: '1px solid currentColor',
+                background: 'transparent',
+                color: 'inherit',
+                cursor: 'pointer',
+              }}
+            >
+              닫기
+            </button>
+          </div>
+          {hasUnresolved ? (
+            <ul style={{ margin: 0, paddingLeft: 18, display: 'grid', gap: 2 }}>
+              {report.unresolved.map((overlap) => (
+                <li key={`${overlap.previousId}-${overlap.nextId}`}>
+                  <span style={{ fontVariantNumeric: 'tabular-nums', fontWeight: 600 }}>
+                    {formatSeconds(overlap.startMs)}s
+                  </span>{' '}
+                  다른 방법으로 해결하거나 직접 고쳐주세요.
+                </li>
+              ))}
+            </ul>
+          ) : null}
+        </div>
+      ) : null}
+    </section>
+  );
+}
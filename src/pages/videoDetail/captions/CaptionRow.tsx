@@ -1,43 +1,170 @@
-import type { Caption } from '../types';
+import { useRef } from 'react';
+
+import { CaptionTimecodeInput } from './CaptionTimecodeInput';
+import { formatCaptionQualityBadge } from './captionValidation';
+
+import type { Caption, CaptionQualityIssue, CaptionTextHighlight, CaptionTimecodeSettings } from '../types';
+import type { CaptionSelectMode } from './useCaptionSelection';
+import type { CSSProperties, MouseEvent, ReactNode } from 'react';
 
 type CaptionRowProps = {
   caption: Caption;
   errors: Partial<Record<keyof Caption, string>>;
   isActive: boolean;
+  isSelected: boolean;
+  isOverlapping: boolean;
+  highlights: CaptionTextHighlight[];
+  qualityIssues: CaptionQualityIssue[];
+  timecode: CaptionTimecodeSettings;
+  onSelect: (id: string, mode: CaptionSelectMode) => void;
   onFieldChange: (id: string, field: keyof Pick<Caption, 'startMs' | 'endMs' | 'text'>, value: string) => void;
   onSetTimeFromVideo: (id: string, field: keyof Pick<Caption, 'startMs' | 'endMs'>) => void;
   onConfirm: (id: string) => void;
   onDelete: (id: string) => void;
+  canMerge: boolean;
+  onSplit: (id: string, cursorIndex: number | null) => void;
+  onMerge: (id: string) => void;
   onFocus: (id: string) => void;
   registerRowRef: (node: HTMLLIElement | null) => void;
 };
 
+// textarea 안에는 마크업을 넣을 수 없어서, 같은 글꼴·여백의 배경 레이어에 일치 구간을 칠한다.
+const TEXT_LAYER_STYLE: CSSProperties = {
+  padding: '8px 10px',
+  border: '1px solid transparent',
+  borderRadius: 6,
+  fontFamily: 'inherit',
+  fontSize: 'inherit',
+  lineHeight: 1.4,
+  whiteSpace: 'pre-wrap',
+  overflowWrap: 'break-word',
+  boxSizing: 'border-box',
+};
+
+function renderHighlightedText(text: string, highlights: CaptionTextHighlight[]) {
+  const nodes: ReactNode[] = [];
+  let cursor = 0;
+  for (const { index, length, isCurrent } of highlights) {
+    if (index < cursor) continue;
+    if (index > cursor) nodes.push(text.slice(cursor, index));
+    nodes.push(
+      <mark
+        key={index}
+        style={{
+          color: 'transparent',
+          background: isCurrent ? '#fb923c' : '#fde68a',
+          borderRadius: 2,
+        }}
+      >
+        {text.slice(index, index + length)}
+      </mark>,
+    );
+    cursor = index + length;
+  }
+  // 끝 줄바꿈 뒤의 빈 줄도 textarea와 같은 높이가 되도록 한 칸 채운다.
+  nodes.push(`${text.slice(cursor)} `);
+  return nodes;
+}
+
 export function CaptionRow({
   caption,
   errors,
   isActive,
+  isSelected,
+  isOverlapping,
+  highlights,
+  qualityIssues,
+  timecode,
+  onSelect,
   onFieldChange,
   onSetTimeFromVideo,
   onConfirm,
   onDelete,
+  canMerge,
+  onSplit,
+  onMerge,
   onFocus,
   registerRowRef,
 }: CaptionRowProps) {
   const hasError = Object.keys(errors).length > 0;
+  const textareaRef = useRef<HTMLTextAreaElement | null>(null);
+  const highlightLayerRef = useRef<HTMLDivElement | null>(null);
+
+  const handleSplit = () => {
+    const textarea = textareaRef.current;
+    const cursorIndex =
+      textarea && document.activeElement === textarea && textarea.selectionStart === textarea.selectionEnd
+        ? textarea.selectionStart
+        : null;
+    onSplit(caption.id, cursorIndex);
+  };
+
+  // 입력칸 밖을 Shift/Ctrl(⌘)+클릭하면 여러 자막을 고를 수 있다.
+  const handleRowClick = (e: MouseEvent<HTMLLIElement>) => {
+    if (!e.shiftKey && !e.ctrlKey && !e.metaKey) return;
+    const target = e.target as HTMLElement;
+    if (target.closest('input, textarea, select, button')) return;
+    e.preventDefault();
+    onSelect(caption.id, e.shiftKey ? 'range' : 'toggle');
+  };
 
   return (
     <li
       ref={registerRowRef}
+      onClick={handleRowClick}
       style={{
-        border: isActive ? '1px solid #111' : '1px solid #e6e6e6',
+        border: isSelected
+          ? '1px solid #2563eb'
+          : isActive
+            ? '1px solid #111'
+            : isOverlapping
+              ? '1px solid #ef4444'
+              : '1px solid #e6e6e6',
         borderRadius: 10,
         padding: 12,
-        background: hasError ? '#fffafa' : isActive ? '#f5f8ff' : '#fdfdfd',
+        background: hasError || isOverlapping ? '#fffafa' : isActive ? '#f5f8ff' : '#fdfdfd',
         display: 'grid',
-        boxShadow: isActive ? '0 0 0 2px #dfe8ff' : undefined,
+        boxShadow: isSelected
+          ? '0 0 0 2px #bfdbfe'
+          : isActive
+            ? '0 0 0 2px #dfe8ff'
+            : isOverlapping
+              ? 'inset 4px 0 0 #ef4444'
+              : undefined,
         gap: 8,
       }}
     >
+      <div style={{ display: 'flex', alignItems: 'center', gap: 6, flexWrap: 'wrap' }}>
+        <label
+          style={{ display: 'inline-flex', alignItems: 'center', gap: 6, fontSize: 12, color: '#555', width: 'fit-content' }}
+        >
+          <input
+            type="checkbox"
+            checked={isSelected}
+            readOnly
+            onClick={(e) => onSelect(caption.id, e.shiftKey ? 'range' : 'toggle')}
+          />
+          선택
+        </label>
+        {qualityIssues.map((issue) => (
+          <span
+            key={issue.rule}
+            title={issue.message}
+            style={{
+              padding: '1px 8px',
+              borderRadius: 999,
+              fontSize: 11,
+              fontWeight: 600,
+              fontVariantNumeric: 'tabular-nums',
+              border: issue.severity === 'error' ? '1px solid #f2c4c4' : '1px solid #f5d48a',
+              background: issue.severity === 'error' ? '#fff6f6' : '#fffbeb',
+              color: issue.severity === 'error' ? '#b00020' : '#7a4b00',
+            }}
+          >
+            {formatCaptionQualityBadge(issue)}
+          </span>
+        ))}
+      </div>
       <div
         style={{
           display: 'grid',
@@ -47,19 +174,14 @@ export function CaptionRow({
         }}
       >
         <label style={{ display: 'grid', gap: 4 }}>
-          <span style={{ fontSize: 12, color: '#555' }}>시작(ms)</span>
+          <span style={{ fontSize: 12, color: '#555' }}>시작</span>
           <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap' }}>
-            <input
-              type="number"
-              min={0}
-              value={Number.isFinite(caption.startMs) ? caption.startMs : ''}
-              onChange={(e) => onFieldChange(caption.id, 'startMs', e.target.value)}
+            <CaptionTimecodeInput
+              valueMs={caption.startMs}
+              settings={timecode}
+              ariaLabel="시작 시간"
+              onChange={(value) => onFieldChange(caption.id, 'startMs', value)}
               onFocus={() => onFocus(caption.id)}
-              style={{
-                padding: '8px 10px',
-                borderRadius: 6,
-                border: '1px solid #ccc',
-              }}
             />
             <button
               type="button"
@@ -80,19 +202,14 @@ export function CaptionRow({
           {errors.startMs ? <span style={{ color: '#b00020', fontSize: 12 }}>{errors.startMs}</span> : null}
         </label>
         <label style={{ display: 'grid', gap: 4 }}>
-          <span style={{ fontSize: 12, color: '#555' }}>종료(ms)</span>
+          <span style={{ fontSize: 12, color: '#555' }}>종료</span>
           <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap' }}>
-            <input
-              type="number"
-              min={0}
-              value={Number.isFinite(caption.endMs) ? caption.endMs : ''}
-              onChange={(e) => onFieldChange(caption.id, 'endMs', e.target.value)}
+            <CaptionTimecodeInput
+              valueMs={caption.endMs}
+              settings={timecode}
+              ariaLabel="종료 시간"
+              onChange={(value) => onFieldChange(caption.id, 'endMs', value)}
               onFocus={() => onFocus(caption.id)}
-              style={{
-                padding: '8px 10px',
-                borderRadius: 6,
-                border: '1px solid #ccc',
-              }}
             />
             <button
               type="button"
@@ -114,34 +231,93 @@ export function CaptionRow({
         </label>
         <label style={{ display: 'grid', gap: 4 }}>
           <span style={{ fontSize: 12, color: '#555' }}>자막 내용</span>
-          <textarea
-            data-caption-text="true"
-            value={caption.text}
-            onChange={(e) => onFieldChange(caption.id, 'text', e.target.value)}
-            onFocus={() => onFocus(caption.id)}
-            onKeyDown={(e) => {
-              if (e.key === '[' || e.key === ']') {
-                e.stopPropagation();
-                return;
-              }
-              if (e.nativeEvent.isComposing) return;
-              if (e.key === 'Enter' && !e.shiftKey) {
-                e.preventDefault();
-                onConfirm(caption.id);
-              }
+          <div style={{ position: 'relative', display: 'grid', background: '#fff', borderRadius: 6 }}>
+            {highlights.length > 0 ? (
+              <div
+                ref={highlightLayerRef}
+                aria-hidden="true"
+                style={{
+                  ...TEXT_LAYER_STYLE,
+                  position: 'absolute',
+                  inset: 0,
+                  overflow: 'hidden',
+                  color: 'transparent',
+                  pointerEvents: 'none',
+                }}
+              >
+                {renderHighlightedText(caption.text, highlights)}
+              </div>
+            ) : null}
+            <textarea
+              ref={textareaRef}
+              data-caption-text="true"
+              data-caption-field="true"
+              value={caption.text}
+              onChange={(e) => onFieldChange(caption.id, 'text', e.target.value)}
+              onFocus={() => onFocus(caption.id)}
+              onKeyDown={(e) => {
+                if (e.key === '[' || e.key === ']') {
+                  e.stopPropagation();
+                  return;
+                }
+                if (e.nativeEvent.isComposing) return;
+                if (e.key === 'Enter' && !e.shiftKey) {
+                  e.preventDefault();
+                  onConfirm(caption.id);
+                }
+              }}
+              onScroll={(e) => {
+                if (highlightLayerRef.current) highlightLayerRef.current.scrollTop = e.currentTarget.scrollTop;
+              }}
+              placeholder="자막을 입력하세요"
+              rows={3}
+              style={{
+                ...TEXT_LAYER_STYLE,
+                position: 'relative',
+                border: '1px solid #ccc',
+                background: 'transparent',
+                resize: 'vertical',
+              }}
+            />
+          </div>
+          {errors.text ? <span style={{ color: '#b00020', fontSize: 12 }}>{errors.text}</span> : null}
+        </label>
+        <div style={{ display: 'flex', justifyContent: 'flex-end', gap: 8, flexWrap: 'wrap' }}>
+          <button
+            type="button"
+            // 자막 내용의 커서 위치를 잃지 않도록 누를 때 포커스를 옮기지 않는다.
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={handleSplit}
+            style={{
+              padding: '8px 12px',
+              borderRadius: 8,
+              border: '1px solid #ccc',
+              background: '#f8f8f8',
+              color: '#111',
+              cursor: 'pointer',
+              height: 'fit-content',
             }}
-            placeholder="자막을 입력하세요"
-            rows={3}
+            title="현재 재생 위치에서 자막을 나눠요. 자막 내용에 커서가 있으면 그 자리에서 문구를 나눠요."
+          >
+            나누기
+          </button>
+          <button
+            type="button"
+            onClick={() => onMerge(caption.id)}
+            disabled={!canMerge}
             style={{
-              padding: '8px 10px',
-              borderRadius: 6,
+              padding: '8px 12px',
+              borderRadius: 8,
               border: '1px solid #ccc',
-              resize: 'vertical',
+              background: '#f8f8f8',
+              color: '#111',
+              cursor: canMerge ? 'pointer' : 'not-allowed',
+              opacity: canMerge ? 1 : 0.5,
+              height: 'fit-content',
             }}
-          />
-          {errors.text ? <span style={{ color: '#b00020', fontSize: 12 }}>{errors.text}</span> : null}
-        </label>
-        <div style={{ display: 'flex', justifyContent: 'flex-end' }}>
+          >
+            다음과 합치기
+          </button>
           <button
             type="button"
             onClick={() => onDelete(caption.id)}
@@ -0,0 +1,216 @@
+import type { CaptionReplacement, CaptionSearchOptions } from '@/lib/captionSearch';
+
+import { formatSeconds } from '../utils';
+
+type CaptionSearchPanelProps = {
+  query: string;
+  replacement: string;
+  options: CaptionSearchOptions;
+  error: string | null;
+  matchCount: number;
+  matchIndex: number;
+  isReplacePreviewOpen: boolean;
+  replacePreview: CaptionReplacement[] | null;
+  onQueryChange: (query: string) => void;
+  onReplacementChange: (replacement: string) => void;
+  onOptionsChange: (options: CaptionSearchOptions) => void;
+  onPrev: () => void;
+  onNext: () => void;
+  onReplacePreviewOpenChange: (open: boolean) => void;
+  onApplyReplace: () => void;
+};
+
+export function CaptionSearchPanel({
+  query,
+  replacement,
+  options,
+  error,
+  matchCount,
+  matchIndex,
+  isReplacePreviewOpen,
+  replacePreview,
+  onQueryChange,
+  onReplacementChange,
+  onOptionsChange,
+  onPrev,
+  onNext,
+  onReplacePreviewOpenChange,
+  onApplyReplace,
+}: CaptionSearchPanelProps) {
+  const hasMatches = matchCount > 0;
+  const changeCount = replacePreview?.length ?? 0;
+
+  return (
+    <section
+      style={{
+        padding: 16,
+        borderRadius: 10,
+        border: '1px solid #e6e6e6',
+        background: '#fff',
+        display: 'grid',
+        gap: 10,
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8, flexWrap: 'wrap', fontSize: 13 }}>
+        <h3 style={{ margin: 0 }}>찾아 바꾸기</h3>
+        <input
+          type="search"
+          // 검색창에서는 [, ], Enter 같은 편집 단축키 대신 글자를 그대로 입력한다.
+          data-hotkeys="off"
+          value={query}
+          onChange={(event) => onQueryChange(event.target.value)}
+          onKeyDown={(event) => {
+            if (event.key !== 'Enter' || event.nativeEvent.isComposing) return;
+            event.preventDefault();
+            if (event.shiftKey) onPrev();
+            else onNext();
+          }}
+          placeholder="찾을 내용"
+          aria-label="찾을 내용"
+          style={{ padding: '6px 8px', borderRadius: 6, border: '1px solid #cbd5e1', minWidth: 180 }}
+        />
+        <span style={{ color: error ? '#b00020' : '#555', fontVariantNumeric: 'tabular-nums' }}>
+          {error ?? (query ? `${matchIndex >= 0 ? matchIndex + 1 : 0}/${matchCount}` : '')}
+        </span>
+        <button
+          type="button"
+          onClick={onPrev}
+          disabled={!hasMatches}
+          style={{
+            padding: '6px 10px',
+            borderRadius: 8,
+            border: '1px solid #ccc',
+            background: '#f8f8f8',
+            color: '#111',
+            cursor: hasMatches ? 'pointer' : 'not-allowed',
+            opacity: hasMatches ? 1 : 0.5,
+          }}
+        >
+          이전
+        </button>
+        <button
+          type="button"
+          onClick={onNext}
+          disabled={!hasMatches}
+          style={{
+            padding: '6px 10px',
+            borderRadius: 8,
+            border: '1px solid #ccc',
+            background: '#f8f8f8',
+            color: '#111',
+            cursor: hasMatches ? 'pointer' : 'not-allowed',
+            opacity: hasMatches ? 1 : 0.5,
+          }}
+        >
+          다음
+        </button>
+        <label style={{ display: 'inline-flex', alignItems: 'center', gap: 6 }}>
+          <input
+            type="checkbox"
+            checked={options.ignoreCase}
+            onChange={(event) => onOptionsChange({ ...options, ignoreCase: event.target.checked })}
+          />
+          대소문자 무시
+        </label>
+        <label style={{ display: 'inline-flex', alignItems: 'center', gap: 6 }}>
+          <input
+            type="checkbox"
+            checked={options.regex}
+            onChange={(event) => onOptionsChange({ ...options, regex: event.target.checked })}
+          />
+          정규식
+        </label>
+      </div>
+
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8, flexWrap: 'wrap', fontSize: 13 }}>
+        <input
+          type="text"
+          data-hotkeys="off"
+          value={replacement}
+          onChange={(event) => onReplacementChange(event.target.value)}
+          placeholder={options.regex ? '바꿀 내용 ($1로 그룹 참조)' : '바꿀 내용'}
+          aria-label="바꿀 내용"
+          style={{ padding: '6px 8px', borderRadius: 6, border: '1px solid #cbd5e1', minWidth: 180 }}
+        />
+        <button
+          type="button"
+          onClick={() => onReplacePreviewOpenChange(!isReplacePreviewOpen)}
+          disabled={!hasMatches && !isReplacePreviewOpen}
+          style={{
+            padding: '6px 10px',
+            borderRadius: 8,
+            border: '1px solid #ccc',
+            background: '#f8f8f8',
+            color: '#111',
+            cursor: hasMatches || isReplacePreviewOpen ? 'pointer' : 'not-allowed',
+            opacity: hasMatches || isReplacePreviewOpen ? 1 : 0.5,
+          }}
+        >
+          {isReplacePreviewOpen ? '미리보기 닫기' : '모두 바꾸기 미리보기'}
+        </button>
+      </div>
+
+      {replacePreview ? (
+        <div
+          style={{
+            padding: 12,
+            borderRadius: 8,
+            border: '1px solid #e6e6e6',
+            background: '#fafafa',
+            display: 'grid',
+            gap: 8,
+            fontSize: 13,
+          }}
+        >
+          <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+            <strong>
+              {changeCount > 0 ? `자막 ${changeCount}개가 바뀌어요.` : '바뀌는 자막이 없어요.'}
+            </strong>
+            <div style={{ flex: 1 }} />
+            <button
+              type="button"
+              onClick={onApplyReplace}
+              disabled={changeCount === 0}
+              style={{
+                padding: '6px 10px',
+                borderRadius: 8,
+                border: '1px solid #ccc',
+                background: '#f8f8f8',
+                color: '#111',
+                cursor: changeCount > 0 ? 'pointer' : 'not-allowed',
+                opacity: changeCount > 0 ? 1 : 0.5,
+              }}
+            >
+              모두 바꾸기
+            </button>
+          </div>
+          {changeCount > 0 ? (
+            <ul
+              style={{
+                margin: 0,
+                paddingLeft: 18,
+                maxHeight: 200,
+                overflowY: 'auto',
+                display: 'grid',
+                gap: 4,
+              }}
+            >
+              {replacePreview.map((change) => (
+                <li key={change.captionId}>
+                  <span style={{ fontVariantNumeric: 'tabular-nums', fontWeight: 600 }}>
+                    {formatSeconds(change.startMs)}s
+                  </span>{' '}
+                  <span style={{ color: '#b00020', textDecoration: 'line-through', whiteSpace: 'pre-wrap' }}>
+                    {change.before}
+                  </span>{' '}
+                  →{' '}
+                  <span style={{ color: '#166534', whiteSpace: 'pre-wrap' }}>{change.after}</span>
+                </li>
+              ))}
+            </ul>
+          ) : null}
+        </div>
+      ) : null}
+    </section>
+  );
+}
@@ -0,0 +1,225 @@
+import type { SpeechDetectionOptions, SpeechSegment } from '@/lib/speechSegments';
+
+import { formatSeconds } from '../utils';
+
+import type { CaptionSmartSnapMark, CaptionSmartSnapSettings, CaptionSpeechSeedReport } from '../types';
+import type { CSSProperties } from 'react';
+
+type CaptionSpeechPanelProps = {
+  options: SpeechDetectionOptions;
+  segments: SpeechSegment[] | null;
+  isDetecting: boolean;
+  error: string | null;
+  report: CaptionSpeechSeedReport | null;
+  onOptionsChange: (options: SpeechDetectionOptions) => void;
+  onDetect: () => void;
+  onCreateCaptions: () => void;
+  onSeek: (startMs: number) => void;
+  onDismissReport: () => void;
+  smartSnapSettings: CaptionSmartSnapSettings;
+  smartSnapMark: CaptionSmartSnapMark | null;
+  onSmartSnapSettingsChange: (settings: CaptionSmartSnapSettings) => void;
+};
+
+const OPTION_FIELDS: { key: keyof SpeechDetectionOptions; label: string; unit: string; min: number; max: number; step: number }[] = [
+  { key: 'thresholdDb', label: '문턱', unit: 'dB', min: -80, max: 0, step: 1 },
+  { key: 'minSilenceMs', label: '최소 쉼', unit: 'ms', min: 0, max: 5000, step: 50 },
+  { key: 'paddingMs', label: '앞뒤 여유', unit: 'ms', min: 0, max: 2000, step: 10 },
+  { key: 'minSpeechMs', label: '최소 길이', unit: 'ms', min: 0, max: 5000, step: 50 },
+];
+
+const PREVIEW_LIMIT = 20;
+
+const INPUT_STYLE: CSSProperties = {
+  padding: '6px 8px',
+  borderRadius: 6,
+  border: '1px solid #cbd5e1',
+  width: 80,
+};
+
+function getButtonStyle(enabled: boolean) {
+  return {
+    padding: '6px 10px',
+    borderRadius: 8,
+    border: '1px solid #ccc',
+    background: '#f8f8f8',
+    color: '#111',
+    cursor: enabled ? 'pointer' : 'not-allowed',
+    opacity: enabled ? 1 : 0.5,
+  };
+}
+
+export function CaptionSpeechPanel({
+  options,
+  segments,
+  isDetecting,
+  error,
+  report,
+  onOptionsChange,
+  onDetect,
+  onCreateCaptions,
+  onSeek,
+  onDismissReport,
+  smartSnapSettings,
+  smartSnapMark,
+  onSmartSnapSettingsChange,
+}: CaptionSpeechPanelProps) {
+  const canCreate = !isDetecting && (segments?.length ?? 0) > 0;
+  const speechMs = segments?.reduce((sum, segment) => sum + (segment.endMs - segment.startMs), 0) ?? 0;
+
+  return (
+    <section
+      style={{
+        padding: 16,
+        borderRadius: 10,
+        border: '1px solid #e6e6e6',
+        background: '#fff',
+        display: 'grid',
+        gap: 10,
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8, flexWrap: 'wrap', fontSize: 13 }}>
+        <h3 style={{ margin: 0 }}>음성 구간</h3>
+        <span style={{ color: '#555' }}>오디오에서 말소리가 있는 구간을 찾아 빈 자막으로 채워요.</span>
+        <div style={{ flex: 1 }} />
+        <button type="button" onClick={onDetect} disabled={isDetecting} style={getButtonStyle(!isDetecting)}>
+          {isDetecting ? '찾는 중…' : '음성 구간 찾기'}
+        </button>
+        <button type="button" onClick={onCreateCaptions} disabled={!canCreate} style={getButtonStyle(canCreate)}>
+          빈 자막 만들기{segments ? `(${segments.length}개)` : ''}
+        </button>
+      </div>
+
+      <div style={{ display: 'flex', alignItems: 'center', gap: 12, flexWrap: 'wrap', fontSize: 13 }}>
+        {OPTION_FIELDS.map((field) => (
+          <label key={field.key} style={{ display: 'inline-flex', alignItems: 'center', gap: 6 }}>
+            {field.label}
+            <input
+              type="number"
+              min={field.min}
+              max={field.max}
+              step={field.step}
+              value={options[field.key]}
+              onChange={(event) => {
+                const value = Number(event.target.value);
+                if (!Number.isFinite(value)) return;
+                onOptionsChange({ ...options, [field.key]: Math.min(field.max, Math.max(field.min, value)) });
+              }}
+              style={INPUT_STYLE}
+            />
+            {field.unit}
+          </label>
+        ))}
+      </div>
+
+      <div style={{ display: 'flex', alignItems: 'center', gap: 12, flexWrap: 'wrap', fontSize: 13 }}>
+        <label style={{ display: 'inline-flex', alignItems: 'center', gap: 6 }}>
+          <input
+            type="checkbox"
+            checked={smartSnapSettings.enabled}
+            onChange={(event) => onSmartSnapSettingsChange({ ...smartSnapSettings, enabled: event.target.checked })}
+          />
+          스마트 스냅
+        </label>
+        <label style={{ display: 'inline-flex', alignItems: 'center', gap: 6 }}>
+          찾는 범위 ±
+          <input
+            type="number"
+            min={50}
+            max={2000}
+            step={50}
+            value={smartSnapSettings.windowMs}
+            onChange={(event) => {
+              const value = Number(event.target.value);
+              if (!Number.isFinite(value)) return;
+              onSmartSnapSettingsChange({ ...smartSnapSettings, windowMs: Math.min(2000, Math.max(50, value)) });
+            }}
+            style={INPUT_STYLE}
+          />
+          ms
+        </label>
+        <span style={{ color: '#555' }}>
+          {`시작/종료 설정 단축키로 찍은 시간을 가까운 말소리 시작/끝으로 옮겨요. 입력칸 밖에서 Shift를 누른 채 누르면 그 한 번은 옮기지 않아요. 켜 두면 재생을 시작할 때 오디오를 읽고, 다 읽기 전에 찍은 시간은 읽는 대로 옮겨요.`}
+        </span>
+      </div>
+      {smartSnapMark ? (
+        <span style={{ color: '#047857', fontSize: 13, fontVariantNumeric: 'tabular-nums' }}>
+          {`마지막 스냅: ${smartSnapMark.field === 'startMs' ? '시작' : '종료'} ${formatSeconds(smartSnapMark.fromMs)}s → ${formatSeconds(smartSnapMark.toMs)}s (${smartSnapMark.toMs >= smartSnapMark.fromMs ? '+' : '−'}${Math.abs(smartSnapMark.toMs - smartSnapMark.fromMs)}ms)`}
+        </span>
+      ) : null}
+
+      {error ? <p style={{ margin: 0, color: '#b00020', fontSize: 13 }}>{error}</p> : null}
+
+      {segments ? (
+        <div style={{ display: 'grid', gap: 6, fontSize: 13 }}>
+          <span style={{ color: '#555' }}>
+            {segments.length > 0
+              ? `음성 구간 ${segments.length}개, 모두 ${formatSeconds(speechMs)}초를 찾았어요.`
+              : '음성 구간을 찾지 못했어요. 문턱을 낮춰 다시 찾아보세요.'}
+          </span>
+          {segments.length > 0 ? (
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: 6 }}>
+              {segments.slice(0, PREVIEW_LIMIT).map((segment) => (
+                <button
+                  key={segment.startMs}
+                  type="button"
+                  onClick={() => onSeek(segment.startMs)}
+                  style={{
+                    padding: '2px 6px',
+                    borderRadius: 6,
+                    border: '1px solid #e6e6e6',
+                    background: '#fafafa',
+                    color: '#111',
+                    cursor: 'pointer',
+                    fontVariantNumeric: 'tabular-nums',
+                  }}
+                >
+                  {formatSeconds(segment.startMs)}s–{formatSeconds(segment.endMs)}s
+                </button>
+              ))}
+              {segments.length > PREVIEW_LIMIT ? (
+                <span style={{ color: '#555' }}>{`외 ${segments.length - PREVIEW_LIMIT}개`}</span>
+              ) : null}
+            </div>
+          ) : null}
+        </div>
+      ) : null}
+
+      {report ? (
+        <div
+          style={{
+            padding: 12,
+            borderRadius: 8,
+            border: report.skippedCount > 0 ? '1px solid #f5d48a' : '1px solid #e6e6e6',
+            background: report.skippedCount > 0 ? '#fffbeb' : '#fafafa',
+            color: report.skippedCount > 0 ? '#7a4b00' : '#111',
+            display: 'flex',
+            alignItems: 'center',
+            gap: 8,
+            fontSize: 13,
+          }}
+        >
+          <strong>
+            {report.createdCount > 0 ? `빈 자막 ${report.createdCount}개를 만들었어요.` : '새로 만든 자막이 없어요.'}
+            {report.skippedCount > 0 ? ` ${report.skippedCount}개 구간은 기존 자막과 겹쳐서 건너뛰었어요.` : ''}
+          </strong>
+          <div style={{ flex: 1 }} />
+          <button
+            type="button"
+            onClick={onDismissReport}
+            style={{
+              padding: '4px 8px',
+              borderRadius: 6,
+              border: '1px solid currentColor',
+              background: 'transparent',
+              color: 'inherit',
+              cursor: 'pointer',
+            }}
+          >
+            닫기
+          </button>
+        </div>
+      ) : null}
+    </section>
+  );
+}
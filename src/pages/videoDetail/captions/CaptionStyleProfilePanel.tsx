@@ -0,0 +1,241 @@
+import { useMemo, useRef, useState } from 'react';
+
+import { CAPTION_STYLE_PROFILE_PRESETS } from '../constants';
+
+import { compileAllowedChars, isSameCaptionStyleProfile } from './captionProfiles';
+
+import type { CaptionStyleProfile } from '../types';
+import type { CaptionStyleProfileThresholdKey } from './captionProfiles';
+import type { CSSProperties } from 'react';
+
+type CaptionStyleProfilePanelProps = {
+  profile: CaptionStyleProfile;
+  customProfiles: CaptionStyleProfile[];
+  error: string | null;
+  onChange: (profile: CaptionStyleProfile) => void;
+  onSaveCustom: (name: string) => void;
+  onUpdateCustom: () => void;
+  onDeleteCustom: (profileId: string) => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+};
+
+const THRESHOLD_FIELDS: { key: CaptionStyleProfileThresholdKey; label: string }[] = [
+  { key: 'maxCps', label: '초당 글자 수 최대' },
+  { key: 'maxWpm', label: '분당 단어(어절) 수 최대' },
+  { key: 'maxCharsPerLine', label: '한 줄 글자 수 최대' },
+  { key: 'maxLines', label: '줄 수 최대' },
+  { key: 'minDurationMs', label: '표시 시간 최소(ms)' },
+  { key: 'maxDurationMs', label: '표시 시간 최대(ms)' },
+  { key: 'minGapFrames', label: '자막 사이 간격 최소(프레임)' },
+];
+
+const BUTTON_STYLE: CSSProperties = {
+  padding: '6px 10px',
+  borderRadius: 8,
+  border: '1px solid #ccc',
+  background: '#f8f8f8',
+  color: '#111',
+  cursor: 'pointer',
+};
+
+const INPUT_STYLE: CSSProperties = {
+  padding: '6px 8px',
+  borderRadius: 6,
+  border: '1px solid #cbd5e1',
+};
+
+// 빈 칸은 규칙을 끈다(null).
+function parseLimit(raw: string) {
+  if (raw.trim() === '') return null;
+  const parsed = Number(raw);
+  return Number.isFinite(parsed) ? Math.max(0, parsed) : null;
+}
+
+export function CaptionStyleProfilePanel({
+  profile,
+  customProfiles,
+  error,
+  onChange,
+  onSaveCustom,
+  onUpdateCustom,
+  onDeleteCustom,
+  onExport,
+  onImport,
+}: CaptionStyleProfilePanelProps) {
+  const [customName, setCustomName] = useState('');
+  const importInputRef = useRef<HTMLInputElement | null>(null);
+
+  const library = useMemo(() => [...CAPTION_STYLE_PROFILE_PRESETS, ...customProfiles], [customProfiles]);
+  const source = library.find((item) => item.id === profile.id) ?? null;
+  const isModified = source ? !isSameCaptionStyleProfile(source, profile) : false;
+  const isCustom = customProfiles.some((item) => item.id === profile.id);
+
+  const allowedCharsError = useMemo(() => {
+    try {
+      compileAllowedChars(profile.allowedChars);
+      return null;
+    } catch (err) {
+      return err instanceof Error ? err.message : String(err);
+    }
+  }, [profile.allowedChars]);
+
+  const trimmedName = customName.trim();
+
+  return (
+    <div style={{ display: 'grid', gap: 8 }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8, flexWrap: 'wrap', fontSize: 13 }}>
+        <strong style={{ fontSize: 14, color: '#111' }}>스타일 가이드</strong>
+        <select
+          value={profile.id}
+          onChange={(e) => {
+            const next = library.find((item) => item.id === e.target.value);
+            if (next) onChange(next);
+          }}
+          aria-label="스타일 가이드 프로필"
+          style={INPUT_STYLE}
+        >
+          <optgroup label="기본 제공">
+            {CAPTION_STYLE_PROFILE_PRESETS.map((item) => (
+              <option key={item.id} value={item.id}>
+                {item.name}
+              </option>
+            ))}
+          </optgroup>
+          {customProfiles.length > 0 ? (
+            <optgroup label="사용자 프로필">
+              {customProfiles.map((item) => (
+                <option key={item.id} value={item.id}>
+                  {item.name}
+                </option>
+              ))}
+            </optgroup>
+          ) : null}
+          {!source ? <option value={profile.id}>{`${profile.name} (이 영상에만 저장됨)`}</option> : null}
+        </select>
+        {isModified ? <span style={{ color: '#7a4b00' }}>이 영상에서 수정됨</span> : null}
+        {isModified && source ? (
+          <button type="button" onClick={() => onChange(source)} style={BUTTON_STYLE}>
+            원래 값으로
+          </button>
+        ) : null}
+        {isModified && isCustom ? (
+          <button type="button" onClick={onUpdateCustom} style={BUTTON_STYLE}>
+            사용자 프로필에 덮어쓰기
+          </button>
+        ) : null}
+        {isCustom ? (
+          <button type="button" onClick={() => onDeleteCustom(profile.id)} style={BUTTON_STYLE}>
+            사용자 프로필 삭제
+          </button>
+        ) : null}
+      </div>
+
+      <details>
+        <summary style={{ cursor: 'pointer', fontSize: 13, color: '#333' }}>규칙 편집</summary>
+        <div style={{ display: 'grid', gap: 8, marginTop: 8, fontSize: 13 }}>
+          <div
+            style={{
+              display: 'grid',
+              gridTemplateColumns: 'minmax(160px, auto) 90px 90px',
+              gap: 6,
+              alignItems: 'center',
+              width: 'fit-content',
+            }}
+          >
+            <span />
+            <span style={{ color: '#7a4b00' }}>경고</span>
+            <span style={{ color: '#b00020' }}>오류</span>
+            {THRESHOLD_FIELDS.map(({ key, label }) => (
+              <div key={key} style={{ display: 'contents' }}>
+                <span>{label}</span>
+                {(['warning', 'error'] as const).map((level) => (
+                  <input
+                    key={level}
+                    type="number"
+                    min={0}
+                    value={profile[key][level] ?? ''}
+                    onChange={(e) =>
+                      onChange({ ...profile, [key]: { ...profile[key], [level]: parseLimit(e.target.value) } })
+                    }
+                    placeholder="끔"
+                    aria-label={`${label} ${level === 'warning' ? '경고' : '오류'}`}
+                    style={{ ...INPUT_STYLE, width: '100%', boxSizing: 'border-box' }}
+                  />
+                ))}
+              </div>
+            ))}
+          </div>
+          <label style={{ display: 'grid', gap: 4 }}>
+            <span>허용 문자 (정규식 문자 클래스, 비우면 검사하지 않음)</span>
+            <input
+              type="text"
+              // [, ] 같은 편집 단축키 대신 글자를 그대로 입력한다.
+              data-hotkeys="off"
+              value={profile.allowedChars ?? ''}
+              onChange={(e) => onChange({ ...profile, allowedChars: e.target.value || null })}
+              placeholder="예: \p{Script=Hangul}\p{N} .,?!"
+              style={{ ...INPUT_STYLE, fontFamily: 'monospace' }}
+            />
+            {allowedCharsError ? <span style={{ color: '#b00020' }}>{allowedCharsError}</span> : null}
+          </label>
+        </div>
+      </details>
+
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8, flexWrap: 'wrap', fontSize: 13 }}>
+        <input
+          type="text"
+          data-hotkeys="off"
+          value={customName}
+          onChange={(e) => setCustomName(e.target.value)}
+          placeholder="새 프로필 이름"
+          aria-label="새 프로필 이름"
+          style={{ ...INPUT_STYLE, minWidth: 160 }}
+        />
+        <button
+          type="button"
+          onClick={() => {
+            onSaveCustom(trimmedName);
+            setCustomName('');
+          }}
+          disabled={!trimmedName}
+          style={{
+            ...BUTTON_STYLE,
+            cursor: trimmedName ? 'pointer' : 'not-allowed',
+            opacity: trimmedName ? 1 : 0.5,
+          }}
+        >
+          현재 규칙을 사용자 프로필로 저장
+        </button>
+        <button
+          type="button"
+          onClick={onExport}
+          disabled={customProfiles.length === 0}
+          style={{
+            ...BUTTON_STYLE,
+            cursor: customProfiles.length > 0 ? 'pointer' : 'not-allowed',
+            opacity: customProfiles.length > 0 ? 1 : 0.5,
+          }}
+        >
+          사용자 프로필 내보내기 (JSON)
+        </button>
+        <button type="button" onClick={() => importInputRef.current?.click()} style={BUTTON_STYLE}>
+          프로필 불러오기 (JSON)
+        </button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept="application/json,.json"
+          style={{ display: 'none' }}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onImport(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {error ? <p style={{ margin: 0, color: '#b00020', fontSize: 13 }}>{error}</p> : null}
+    </div>
+  );
+}
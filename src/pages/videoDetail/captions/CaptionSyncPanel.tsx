@@ -0,0 +1,260 @@
+import { formatMsWithSeconds, formatSeconds } from '../utils';
+
+import type {
+  Caption,
+  CaptionSyncPoint,
+  CaptionSyncPointKey,
+  CaptionSyncPreview,
+  CaptionSyncScope,
+} from '../types';
+
+type CaptionSyncPanelProps = {
+  captions: Caption[];
+  points: Record<CaptionSyncPointKey, CaptionSyncPoint | null>;
+  scope: CaptionSyncScope;
+  selectedCount: number;
+  preview: CaptionSyncPreview | null;
+  onScopeChange: (scope: CaptionSyncScope) => void;
+  onMarkPoint: (key: CaptionSyncPointKey) => void;
+  onCapturePoint: (key: CaptionSyncPointKey) => void;
+  onApply: () => void;
+  onReset: () => void;
+};
+
+const POINT_LABELS: Record<CaptionSyncPointKey, string> = {
+  first: '기준점 1',
+  second: '기준점 2',
+};
+
+function describeCaption(caption: Caption | undefined) {
+  if (!caption) return '지정한 자막이 없어요';
+  const text = caption.text.trim().replace(/\s+/g, ' ');
+  const preview = text.length > 24 ? `${text.slice(0, 24)}…` : text || '(내용 없음)';
+  return `${formatSeconds(caption.startMs)}s · ${preview}`;
+}
+
+export function CaptionSyncPanel({
+  captions,
+  points,
+  scope,
+  selectedCount,
+  preview,
+  onScopeChange,
+  onMarkPoint,
+  onCapturePoint,
+  onApply,
+  onReset,
+}: CaptionSyncPanelProps) {
+  const hasBlockingIssue = preview?.issues.some((issue) => issue.blocking) ?? false;
+  const canApply = preview !== null && !hasBlockingIssue;
+  const originalById = new Map(captions.map((caption) => [caption.id, caption]));
+  const previewRows = preview
+    ? preview.captions.filter((caption) => preview.targetIds.has(caption.id))
+    : [];
+
+  return (
+    <section
+      style={{
+        padding: 16,
+        borderRadius: 10,
+        border: '1px solid #e6e6e6',
+        background: '#fff',
+        display: 'grid',
+        gap: 10,
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8, flexWrap: 'wrap' }}>
+        <h3 style={{ margin: 0 }}>두 점 싱크 보정</h3>
+        <span style={{ fontSize: 12, color: '#555' }}>
+          점점 밀리는 자막은 두 자막의 올바른 시작 위치를 재생 위치로 잡아 한 번에 맞춰요.
+        </span>
+        <div style={{ flex: 1 }} />
+        <button
+          type="button"
+          onClick={onReset}
+          style={{
+            padding: '6px 10px',
+            borderRadius: 8,
+            border: '1px solid #ccc',
+            background: '#f8f8f8',
+            color: '#111',
+            cursor: 'pointer',
+          }}
+        >
+          초기화
+        </button>
+      </div>
+
+      {(Object.keys(POINT_LABELS) as CaptionSyncPointKey[]).map((key) => {
+        const point = points[key];
+        const caption = point ? originalById.get(point.captionId) : undefined;
+        return (
+          <div
+            key={key}
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: 8,
+              flexWrap: 'wrap',
+              padding: '8px 10px',
+              borderRadius: 8,
+              border: '1px solid #e2e8f0',
+              fontSize: 13,
+            }}
+          >
+            <strong style={{ minWidth: 64 }}>{POINT_LABELS[key]}</strong>
+            <span style={{ flex: 1, minWidth: 160, color: caption ? '#111' : '#999' }}>
+              {describeCaption(caption)}
+            </span>
+            <span style={{ fontVariantNumeric: 'tabular-nums', color: '#555' }}>
+              → {point?.targetMs != null ? formatMsWithSeconds(point.targetMs) : '올바른 시작 미지정'}
+            </span>
+            <button
+              type="button"
+              onClick={() => onMarkPoint(key)}
+              style={{
+                padding: '6px 10px',
+                borderRadius: 6,
+                border: '1px solid #ccc',
+                background: '#f7f7f7',
+                color: '#111',
+                cursor: 'pointer',
+              }}
+            >
+              현재 자막 지정
+            </button>
+            <button
+              type="button"
+              onClick={() => onCapturePoint(key)}
+              disabled={!caption}
+              style={{
+                padding: '6px 10px',
+                borderRadius: 6,
+                border: '1px solid #ccc',
+                background: '#f7f7f7',
+                color: '#111',
+                cursor: caption ? 'pointer' : 'not-allowed',
+                opacity: caption ? 1 : 0.5,
+              }}
+            >
+              현재 재생 위치로 설정
+            </button>
+          </div>
+        );
+      })}
+
+      <div style={{ display: 'flex', alignItems: 'center', gap: 12, flexWrap: 'wrap', fontSize: 13 }}>
+        <label style={{ display: 'inline-flex', alignItems: 'center', gap: 6 }}>
+          <input
+            type="radio"
+            name="caption-sync-scope"
+            checked={scope === 'all'}
+            onChange={() => onScopeChange('all')}
+          />
+          전체 자막
+        </label>
+        <label style={{ display: 'inline-flex', alignItems: 'center', gap: 6 }}>
+          <input
+            type="radio"
+            name="caption-sync-scope"
+            checked={scope === 'selected'}
+            disabled={selectedCount === 0}
+            onChange={() => onScopeChange('selected')}
+          />
+          선택한 자막({selectedCount}개)
+        </label>
+        {preview ? (
+          <span style={{ color: '#555', fontVariantNumeric: 'tabular-nums' }}>
+            배율 ×{preview.transform.scale.toFixed(5)} · 오프셋 {Math.round(preview.transform.offsetMs)}ms
+          </span>
+        ) : (
+          <span style={{ color: '#999' }}>
+            두 기준점의 자막과 올바른 시작을 모두 지정하면 미리보기가 나와요.
+          </span>
+        )}
+        <div style={{ flex: 1 }} />
+        <button
+          type="button"
+          onClick={onApply}
+          disabled={!canApply}
+          style={{
+            padding: '9px 12px',
+            borderRadius: 8,
+            border: '1px solid #ccc',
+            background: '#f8f8f8',
+            color: '#111',
+            cursor: canApply ? 'pointer' : 'not-allowed',
+            opacity: canApply ? 1 : 0.5,
+          }}
+        >
+          보정 적용
+        </button>
+      </div>
+
+      {preview && preview.issues.length > 0 ? (
+        <ul
+          style={{
+            margin: 0,
+            padding: '8px 8px 8px 26px',
+            borderRadius: 8,
+            border: hasBlockingIssue ? '1px solid #f2c4c4' : '1px solid #f5d48a',
+            background: hasBlockingIssue ? '#fff6f6' : '#fffbeb',
+            color: hasBlockingIssue ? '#b00020' : '#7a4b00',
+            fontSize: 13,
+            display: 'grid',
+            gap: 2,
+          }}
+        >
+          {preview.issues.map((issue, index) => (
+            <li key={`${issue.captionId}-${index}`}>
+              <span style={{ fontVariantNumeric: 'tabular-nums', fontWeight: 600 }}>
+                {Number.isFinite(issue.startMs) ? `${formatSeconds(issue.startMs)}s` : '시간 없음'}
+              </span>{' '}
+              {issue.message}
+            </li>
+          ))}
+        </ul>
+      ) : null}
+
+      {previewRows.length > 0 ? (
+        <table
+          style={{
+            width: '100%',
+            borderCollapse: 'collapse',
+            fontSize: 12,
+            fontVariantNumeric: 'tabular-nums',
+            display: 'block',
+            maxHeight: 200,
+            overflowY: 'auto',
+          }}
+        >
+          <thead>
+            <tr style={{ color: '#555', textAlign: 'left' }}>
+              <th style={{ padding: '4px 8px' }}>자막</th>
+              <th style={{ padding: '4px 8px' }}>시작</th>
+              <th style={{ padding: '4px 8px' }}>종료</th>
+            </tr>
+          </thead>
+          <tbody>
+            {previewRows.map((caption) => {
+              const original = originalById.get(caption.id);
+              return (
+                <tr key={caption.id} style={{ borderTop: '1px solid #f0f0f0' }}>
+                  <td style={{ padding: '4px 8px', maxWidth: 240, overflow: 'hidden', whiteSpace: 'nowrap', textOverflow: 'ellipsis' }}>
+                    {caption.text.trim() || '(내용 없음)'}
+                  </td>
+                  <td style={{ padding: '4px 8px' }}>
+                    {formatSeconds(original?.startMs ?? Number.NaN)}s → {formatSeconds(caption.startMs)}s
+                  </td>
+                  <td style={{ padding: '4px 8px' }}>
+                    {formatSeconds(original?.endMs ?? Number.NaN)}s → {formatSeconds(caption.endMs)}s
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      ) : null}
+    </section>
+  );
+}
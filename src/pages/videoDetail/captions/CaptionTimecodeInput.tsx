@@ -0,0 +1,66 @@
+import { useState } from 'react';
+
+import { formatTimecode, nudgeMsByFrames, parseTimecode, supportsDropFrame } from '@/lib/timecode';
+
+import type { CaptionTimecodeSettings } from '../types';
+
+type CaptionTimecodeInputProps = {
+  valueMs: number;
+  settings: CaptionTimecodeSettings;
+  ariaLabel: string;
+  // 기존 ms 입력칸과 같은 경로(handleCaptionFieldChange)로 넘기도록 ms 문자열을 준다. 비우면 ''.
+  onChange: (value: string) => void;
+  onFocus: () => void;
+};
+
+function getTimecodePlaceholder(settings: CaptionTimecodeSettings) {
+  if (settings.format === 'milliseconds') return 'HH:MM:SS.mmm';
+  return settings.dropFrame && supportsDropFrame(settings.frameRate) ? 'HH:MM:SS;FF' : 'HH:MM:SS:FF';
+}
+
+export function CaptionTimecodeInput({ valueMs, settings, ariaLabel, onChange, onFocus }: CaptionTimecodeInputProps) {
+  // 입력 중에는 친 글자를 그대로 두고, 해석되는 값만 바로 반영한다. 포커스를 잃으면 타임코드로 다시 보여준다.
+  const [draft, setDraft] = useState<string | null>(null);
+  const isInvalid = draft !== null && draft.trim() !== '' && parseTimecode(draft, settings) === null;
+
+  return (
+    <input
+      type="text"
+      data-caption-field="true"
+      inputMode="numeric"
+      spellCheck={false}
+      value={draft ?? formatTimecode(valueMs, settings)}
+      onChange={(e) => {
+        const text = e.target.value;
+        setDraft(text);
+        if (text.trim() === '') {
+          onChange('');
+          return;
+        }
+        const parsed = parseTimecode(text, settings);
+        if (parsed !== null) onChange(String(parsed));
+      }}
+      onKeyDown={(e) => {
+        if (e.key !== 'ArrowUp' && e.key !== 'ArrowDown') return;
+        e.preventDefault();
+        const frames = (e.key === 'ArrowUp' ? 1 : -1) * (e.shiftKey ? 10 : 1);
+        const base = Number.isFinite(valueMs) ? valueMs : 0;
+        setDraft(null);
+        onChange(String(nudgeMsByFrames(base, frames, settings.frameRate)));
+      }}
+      onFocus={onFocus}
+      onBlur={() => setDraft(null)}
+      placeholder={getTimecodePlaceholder(settings)}
+      aria-label={ariaLabel}
+      aria-invalid={isInvalid}
+      title="↑/↓로 1프레임, Shift를 함께 누르면 10프레임씩 옮겨요. 숫자만 입력하면 ms로 읽어요."
+      style={{
+        padding: '8px 10px',
+        borderRadius: 6,
+        border: isInvalid ? '1px solid #b00020' : '1px solid #ccc',
+        fontVariantNumeric: 'tabular-nums',
+        width: 140,
+      }}
+    />
+  );
+}
@@ -0,0 +1,95 @@
+import { supportsDropFrame } from '@/lib/timecode';
+
+import { CAPTION_FRAME_RATE_FPS } from '../constants';
+import { findCaptionFrameRateId } from '../utils';
+
+import type { CaptionFrameRateId, CaptionTimecodeSettings } from '../types';
+import type { CSSProperties } from 'react';
+
+type CaptionTimecodeSettingsPanelProps = {
+  settings: CaptionTimecodeSettings;
+  error: string | null;
+  onChange: (settings: CaptionTimecodeSettings) => void;
+};
+
+const FRAME_RATE_IDS = Object.keys(CAPTION_FRAME_RATE_FPS) as CaptionFrameRateId[];
+
+const INPUT_STYLE: CSSProperties = {
+  padding: '6px 8px',
+  borderRadius: 6,
+  border: '1px solid #cbd5e1',
+};
+
+const LABEL_STYLE: CSSProperties = {
+  display: 'inline-flex',
+  alignItems: 'center',
+  gap: 6,
+  fontSize: 13,
+  color: '#111',
+};
+
+export function CaptionTimecodeSettingsPanel({ settings, error, onChange }: CaptionTimecodeSettingsPanelProps) {
+  const matchedRate = findCaptionFrameRateId(settings.frameRate);
+  const canDropFrame = supportsDropFrame(settings.frameRate);
+
+  return (
+    <div style={{ display: 'grid', gap: 6 }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 12, flexWrap: 'wrap' }}>
+        <strong style={{ fontSize: 14, color: '#111' }}>타임코드</strong>
+        <span style={{ fontSize: 12, color: '#555' }}>
+          시간은 ms로 저장하고 화면에서만 타임코드로 보여줘요. 입력칸에서 ↑/↓로 1프레임씩 옮길 수 있어요.
+        </span>
+        <div style={{ flex: 1 }} />
+        <label style={LABEL_STYLE}>
+          프레임레이트
+          <select
+            value={matchedRate ?? 'custom'}
+            onChange={(e) => {
+              const next = FRAME_RATE_IDS.find((id) => id === e.target.value);
+              if (next) onChange({ ...settings, frameRate: CAPTION_FRAME_RATE_FPS[next] });
+            }}
+            style={INPUT_STYLE}
+          >
+            {FRAME_RATE_IDS.map((id) => (
+              <option key={id} value={id}>
+                {id}fps
+              </option>
+            ))}
+            {!matchedRate ? <option value="custom">{`${Number(settings.frameRate.toFixed(3))}fps`}</option> : null}
+          </select>
+        </label>
+        <label style={LABEL_STYLE}>
+          표시 형식
+          <select
+            value={settings.format}
+            onChange={(e) =>
+              onChange({ ...settings, format: e.target.value as CaptionTimecodeSettings['format'] })
+            }
+            style={INPUT_STYLE}
+          >
+            <option value="milliseconds">HH:MM:SS.mmm</option>
+            <option value="frames">HH:MM:SS:FF (SMPTE)</option>
+          </select>
+        </label>
+        <label style={{ ...LABEL_STYLE, opacity: canDropFrame ? 1 : 0.5 }}>
+          <input
+            type="checkbox"
+            checked={canDropFrame && settings.dropFrame}
+            disabled={!canDropFrame}
+            onChange={(e) => onChange({ ...settings, dropFrame: e.target.checked })}
+          />
+          드롭 프레임
+        </label>
+        <label style={LABEL_STYLE}>
+          <input
+            type="checkbox"
+            checked={settings.snapToFrames}
+            onChange={(e) => onChange({ ...settings, snapToFrames: e.target.checked })}
+          />
+          프레임 경계에 맞추기
+        </label>
+      </div>
+      {error ? <p style={{ margin: 0, color: '#b00020', fontSize: 13 }}>{error}</p> : null}
+    </div>
+  );
+}
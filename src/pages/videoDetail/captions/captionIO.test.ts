@@ -0,0 +1,29 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { createCaptionExportTtml, getCaptionExportLanguage } from './captionIO';
+
+const captions = [{ id: 'a', startMs: 1000, endMs: 2000, text: 'Hello' }];
+const options = { applyTrimOnExport: false, trimRange: null };
+
+describe('createCaptionExportTtml', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('labels the document with the chosen caption language rather than the browser locale', () => {
+    vi.spyOn(navigator, 'language', 'get').mockReturnValue('ko-KR');
+
+    const ttml = createCaptionExportTtml(captions, options, null, 'imsc1-text', 'en');
+
+    expect(ttml).toContain('xml:lang="en"');
+    expect(ttml).not.toContain('ko-KR');
+  });
+
+  it('starts from the browser language when none is chosen', () => {
+    vi.spyOn(navigator, 'language', 'get').mockReturnValue('ko-KR');
+
+    expect(getCaptionExportLanguage()).toBe('ko-KR');
+    expect(createCaptionExportTtml(captions, options, null, 'dfxp')).toContain('xml:lang="ko-KR"');
+  });
+});
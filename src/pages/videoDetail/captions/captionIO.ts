@@ -1,12 +1,39 @@
-import { captionsToSrt, parseCaptionsFromJson, serializeCaptionsToJson } from '@/lib/captionIO';
+import { captionsToAss } from '@/lib/captionAss';
+import {
+  captionsToSbv,
+  captionsToSheet,
+  captionsToSrt,
+  captionsToTranscript,
+  captionsToVtt,
+  decodeTextFileBytes,
+  mergeCaptionsFromSheet,
+  parseCaptionJsonDocument,
+  parseCaptionsFromSrt,
+  parseCaptionsFromVtt,
+  serializeCaptionsToJson,
+} from '@/lib/captionIO';
+import type {
+  CaptionImportResult,
+  CaptionImportWarning,
+  CaptionSheetDelimiter,
+  TranscriptOptions,
+} from '@/lib/captionIO';
+import { breakCaptionsLines } from '@/lib/captionLineBreak';
+import type { CaptionLineBreakOptions } from '@/lib/captionLineBreak';
+import { captionsToScc } from '@/lib/captionScc';
+import { captionsToStl, isStlFile, parseCaptionsFromStl } from '@/lib/captionStl';
+import { captionsToTtml, parseCaptionsFromTtml, validateTtml } from '@/lib/captionTtml';
+import type { TtmlProfile } from '@/lib/captionTtml';
 
 import { autoAlignCaptions, sortCaptions } from '../utils';
 
-import type { Caption, TrimRange } from '../types';
+import type { Caption, TrimRange, Video } from '../types';
 
 type ExportOptions = {
   applyTrimOnExport: boolean;
   trimRange: TrimRange | null;
+  // 자막 파일 형식(SRT/VTT/ASS)에만 적용한다. null이면 입력한 줄바꿈을 그대로 쓴다.
+  lineBreak?: CaptionLineBreakOptions | null;
 };
 
 export function getCaptionsForExport(
@@ -37,21 +64,214 @@ export function getCaptionsForExport(
   return sortCaptions(trimmed);
 }
 
-export function createCaptionExportJson(captions: Caption[], options: ExportOptions) {
+export function createCaptionExportJson(
+  captions: Caption[],
+  options: ExportOptions,
+  video: Video | null | undefined,
+) {
   const captionsForExport = getCaptionsForExport(captions, options);
-  return serializeCaptionsToJson(captionsForExport);
+  const { trimRange } = options;
+  return serializeCaptionsToJson(captionsForExport, {
+    appVersion: import.meta.env.VITE_APP_VERSION || null,
+    video,
+    trim: trimRange
+      ? {
+          startMs: trimRange.startMs,
+          endMs: trimRange.endMs,
+          applied: options.applyTrimOnExport,
+        }
+      : null,
+  });
 }
 
-export function createCaptionExportSrt(captions: Caption[], options: ExportOptions) {
+function getWrappedCaptionsForExport(captions: Caption[], options: ExportOptions) {
   const captionsForExport = getCaptionsForExport(captions, options);
+  if (!options.lineBreak) return captionsForExport;
+  return breakCaptionsLines(captionsForExport, null, options.lineBreak).captions;
+}
+
+export function createCaptionExportSrt(captions: Caption[], options: ExportOptions) {
+  const captionsForExport = getWrappedCaptionsForExport(captions, options);
   return captionsToSrt(captionsForExport);
 }
 
+export function createCaptionExportVtt(captions: Caption[], options: ExportOptions) {
+  const captionsForExport = getWrappedCaptionsForExport(captions, options);
+  return captionsToVtt(captionsForExport);
+}
+
+export function createCaptionExportSbv(captions: Caption[], options: ExportOptions) {
+  const captionsForExport = getCaptionsForExport(captions, options);
+  return captionsToSbv(captionsForExport);
+}
+
+export function createCaptionExportTranscript(
+  captions: Caption[],
+  options: ExportOptions,
+  transcriptOptions: TranscriptOptions,
+) {
+  const captionsForExport = getCaptionsForExport(captions, options);
+  return captionsToTranscript(captionsForExport, transcriptOptions);
+}
+
+export function createCaptionExportSheet(
+  captions: Caption[],
+  options: ExportOptions,
+  delimiter: CaptionSheetDelimiter,
+) {
+  const captionsForExport = getCaptionsForExport(captions, options);
+  return captionsToSheet(captionsForExport, { delimiter, extraColumns: ['translation', 'note'] });
+}
+
+export function createCaptionExportScc(captions: Caption[], options: ExportOptions) {
+  const captionsForExport = getCaptionsForExport(captions, options);
+  return captionsToScc(captionsForExport);
+}
+
+export function createCaptionExportStl(
+  captions: Caption[],
+  options: ExportOptions,
+  video: Video | null | undefined,
+) {
+  const captionsForExport = getCaptionsForExport(captions, options);
+  return captionsToStl(captionsForExport, { title: video?.title });
+}
+
+export function getAssOptionsForVideo(video: Video | null | undefined) {
+  const hasSize =
+    typeof video?.width === 'number' &&
+    typeof video?.height === 'number' &&
+    video.width > 0 &&
+    video.height > 0;
+  return {
+    title: video?.title,
+    playResX: hasSize ? video.width : undefined,
+    playResY: hasSize ? video.height : undefined,
+  };
+}
+
+export function createCaptionExportAss(
+  captions: Caption[],
+  options: ExportOptions,
+  video: Video | null | undefined,
+) {
+  const captionsForExport = getWrappedCaptionsForExport(captions, options);
+  return captionsToAss(captionsForExport, getAssOptionsForVideo(video));
+}
+
+// 내보내기 자막 언어의 처음 값. 영상에 언어 정보가 없으므로 브라우저 언어로 시작하고, 내보낼 때 바꿀 수 있다.
+export function getCaptionExportLanguage() {
+  if (typeof navigator === 'undefined') return 'ko';
+  return navigator.language || 'ko';
+}
+
+export function createCaptionExportTtml(
+  captions: Caption[],
+  options: ExportOptions,
+  video: Video | null | undefined,
+  profile: TtmlProfile,
+  language = getCaptionExportLanguage(),
+) {
+  const captionsForExport = getCaptionsForExport(captions, options);
+  const ttml = captionsToTtml(captionsForExport, { profile, title: video?.title, language });
+  const issues = validateTtml(ttml, profile);
+  if (issues.length > 0) {
+    throw new Error(`TTML 구조 검사에 실패했어요.\n${issues.join('\n')}`);
+  }
+  return ttml;
+}
+
+export type CaptionImportFormat = 'json' | 'vtt' | 'srt' | 'ttml' | 'sheet';
+
+export function detectCaptionImportFormat(fileName: string, text: string): CaptionImportFormat {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'vtt') return 'vtt';
+  if (extension === 'srt') return 'srt';
+  if (extension === 'json') return 'json';
+  if (extension === 'ttml' || extension === 'dfxp' || extension === 'xml') return 'ttml';
+  if (extension === 'csv' || extension === 'tsv') return 'sheet';
+  // 확장자가 없거나 낯선 경우 내용으로 추정
+  if (/^\uFEFF?WEBVTT(?:[ \t\r\n]|$)/.test(text)) return 'vtt';
+  if (/^\uFEFF?\s*</.test(text)) return 'ttml';
+  if (/^\uFEFF?\s*[[{]/.test(text)) return 'json';
+  return 'srt';
+}
+
 export function parseCaptionJsonForPage(
   text: string,
   createCaptionId: () => string,
   gapMs: number,
+): CaptionImportResult {
+  const document = parseCaptionJsonDocument(text, createCaptionId);
+  const warnings: CaptionImportWarning[] = [];
+  if (document.trim?.applied) {
+    warnings.push({
+      line: 0,
+      message: '선택 구간만 내보낸 파일이라 자막 시간이 구간 시작(0초) 기준이에요.',
+    });
+  }
+  return { captions: autoAlignCaptions(document.captions, gapMs), warnings };
+}
+
+export function parseCaptionVttForPage(
+  text: string,
+  createCaptionId: () => string,
+  gapMs: number,
 ): Caption[] {
-  const imported = parseCaptionsFromJson(text, createCaptionId);
+  const imported = parseCaptionsFromVtt(text, createCaptionId);
   return autoAlignCaptions(imported, gapMs);
 }
+
+export function parseCaptionSrtForPage(
+  text: string,
+  createCaptionId: () => string,
+  gapMs: number,
+): CaptionImportResult {
+  const { captions, warnings } = parseCaptionsFromSrt(text, createCaptionId);
+  return { captions: autoAlignCaptions(captions, gapMs), warnings };
+}
+
+export function parseCaptionFileForPage(
+  fileName: string,
+  buffer: ArrayBuffer,
+  createCaptionId: () => string,
+  gapMs: number,
+  currentCaptions: Caption[],
+): CaptionImportResult {
+  // EBU-STL은 바이너리라 텍스트로 디코딩하기 전에 헤더로 먼저 가려낸다.
+  if (fileName.toLowerCase().endsWith('.stl') || isStlFile(buffer)) {
+    const imported = parseCaptionsFromStl(buffer, createCaptionId);
+    return { captions: autoAlignCaptions(imported, gapMs), warnings: [] };
+  }
+
+  const { text, encoding } = decodeTextFileBytes(buffer);
+  const result = parseCaptionTextForPage(fileName, text, createCaptionId, gapMs, currentCaptions);
+  if (encoding === 'euc-kr') {
+    result.warnings.unshift({ line: 0, message: 'UTF-8이 아니어서 EUC-KR(CP949)로 읽었어요.' });
+  }
+  return result;
+}
+
+function parseCaptionTextForPage(
+  fileName: string,
+  text: string,
+  createCaptionId: () => string,
+  gapMs: number,
+  currentCaptions: Caption[],
+): CaptionImportResult {
+  const format = detectCaptionImportFormat(fileName, text);
+  // 번역 시트는 자막을 바꿔치기하지 않고 id가 맞는 자막의 문구만 합친다.
+  if (format === 'sheet') {
+    const { captions, warnings } = mergeCaptionsFromSheet(currentCaptions, text);
+    return { captions, warnings };
+  }
+  if (format === 'srt') return parseCaptionSrtForPage(text, createCaptionId, gapMs);
+  if (format === 'ttml') {
+    const imported = parseCaptionsFromTtml(text, createCaptionId);
+    return { captions: autoAlignCaptions(imported, gapMs), warnings: [] };
+  }
+  if (format === 'vtt') {
+    return { captions: parseCaptionVttForPage(text, createCaptionId, gapMs), warnings: [] };
+  }
+  return parseCaptionJsonForPage(text, createCaptionId, gapMs);
+}
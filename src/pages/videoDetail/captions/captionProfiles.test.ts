@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+
+import { CAPTION_FRAME_RATE_FPS, CAPTION_STYLE_PROFILE_PRESETS, DEFAULT_CAPTION_STYLE_PROFILE } from '../constants';
+
+import {
+  createCaptionStyleProfilesJson,
+  getCaptionQualityRules,
+  mergeCaptionStyleProfiles,
+  parseCaptionStyleProfilesJson,
+} from './captionProfiles';
+import { evaluateCaptionQuality } from './captionValidation';
+
+import type { Caption, CaptionStyleProfile } from '../types';
+
+const netflix = CAPTION_STYLE_PROFILE_PRESETS.find((preset) => preset.id === 'netflix-ko') as CaptionStyleProfile;
+
+describe('caption style profiles', () => {
+  it('derives the gap rule from frames and checks allowed characters', () => {
+    const rules = getCaptionQualityRules(netflix, CAPTION_FRAME_RATE_FPS['23.976']);
+    expect(rules.minGapMs).toEqual({ warning: null, error: 83 });
+    expect(getCaptionQualityRules(netflix, CAPTION_FRAME_RATE_FPS['25']).minGapMs).toEqual({ warning: null, error: 80 });
+
+    const captions: Caption[] = [
+      { id: 'a', startMs: 0, endMs: 2000, text: '안녕하세요 ♪' },
+      { id: 'b', startMs: 2050, endMs: 4000, text: '좋아요!\n다음 줄' },
+    ];
+    const issuesById = evaluateCaptionQuality(captions, rules);
+    expect(issuesById.get('a')?.map((issue) => [issue.rule, issue.message])).toEqual([
+      ['allowedChars', '허용되지 않은 문자가 있어요: "♪"'],
+    ]);
+    expect(issuesById.get('b')?.map((issue) => issue.rule)).toEqual(['minGapMs']);
+  });
+
+  it('round-trips custom profiles through JSON and fills missing rules', () => {
+    const custom: CaptionStyleProfile = { ...netflix, id: 'custom-1', name: '고객사 A', gapMs: 120 };
+    expect(parseCaptionStyleProfilesJson(createCaptionStyleProfilesJson([custom]))).toEqual([custom]);
+
+    const [partial] = parseCaptionStyleProfilesJson('{"id":"x","name":"부분","maxLines":{"warning":1}}');
+    expect(partial).toEqual({ ...DEFAULT_CAPTION_STYLE_PROFILE, id: 'x', name: '부분', maxLines: { warning: 1, error: null } });
+    expect(() => parseCaptionStyleProfilesJson('[]')).toThrow('불러올 프로필이 없어요.');
+  });
+
+  it('keeps built-in ids reserved when merging imported profiles', () => {
+    const existing: CaptionStyleProfile[] = [{ ...DEFAULT_CAPTION_STYLE_PROFILE, id: 'custom-1', name: '이전' }];
+    const merged = mergeCaptionStyleProfiles(
+      existing,
+      [
+        { ...DEFAULT_CAPTION_STYLE_PROFILE, id: 'custom-1', name: '새 값' },
+        { ...DEFAULT_CAPTION_STYLE_PROFILE, name: '복사본' },
+      ],
+      () => 'custom-2',
+    );
+    expect(merged.map((profile) => [profile.id, profile.name])).toEqual([
+      ['custom-1', '새 값'],
+      ['custom-2', '복사본'],
+    ]);
+  });
+});
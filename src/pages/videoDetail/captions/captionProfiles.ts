@@ -0,0 +1,152 @@
+import type { CaptionLineBreakOptions } from '@/lib/captionLineBreak';
+
+import { CAPTION_STYLE_PROFILE_PRESETS, DEFAULT_CAPTION_STYLE_PROFILE } from '../constants';
+
+import type { CaptionQualityRules, CaptionQualityThreshold, CaptionStyleProfile } from '../types';
+
+const FALLBACK_MAX_CHARS_PER_LINE = 42;
+const FALLBACK_MAX_LINES = 2;
+
+const THRESHOLD_KEYS = [
+  'maxCps',
+  'maxWpm',
+  'maxCharsPerLine',
+  'maxLines',
+  'minDurationMs',
+  'maxDurationMs',
+  'minGapFrames',
+] as const;
+
+export type CaptionStyleProfileThresholdKey = (typeof THRESHOLD_KEYS)[number];
+
+// 허용 문자 목록을 "목록 밖의 문자"에 걸리는 정규식으로 바꾼다. 빈 목록은 검사하지 않는다.
+export function compileAllowedChars(allowedChars: string | null) {
+  if (!allowedChars) return null;
+  try {
+    return new RegExp(`[^${allowedChars}\\s]`, 'gu');
+  } catch (err) {
+    const detail = err instanceof Error ? err.message : String(err);
+    throw new Error(`허용 문자 목록을 해석할 수 없어요: ${detail}`);
+  }
+}
+
+function framesToMs(frames: number | null, frameRate: number) {
+  return frames === null ? null : Math.round((frames * 1000) / frameRate);
+}
+
+// 프레임 단위 규칙은 영상의 프레임레이트(타임코드 설정)로 ms를 구한다.
+export function getCaptionQualityRules(profile: CaptionStyleProfile, frameRate: number): CaptionQualityRules {
+  let disallowedChars: RegExp | null = null;
+  try {
+    disallowedChars = compileAllowedChars(profile.allowedChars);
+  } catch {
+    // 잘못된 목록은 편집 화면에서 따로 알리고, 검사에서는 빼둔다.
+  }
+  return {
+    maxCps: profile.maxCps,
+    maxWpm: profile.maxWpm,
+    maxCharsPerLine: profile.maxCharsPerLine,
+    maxLines: profile.maxLines,
+    minDurationMs: profile.minDurationMs,
+    maxDurationMs: profile.maxDurationMs,
+    minGapMs: {
+      warning: framesToMs(profile.minGapFrames.warning, frameRate),
+      error: framesToMs(profile.minGapFrames.error, frameRate),
+    },
+    disallowedChars,
+  };
+}
+
+// 자동 줄바꿈은 경고 기준에 맞춘다. 경고가 꺼져 있으면 오류 기준을 쓴다.
+export function getCaptionLineBreakOptions(profile: CaptionStyleProfile): CaptionLineBreakOptions {
+  const { maxCharsPerLine, maxLines } = profile;
+  return {
+    maxCharsPerLine: maxCharsPerLine.warning ?? maxCharsPerLine.error ?? FALLBACK_MAX_CHARS_PER_LINE,
+    maxLines: maxLines.warning ?? maxLines.error ?? FALLBACK_MAX_LINES,
+  };
+}
+
+export function isBuiltInCaptionStyleProfile(id: string) {
+  return CAPTION_STYLE_PROFILE_PRESETS.some((preset) => preset.id === id);
+}
+
+export function isSameCaptionStyleProfile(a: CaptionStyleProfile, b: CaptionStyleProfile) {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function sanitizeThreshold(raw: unknown, fallback: CaptionQualityThreshold): CaptionQualityThreshold {
+  if (!raw || typeof raw !== 'object') return fallback;
+  const pick = (value: unknown) =>
+    typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : null;
+  const { warning, error } = raw as Record<string, unknown>;
+  return { warning: pick(warning), error: pick(error) };
+}
+
+// 불러온 JSON이나 저장소 값을 프로필로 맞춘다. 빠진 규칙은 기본 프로필 값을 쓴다.
+export function sanitizeCaptionStyleProfile(raw: unknown): CaptionStyleProfile | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const record = raw as Record<string, unknown>;
+  const id = typeof record.id === 'string' ? record.id.trim() : '';
+  const name = typeof record.name === 'string' ? record.name.trim() : '';
+  if (!id || !name) return null;
+
+  const gapMs = typeof record.gapMs === 'number' && Number.isFinite(record.gapMs) ? record.gapMs : Number.NaN;
+  const profile: CaptionStyleProfile = {
+    ...DEFAULT_CAPTION_STYLE_PROFILE,
+    id,
+    name,
+    gapMs: Number.isFinite(gapMs) ? Math.max(0, Math.round(gapMs)) : DEFAULT_CAPTION_STYLE_PROFILE.gapMs,
+    allowedChars:
+      typeof record.allowedChars === 'string' && record.allowedChars ? record.allowedChars : null,
+  };
+  for (const key of THRESHOLD_KEYS) {
+    profile[key] = sanitizeThreshold(record[key], DEFAULT_CAPTION_STYLE_PROFILE[key]);
+  }
+  return profile;
+}
+
+export function sanitizeCaptionStyleProfiles(raw: unknown) {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .map(sanitizeCaptionStyleProfile)
+    .filter((profile): profile is CaptionStyleProfile => profile !== null);
+}
+
+export function createCaptionStyleProfilesJson(profiles: CaptionStyleProfile[]) {
+  return JSON.stringify({ version: 1, profiles }, null, 2);
+}
+
+// 내보낸 파일({ profiles: [...] }), 프로필 배열, 프로필 하나를 모두 받는다.
+export function parseCaptionStyleProfilesJson(text: string) {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('프로필 JSON을 해석할 수 없어요.');
+  }
+  const list =
+    parsed && typeof parsed === 'object' && 'profiles' in parsed
+      ? (parsed as { profiles: unknown }).profiles
+      : Array.isArray(parsed)
+        ? parsed
+        : [parsed];
+  const profiles = sanitizeCaptionStyleProfiles(list);
+  if (profiles.length === 0) throw new Error('불러올 프로필이 없어요.');
+  return profiles;
+}
+
+// 같은 id는 새 값으로 바꾸고, 기본 제공 프로필과 겹치는 id는 사용자 프로필 id로 바꿔 넣는다.
+export function mergeCaptionStyleProfiles(
+  existing: CaptionStyleProfile[],
+  incoming: CaptionStyleProfile[],
+  createId: () => string,
+) {
+  const merged = [...existing];
+  for (const profile of incoming) {
+    const next = isBuiltInCaptionStyleProfile(profile.id) ? { ...profile, id: createId() } : profile;
+    const index = merged.findIndex((item) => item.id === next.id);
+    if (index >= 0) merged[index] = next;
+    else merged.push(next);
+  }
+  return merged;
+}
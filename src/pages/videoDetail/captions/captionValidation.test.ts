@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+
+import { countCaptionChars } from '@/lib/captionLineBreak';
+
+import { DEFAULT_CAPTION_STYLE_PROFILE, DEFAULT_CAPTION_TIMECODE_SETTINGS } from '../constants';
+
+import { getCaptionQualityRules } from './captionProfiles';
+import {
+  countCaptionWords,
+  evaluateCaptionQuality,
+  formatCaptionQualityBadge,
+  summarizeCaptionQuality,
+} from './captionValidation';
+
+import type { Caption } from '../types';
+
+describe('caption quality rules', () => {
+  it('counts decomposed Hangul as whole syllables', () => {
+    expect(countCaptionChars('한글 자막')).toBe(5);
+    expect(countCaptionChars('한글'.normalize('NFD'))).toBe(2);
+  });
+
+  it('reports warnings and errors per caption', () => {
+    const captions: Caption[] = [
+      { id: 'ok', startMs: 0, endMs: 2000, text: '안녕하세요' },
+      { id: 'fast', startMs: 2100, endMs: 2900, text: '가나다라마바사아자차카타파하' },
+      { id: 'lines', startMs: 2800, endMs: 12000, text: '하나\n둘\n셋\n넷' },
+    ];
+    const rules = getCaptionQualityRules(DEFAULT_CAPTION_STYLE_PROFILE, DEFAULT_CAPTION_TIMECODE_SETTINGS.frameRate);
+    const issuesById = evaluateCaptionQuality(captions, rules);
+
+    expect(issuesById.has('ok')).toBe(false);
+    expect(issuesById.get('fast')?.map((issue) => [issue.rule, issue.severity])).toEqual([
+      ['maxCps', 'warning'],
+      ['minDurationMs', 'warning'],
+    ]);
+    expect(issuesById.get('lines')?.map((issue) => [issue.rule, issue.severity])).toEqual([
+      ['maxLines', 'error'],
+      ['maxDurationMs', 'warning'],
+      ['minGapMs', 'error'],
+    ]);
+    expect(issuesById.get('lines')?.map(formatCaptionQualityBadge)).toEqual(['4줄', '9.2초', '겹침']);
+    expect(summarizeCaptionQuality(issuesById)).toEqual({ errorCount: 2, warningCount: 3 });
+  });
+
+  it('checks words per minute by counting 어절', () => {
+    expect(countCaptionWords(' 오늘은  날씨가\n정말 좋네요 ')).toBe(4);
+
+    const rules = getCaptionQualityRules(
+      { ...DEFAULT_CAPTION_STYLE_PROFILE, maxWpm: { warning: 120, error: 200 } },
+      DEFAULT_CAPTION_TIMECODE_SETTINGS.frameRate,
+    );
+    const issuesById = evaluateCaptionQuality(
+      [
+        { id: 'calm', startMs: 0, endMs: 2000, text: '오늘은 날씨가 좋네요' },
+        { id: 'rush', startMs: 3000, endMs: 4000, text: '오늘은 날씨가\n정말 좋네요' },
+      ],
+      rules,
+    );
+
+    expect(issuesById.get('calm')).toBeUndefined();
+    const wpmIssue = issuesById.get('rush')?.find((issue) => issue.rule === 'maxWpm');
+    expect(wpmIssue).toMatchObject({ severity: 'error', value: 240, limit: 200 });
+  });
+});
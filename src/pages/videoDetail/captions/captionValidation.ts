@@ -1,4 +1,16 @@
-import type { Caption, CaptionErrors } from '../types';
+import { countCaptionChars } from '@/lib/captionLineBreak';
+
+import { sortCaptions } from '../utils';
+
+import type {
+  Caption,
+  CaptionErrors,
+  CaptionQualityIssue,
+  CaptionQualityRules,
+  CaptionQualitySeverity,
+  CaptionQualitySummary,
+  CaptionQualityThresholdRuleId,
+} from '../types';
 
 export function getCaptionErrors(caption: Caption): CaptionErrors {
   const errors: CaptionErrors = {};
@@ -18,3 +30,157 @@ export function getCaptionErrors(caption: Caption): CaptionErrors {
 
   return errors;
 }
+
+export function getCaptionLines(text: string) {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+const MAX_RULES: CaptionQualityThresholdRuleId[] = ['maxCps', 'maxWpm', 'maxCharsPerLine', 'maxLines', 'maxDurationMs'];
+
+// 띄어쓰기로 나눈 단어 수. 한국어는 어절 하나를 한 단어로 본다.
+export function countCaptionWords(text: string) {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+function checkThreshold(
+  rules: CaptionQualityRules,
+  rule: CaptionQualityThresholdRuleId,
+  value: number,
+  describe: (value: number, limit: number) => string,
+): CaptionQualityIssue | null {
+  const { warning, error } = rules[rule];
+  const isMax = MAX_RULES.includes(rule);
+  const violates = (limit: number | null): limit is number =>
+    limit !== null && (isMax ? value > limit : value < limit);
+
+  const severity: CaptionQualitySeverity | null = violates(error)
+    ? 'error'
+    : violates(warning)
+      ? 'warning'
+      : null;
+  if (!severity) return null;
+
+  const limit = (severity === 'error' ? error : warning) as number;
+  return { rule, severity, value, limit, message: describe(value, limit) };
+}
+
+const formatSecondsLabel = (ms: number) => `${Number((ms / 1000).toFixed(2))}초`;
+
+// 자막별 품질 규칙 위반을 모은다. 간격은 시간순으로 바로 앞 자막과 비교한다.
+export function evaluateCaptionQuality(captions: Caption[], rules: CaptionQualityRules) {
+  const issuesById = new Map<string, CaptionQualityIssue[]>();
+  let prevEnd: number | null = null;
+
+  for (const caption of sortCaptions(captions)) {
+    const issues: CaptionQualityIssue[] = [];
+    const push = (issue: CaptionQualityIssue | null) => {
+      if (issue) issues.push(issue);
+    };
+    const hasTimes =
+      Number.isFinite(caption.startMs) &&
+      Number.isFinite(caption.endMs) &&
+      caption.endMs > caption.startMs;
+    const lines = getCaptionLines(caption.text);
+
+    if (rules.disallowedChars) {
+      // 줄바꿈은 허용 목록과 상관없이 쓸 수 있다.
+      const text = caption.text.normalize('NFC').replace(/[\r\n]/g, '');
+      const found = Array.from(new Set(text.match(rules.disallowedChars) ?? []));
+      if (found.length > 0) {
+        push({
+          rule: 'allowedChars',
+          severity: 'error',
+          value: found.length,
+          limit: 0,
+          message: `허용되지 않은 문자가 있어요: ${found.map((char) => `"${char}"`).join(', ')}`,
+        });
+      }
+    }
+
+    if (lines.length > 0) {
+      const longestLine = Math.max(...lines.map(countCaptionChars));
+      push(
+        checkThreshold(rules, 'maxCharsPerLine', longestLine, (value, limit) =>
+          `한 줄이 ${value}자라 기준 ${limit}자를 넘어요.`,
+        ),
+      );
+      push(
+        checkThreshold(rules, 'maxLines', lines.length, (value, limit) =>
+          `${value}줄이라 기준 ${limit}줄을 넘어요.`,
+        ),
+      );
+      if (hasTimes) {
+        const totalChars = lines.reduce((sum, line) => sum + countCaptionChars(line), 0);
+        const cps = Math.round((totalChars / ((caption.endMs - caption.startMs) / 1000)) * 10) / 10;
+        push(
+          checkThreshold(rules, 'maxCps', cps, (value, limit) =>
+            `초당 ${value}자라 기준 ${limit}자보다 빨라요.`,
+          ),
+        );
+        const words = lines.reduce((sum, line) => sum + countCaptionWords(line), 0);
+        const wpm = Math.round(words / ((caption.endMs - caption.startMs) / 60_000));
+        push(
+          checkThreshold(rules, 'maxWpm', wpm, (value, limit) =>
+            `분당 ${value}단어라 기준 ${limit}단어보다 빨라요.`,
+          ),
+        );
+      }
+    }
+
+    if (hasTimes) {
+      const durationMs = caption.endMs - caption.startMs;
+      push(
+        checkThreshold(rules, 'minDurationMs', durationMs, (value, limit) =>
+          `${formatSecondsLabel(value)} 동안만 보여서 기준 ${formatSecondsLabel(limit)}보다 짧아요.`,
+        ),
+      );
+      push(
+        checkThreshold(rules, 'maxDurationMs', durationMs, (value, limit) =>
+          `${formatSecondsLabel(value)} 동안 보여서 기준 ${formatSecondsLabel(limit)}보다 길어요.`,
+        ),
+      );
+      if (prevEnd !== null) {
+        push(
+          checkThreshold(rules, 'minGapMs', caption.startMs - prevEnd, (value, limit) =>
+            value < 0
+              ? `앞 자막과 ${-value}ms 겹쳐요.`
+              : `앞 자막과 간격이 ${value}ms라 기준 ${limit}ms보다 좁아요.`,
+          ),
+        );
+      }
+      prevEnd = Math.max(prevEnd ?? caption.endMs, caption.endMs);
+    }
+
+    if (issues.length > 0) issuesById.set(caption.id, issues);
+  }
+
+  return issuesById;
+}
+
+export function summarizeCaptionQuality(
+  issuesById: ReadonlyMap<string, CaptionQualityIssue[]>,
+): CaptionQualitySummary {
+  let errorCount = 0;
+  let warningCount = 0;
+  for (const issues of issuesById.values()) {
+    for (const issue of issues) {
+      if (issue.severity === 'error') errorCount += 1;
+      else warningCount += 1;
+    }
+  }
+  return { errorCount, warningCount };
+}
+
+export function formatCaptionQualityBadge({ rule, value }: CaptionQualityIssue) {
+  if (rule === 'maxCps') return `CPS ${value}`;
+  if (rule === 'maxWpm') return `WPM ${value}`;
+  if (rule === 'maxCharsPerLine') return `줄 ${value}자`;
+  if (rule === 'maxLines') return `${value}줄`;
+  if (rule === 'minGapMs') return value < 0 ? '겹침' : `간격 ${value}ms`;
+  if (rule === 'allowedChars') return `금지 문자 ${value}`;
+  return formatSecondsLabel(value);
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+
+import { commitCaptionHistory, createCaptionHistory } from './useCaptionHistory';
+
+import type { Caption } from '../types';
+
+const setText = (text: string) => (prev: Caption[]) => prev.map((caption) => ({ ...caption, text }));
+
+describe('commitCaptionHistory', () => {
+  const initial = createCaptionHistory([{ id: 'a', startMs: 0, endMs: 1000, text: '' }], '처음 상태', 0);
+
+  it('coalesces edits with the same key only within the window from the first edit', () => {
+    let history = initial;
+    // 300ms마다 쉬지 않고 타이핑해도 첫 편집부터 1초(CAPTION_HISTORY_COALESCE_MS)가 지나면 새 단계를 연다.
+    for (let step = 1; step <= 8; step += 1) {
+      history = commitCaptionHistory(history, '자막 수정', setText('가'.repeat(step)), {
+        coalesceKey: 'a:text',
+        depth: 100,
+        now: step * 300,
+      });
+    }
+
+    expect(history.entries.map((entry) => entry.captions[0]?.text)).toEqual(['', '가'.repeat(4), '가'.repeat(8)]);
+    expect(history.entries[1]).toMatchObject({ startedAt: 300, updatedAt: 1200 });
+  });
+
+  it('does not coalesce across keys, ignores no-op edits and drops redo steps', () => {
+    let history = commitCaptionHistory(initial, '자막 수정', setText('가'), { coalesceKey: 'a:text', depth: 100, now: 10 });
+    history = commitCaptionHistory(history, '시간 수정', (prev) => prev.map((c) => ({ ...c, endMs: 2000 })), {
+      coalesceKey: 'a:endMs',
+      depth: 100,
+      now: 20,
+    });
+    expect(commitCaptionHistory(history, '자막 수정', setText('가'), { depth: 100, now: 30 })).toBe(history);
+    expect(history.entries.map((entry) => entry.label)).toEqual(['처음 상태', '자막 수정', '시간 수정']);
+
+    const branched = commitCaptionHistory({ ...history, index: 1 }, '자막 수정', setText('나'), {
+      coalesceKey: 'a:text',
+      depth: 100,
+      now: 40,
+    });
+    expect(branched.entries.map((entry) => entry.captions[0]?.text)).toEqual(['', '가', '나']);
+    expect(branched.index).toBe(2);
+  });
+
+  it('keeps at most depth steps after the initial state', () => {
+    let history = initial;
+    for (let step = 1; step <= 5; step += 1) {
+      history = commitCaptionHistory(history, `${step}`, setText(`${step}`), { depth: 3, now: step });
+    }
+
+    expect(history.entries.map((entry) => entry.label)).toEqual(['2', '3', '4', '5']);
+    expect(history.index).toBe(3);
+  });
+});
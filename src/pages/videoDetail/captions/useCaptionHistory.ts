@@ -0,0 +1,154 @@
+import { useCallback, useState } from 'react';
+
+import { CAPTION_HISTORY_COALESCE_MS } from '../constants';
+
+import type { Caption } from '../types';
+
+export type CaptionHistoryEntry = {
+  id: number;
+  label: string;
+  captions: Caption[];
+  // 합쳐진 편집 중 첫 편집 시각. 합치는 시간 창은 여기서부터 잰다.
+  startedAt: number;
+  updatedAt: number;
+  // 같은 키로 연달아 들어온 편집(타이핑)은 한 단계로 합친다.
+  coalesceKey: string | null;
+};
+
+export type CaptionHistoryState = {
+  entries: CaptionHistoryEntry[];
+  index: number;
+  nextId: number;
+};
+
+type CommitOptions = {
+  coalesceKey?: string;
+};
+
+type UseCaptionHistoryOptions = {
+  depth: number;
+};
+
+const EMPTY_CAPTIONS: Caption[] = [];
+
+export function createCaptionHistory(captions: Caption[], label: string, now = Date.now()): CaptionHistoryState {
+  return {
+    entries: [{ id: 0, label, captions, startedAt: now, updatedAt: now, coalesceKey: null }],
+    index: 0,
+    nextId: 1,
+  };
+}
+
+function areCaptionListsEqual(a: Caption[], b: Caption[]) {
+  if (a === b) return true;
+  if (a.length !== b.length) return false;
+  return a.every((caption, index) => {
+    const other = b[index];
+    return (
+      other !== undefined &&
+      caption.id === other.id &&
+      Object.is(caption.startMs, other.startMs) &&
+      Object.is(caption.endMs, other.endMs) &&
+      caption.text === other.text
+    );
+  });
+}
+
+export function commitCaptionHistory(
+  prev: CaptionHistoryState,
+  label: string,
+  update: (prev: Caption[]) => Caption[],
+  { coalesceKey, depth, now = Date.now() }: CommitOptions & { depth: number; now?: number },
+): CaptionHistoryState {
+  const present = prev.entries[prev.index];
+  if (!present) return prev;
+
+  const nextCaptions = update(present.captions);
+  if (areCaptionListsEqual(present.captions, nextCaptions)) return prev;
+
+  const isLatest = prev.index === prev.entries.length - 1;
+  // 쉬지 않고 타이핑해도 한 단계가 끝없이 커지지 않도록 첫 편집 시각부터 잰다.
+  const canCoalesce =
+    coalesceKey !== undefined &&
+    isLatest &&
+    prev.index > 0 &&
+    present.coalesceKey === coalesceKey &&
+    now - present.startedAt < CAPTION_HISTORY_COALESCE_MS;
+
+  if (canCoalesce) {
+    const entries = [...prev.entries];
+    entries[prev.index] = { ...present, captions: nextCaptions, updatedAt: now };
+    return { ...prev, entries };
+  }
+
+  // 되돌린 상태에서 새로 편집하면 다시 실행할 단계는 버린다.
+  const entries = [
+    ...prev.entries.slice(0, prev.index + 1),
+    { id: prev.nextId, label, captions: nextCaptions, startedAt: now, updatedAt: now, coalesceKey: coalesceKey ?? null },
+  ];
+  const overflow = Math.max(0, entries.length - (Math.max(1, depth) + 1));
+  return {
+    entries: entries.slice(overflow),
+    index: entries.length - 1 - overflow,
+    nextId: prev.nextId + 1,
+  };
+}
+
+export function useCaptionHistory({ depth }: UseCaptionHistoryOptions) {
+  const [history, setHistory] = useState<CaptionHistoryState>(() => createCaptionHistory([], '처음 상태'));
+
+  const captions = history.entries[history.index]?.captions ?? EMPTY_CAPTIONS;
+
+  const commit = useCallback(
+    (label: string, update: (prev: Caption[]) => Caption[], options: CommitOptions = {}) => {
+      setHistory((prev) => commitCaptionHistory(prev, label, update, { ...options, depth }));
+    },
+    [depth],
+  );
+
+  // 서버 저장 결과처럼 내용은 같고 표현만 바뀐 경우, 단계를 늘리지 않고 현재 단계를 갈아끼운다.
+  const replace = useCallback((nextCaptions: Caption[]) => {
+    setHistory((prev) => {
+      const present = prev.entries[prev.index];
+      if (!present || present.captions === nextCaptions) return prev;
+      const entries = [...prev.entries];
+      entries[prev.index] = { ...present, captions: nextCaptions, coalesceKey: null };
+      return { ...prev, entries };
+    });
+  }, []);
+
+  const reset = useCallback((nextCaptions: Caption[], label: string) => {
+    setHistory(createCaptionHistory(nextCaptions, label));
+  }, []);
+
+  const jumpTo = useCallback((index: number) => {
+    setHistory((prev) => {
+      if (index < 0 || index >= prev.entries.length || index === prev.index) return prev;
+      return { ...prev, index };
+    });
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory((prev) => (prev.index > 0 ? { ...prev, index: prev.index - 1 } : prev));
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory((prev) =>
+      prev.index < prev.entries.length - 1 ? { ...prev, index: prev.index + 1 } : prev,
+    );
+  }, []);
+
+  return {
+    captions,
+    entries: history.entries,
+    index: history.index,
+    canUndo: history.index > 0,
+    canRedo: history.index < history.entries.length - 1,
+    commit,
+    replace,
+    reset,
+    jumpTo,
+    undo,
+    redo,
+  };
+}
@@ -0,0 +1,88 @@
+import { useCallback, useMemo, useState } from 'react';
+
+import { compileCaptionSearch, findCaptionMatches, replaceAllInCaptions } from '@/lib/captionSearch';
+import type { CaptionSearchMatch, CaptionSearchOptions } from '@/lib/captionSearch';
+
+import type { Caption, CaptionTextHighlight } from '../types';
+
+export function useCaptionSearch(captions: Caption[]) {
+  const [query, setQuery] = useState('');
+  const [replacement, setReplacement] = useState('');
+  const [options, setOptions] = useState<CaptionSearchOptions>({ ignoreCase: false, regex: false });
+  const [rawMatchIndex, setRawMatchIndex] = useState(-1);
+  const [isReplacePreviewOpen, setIsReplacePreviewOpen] = useState(false);
+
+  const { pattern, error } = useMemo(() => {
+    try {
+      return { pattern: compileCaptionSearch(query, options), error: null };
+    } catch (err) {
+      return { pattern: null, error: err instanceof Error ? err.message : String(err) };
+    }
+  }, [options, query]);
+
+  const matches = useMemo(() => findCaptionMatches(captions, pattern), [captions, pattern]);
+  // -1은 아직 이동하지 않은 상태
+  const matchIndex =
+    rawMatchIndex >= 0 && matches.length > 0 ? Math.min(rawMatchIndex, matches.length - 1) : -1;
+  const currentMatch = matches[matchIndex] ?? null;
+
+  const highlightsByCaptionId = useMemo(() => {
+    const grouped = new Map<string, CaptionTextHighlight[]>();
+    matches.forEach((match, index) => {
+      const list = grouped.get(match.captionId) ?? [];
+      list.push({ index: match.index, length: match.length, isCurrent: index === matchIndex });
+      grouped.set(match.captionId, list);
+    });
+    return grouped;
+  }, [matchIndex, matches]);
+
+  const replacePreview = useMemo(
+    () => (isReplacePreviewOpen ? replaceAllInCaptions(captions, pattern, replacement, options).changes : null),
+    [captions, isReplacePreviewOpen, options, pattern, replacement],
+  );
+
+  // 끝에서 다음으로 가면 처음으로 돌아간다. 이동한 일치 항목을 돌려준다.
+  const stepMatch = useCallback(
+    (direction: 1 | -1): CaptionSearchMatch | null => {
+      if (matches.length === 0) return null;
+      const next =
+        matchIndex === -1
+          ? direction === 1
+            ? 0
+            : matches.length - 1
+          : (matchIndex + direction + matches.length) % matches.length;
+      setRawMatchIndex(next);
+      return matches[next] ?? null;
+    },
+    [matchIndex, matches],
+  );
+
+  const updateQuery = useCallback((value: string) => {
+    setQuery(value);
+    setRawMatchIndex(-1);
+  }, []);
+
+  const updateOptions = useCallback((value: CaptionSearchOptions) => {
+    setOptions(value);
+    setRawMatchIndex(-1);
+  }, []);
+
+  return {
+    query,
+    replacement,
+    options,
+    pattern,
+    error,
+    matches,
+    matchIndex,
+    currentMatch,
+    highlightsByCaptionId,
+    replacePreview,
+    isReplacePreviewOpen,
+    setQuery: updateQuery,
+    setReplacement,
+    setOptions: updateOptions,
+    setIsReplacePreviewOpen,
+    stepMatch,
+  };
+}
@@ -0,0 +1,51 @@
+import { useCallback, useMemo, useState } from 'react';
+
+import type { Caption } from '../types';
+
+export type CaptionSelectMode = 'single' | 'toggle' | 'range';
+
+export function useCaptionSelection(captions: Caption[]) {
+  const [rawSelectedIds, setRawSelectedIds] = useState<string[]>([]);
+  const [anchorId, setAnchorId] = useState<string | null>(null);
+
+  // 삭제·되돌리기로 사라진 자막은 선택에서 뺀다.
+  const selectedIds = useMemo(() => {
+    const liveIds = new Set(captions.map((caption) => caption.id));
+    return new Set(rawSelectedIds.filter((id) => liveIds.has(id)));
+  }, [captions, rawSelectedIds]);
+
+  const selectCaption = useCallback(
+    (captionId: string, mode: CaptionSelectMode) => {
+      if (mode === 'range' && anchorId) {
+        const ids = captions.map((caption) => caption.id);
+        const from = ids.indexOf(anchorId);
+        const to = ids.indexOf(captionId);
+        if (from !== -1 && to !== -1) {
+          setRawSelectedIds(ids.slice(Math.min(from, to), Math.max(from, to) + 1));
+          return;
+        }
+      }
+
+      setAnchorId(captionId);
+      if (mode === 'toggle') {
+        setRawSelectedIds((prev) =>
+          prev.includes(captionId) ? prev.filter((id) => id !== captionId) : [...prev, captionId],
+        );
+        return;
+      }
+      setRawSelectedIds([captionId]);
+    },
+    [anchorId, captions],
+  );
+
+  const selectAll = useCallback(() => {
+    setRawSelectedIds(captions.map((caption) => caption.id));
+  }, [captions]);
+
+  const clearSelection = useCallback(() => {
+    setRawSelectedIds([]);
+    setAnchorId(null);
+  }, []);
+
+  return { selectedIds, selectCaption, selectAll, clearSelection };
+}
@@ -1,16 +1,123 @@
-import type { HotkeyConfig } from './types';
+import type {
+  CaptionFrameRateId,
+  CaptionLineBreakSettings,
+  CaptionSmartSnapSettings,
+  CaptionStyleProfile,
+  CaptionTimecodeSettings,
+  HotkeyConfig,
+  WaveformViewSettings,
+} from './types';
 
 export const DEFAULT_HOTKEYS: HotkeyConfig = {
   togglePlay: ' ',
   setStart: '[',
   setEnd: ']',
   confirm: 'Enter',
+  split: '\\',
+  merge: '`',
 };
 
 export const HOTKEY_STORAGE_KEY = 'caption_hotkeys';
+// 스타일 프로필이 생기기 전의 전역 간격 설정. 프로필이 없는 영상의 기본 간격으로만 읽는다.
 export const CAPTION_GAP_MS_STORAGE_KEY = 'caption_gap_ms';
+export const CAPTION_STYLE_PROFILES_STORAGE_KEY = 'caption_style_profiles';
+export const CAPTION_HISTORY_DEPTH_STORAGE_KEY = 'caption_history_depth';
+export const CAPTION_LINE_BREAK_STORAGE_KEY = 'caption_line_break';
+export const DEFAULT_CAPTION_LINE_BREAK_SETTINGS: CaptionLineBreakSettings = {
+  wrapOnConfirm: false,
+  wrapOnExport: false,
+};
+export const CAPTION_SPEECH_DETECTION_STORAGE_KEY = 'caption_speech_detection';
+export const CAPTION_SMART_SNAP_STORAGE_KEY = 'caption_smart_snap';
+export const DEFAULT_CAPTION_SMART_SNAP_SETTINGS: CaptionSmartSnapSettings = {
+  enabled: false,
+  windowMs: 400,
+};
+// 스마트 스냅용 에너지 포락선의 프레임 길이
+export const SPEECH_ENVELOPE_FRAME_MS = 10;
+// 파형에 스냅 표시를 남겨두는 시간
+export const SMART_SNAP_MARK_VISIBLE_MS = 1500;
+export const DEFAULT_CAPTION_HISTORY_DEPTH = 100;
+export const MAX_CAPTION_HISTORY_DEPTH = 500;
+export const CAPTION_HISTORY_COALESCE_MS = 1000;
 export const TRIM_LOOP_EPSILON_MS = 60;
 
+// 타임코드 입력, 품질 규칙, 프레임레이트 변환이 함께 쓰는 표. NTSC 계열은 정수 fps를 1.001로 나눈 값이다.
+export const CAPTION_FRAME_RATE_FPS: Record<CaptionFrameRateId, number> = {
+  '23.976': 24000 / 1001,
+  '24': 24,
+  '25': 25,
+  '29.97': 30000 / 1001,
+  '30': 30,
+  '50': 50,
+  '59.94': 60000 / 1001,
+  '60': 60,
+};
+
+export const DEFAULT_CAPTION_TIMECODE_SETTINGS: CaptionTimecodeSettings = {
+  frameRate: CAPTION_FRAME_RATE_FPS['29.97'],
+  dropFrame: true,
+  format: 'milliseconds',
+  snapToFrames: false,
+};
+
+export const DEFAULT_CAPTION_STYLE_PROFILE: CaptionStyleProfile = {
+  id: 'default',
+  name: '기본',
+  gapMs: 1,
+  maxCps: { warning: 15, error: 20 },
+  maxWpm: { warning: 180, error: null },
+  maxCharsPerLine: { warning: 20, error: 32 },
+  maxLines: { warning: 2, error: 3 },
+  minDurationMs: { warning: 1000, error: 500 },
+  maxDurationMs: { warning: 7000, error: 10000 },
+  minGapFrames: { warning: null, error: 0 },
+  allowedChars: null,
+};
+
+export const CAPTION_STYLE_PROFILE_PRESETS: CaptionStyleProfile[] = [
+  DEFAULT_CAPTION_STYLE_PROFILE,
+  {
+    id: 'netflix-ko',
+    name: 'Netflix 한국어',
+    gapMs: 84,
+    maxCps: { warning: 12, error: 14 },
+    maxWpm: { warning: null, error: null },
+    maxCharsPerLine: { warning: null, error: 16 },
+    maxLines: { warning: null, error: 2 },
+    minDurationMs: { warning: null, error: 833 },
+    maxDurationMs: { warning: null, error: 7000 },
+    minGapFrames: { warning: null, error: 2 },
+    allowedChars: '\\p{Script=Hangul}\\p{Script=Latin}\\p{N} .,?!\'"()\\-~…%&:;/',
+  },
+  {
+    id: 'bbc',
+    name: 'BBC',
+    gapMs: 40,
+    maxCps: { warning: 15, error: 18 },
+    maxWpm: { warning: 160, error: 180 },
+    maxCharsPerLine: { warning: 37, error: 42 },
+    maxLines: { warning: 2, error: 3 },
+    minDurationMs: { warning: 1000, error: 800 },
+    maxDurationMs: { warning: 7000, error: null },
+    minGapFrames: { warning: null, error: 1 },
+    allowedChars: null,
+  },
+  {
+    id: 'youtube',
+    name: 'YouTube',
+    gapMs: 1,
+    maxCps: { warning: 20, error: 25 },
+    maxWpm: { warning: 200, error: null },
+    maxCharsPerLine: { warning: 42, error: 50 },
+    maxLines: { warning: 2, error: 3 },
+    minDurationMs: { warning: 1000, error: 500 },
+    maxDurationMs: { warning: 7000, error: null },
+    minGapFrames: { warning: null, error: 0 },
+    allowedChars: null,
+  },
+];
+
 export const WAVEFORM_VIEWPORT_MIN_DURATION_MS = 500;
 export const WAVEFORM_MIN_BUCKET_COUNT = 64;
 export const WAVEFORM_MAX_LOD_SCALE = 16;
@@ -20,5 +127,19 @@ export const WAVEFORM_RASTER_CACHE_LIMIT = 4;
 export const WAVEFORM_RASTER_MAX_WIDTH = 8192;
 export const WAVEFORM_RASTER_MEMORY_BUDGET_BYTES = 48 * 1024 * 1024;
 export const WAVEFORM_RASTER_MIN_WIDTH = WAVEFORM_MIN_BUCKET_COUNT;
+// 스펙트로그램은 파형 래스터와 같은 폭, 고정된 세로 칸 수로 만든 뒤 캔버스 높이에 맞춰 늘린다.
+export const SPECTROGRAM_BIN_COUNT = 128;
+export const SPECTROGRAM_FFT_SIZE = 1024;
+export const SPECTROGRAM_DYNAMIC_RANGE_DB = 80;
+export const WAVEFORM_VIEW_STORAGE_KEY = 'waveform_view';
+export const DEFAULT_WAVEFORM_VIEW_SETTINGS: WaveformViewSettings = {
+  mode: 'waveform',
+  spectrogramScale: 'mel',
+};
 export const WAVEFORM_PLAYHEAD_RATIO = 0.5;
 export const WAVEFORM_FOLLOW_RESUME_MS = 1800;
+// 파형 아래쪽 띠에 자막 블록을 그린다. 값은 CSS 픽셀 기준.
+export const WAVEFORM_CAPTION_BLOCK_HEIGHT_PX = 24;
+export const WAVEFORM_CAPTION_EDGE_HIT_PX = 6;
+export const WAVEFORM_CAPTION_SNAP_PX = 8;
+export const WAVEFORM_CAPTION_MIN_DURATION_MS = 100;
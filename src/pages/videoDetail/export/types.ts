@@ -1,4 +1,4 @@
-import type { Caption, TrimRange } from '../types';
+import type { Caption, TrimRange, Video } from '../types';
 
 export type NormalizedTrimRange = { trimStart: number; trimEnd: number } | null;
 
@@ -6,6 +6,7 @@ export interface UseBurnInExportParams {
   captionDrafts: Caption[];
   durationMs: number | null;
   safeTitleOrId: string;
+  video: Video | null | undefined;
   videoBlob: Blob | null | undefined;
 }
 
@@ -2,7 +2,7 @@ import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 
 import type { BurnInWorkerResponse } from '@/workers/burnInWorker';
 
-import { createCaptionExportSrt } from '../captions/captionIO';
+import { createCaptionExportAss } from '../captions/captionIO';
 
 import type { UseBurnInExportParams, UseBurnInExportResult } from './types';
 
@@ -10,6 +10,7 @@ export function useBurnInExport({
   captionDrafts,
   durationMs,
   safeTitleOrId,
+  video,
   videoBlob,
 }: UseBurnInExportParams): UseBurnInExportResult {
   const burnInWorkerRef = useRef<Worker | null>(null);
@@ -67,7 +68,11 @@ export function useBurnInExport({
       return;
     }
 
-    const srt = createCaptionExportSrt(captionDrafts, { applyTrimOnExport: false, trimRange: null });
+    const ass = createCaptionExportAss(
+      captionDrafts,
+      { applyTrimOnExport: false, trimRange: null },
+      video,
+    );
 
     stopBurnInWorker();
     if (burnInResultUrl) {
@@ -145,7 +150,7 @@ export function useBurnInExport({
     try {
       const videoBuffer = await videoBlob.arrayBuffer();
       worker.postMessage(
-        { type: 'burn-in', requestId, videoData: videoBuffer, srtText: srt, fontUrl: burnInFontUrl },
+        { type: 'burn-in', requestId, videoData: videoBuffer, assText: ass, fontUrl: burnInFontUrl },
         [videoBuffer],
       );
     } catch (error) {
@@ -153,7 +158,16 @@ export function useBurnInExport({
       setIsBurningIn(false);
       cleanup();
     }
-  }, [burnInFontUrl, burnInResultUrl, captionDrafts, durationMs, safeTitleOrId, stopBurnInWorker, videoBlob]);
+  }, [
+    burnInFontUrl,
+    burnInResultUrl,
+    captionDrafts,
+    durationMs,
+    safeTitleOrId,
+    stopBurnInWorker,
+    video,
+    videoBlob,
+  ]);
 
   useEffect(() => {
     return () => {
@@ -1,8 +1,22 @@
-import type { Caption as DataCaption, Video as DataVideo } from '@/datasource/types';
+import type {
+  CaptionRuleThreshold,
+  CaptionStyleProfile as DataCaptionStyleProfile,
+  CaptionTimecodeSettings as DataCaptionTimecodeSettings,
+  Caption as DataCaption,
+  Video as DataVideo,
+} from '@/datasource/types';
+import type { CaptionOrderIssue } from '@/lib/captionBulk';
+import type { CaptionDragMode, CaptionDragResult } from '@/lib/captionDrag';
+import type { CaptionExportWarning, CaptionImportWarning } from '@/lib/captionIO';
+import type { CaptionOverlap, CaptionOverlapStrategy } from '@/lib/captionOverlap';
+import type { LinearTimingTransform } from '@/lib/captionSync';
+import type { SpectrogramScale } from '@/lib/spectrogram';
 import type { WaveformWorkerRequest } from '@/workers/waveformWorker';
 
 export type Caption = DataCaption;
 export type Video = DataVideo;
+export type CaptionStyleProfile = DataCaptionStyleProfile;
+export type CaptionTimecodeSettings = DataCaptionTimecodeSettings;
 
 export type CaptionErrors = {
   startMs?: string;
@@ -10,11 +24,158 @@ export type CaptionErrors = {
   text?: string;
 };
 
+export type CaptionImportReport = {
+  fileName: string;
+  error: string | null;
+  warnings: CaptionImportWarning[];
+};
+
+export type CaptionExportReport = {
+  format: string;
+  warnings: CaptionExportWarning[];
+};
+
+export type CaptionBulkReport = {
+  message: string;
+  issues: CaptionOrderIssue[];
+  // 겹침 등으로 일괄 편집을 적용하지 않았는지
+  blocked: boolean;
+};
+
+// 일괄 배율 조정에서 움직이지 않는 기준 시각
+export type CaptionScaleAnchor = 'selectionStart' | 'playhead' | 'zero';
+
+export type CaptionSyncPointKey = 'first' | 'second';
+
+export type CaptionSyncPoint = {
+  captionId: string;
+  // 이 자막이 실제로 시작해야 하는 시각(재생 위치에서 가져옴)
+  targetMs: number | null;
+};
+
+export type CaptionSyncScope = 'all' | 'selected';
+
+// 넘거나(max*) 못 미치면(min*) 경고/오류가 되는 기준값. null이면 검사하지 않는다.
+export type CaptionQualityThreshold = CaptionRuleThreshold;
+
+export type CaptionQualityRules = {
+  maxCps: CaptionQualityThreshold;
+  maxWpm: CaptionQualityThreshold;
+  maxCharsPerLine: CaptionQualityThreshold;
+  maxLines: CaptionQualityThreshold;
+  minDurationMs: CaptionQualityThreshold;
+  maxDurationMs: CaptionQualityThreshold;
+  minGapMs: CaptionQualityThreshold;
+  // 허용 목록 밖의 문자 하나에 걸리는 전역 정규식
+  disallowedChars: RegExp | null;
+};
+
+export type CaptionQualityThresholdRuleId = Exclude<keyof CaptionQualityRules, 'disallowedChars'>;
+
+export type CaptionQualityRuleId = CaptionQualityThresholdRuleId | 'allowedChars';
+
+export type CaptionQualitySeverity = 'warning' | 'error';
+
+export type CaptionQualityIssue = {
+  rule: CaptionQualityRuleId;
+  severity: CaptionQualitySeverity;
+  value: number;
+  limit: number;
+  message: string;
+};
+
+export type CaptionQualitySummary = {
+  errorCount: number;
+  warningCount: number;
+};
+
+export type CaptionExportQualityCheck = CaptionQualitySummary & {
+  format: string;
+  // 오류가 있어 내보내기를 멈췄는지(경고만 있으면 내보낸 뒤 알린다)
+  blocked: boolean;
+};
+
+export type CaptionTextHighlight = {
+  index: number;
+  length: number;
+  // 찾기에서 지금 이동해 있는 일치 항목
+  isCurrent: boolean;
+};
+
+export type CaptionFrameRateId = '23.976' | '24' | '25' | '29.97' | '30' | '50' | '59.94' | '60';
+
+// speed: 프레임 번호를 그대로 두고 재생 속도가 바뀐다(필름 → PAL 스피드업).
+// keep-duration: 재생 시간을 그대로 두고 대상 fps로만 옮긴다(3:2 풀다운 등).
+export type CaptionFrameRateConversionMode = 'speed' | 'keep-duration';
+
+export type CaptionFrameRateIssue = {
+  captionId: string;
+  startMs: number;
+  message: string;
+};
+
+export type CaptionFrameRateConversion = {
+  captions: Caption[];
+  issues: CaptionFrameRateIssue[];
+};
+
+export type CaptionFrameRateReport = {
+  source: CaptionFrameRateId;
+  target: CaptionFrameRateId;
+  mode: CaptionFrameRateConversionMode;
+  issues: CaptionFrameRateIssue[];
+};
+
+export type CaptionOverlapReport = {
+  strategy: CaptionOverlapStrategy;
+  resolvedCount: number;
+  unresolved: CaptionOverlap[];
+};
+
+export type CaptionLineBreakSettings = {
+  wrapOnConfirm: boolean;
+  wrapOnExport: boolean;
+};
+
+export type CaptionLineBreakReport = {
+  changedCount: number;
+  // 줄 수를 다 써도 기준 안에 넣지 못한 자막
+  overflow: { captionId: string; startMs: number }[];
+};
+
+export type CaptionSmartSnapSettings = {
+  enabled: boolean;
+  // 찍은 시각에서 앞뒤로 이 안에 있는 말소리 경계에만 붙인다.
+  windowMs: number;
+};
+
+// 마지막으로 붙인 결과. 파형 표시와 패널 안내에 쓴다.
+export type CaptionSmartSnapMark = {
+  field: 'startMs' | 'endMs';
+  fromMs: number;
+  toMs: number;
+};
+
+export type CaptionSpeechSeedReport = {
+  createdCount: number;
+  // 기존 자막과 겹쳐서 만들지 않은 구간 수
+  skippedCount: number;
+};
+
+export type CaptionSyncPreview = {
+  transform: LinearTimingTransform;
+  captions: Caption[];
+  targetIds: ReadonlySet<string>;
+  issues: CaptionOrderIssue[];
+};
+
 export type HotkeyConfig = {
   togglePlay: string;
   setStart: string;
   setEnd: string;
   confirm: string;
+  split: string;
+  merge: string;
 };
 
 export type TrimRange = {
@@ -27,6 +188,21 @@ export type Viewport = {
   endMs: number;
 };
 
+export type WaveformCaptionDrag = {
+  pointerId: number;
+  captionId: string;
+  mode: CaptionDragMode;
+  // 누른 자리의 시각. 움직인 거리는 여기서부터 잰다.
+  originMs: number;
+  original: Pick<Caption, 'startMs' | 'endMs'>;
+  preview: CaptionDragResult | null;
+};
+
+export type WaveformViewSettings = {
+  mode: 'waveform' | 'spectrogram';
+  spectrogramScale: SpectrogramScale;
+};
+
 export type WaveformRasterCacheEntry = {
   canvas: OffscreenCanvas | HTMLCanvasElement;
   bytes: number;
@@ -52,4 +228,7 @@ export type WebglResources = {
 
 export type WaveformWorkerPayload =
   | Omit<Extract<WaveformWorkerRequest, { type: 'load-samples' }>, 'requestId'>
-  | Omit<Extract<WaveformWorkerRequest, { type: 'compute-peaks' }>, 'requestId'>;
+  | Omit<Extract<WaveformWorkerRequest, { type: 'compute-peaks' }>, 'requestId'>
+  | Omit<Extract<WaveformWorkerRequest, { type: 'detect-speech-segments' }>, 'requestId'>
+  | Omit<Extract<WaveformWorkerRequest, { type: 'compute-energy-envelope' }>, 'requestId'>
+  | Omit<Extract<WaveformWorkerRequest, { type: 'compute-spectrogram' }>, 'requestId'>;
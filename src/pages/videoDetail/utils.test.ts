@@ -0,0 +1,133 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+
+import { convertCaptionFrameRate, getDefaultFrameRateConversionMode, getSmartSnapBypassField, getUnshiftedEventKey } from './utils';
+
+import type { Caption } from './types';
+
+describe('convertCaptionFrameRate', () => {
+  const captions: Caption[] = [
+    { id: 'a', startMs: 0, endMs: 1000, text: 'A' },
+    { id: 'b', startMs: 2400, endMs: 4800, text: 'B' },
+  ];
+
+  it('rescales timings so frame numbers stay the same', () => {
+    const { captions: converted, issues } = convertCaptionFrameRate(captions, '24', '25');
+    expect(converted.map((c) => [c.startMs, c.endMs])).toEqual([
+      [0, 960],
+      [2304, 4608],
+    ]);
+    expect(issues).toEqual([]);
+  });
+
+  it('snaps to the target frame grid when asked', () => {
+    const plain = convertCaptionFrameRate(captions, '23.976', '25');
+    const snapped = convertCaptionFrameRate(captions, '23.976', '25', { snapToFrames: true });
+    expect(plain.captions[0]?.endMs).toBe(959);
+    expect(snapped.captions[0]?.endMs).toBe(960);
+    expect(snapped.captions.every((c) => c.startMs % 40 === 0 && c.endMs % 40 === 0)).toBe(true);
+  });
+
+  it('keeps running time for 3:2 pulldown pairs', () => {
+    const episode: Caption[] = [{ id: 'a', startMs: 2_699_000, endMs: 2_700_000, text: 'A' }];
+    for (const [source, target] of [
+      ['23.976', '29.97'],
+      ['29.97', '23.976'],
+      ['24', '29.97'],
+      ['29.97', '24'],
+    ] as const) {
+      expect(getDefaultFrameRateConversionMode(source, target)).toBe('keep-duration');
+      expect(convertCaptionFrameRate(episode, source, target).captions[0]).toMatchObject({
+        startMs: 2_699_000,
+        endMs: 2_700_000,
+      });
+    }
+
+    const snapped = convertCaptionFrameRate(captions, '23.976', '29.97', { snapToFrames: true });
+    expect(snapped.captions.map((c) => [c.startMs, c.endMs])).toEqual([
+      [0, 1001],
+      [2402, 4805],
+    ]);
+  });
+
+  it('lets the caller force a speed change for any pair', () => {
+    expect(getDefaultFrameRateConversionMode('24', '25')).toBe('speed');
+    const { captions: converted } = convertCaptionFrameRate(captions, '29.97', '23.976', { mode: 'speed' });
+    expect(converted[0]?.endMs).toBe(1250);
+  });
+
+  it('reports sub-frame durations and overlaps after conversion', () => {
+    const { issues } = convertCaptionFrameRate(
+      [
+        { id: 'a', startMs: 0, endMs: 30, text: 'A' },
+        { id: 'b', startMs: 1000, endMs: 2000, text: 'B' },
+        { id: 'c', startMs: 1990, endMs: 3000, text: 'C' },
+      ],
+      '25',
+      '25',
+    );
+    expect(issues.map((issue) => [issue.captionId, issue.message])).toEqual([
+      ['a', '길이가 30ms라 25fps 한 프레임(40.0ms)보다 짧아요.'],
+      ['c', '앞 자막과 10ms 겹쳐요.'],
+    ]);
+  });
+});
+
+describe('getUnshiftedEventKey', () => {
+  it('maps Shift-modified keys back to the key on the same physical key', () => {
+    expect(getUnshiftedEventKey({ key: '{', code: 'BracketLeft' })).toBe('[');
+    expect(getUnshiftedEventKey({ key: '}', code: 'BracketRight' })).toBe(']');
+    expect(getUnshiftedEventKey({ key: 'S', code: 'KeyS' })).toBe('s');
+    expect(getUnshiftedEventKey({ key: '!', code: 'Digit1' })).toBe('1');
+    expect(getUnshiftedEventKey({ key: 'Enter', code: 'Enter' })).toBe('Enter');
+  });
+});
+
+describe('getSmartSnapBypassField', () => {
+  const hotkeys = { setStart: '[', setEnd: ']' };
+
+  function keydown(target: EventTarget, init: KeyboardEventInit) {
+    const event = new KeyboardEvent('keydown', { bubbles: true, cancelable: true, ...init });
+    let field: ReturnType<typeof getSmartSnapBypassField> = null;
+    // 페이지 핸들러처럼 스냅을 건너뛸 필드가 있을 때만 기본 동작을 막는다.
+    target.addEventListener(
+      'keydown',
+      (current) => {
+        field = getSmartSnapBypassField(current as KeyboardEvent, hotkeys);
+        if (field) current.preventDefault();
+      },
+      { once: true },
+    );
+    target.dispatchEvent(event);
+    return { field, defaultPrevented: event.defaultPrevented };
+  }
+
+  it('retimes without snapping for Shift+set keys outside text fields', () => {
+    expect(keydown(document.body, { key: '{', code: 'BracketLeft', shiftKey: true })).toEqual({
+      field: 'startMs',
+      defaultPrevented: true,
+    });
+    expect(keydown(document.body, { key: '}', code: 'BracketRight', shiftKey: true }).field).toBe('endMs');
+    expect(keydown(document.body, { key: '[', code: 'BracketLeft' }).field).toBeNull();
+  });
+
+  it('leaves Shift-typed characters alone in caption textareas and inputs', () => {
+    const textarea = document.createElement('textarea');
+    const input = document.createElement('input');
+    document.body.append(textarea, input);
+
+    expect(keydown(textarea, { key: '{', code: 'BracketLeft', shiftKey: true })).toEqual({
+      field: null,
+      defaultPrevented: false,
+    });
+    expect(keydown(input, { key: '}', code: 'BracketRight', shiftKey: true })).toEqual({
+      field: null,
+      defaultPrevented: false,
+    });
+    expect(
+      getSmartSnapBypassField({ key: 'S', code: 'KeyS', shiftKey: true, target: textarea }, { setStart: 's', setEnd: 'e' }),
+    ).toBeNull();
+    textarea.remove();
+    input.remove();
+  });
+});
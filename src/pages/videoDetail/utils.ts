@@ -1,6 +1,28 @@
-import { DEFAULT_HOTKEYS } from './constants';
+import { DEFAULT_SPEECH_DETECTION_OPTIONS } from '@/lib/speechSegments';
+import type { SpeechDetectionOptions } from '@/lib/speechSegments';
 
-import type { Caption, HotkeyConfig, Video } from './types';
+import {
+  CAPTION_FRAME_RATE_FPS,
+  DEFAULT_CAPTION_HISTORY_DEPTH,
+  DEFAULT_CAPTION_LINE_BREAK_SETTINGS,
+  DEFAULT_CAPTION_SMART_SNAP_SETTINGS,
+  DEFAULT_HOTKEYS,
+  DEFAULT_WAVEFORM_VIEW_SETTINGS,
+  MAX_CAPTION_HISTORY_DEPTH,
+} from './constants';
+
+import type {
+  Caption,
+  CaptionFrameRateConversion,
+  CaptionFrameRateConversionMode,
+  CaptionFrameRateId,
+  CaptionFrameRateIssue,
+  CaptionLineBreakSettings,
+  CaptionSmartSnapSettings,
+  HotkeyConfig,
+  Video,
+  WaveformViewSettings,
+} from './types';
 
 export function normalizeEventKey(key: string) {
   // 일부 구형/특정 환경 대응
@@ -8,6 +30,71 @@ export function normalizeEventKey(key: string) {
   return key;
 }
 
+// Shift로 바뀌기 전의 키(표준 US 배열 기준). Shift+단축키 조합을 원래 단축키로 알아보는 데 쓴다.
+const UNSHIFTED_CODE_KEYS: Record<string, string> = {
+  Backquote: '`',
+  Minus: '-',
+  Equal: '=',
+  BracketLeft: '[',
+  BracketRight: ']',
+  Backslash: '\\',
+  Semicolon: ';',
+  Quote: "'",
+  Comma: ',',
+  Period: '.',
+  Slash: '/',
+  Space: ' ',
+};
+
+export function getUnshiftedEventKey(event: Pick<KeyboardEvent, 'key' | 'code'>) {
+  if (/^Key[A-Z]$/.test(event.code)) return event.code.slice(3).toLowerCase();
+  if (/^Digit[0-9]$/.test(event.code)) return event.code.slice(5);
+  return UNSHIFTED_CODE_KEYS[event.code] ?? normalizeEventKey(event.key);
+}
+
+// 글자를 입력하거나 누르는 요소. 여기서는 단축키로 잡은 키만 가로챈다.
+export function isHotkeyTypingTarget(target: EventTarget | null) {
+  if (!(target instanceof HTMLElement)) return false;
+  return (
+    target.tagName === 'INPUT' ||
+    target.tagName === 'TEXTAREA' ||
+    target.tagName === 'SELECT' ||
+    target.tagName === 'BUTTON' ||
+    target.tagName === 'A' ||
+    target.isContentEditable
+  );
+}
+
+// Shift를 누른 채 시작/종료 설정 단축키를 누르면 그 한 번은 스마트 스냅을 건너뛴다.
+// 입력칸에서 Shift 조합은 그냥 글자({, 대문자 등)이므로 가로채지 않는다.
+export function getSmartSnapBypassField(
+  event: Pick<KeyboardEvent, 'key' | 'code' | 'shiftKey' | 'target'>,
+  hotkeys: Pick<HotkeyConfig, 'setStart' | 'setEnd'>,
+): 'startMs' | 'endMs' | null {
+  if (!event.shiftKey || isHotkeyTypingTarget(event.target)) return null;
+  const unshiftedKey = getUnshiftedEventKey(event);
+  if (unshiftedKey === normalizeEventKey(event.key)) return null;
+  if (unshiftedKey === hotkeys.setStart) return 'startMs';
+  if (unshiftedKey === hotkeys.setEnd) return 'endMs';
+  return null;
+}
+
+// data-hotkeys="off"인 입력칸(검색창 등)은 편집 단축키를 가로채지 않는다.
+export function isHotkeyOffTarget(target: EventTarget | null) {
+  return target instanceof HTMLElement && target.dataset.hotkeys === 'off';
+}
+
+// 자막 편집 기록 단축키(Ctrl/Cmd+Z)는 자막 입력칸(data-caption-field)과 입력칸이 아닌 곳에서만 받는다.
+// 나머지 입력칸은 브라우저 기본 실행 취소를 그대로 쓴다.
+const NON_TEXT_INPUT_TYPES = new Set(['checkbox', 'radio', 'button', 'submit', 'reset', 'file', 'range', 'color']);
+
+export function isCaptionHistoryHotkeyTarget(target: EventTarget | null) {
+  if (!(target instanceof HTMLElement)) return true;
+  if (target.dataset.captionField === 'true') return true;
+  if (target instanceof HTMLInputElement) return NON_TEXT_INPUT_TYPES.has(target.type);
+  return !(target.tagName === 'TEXTAREA' || target.isContentEditable);
+}
+
 const INVALID_HOTKEY_KEYS = new Set([
   'Shift',
   'Control',
@@ -106,6 +193,63 @@ export function parseCaptionGapMs(raw: unknown) {
   return Math.max(0, Math.round(parsed));
 }
 
+export function parseCaptionHistoryDepth(raw: unknown) {
+  const parsed = typeof raw === 'string' ? Number(raw) : Number.NaN;
+  if (!Number.isFinite(parsed)) return DEFAULT_CAPTION_HISTORY_DEPTH;
+  return Math.min(MAX_CAPTION_HISTORY_DEPTH, Math.max(1, Math.round(parsed)));
+}
+
+export function sanitizeCaptionLineBreakSettings(value: unknown): CaptionLineBreakSettings {
+  if (!value || typeof value !== 'object') return { ...DEFAULT_CAPTION_LINE_BREAK_SETTINGS };
+  const parsed = value as Record<keyof CaptionLineBreakSettings, unknown>;
+  return {
+    wrapOnConfirm:
+      typeof parsed.wrapOnConfirm === 'boolean'
+        ? parsed.wrapOnConfirm
+        : DEFAULT_CAPTION_LINE_BREAK_SETTINGS.wrapOnConfirm,
+    wrapOnExport:
+      typeof parsed.wrapOnExport === 'boolean' ? parsed.wrapOnExport : DEFAULT_CAPTION_LINE_BREAK_SETTINGS.wrapOnExport,
+  };
+}
+
+function clampOption(value: unknown, min: number, max: number, fallback: number) {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return fallback;
+  return Math.min(max, Math.max(min, Math.round(value)));
+}
+
+export function sanitizeSpeechDetectionOptions(value: unknown): SpeechDetectionOptions {
+  if (!value || typeof value !== 'object') return { ...DEFAULT_SPEECH_DETECTION_OPTIONS };
+  const parsed = value as Record<keyof SpeechDetectionOptions, unknown>;
+  const defaults = DEFAULT_SPEECH_DETECTION_OPTIONS;
+  return {
+    thresholdDb: clampOption(parsed.thresholdDb, -80, 0, defaults.thresholdDb),
+    minSilenceMs: clampOption(parsed.minSilenceMs, 0, 5000, defaults.minSilenceMs),
+    paddingMs: clampOption(parsed.paddingMs, 0, 2000, defaults.paddingMs),
+    minSpeechMs: clampOption(parsed.minSpeechMs, 0, 5000, defaults.minSpeechMs),
+  };
+}
+
+export function sanitizeCaptionSmartSnapSettings(value: unknown): CaptionSmartSnapSettings {
+  if (!value || typeof value !== 'object') return { ...DEFAULT_CAPTION_SMART_SNAP_SETTINGS };
+  const parsed = value as Record<keyof CaptionSmartSnapSettings, unknown>;
+  return {
+    enabled: typeof parsed.enabled === 'boolean' ? parsed.enabled : DEFAULT_CAPTION_SMART_SNAP_SETTINGS.enabled,
+    windowMs: clampOption(parsed.windowMs, 50, 2000, DEFAULT_CAPTION_SMART_SNAP_SETTINGS.windowMs),
+  };
+}
+
+export function sanitizeWaveformViewSettings(value: unknown): WaveformViewSettings {
+  if (!value || typeof value !== 'object') return { ...DEFAULT_WAVEFORM_VIEW_SETTINGS };
+  const parsed = value as Record<keyof WaveformViewSettings, unknown>;
+  return {
+    mode: parsed.mode === 'spectrogram' || parsed.mode === 'waveform' ? parsed.mode : DEFAULT_WAVEFORM_VIEW_SETTINGS.mode,
+    spectrogramScale:
+      parsed.spectrogramScale === 'mel' || parsed.spectrogramScale === 'linear'
+        ? parsed.spectrogramScale
+        : DEFAULT_WAVEFORM_VIEW_SETTINGS.spectrogramScale,
+  };
+}
+
 export function sanitizeForFileName(text: string, fallback: string) {
   const safe = text.replace(/[^a-zA-Z0-9-_]+/g, '_').replace(/_+/g, '_').replace(/^_+|_+$/g, '');
   return safe || fallback;
@@ -144,3 +288,75 @@ export function autoAlignCaptions(captions: Caption[], gapMs: number) {
     return { ...caption, startMs, endMs };
   });
 }
+
+// 저장된 fps 값이 표의 어느 항목인지 찾는다. 표에 없는 값이면 null
+export function findCaptionFrameRateId(frameRate: number): CaptionFrameRateId | null {
+  const ids = Object.keys(CAPTION_FRAME_RATE_FPS) as CaptionFrameRateId[];
+  return ids.find((id) => Math.abs(CAPTION_FRAME_RATE_FPS[id] - frameRate) < 0.001) ?? null;
+}
+
+// 필름 계열(23.976/24/25)끼리는 보통 프레임을 그대로 두고 속도를 바꾼다.
+// 29.97이 끼면 풀다운이나 표준 변환이라 재생 시간이 그대로다.
+const SPEED_CHANGE_FRAME_RATES = new Set<CaptionFrameRateId>(['23.976', '24', '25']);
+
+export function getDefaultFrameRateConversionMode(
+  source: CaptionFrameRateId,
+  target: CaptionFrameRateId,
+): CaptionFrameRateConversionMode {
+  return SPEED_CHANGE_FRAME_RATES.has(source) && SPEED_CHANGE_FRAME_RATES.has(target) ? 'speed' : 'keep-duration';
+}
+
+// speed는 같은 프레임 번호가 다른 fps에서 재생되는 시각으로 옮기고(예: 23.976fps 원본을 25fps PAL 판으로),
+// keep-duration은 시각을 그대로 두고 대상 프레임에만 맞춘다(예: 23.976fps를 3:2 풀다운한 29.97fps 판).
+export function convertCaptionFrameRate(
+  captions: Caption[],
+  source: CaptionFrameRateId,
+  target: CaptionFrameRateId,
+  {
+    mode = getDefaultFrameRateConversionMode(source, target),
+    snapToFrames = false,
+  }: { mode?: CaptionFrameRateConversionMode; snapToFrames?: boolean } = {},
+): CaptionFrameRateConversion {
+  const sourceFps = CAPTION_FRAME_RATE_FPS[source];
+  const targetFps = CAPTION_FRAME_RATE_FPS[target];
+  const frameMs = 1000 / targetFps;
+  const ratio = mode === 'speed' ? sourceFps / targetFps : 1;
+  const convert = (ms: number) => {
+    if (!Number.isFinite(ms)) return ms;
+    const scaled = ms * ratio;
+    return Math.round(snapToFrames ? Math.round(scaled / frameMs) * frameMs : scaled);
+  };
+
+  const converted = sortCaptions(
+    captions.map((caption) => ({
+      ...caption,
+      startMs: convert(caption.startMs),
+      endMs: convert(caption.endMs),
+    })),
+  );
+
+  const issues: CaptionFrameRateIssue[] = [];
+  let prev: Caption | null = null;
+  for (const caption of converted) {
+    if (!Number.isFinite(caption.startMs) || !Number.isFinite(caption.endMs)) continue;
+
+    const durationMs = caption.endMs - caption.startMs;
+    if (durationMs < frameMs) {
+      issues.push({
+        captionId: caption.id,
+        startMs: caption.startMs,
+        message: `길이가 ${durationMs}ms라 ${target}fps 한 프레임(${frameMs.toFixed(1)}ms)보다 짧아요.`,
+      });
+    }
+    if (prev && caption.startMs < prev.endMs) {
+      issues.push({
+        captionId: caption.id,
+        startMs: caption.startMs,
+        message: `앞 자막과 ${prev.endMs - caption.startMs}ms 겹쳐요.`,
+      });
+    }
+    prev = caption;
+  }
+
+  return { captions: converted, issues };
+}
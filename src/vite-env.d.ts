@@ -1,6 +1,7 @@
 interface ImportMetaEnv {
   readonly VITE_API_BASE_URL?: string;
   readonly VITE_DATASOURCE?: string;
+  readonly VITE_APP_VERSION?: string;
 }
 
 interface ImportMeta {
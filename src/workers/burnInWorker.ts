@@ -6,7 +6,7 @@ export type BurnInWorkerRequest = {
   type: 'burn-in';
   requestId: number;
   videoData: ArrayBuffer;
-  srtText: string;
+  assText: string;
   fontUrl: string;
 };
 
@@ -82,7 +82,7 @@ ctx.addEventListener('message', async (event: MessageEvent<BurnInWorkerRequest>)
   const message = event.data;
   if (!message || message.type !== 'burn-in') return;
 
-  const { requestId, videoData, srtText, fontUrl } = message;
+  const { requestId, videoData, assText, fontUrl } = message;
 
   const progressHandler = ({ progress }: { progress?: number }) => {
     if (typeof progress === 'number') {
@@ -103,13 +103,13 @@ ctx.addEventListener('message', async (event: MessageEvent<BurnInWorkerRequest>)
     ffmpeg.on('log', logHandler);
 
     const inputFile = `input_${requestId}.mp4`;
-    const subtitleFile = `captions_${requestId}.srt`;
+    const subtitleFile = `captions_${requestId}.ass`;
     const fontFile = 'NotoSansKR-Regular.ttf';
     const outputFile = `output_${requestId}.mp4`;
 
     // 입력 파일 기록
     await ffmpeg.writeFile(inputFile, new Uint8Array(videoData));
-    await ffmpeg.writeFile(subtitleFile, srtText);
+    await ffmpeg.writeFile(subtitleFile, assText);
 
     // 폰트(선택): 실패해도 계속 진행(단, 한글은 깨질 수 있음)
     let hasFont = false;
@@ -128,13 +128,9 @@ ctx.addEventListener('message', async (event: MessageEvent<BurnInWorkerRequest>)
       hasFont = false;
     }
 
-    // subtitles 필터
-    // force_style 내부에 콤마(,)가 있으므로 반드시 따옴표로 감싸야 함.
-    const style = hasFont
-      ? 'FontName=Noto Sans KR,OutlineColour=&H22000000,BorderStyle=1,Shadow=0,BackColour=&H22000000,MarginV=32'
-      : 'OutlineColour=&H22000000,BorderStyle=1,Shadow=0,BackColour=&H22000000,MarginV=32';
-
-    const filter = `subtitles=${subtitleFile}:fontsdir=.:force_style='${style}'`;
+    // ass 필터: 스타일/해상도는 ASS 파일([V4+ Styles], PlayResX/Y)에 들어 있다.
+    // 폰트를 못 불러오면 libass가 기본 폰트로 대체한다.
+    const filter = `ass=${subtitleFile}:fontsdir=.`;
 
     const runEncode = async (videoCodecArgs: string[]) => {
       await ffmpeg.exec([
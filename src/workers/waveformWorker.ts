@@ -1,15 +1,36 @@
 /// <reference lib="webworker" />
 
+import { computeSpectrogram } from '@/lib/spectrogram';
+import type { SpectrogramOptions, SpectrogramScale } from '@/lib/spectrogram';
+import { computeEnergyEnvelope, detectSpeechSegments } from '@/lib/speechSegments';
+import type { SpeechDetectionOptions, SpeechSegment } from '@/lib/speechSegments';
+
 export type WaveformWorkerRequest =
   | {
       type: 'load-samples';
       requestId: number;
       samples: ArrayBuffer;
+      sampleRate: number;
     }
   | {
       type: 'compute-peaks';
       requestId: number;
       bucketCount: number;
+    }
+  | {
+      type: 'detect-speech-segments';
+      requestId: number;
+      options: SpeechDetectionOptions;
+    }
+  | {
+      type: 'compute-energy-envelope';
+      requestId: number;
+      frameMs: number;
+    }
+  | {
+      type: 'compute-spectrogram';
+      requestId: number;
+      options: SpectrogramOptions;
     };
 
 export type WaveformWorkerResponse =
@@ -26,6 +47,28 @@ export type WaveformWorkerResponse =
       impl: 'wasm' | 'js';
       durationMs: number;
     }
+  | {
+      type: 'speech-segments-ready';
+      requestId: number;
+      segments: SpeechSegment[];
+    }
+  | {
+      type: 'energy-envelope-ready';
+      requestId: number;
+      // 프레임마다 dBFS 값을 담은 Float32Array 버퍼
+      envelope: ArrayBuffer;
+      frameMs: number;
+    }
+  | {
+      type: 'spectrogram-ready';
+      requestId: number;
+      // columnCount * binCount 크기의 Uint8Array 버퍼
+      data: ArrayBuffer;
+      columnCount: number;
+      binCount: number;
+      scale: SpectrogramScale;
+      durationMs: number;
+    }
   | {
       type: 'error';
       requestId: number;
@@ -35,6 +78,7 @@ export type WaveformWorkerResponse =
 const ctx: DedicatedWorkerGlobalScope = self as unknown as DedicatedWorkerGlobalScope;
 
 let samplesRef: Float32Array | null = null;
+let sampleRateRef = 0;
 let wasmModulePromise: Promise<WebAssembly.Instance | null> | null = null;
 let wasmHeapBase = 0;
 
@@ -177,6 +221,7 @@ ctx.addEventListener('message', (event: MessageEvent<WaveformWorkerRequest>) =>
 
   if (message.type === 'load-samples') {
     samplesRef = new Float32Array(message.samples);
+    sampleRateRef = message.sampleRate;
     ctx.postMessage({ type: 'samples-loaded', requestId: message.requestId, sampleCount: samplesRef.length });
     return;
   }
@@ -185,4 +230,49 @@ ctx.addEventListener('message', (event: MessageEvent<WaveformWorkerRequest>) =>
     void handleCompute(message);
     return;
   }
+
+  if (message.type === 'detect-speech-segments') {
+    if (!samplesRef) {
+      ctx.postMessage({ type: 'error', requestId: message.requestId, message: 'no-samples' });
+      return;
+    }
+    const segments = detectSpeechSegments(samplesRef, sampleRateRef, message.options);
+    ctx.postMessage({ type: 'speech-segments-ready', requestId: message.requestId, segments });
+    return;
+  }
+
+  if (message.type === 'compute-energy-envelope') {
+    if (!samplesRef) {
+      ctx.postMessage({ type: 'error', requestId: message.requestId, message: 'no-samples' });
+      return;
+    }
+    const { envelope, frameMs } = computeEnergyEnvelope(samplesRef, sampleRateRef, message.frameMs);
+    ctx.postMessage(
+      { type: 'energy-envelope-ready', requestId: message.requestId, envelope: envelope.buffer, frameMs },
+      [envelope.buffer],
+    );
+    return;
+  }
+
+  if (message.type === 'compute-spectrogram') {
+    if (!samplesRef) {
+      ctx.postMessage({ type: 'error', requestId: message.requestId, message: 'no-samples' });
+      return;
+    }
+    const start = performance.now();
+    const data = computeSpectrogram(samplesRef, sampleRateRef, message.options);
+    ctx.postMessage(
+      {
+        type: 'spectrogram-ready',
+        requestId: message.requestId,
+        data: data.buffer,
+        columnCount: message.options.columnCount,
+        binCount: message.options.binCount,
+        scale: message.options.scale,
+        durationMs: performance.now() - start,
+      },
+      [data.buffer],
+    );
+    return;
+  }
 });
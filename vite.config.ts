@@ -1,10 +1,19 @@
+import { readFileSync } from 'node:fs';
 import { fileURLToPath, URL } from 'node:url';
 
 import react from '@vitejs/plugin-react';
 import { defineConfig } from 'vite';
 
+const packageJson = JSON.parse(readFileSync(new URL('./package.json', import.meta.url), 'utf-8')) as {
+  version?: string;
+};
+
 export default defineConfig({
   plugins: [react()],
+  // 자막 JSON 문서에 어느 버전에서 내보냈는지 남긴다.
+  define: {
+    'import.meta.env.VITE_APP_VERSION': JSON.stringify(packageJson.version ?? ''),
+  },
   resolve: {
     alias: {
       '@': fileURLToPath(new URL('./src', import.meta.url)),